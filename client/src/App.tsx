@@ -1,11 +1,15 @@
 import { Switch, Route, useLocation, Redirect } from "wouter";
 import { Sidebar } from "@/components/sidebar";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 
 // Pages
 import Login from "@/pages/login";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import DevMail from "@/pages/dev-mail";
 import Dashboard from "@/pages/dashboard";
 import Students from "@/pages/students/index";
 import StudentDetail from "@/pages/students/[id]";
@@ -13,16 +17,23 @@ import Faculty from "@/pages/faculty/index";
 import FacultyDetail from "@/pages/faculty/[id]";
 import Courses from "@/pages/courses/index";
 import CourseDetail from "@/pages/courses/[id]";
+import Terms from "@/pages/terms";
+import Rooms from "@/pages/rooms";
+import Registration from "@/pages/registration";
 import Attendance from "@/pages/attendance/index";
 import Grades from "@/pages/grades/index";
+import GradeScales from "@/pages/grade-scales";
 import Reports from "@/pages/reports";
+import AuditLog from "@/pages/audit-log";
+import Trash from "@/pages/trash";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
 // Route Guard for authenticated routes
-const PrivateRoute = ({ component: Component, roles = [], ...rest }: any) => {
-  const { user, isAuthenticated, isLoading } = useAuth();
-  const [, setLocation] = useLocation();
+// Pages listing permissions are shown when the user's role grants any of them
+const PrivateRoute = ({ component: Component, permissions = [], ...rest }: any) => {
+  const { user, isAuthenticated, isLoading, can } = useAuth();
+  const [location, setLocation] = useLocation();
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -38,7 +49,12 @@ const PrivateRoute = ({ component: Component, roles = [], ...rest }: any) => {
     return null;
   }
 
-  if (roles.length > 0 && !roles.includes(user?.role)) {
+  // Until two-factor enrollment is done the only page available is settings, where it happens
+  if (user?.twoFactorEnrollmentRequired && location !== "/settings") {
+    return <Redirect to="/settings" />;
+  }
+
+  if (permissions.length > 0 && !can(...permissions)) {
     return <Redirect to="/dashboard" />;
   }
 
@@ -49,6 +65,9 @@ function AppRoutes() {
   return (
     <Switch>
       <Route path="/login" component={Login} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      {import.meta.env.DEV && <Route path="/dev/mail" component={DevMail} />}
       
       {/* Dashboard */}
       <Route path="/dashboard">
@@ -57,18 +76,18 @@ function AppRoutes() {
       
       {/* Students */}
       <Route path="/students">
-        <PrivateRoute component={Students} roles={["admin", "faculty"]} />
+        <PrivateRoute component={Students} permissions={["students:read:any", "students:read:own-course"]} />
       </Route>
       <Route path="/students/:id">
-        {(params) => <PrivateRoute component={StudentDetail} roles={["admin", "faculty"]} id={params.id} />}
+        {(params) => <PrivateRoute component={StudentDetail} permissions={["students:read:any", "students:read:own-course"]} id={params.id} />}
       </Route>
       
       {/* Faculty */}
       <Route path="/faculty">
-        <PrivateRoute component={Faculty} roles={["admin"]} />
+        <PrivateRoute component={Faculty} permissions={["faculty:write:any"]} />
       </Route>
       <Route path="/faculty/:id">
-        {(params) => <PrivateRoute component={FacultyDetail} roles={["admin"]} id={params.id} />}
+        {(params) => <PrivateRoute component={FacultyDetail} permissions={["faculty:write:any"]} id={params.id} />}
       </Route>
       
       {/* Courses */}
@@ -79,6 +98,21 @@ function AppRoutes() {
         {(params) => <PrivateRoute component={CourseDetail} id={params.id} />}
       </Route>
       
+      {/* Terms */}
+      <Route path="/terms">
+        <PrivateRoute component={Terms} permissions={["terms:read:any"]} />
+      </Route>
+      
+      {/* Student self-service registration */}
+      <Route path="/registration">
+        <PrivateRoute component={Registration} permissions={["enrollments:write:self"]} />
+      </Route>
+      
+      {/* Rooms */}
+      <Route path="/rooms">
+        <PrivateRoute component={Rooms} permissions={["rooms:read:any"]} />
+      </Route>
+      
       {/* Attendance */}
       <Route path="/attendance">
         <PrivateRoute component={Attendance} />
@@ -89,9 +123,24 @@ function AppRoutes() {
         <PrivateRoute component={Grades} />
       </Route>
       
+      {/* Grading scales */}
+      <Route path="/grade-scales">
+        <PrivateRoute component={GradeScales} permissions={["grade-scales:read:any"]} />
+      </Route>
+      
       {/* Reports */}
       <Route path="/reports">
-        <PrivateRoute component={Reports} roles={["admin"]} />
+        <PrivateRoute component={Reports} permissions={["reports:read:any"]} />
+      </Route>
+      
+      {/* Audit log */}
+      <Route path="/audit-log">
+        <PrivateRoute component={AuditLog} permissions={["audit:read:any"]} />
+      </Route>
+      
+      {/* Trash */}
+      <Route path="/trash">
+        <PrivateRoute component={Trash} permissions={["trash:write:any"]} />
       </Route>
       
       {/* Settings */}
@@ -110,12 +159,15 @@ function AppRoutes() {
   );
 }
 
+// Pages reachable without signing in
+const PUBLIC_PAGES = ["/login", "/forgot-password", "/reset-password", "/dev/mail"];
+
 function App() {
   const { isAuthenticated } = useAuth();
   const [location] = useLocation();
   
-  // Don't show sidebar on login page
-  const showSidebar = isAuthenticated && location !== "/login";
+  // Don't show sidebar on the sign-in pages
+  const showSidebar = isAuthenticated && !PUBLIC_PAGES.includes(location);
 
   return (
     <TooltipProvider>
@@ -124,6 +176,7 @@ function App() {
         <div className="flex-1 overflow-y-auto pt-0 md:pt-0">
           {/* Mobile nav space filler */}
           <div className="h-16 md:hidden"></div>
+          {showSidebar && <ImpersonationBanner />}
           <main className="fade-in">
             <AppRoutes />
           </main>
@@ -89,7 +89,7 @@ export function AttendanceForm({ onSuccess }: AttendanceFormProps) {
     if (selectedCourseAssignment) {
       const fetchEnrollments = async () => {
         try {
-          const response = await apiRequest("GET", `/api/enrollments/course/${selectedCourseAssignment}`);
+          const response = await apiRequest("GET", `/api/enrollments/course/${selectedCourseAssignment}?status=enrolled`);
           const enrollmentsData = await response.json();
           setEnrollments(enrollmentsData);
         } catch (error) {
@@ -130,12 +130,9 @@ export function AttendanceForm({ onSuccess }: AttendanceFormProps) {
 
   const createAttendanceMutation = useMutation({
     mutationFn: async (records: any[]) => {
-      return Promise.all(
-        records.map((record) => 
-          apiRequest("POST", "/api/attendance", record)
-            .then(res => res.json())
-        )
-      );
+      // Saved as one batch so a failure never leaves part of the class recorded
+      const response = await apiRequest("POST", "/api/attendance/bulk", { records });
+      return response.json();
     },
   });
 
@@ -202,7 +199,7 @@ export function AttendanceForm({ onSuccess }: AttendanceFormProps) {
                     <SelectContent>
                       {courseAssignments?.map((assignment: any) => (
                         <SelectItem key={assignment.id} value={assignment.id.toString()}>
-                          {assignment.course?.title || `Course ID: ${assignment.courseId}`} - {assignment.semester} {assignment.year}
+                          {assignment.course?.title || `Course ID: ${assignment.courseId}`} - {assignment.term?.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -0,0 +1,153 @@
+import { useQueries } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface AuditEntryInfo {
+  id: number;
+  entityType: string;
+  entityId: string;
+  // "override" records the reason a check was waived for the record. Impersonation entries record the
+  // session starting, ending or expiring, and each request made during it.
+  action: "create" | "update" | "delete" | "override" | "started" | "ended" | "expired" | "action";
+  actorId: number | null;
+  actorName: string;
+  impersonatorId: number | null;
+  impersonatorName: string | null;
+  ip: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  user: "User",
+  student: "Student",
+  faculty: "Faculty",
+  course: "Course",
+  gradeScale: "Grading scale",
+  courseRequisite: "Course requisite",
+  requisiteWaiver: "Requisite waiver",
+  term: "Term",
+  courseAssignment: "Course assignment",
+  room: "Room",
+  sectionMeeting: "Section meeting",
+  enrollment: "Enrollment",
+  attendance: "Attendance",
+  grade: "Grade",
+  event: "Event",
+  setting: "Setting",
+  passwordResetToken: "Password reset token",
+  apiToken: "API token",
+  impersonation: "Impersonation",
+};
+
+const ACTION_STYLES: Record<AuditEntryInfo["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  override: "bg-amber-100 text-amber-800",
+  started: "bg-purple-100 text-purple-800",
+  ended: "bg-neutral-100 text-neutral-800",
+  expired: "bg-neutral-100 text-neutral-800",
+  action: "bg-purple-100 text-purple-800",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function AuditActionBadge({ action }: { action: AuditEntryInfo["action"] }) {
+  return <Badge className={cn("capitalize", ACTION_STYLES[action])}>{action}</Badge>;
+}
+
+// Who made the change, including the admin behind it when they were viewing as the user
+export function AuditActor({ entry }: { entry: AuditEntryInfo }) {
+  return (
+    <div>
+      <div className="font-medium">{entry.actorName}</div>
+      {entry.impersonatorName && (
+        <div className="text-xs text-neutral-500">via {entry.impersonatorName}</div>
+      )}
+      {entry.ip && <div className="text-xs text-neutral-400 font-mono">{entry.ip}</div>}
+    </div>
+  );
+}
+
+// Field-by-field before/after values of one entry
+export function AuditChangeList({ entry }: { entry: AuditEntryInfo }) {
+  const fields = Object.entries(entry.changes);
+  if (fields.length === 0) {
+    return <span className="text-neutral-500">No field values recorded</span>;
+  }
+
+  return (
+    <dl className="space-y-1 text-sm">
+      {fields.map(([field, { from, to }]) => (
+        <div key={field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium">{field}:</dt>
+          <dd className="break-all">
+            {(entry.action === "update" || entry.action === "delete") && <span className="text-red-700 line-through">{formatValue(from)}</span>}
+            {entry.action === "update" && <span className="mx-1 text-neutral-400">→</span>}
+            {entry.action !== "delete" && <span className="text-green-700">{formatValue(to)}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// Change history of one or more records (e.g. a student profile and its user account), newest first
+export function RecordHistory({ records }: { records: { entityType: string; entityId: number | string }[] }) {
+  const results = useQueries({
+    queries: records.map((record) => ({
+      queryKey: ["/api/audit", record.entityType, String(record.entityId)],
+      queryFn: async () => {
+        const params = new URLSearchParams({ entityType: record.entityType, entityId: String(record.entityId) });
+        const response = await apiRequest("GET", `/api/audit?${params}`);
+        return response.json();
+      },
+      // Refetched whenever the tab opens, so edits made on the page show up
+      staleTime: 0,
+    })),
+  });
+
+  if (results.some((result) => result.isLoading)) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const entries = results
+    .flatMap((result) => (result.data as AuditEntryInfo[] | undefined) ?? [])
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  if (entries.length === 0) {
+    return <div className="text-center py-8 text-neutral-500">No changes recorded</div>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="border-l-2 border-neutral-200 pl-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <AuditActionBadge action={entry.action} />
+            <span className="text-neutral-500">{AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType}</span>
+            <span className="text-neutral-500">{format(new Date(entry.createdAt), "PPp")}</span>
+            <span>
+              by <strong>{entry.actorName}</strong>
+              {entry.impersonatorName && <span className="text-neutral-500"> (via {entry.impersonatorName})</span>}
+            </span>
+          </div>
+          <div className="mt-2">
+            <AuditChangeList entry={entry} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "wouter";
+import { z } from "zod";
+import { passwordResetRequestSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound, Loader2, MailCheck } from "lucide-react";
+
+type ForgotPasswordValues = z.infer<typeof passwordResetRequestSchema>;
+
+export function ForgotPasswordForm() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(data: ForgotPasswordValues) {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/password-reset/request", data);
+      setSent(true);
+    } catch (error) {
+      console.error("Password reset request error:", error);
+      toast({
+        title: "Request failed",
+        description: "Could not request a password reset. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          <div className="rounded-full bg-primary-100 p-3">
+            {sent ? (
+              <MailCheck className="h-8 w-8 text-primary-600" />
+            ) : (
+              <KeyRound className="h-8 w-8 text-primary-600" />
+            )}
+          </div>
+        </div>
+        <CardTitle className="text-2xl font-heading">{sent ? "Check your email" : "Forgot Password"}</CardTitle>
+        <CardDescription>
+          {sent
+            ? `If an account uses ${form.getValues("email")}, we have sent it a link to reset the password.`
+            : "Enter the email address of your account and we will send you a reset link"}
+        </CardDescription>
+      </CardHeader>
+      {!sent && (
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="you@college.edu" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send Reset Link"
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      )}
+      <CardFooter className="justify-center text-sm">
+        <Link href="/login" className="text-primary-600 hover:underline">
+          Back to login
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { loginSchema, type LoginCredentials } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
@@ -13,14 +14,61 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/hooks/use-auth";
-import { GraduationCap, Loader2 } from "lucide-react";
+import { AlertTriangle, GraduationCap, Loader2, LogIn, ShieldCheck } from "lucide-react";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 
+// The API answers with a JSON body; show its message rather than the raw text
+function errorBody(error: any): { message?: string; code?: string } {
+  try {
+    return JSON.parse(error.message);
+  } catch {
+    return {};
+  }
+}
+
+function errorMessage(error: any, fallback: string) {
+  return errorBody(error).message || fallback;
+}
+
+function errorTitle(error: any) {
+  return error?.status === 423 ? "Account locked" : error?.status === 429 ? "Too many attempts" : "Login failed";
+}
+
+// Reasons the server gives (as ?sso_error=) when a single sign-on attempt is refused
+const SSO_ERRORS: Record<string, string> = {
+  denied: "Sign-in was cancelled at the identity provider.",
+  expired: "The sign-in took too long or was started in another tab. Please try again.",
+  no_email: "The identity provider did not share your email address.",
+  email_unverified: "Your email address is not verified at the identity provider.",
+  ambiguous_email: "More than one account uses your email address. Please contact an administrator.",
+  no_account: "There is no account for your email address. Please contact an administrator.",
+  no_role: "Your groups at the identity provider do not give you access to this app.",
+  account_inactive: "Your account has been deactivated. Please contact an administrator.",
+};
+
+interface SsoConfig {
+  enabled: boolean;
+  providerName: string;
+}
+
 export function LoginForm() {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  // Second step, shown once the password has been accepted for an account with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [ssoError] = useState(() => new URLSearchParams(window.location.search).get("sso_error"));
+
+  const { data: sso } = useQuery<SsoConfig>({
+    queryKey: ["/api/auth/oidc"],
+  });
 
   const form = useForm<LoginCredentials>({
     resolver: zodResolver(loginSchema),
@@ -33,16 +81,20 @@ export function LoginForm() {
   async function onSubmit(data: LoginCredentials) {
     setIsLoading(true);
     try {
-      await login(data);
+      const result = await login(data);
+      if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       toast({
         title: "Login successful",
         description: "Welcome to the College Management System",
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Login error:", error);
       toast({
-        title: "Login failed",
-        description: error instanceof Error ? error.message : "Invalid username or password",
+        title: errorTitle(error),
+        description: errorMessage(error, "Invalid username or password"),
         variant: "destructive",
       });
     } finally {
@@ -50,6 +102,108 @@ export function LoginForm() {
     }
   }
 
+  async function onVerify(event: React.FormEvent) {
+    event.preventDefault();
+    if (!code.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code });
+      toast({
+        title: "Login successful",
+        description: "Welcome to the College Management System",
+      });
+    } catch (error: any) {
+      console.error("Two-factor verification error:", error);
+      setCode("");
+      // The sign-in attempt is gone (expired or locked out); start over from the password
+      if (error?.status === 423 || errorBody(error).code === "two_factor_expired") {
+        backToPassword();
+      }
+      toast({
+        title: errorTitle(error),
+        description: errorMessage(error, "Invalid authentication code"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function backToPassword() {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    form.resetField("password");
+  }
+
+  if (twoFactorStep) {
+    return (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-2">
+            <div className="rounded-full bg-primary-100 p-3">
+              <ShieldCheck className="h-8 w-8 text-primary-600" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-heading">Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of your recovery codes"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={onVerify} className="space-y-4">
+            {useRecoveryCode ? (
+              <Input
+                placeholder="xxxxx-xxxxx"
+                autoComplete="off"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            ) : (
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex justify-between text-sm">
+          <Button variant="link" className="px-0" onClick={backToPassword}>
+            Back to login
+          </Button>
+          <Button
+            variant="link"
+            className="px-0"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode("");
+            }}
+          >
+            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="space-y-1 text-center">
@@ -62,6 +216,29 @@ export function LoginForm() {
         <CardDescription>Enter your credentials to access your account</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {ssoError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Single sign-on failed</AlertTitle>
+            <AlertDescription>{SSO_ERRORS[ssoError] ?? "Something went wrong while signing you in. Please try again."}</AlertDescription>
+          </Alert>
+        )}
+        {sso?.enabled && (
+          <>
+            <Button variant="outline" className="w-full" asChild>
+              {/* A full page load, since the identity provider lives on another site */}
+              <a href="/api/auth/oidc/login">
+                <LogIn className="mr-2 h-4 w-4" />
+                Sign in with {sso.providerName}
+              </a>
+            </Button>
+            <div className="flex items-center gap-2 text-xs text-neutral-500">
+              <Separator className="flex-1" />
+              or use your password
+              <Separator className="flex-1" />
+            </div>
+          </>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -82,7 +259,12 @@ export function LoginForm() {
               name="password"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Password</FormLabel>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Password</FormLabel>
+                    <Link href="/forgot-password" className="text-sm text-primary-600 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
                   <FormControl>
                     <Input type="password" placeholder="••••••••" {...field} />
                   </FormControl>
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { z } from "zod";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, KeyRound, Loader2 } from "lucide-react";
+
+const resetPasswordFormSchema = z.object({
+  newPassword: z.string().min(8, "New password must be at least 8 characters"),
+  confirmPassword: z.string().min(8, "Confirm password must be at least 8 characters"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "New password and confirm password do not match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordFormSchema>;
+
+// The API answers with a JSON body; show its message (and policy problems) rather than the raw text
+function errorDescription(error: any) {
+  try {
+    const body = JSON.parse(error.message);
+    return [body.message, ...(body.errors ?? []).filter((e: unknown) => typeof e === "string")].join(". ");
+  } catch {
+    return "Could not reset the password. Please try again.";
+  }
+}
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Check the link up front so an expired one does not ask for a new password first
+  const { data: resetLink, isLoading: isChecking, error } = useQuery<{ username: string; expiresAt: string }>({
+    queryKey: ["/api/auth/password-reset", token],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/auth/password-reset?token=${encodeURIComponent(token)}`);
+      return response.json();
+    },
+    enabled: !!token,
+  });
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(data: ResetPasswordFormValues) {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/password-reset", { token, newPassword: data.newPassword });
+      toast({
+        title: "Password reset",
+        description: "Your password has been changed. You can now log in.",
+      });
+      setLocation("/login");
+    } catch (error) {
+      console.error("Password reset error:", error);
+      toast({
+        title: "Password reset failed",
+        description: errorDescription(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const invalid = !token || !!error;
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="space-y-1 text-center">
+        <div className="flex justify-center mb-2">
+          <div className="rounded-full bg-primary-100 p-3">
+            <KeyRound className="h-8 w-8 text-primary-600" />
+          </div>
+        </div>
+        <CardTitle className="text-2xl font-heading">Reset Password</CardTitle>
+        <CardDescription>
+          {resetLink ? `Choose a new password for ${resetLink.username}` : "Choose a new password for your account"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isChecking ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : invalid ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Link not valid</AlertTitle>
+            <AlertDescription>
+              This reset link is invalid, has already been used or has expired. Request a new one.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="••••••••" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Resetting...
+                  </>
+                ) : (
+                  "Reset Password"
+                )}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+      <CardFooter className="justify-center space-x-4 text-sm">
+        {invalid && (
+          <Link href="/forgot-password" className="text-primary-600 hover:underline">
+            Request a new link
+          </Link>
+        )}
+        <Link href="/login" className="text-primary-600 hover:underline">
+          Back to login
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -22,8 +22,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2 } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { createItem, updateItem } from "@/lib/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, createItem, updateItem, versionConflict } from "@/lib/api";
+import { VersionConflictDialog, mergeEdits, type VersionConflict } from "@/components/version-conflict-dialog";
 
 // Extended schema for the form
 const courseFormSchema = z.object({
@@ -33,12 +34,44 @@ const courseFormSchema = z.object({
   credits: z.coerce.number().min(1, "Credits must be at least 1"),
   department: z.string().min(1, "Department is required"),
   status: z.enum(["active", "pending", "archived"]),
+  gradeScaleId: z.string(),
 });
 
+// Stands for "no scale of its own" in the grading scale picker: students are graded on their
+// program's scale, or the default one
+const PROGRAM_SCALE = "program";
+
 type CourseFormValues = z.infer<typeof courseFormSchema>;
 
+const CONFLICT_FIELDS = [
+  { name: "title", label: "Title" },
+  { name: "description", label: "Description" },
+  { name: "credits", label: "Credits" },
+  { name: "department", label: "Department" },
+  { name: "status", label: "Status" },
+  { name: "gradeScaleId", label: "Grading scale" },
+];
+
+const toFormValues = (course: Record<string, any>): CourseFormValues => ({
+  code: course.code,
+  title: course.title,
+  description: course.description || "",
+  credits: course.credits,
+  department: course.department,
+  status: course.status,
+  gradeScaleId: course.gradeScaleId ? String(course.gradeScaleId) : PROGRAM_SCALE,
+});
+
+// The course as the API takes it: the scale picker's value becomes an id or null, the rest (and the
+// version of an edit) passes through
+const toPayload = ({ gradeScaleId, ...values }: CourseFormValues) => ({
+  ...values,
+  gradeScaleId: gradeScaleId === PROGRAM_SCALE ? null : parseInt(gradeScaleId),
+});
+
 interface CourseFormProps {
-  initialData?: Partial<CourseFormValues>;
+  // When editing, id and version identify the copy of the course the edit is based on
+  initialData?: Partial<Omit<CourseFormValues, "gradeScaleId">> & { id?: number; version?: number; gradeScaleId?: number | null };
   onSuccess?: () => void;
   isEdit?: boolean;
 }
@@ -47,6 +80,8 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const [conflict, setConflict] = useState<VersionConflict<CourseFormValues> | null>(null);
 
   const form = useForm<CourseFormValues>({
     resolver: zodResolver(courseFormSchema),
@@ -57,52 +92,43 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
       credits: initialData?.credits || 3,
       department: initialData?.department || "",
       status: initialData?.status || "active",
+      gradeScaleId: initialData?.gradeScaleId ? String(initialData.gradeScaleId) : PROGRAM_SCALE,
+    },
+  });
+
+  const { data: gradeScales = [] } = useQuery<{ id: number; name: string; isDefault: boolean }[]>({
+    queryKey: ["/api/grade-scales"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/grade-scales");
+      return response.json();
     },
   });
 
   const createCourseMutation = useMutation({
     mutationFn: async (data: CourseFormValues) => {
-      return await createItem("/api/courses", data);
+      return await createItem("/api/courses", toPayload(data));
     },
   });
 
   const updateCourseMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number, data: CourseFormValues }) => {
-      return await updateItem("/api/courses", id, data);
+    mutationFn: async ({ id, data }: { id: number, data: CourseFormValues & { version?: number } }) => {
+      return await updateItem("/api/courses", id, toPayload(data));
     },
   });
 
-  async function onSubmit(data: CourseFormValues) {
+  async function save(data: CourseFormValues, basedOn: number | undefined) {
     setIsLoading(true);
     try {
-      if (isEdit && initialData?.code) {
-        // Get course ID from existing data if it's an edit operation
-        const courses = await queryClient.fetchQuery({
-          queryKey: ["/api/courses"],
-          queryFn: async () => {
-            const response = await fetch("/api/courses", {
-              credentials: "include",
-            });
-            if (!response.ok) throw new Error("Failed to fetch courses");
-            return response.json();
-          },
+      if (isEdit && initialData?.id) {
+        await updateCourseMutation.mutateAsync({
+          id: initialData.id,
+          data: { ...data, version: basedOn },
+        });
+
+        toast({
+          title: "Course updated",
+          description: "Course information has been updated successfully.",
         });
-        
-        const course = courses.find((c: any) => c.code === initialData.code);
-        
-        if (course) {
-          await updateCourseMutation.mutateAsync({
-            id: course.id,
-            data,
-          });
-          
-          toast({
-            title: "Course updated",
-            description: "Course information has been updated successfully.",
-          });
-        } else {
-          throw new Error("Course not found");
-        }
       } else {
         // Create new course
         await createCourseMutation.mutateAsync(data);
@@ -121,6 +147,17 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
         onSuccess();
       }
     } catch (error) {
+      // Someone else saved the course meanwhile; let the user merge or reload
+      const current = versionConflict(error);
+      if (current) {
+        setConflict({
+          base: form.formState.defaultValues as CourseFormValues,
+          mine: data,
+          theirs: { ...current, gradeScaleId: toFormValues(current).gradeScaleId },
+        });
+        return;
+      }
+
       console.error("Form submission error:", error);
       toast({
         title: "Failed to save course",
@@ -132,6 +169,26 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
     }
   }
 
+  const onSubmit = (data: CourseFormValues) => save(data, version);
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdits(CONFLICT_FIELDS, conflict);
+    // The saved copy becomes the base for any further conflict
+    form.reset(toFormValues(conflict.theirs));
+    form.reset(merged, { keepDefaultValues: true });
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    form.reset(toFormValues(conflict.theirs));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -242,6 +299,32 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="gradeScaleId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Grading Scale</FormLabel>
+                  <FormControl>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={PROGRAM_SCALE}>Student's program or default scale</SelectItem>
+                        {gradeScales.map((scale) => (
+                          <SelectItem key={scale.id} value={String(scale.id)}>
+                            {scale.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
         </div>
         
@@ -261,6 +344,15 @@ export function CourseForm({ initialData, onSuccess, isEdit = false }: CourseFor
           </Button>
         </div>
       </form>
+
+      <VersionConflictDialog
+        conflict={conflict}
+        fields={CONFLICT_FIELDS}
+        isSaving={isLoading}
+        onMerge={handleMerge}
+        onReload={handleReload}
+        onCancel={() => setConflict(null)}
+      />
     </Form>
   );
 }
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Edit, ShieldCheck, Trash2, UserCheck } from "lucide-react";
+import { RequisitesEditor } from "./requisites-editor";
+
+export interface RequisiteRule {
+  id: number;
+  type: "prerequisite" | "corequisite";
+  group: number;
+  requiredCourseId: number | null;
+  minGrade: number | null;
+  requiredCourse: { id: number; code: string; title: string } | null;
+}
+
+interface RequisiteWaiver {
+  id: number;
+  studentId: number;
+  kind: "consent" | "override";
+  reason: string;
+  grantedByName: string;
+  createdAt: string;
+  student: { studentId: string; user: { name: string } | null } | null;
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+const TYPE_LABELS: Record<RequisiteRule["type"], string> = {
+  prerequisite: "Prerequisites",
+  corequisite: "Corequisites",
+};
+
+// Rules of one type, split into their groups of alternatives
+function groupsOf(rules: RequisiteRule[], type: RequisiteRule["type"]): RequisiteRule[][] {
+  const groups = new Map<number, RequisiteRule[]>();
+  for (const rule of rules.filter((rule) => rule.type === type)) {
+    groups.set(rule.group, [...(groups.get(rule.group) ?? []), rule]);
+  }
+  return Array.from(groups.values());
+}
+
+function RuleBadge({ rule }: { rule: RequisiteRule }) {
+  if (rule.requiredCourseId === null) {
+    return <Badge variant="outline" className="bg-purple-50 text-purple-800">Instructor consent</Badge>;
+  }
+  return (
+    <Badge variant="outline" title={rule.requiredCourse?.title}>
+      {rule.requiredCourse?.code ?? `Course #${rule.requiredCourseId}`}
+      {rule.minGrade !== null && ` (${rule.minGrade}%+)`}
+    </Badge>
+  );
+}
+
+interface CourseRequisitesProps {
+  course: { id: number; version: number; code: string; requisites: RequisiteRule[] };
+}
+
+// What students need before taking the course, with the consent and overrides recorded for it
+export function CourseRequisites({ course }: CourseRequisitesProps) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [granting, setGranting] = useState<RequisiteWaiver["kind"] | null>(null);
+  const [studentId, setStudentId] = useState("");
+  const [reason, setReason] = useState("");
+
+  const rules = course.requisites ?? [];
+  const allowsConsent = rules.some((rule) => rule.requiredCourseId === null);
+  const mayGrant = can("requisites:override:any") || can("requisites:consent:any") || can("requisites:consent:own-course");
+
+  // Instructors only see the waivers of courses they teach; elsewhere the request is refused
+  const { data: waivers, isError: waiversHidden } = useQuery<RequisiteWaiver[]>({
+    queryKey: ["/api/courses", course.id, "requisite-waivers"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/courses/${course.id}/requisite-waivers`);
+      return response.json();
+    },
+    enabled: mayGrant,
+    retry: false,
+  });
+
+  const { data: students = [] } = useQuery<{ id: number; studentId: string; user: { name: string } | null }[]>({
+    queryKey: ["/api/students"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/students");
+      return response.json();
+    },
+    enabled: !!granting,
+  });
+
+  const refreshWaivers = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/courses", course.id, "requisite-waivers"] });
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/requisite-waivers", {
+        studentId: parseInt(studentId),
+        courseId: course.id,
+        kind: granting,
+        reason,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: granting === "override" ? "Override recorded" : "Consent recorded",
+        description: "The student can now be enrolled in this course.",
+      });
+      refreshWaivers();
+      closeGrantDialog();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to record waiver", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (waiver: RequisiteWaiver) => {
+      await apiRequest("DELETE", `/api/requisite-waivers/${waiver.id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Waiver removed" });
+      refreshWaivers();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove waiver", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const closeGrantDialog = () => {
+    setGranting(null);
+    setStudentId("");
+    setReason("");
+  };
+
+  const showWaivers = mayGrant && !waiversHidden && waivers !== undefined;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Prerequisites &amp; Corequisites</CardTitle>
+            <CardDescription>Checked against the courses a student has completed when they enroll</CardDescription>
+          </div>
+          {can("courses:write:any") && (
+            <Button variant="outline" onClick={() => setEditing(true)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit Requisites
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length === 0 ? (
+          <div className="text-center py-4 text-neutral-500">Anyone can enroll in {course.code}</div>
+        ) : (
+          (["prerequisite", "corequisite"] as const).map((type) => {
+            const groups = groupsOf(rules, type);
+            if (groups.length === 0) return null;
+
+            return (
+              <div key={type} className="space-y-2">
+                <h3 className="text-sm font-medium text-neutral-500">{TYPE_LABELS[type]}</h3>
+                {groups.map((group, index) => (
+                  <div key={group[0].group} className="flex flex-wrap items-center gap-2">
+                    {index > 0 && <span className="text-xs font-semibold uppercase text-neutral-500 mr-1">and</span>}
+                    {group.map((rule, option) => (
+                      <span key={rule.id} className="flex items-center gap-2">
+                        {option > 0 && <span className="text-xs text-neutral-500">or</span>}
+                        <RuleBadge rule={rule} />
+                      </span>
+                    ))}
+                  </div>
+                ))}
+                {type === "corequisite" && (
+                  <p className="text-xs text-neutral-500">Corequisites can also be taken in the same term</p>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {showWaivers && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-medium">Consent &amp; Overrides</h3>
+              <div className="space-x-2">
+                {allowsConsent && (
+                  <Button variant="outline" size="sm" onClick={() => setGranting("consent")}>
+                    <UserCheck className="h-4 w-4 mr-1" />
+                    Give Consent
+                  </Button>
+                )}
+                {can("requisites:override:any") && (
+                  <Button variant="outline" size="sm" onClick={() => setGranting("override")}>
+                    <ShieldCheck className="h-4 w-4 mr-1" />
+                    Record Override
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {waivers.length === 0 ? (
+              <div className="text-sm text-neutral-500">No consent or overrides have been recorded</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Granted By</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {waivers.map((waiver) => (
+                    <TableRow key={waiver.id}>
+                      <TableCell>
+                        <div className="font-medium">{waiver.student?.user?.name}</div>
+                        <div className="text-sm text-neutral-500">{waiver.student?.studentId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={waiver.kind === "override" ? "bg-yellow-100 text-yellow-800" : "bg-purple-50 text-purple-800"}
+                        >
+                          {waiver.kind}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs">{waiver.reason}</TableCell>
+                      <TableCell>
+                        <div>{waiver.grantedByName}</div>
+                        <div className="text-sm text-neutral-500">{format(new Date(waiver.createdAt), "PP")}</div>
+                      </TableCell>
+                      <TableCell>
+                        {(waiver.kind === "consent" || can("requisites:override:any")) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeMutation.mutate(waiver)}
+                            disabled={removeMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit Requisites</DialogTitle>
+            <DialogDescription>What students need before they can enroll in {course.code}</DialogDescription>
+          </DialogHeader>
+          {editing && <RequisitesEditor courseId={course.id} version={course.version} rules={rules} onSuccess={() => setEditing(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!granting} onOpenChange={(open) => !open && closeGrantDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{granting === "override" ? "Record Override" : "Give Consent"}</DialogTitle>
+            <DialogDescription>
+              {granting === "override"
+                ? `The student can enroll in ${course.code} without meeting any of its requirements.`
+                : `Consent stands in for the requirements of ${course.code} that allow it.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Student</Label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((student) => (
+                    <SelectItem key={student.id} value={String(student.id)}>
+                      {student.user?.name} ({student.studentId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="e.g. Completed an equivalent course at another college"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeGrantDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => grantMutation.mutate()}
+              disabled={grantMutation.isPending || !studentId || !reason.trim()}
+            >
+              {grantMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, versionConflict } from "@/lib/api";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { RequisiteRule } from "./course-requisites";
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// "consent" in the course picker stands for the instructor consent alternative
+const CONSENT = "consent";
+
+interface EditableRule {
+  type: RequisiteRule["type"];
+  group: number;
+  requiredCourseId: number | null;
+  minGrade: string;
+}
+
+interface RequisitesEditorProps {
+  courseId: number;
+  // The course's version when its rules were loaded; replacing them is refused if it changed since
+  version: number;
+  rules: RequisiteRule[];
+  onSuccess?: () => void;
+}
+
+// Edits all of a course's prerequisite and corequisite rules at once. Rules sharing a type and
+// group number are alternatives; each group has to be met.
+export function RequisitesEditor({ courseId, version, rules, onSuccess }: RequisitesEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<EditableRule[]>(
+    rules.map((rule) => ({
+      type: rule.type,
+      group: rule.group,
+      requiredCourseId: rule.requiredCourseId,
+      minGrade: rule.minGrade === null ? "" : String(rule.minGrade),
+    }))
+  );
+
+  const { data: courses = [] } = useQuery<{ id: number; code: string; title: string }[]>({
+    queryKey: ["/api/courses"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/courses");
+      return response.json();
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/courses/${courseId}/requisites`, {
+        rules: rows.map((row) => ({
+          type: row.type,
+          group: row.group,
+          requiredCourseId: row.requiredCourseId,
+          minGrade: row.requiredCourseId === null || row.minGrade === "" ? null : Number(row.minGrade),
+        })),
+        version,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Requisites updated", description: "The course's requirements have been saved." });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      onSuccess?.();
+    },
+    onError: (error) => {
+      // The rules shown are out of date, so the course is reloaded rather than merged
+      if (versionConflict(error)) {
+        toast({
+          title: "Course changed meanwhile",
+          description: "Someone else changed this course while you were editing. Close the editor and open it again to see the current rules.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+        return;
+      }
+      toast({ title: "Failed to update requisites", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<EditableRule>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const addRule = () =>
+    setRows((current) => [
+      ...current,
+      { type: "prerequisite", group: Math.max(0, ...current.map((row) => row.group)) + 1, requiredCourseId: null, minGrade: "" },
+    ]);
+
+  const incomplete = rows.some((row) => row.group < 1 || (row.minGrade !== "" && !/^\d+$/.test(row.minGrade)));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-neutral-500">
+        Rules with the same type and group are alternatives: meeting any one of them meets the group.
+        Students have to meet every group. Minimum grades are final percentages.
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-6 text-neutral-500">This course has no requirements</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead className="w-24">Group</TableHead>
+              <TableHead>Requirement</TableHead>
+              <TableHead className="w-28">Min. Grade</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Select value={row.type} onValueChange={(type) => update(index, { type: type as EditableRule["type"] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="prerequisite">Prerequisite</SelectItem>
+                      <SelectItem value="corequisite">Corequisite</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.group}
+                    onChange={(event) => update(index, { group: parseInt(event.target.value) || 0 })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={row.requiredCourseId === null ? CONSENT : String(row.requiredCourseId)}
+                    onValueChange={(value) =>
+                      update(index, value === CONSENT ? { requiredCourseId: null, minGrade: "" } : { requiredCourseId: parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CONSENT}>Instructor consent</SelectItem>
+                      {courses
+                        .filter((course) => course.id !== courseId)
+                        .map((course) => (
+                          <SelectItem key={course.id} value={String(course.id)}>
+                            {course.code} – {course.title}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Any"
+                    value={row.minGrade}
+                    disabled={row.requiredCourseId === null}
+                    onChange={(event) => update(index, { minGrade: event.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={addRule}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || incomplete}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Requisites
+        </Button>
+      </div>
+    </div>
+  );
+}
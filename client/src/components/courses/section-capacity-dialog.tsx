@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, versionConflict } from "@/lib/api";
+
+// Seat counts of a section as the course detail endpoint returns them; available is null without a limit
+export interface SectionSeats {
+  capacity: number | null;
+  enrolled: number;
+  waitlisted: number;
+  available: number | null;
+}
+
+interface SectionCapacityDialogProps {
+  section: { id: number; version: number; facultyName?: string; term?: { name: string }; seats: SectionSeats } | null;
+  onClose: () => void;
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Changes how many seats a section has; an empty value removes the limit
+export function SectionCapacityDialog({ section, onClose }: SectionCapacityDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [capacity, setCapacity] = useState("");
+
+  useEffect(() => {
+    setCapacity(section?.seats.capacity ? String(section.seats.capacity) : "");
+  }, [section]);
+
+  const capacityMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/course-assignments/${section!.id}/capacity`, {
+        capacity: capacity === "" ? null : parseInt(capacity),
+        version: section!.version,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: { seats: SectionSeats }) => {
+      const promoted = section!.seats.waitlisted - updated.seats.waitlisted;
+      toast({
+        title: "Capacity updated",
+        description: promoted > 0
+          ? `${promoted} waitlisted student${promoted === 1 ? " was" : "s were"} enrolled and notified.`
+          : "The section's seat count has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      onClose();
+    },
+    onError: (error) => {
+      // The seat counts shown are out of date too, so the section is reloaded rather than merged
+      if (versionConflict(error)) {
+        toast({
+          title: "Section changed meanwhile",
+          description: "Someone else changed this section while you were editing. Open it again to see the current seats.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+        onClose();
+        return;
+      }
+      toast({ title: "Failed to update capacity", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const invalid = capacity !== "" && !(/^\d+$/.test(capacity) && parseInt(capacity) >= 1);
+
+  return (
+    <Dialog open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Section Capacity</DialogTitle>
+          <DialogDescription>
+            {section?.facultyName}
+            {section?.term && `, ${section.term.name}`}. {section?.seats.enrolled} enrolled
+            {section?.seats.waitlisted ? `, ${section.seats.waitlisted} waitlisted` : ""}.
+            New seats go to the waitlist in order.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="section-capacity">Seats</Label>
+          <Input
+            id="section-capacity"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={capacity}
+            onChange={(event) => setCapacity(event.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => capacityMutation.mutate()} disabled={capacityMutation.isPending || invalid}>
+            {capacityMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
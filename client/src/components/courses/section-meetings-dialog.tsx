@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, versionConflict } from "@/lib/api";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+// A weekly meeting pattern of a section as the course detail endpoint returns it
+export interface SectionMeeting {
+  id: number;
+  days: string[];
+  startTime: string;
+  endTime: string;
+  roomId: number | null;
+  room: { id: number; name: string; building: string; capacity: number } | null;
+}
+
+const DAYS = [
+  { key: "mon", label: "M" },
+  { key: "tue", label: "T" },
+  { key: "wed", label: "W" },
+  { key: "thu", label: "Th" },
+  { key: "fri", label: "F" },
+  { key: "sat", label: "Sa" },
+  { key: "sun", label: "Su" },
+];
+
+const DAY_NAMES: Record<string, string> = {
+  mon: "Mon", tue: "Tue", wed: "Wed", thu: "Thu", fri: "Fri", sat: "Sat", sun: "Sun",
+};
+
+// e.g. "Mon/Wed 09:00–10:15, SCI 101"
+export function describeMeeting(meeting: SectionMeeting) {
+  const days = DAYS.filter((day) => meeting.days.includes(day.key)).map((day) => DAY_NAMES[day.key]);
+  return `${days.join("/")} ${meeting.startTime}–${meeting.endTime}${meeting.room ? `, ${meeting.room.name}` : ""}`;
+}
+
+// "none" in the room picker stands for a meeting without a room yet
+const NO_ROOM = "none";
+
+interface EditableMeeting {
+  days: string[];
+  startTime: string;
+  endTime: string;
+  roomId: string;
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+interface SectionMeetingsDialogProps {
+  section: { id: number; version: number; facultyName?: string; term?: { name: string }; meetings: SectionMeeting[] } | null;
+  onClose: () => void;
+}
+
+// Edits when and where a section meets. Saving is refused while the times would double-book the
+// instructor, a room or a student already in the section.
+export function SectionMeetingsDialog({ section, onClose }: SectionMeetingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<EditableMeeting[]>([]);
+
+  useEffect(() => {
+    setRows((section?.meetings ?? []).map((meeting) => ({
+      days: meeting.days,
+      startTime: meeting.startTime,
+      endTime: meeting.endTime,
+      roomId: meeting.roomId === null ? NO_ROOM : String(meeting.roomId),
+    })));
+  }, [section]);
+
+  const { data: rooms = [] } = useQuery<{ id: number; name: string; building: string; capacity: number }[]>({
+    queryKey: ["/api/rooms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/rooms");
+      return response.json();
+    },
+    enabled: !!section,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/course-assignments/${section!.id}/meetings`, {
+        meetings: rows.map((row) => ({
+          days: row.days,
+          startTime: row.startTime,
+          endTime: row.endTime,
+          roomId: row.roomId === NO_ROOM ? null : parseInt(row.roomId),
+        })),
+        version: section!.version,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Schedule updated", description: "The section's meeting times have been saved." });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      onClose();
+    },
+    onError: (error) => {
+      // Meetings are replaced as a whole, so the other change is loaded for the user to redo theirs on
+      if (versionConflict(error)) {
+        toast({
+          title: "Schedule changed meanwhile",
+          description: "Someone else changed this section while you were editing. Open its schedule again to see their changes.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+        onClose();
+        return;
+      }
+      toast({ title: "Failed to update schedule", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const update = (index: number, changes: Partial<EditableMeeting>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const addMeeting = () =>
+    setRows((current) => [...current, { days: [], startTime: "09:00", endTime: "10:00", roomId: NO_ROOM }]);
+
+  const incomplete = rows.some((row) => row.days.length === 0 || !row.startTime || !row.endTime || row.endTime <= row.startTime);
+
+  return (
+    <Dialog open={!!section} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Section Schedule</DialogTitle>
+          <DialogDescription>
+            {section?.facultyName}
+            {section?.term && `, ${section.term.name}`}. Each row is a weekly meeting; add more for labs or
+            other times.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-6 text-neutral-500">This section has no meeting times</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Days</TableHead>
+                <TableHead className="w-32">Starts</TableHead>
+                <TableHead className="w-32">Ends</TableHead>
+                <TableHead className="w-48">Room</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      variant="outline"
+                      value={row.days}
+                      onValueChange={(days) => update(index, { days })}
+                      className="justify-start"
+                    >
+                      {DAYS.map((day) => (
+                        <ToggleGroupItem key={day.key} value={day.key} aria-label={DAY_NAMES[day.key]}>
+                          {day.label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </TableCell>
+                  <TableCell>
+                    <Input type="time" value={row.startTime} onChange={(event) => update(index, { startTime: event.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="time" value={row.endTime} onChange={(event) => update(index, { endTime: event.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Select value={row.roomId} onValueChange={(roomId) => update(index, { roomId })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROOM}>No room yet</SelectItem>
+                        {rooms.map((room) => (
+                          <SelectItem key={room.id} value={String(room.id)}>
+                            {room.name} ({room.capacity} seats)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="outline" onClick={addMeeting}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Meeting
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || incomplete}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
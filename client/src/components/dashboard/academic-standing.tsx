@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatGpa, useAcademicRecord } from "@/components/grades/academic-record";
+import { apiRequest } from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+// A student's own cumulative GPA and that of their latest term
+export function AcademicStanding() {
+  // Students only see themselves in the student list
+  const { data: students } = useQuery<{ id: number }[]>({
+    queryKey: ["/api/students"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/students");
+      return response.json();
+    },
+  });
+  const studentId = students?.[0]?.id;
+  const { data: record, isLoading } = useAcademicRecord(studentId);
+  const latest = record?.terms[record.terms.length - 1];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Academic Standing</CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading || !record ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className="text-sm text-neutral-500">Cumulative GPA</div>
+                <div className="text-2xl font-semibold">{formatGpa(record.cumulative.gpa)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-neutral-500">{latest?.term?.name ?? "Term"} GPA</div>
+                <div className="text-2xl font-semibold">{formatGpa(latest?.gpa ?? null)}</div>
+              </div>
+            </div>
+            <div className="text-sm text-neutral-500">
+              {record.cumulative.creditsEarned} credits earned
+            </div>
+            {record.cumulative.provisional && (
+              <Badge variant="outline" className="bg-yellow-100 text-yellow-800">
+                Provisional: includes courses in progress
+              </Badge>
+            )}
+            {studentId !== undefined && (
+              <Link href={`/students/${studentId}`}>
+                <Button variant="outline" className="w-full">View Grades</Button>
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
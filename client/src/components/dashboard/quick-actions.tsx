@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
+import type { Permission } from "@shared/permissions";
 import {
   UserPlus,
   ClipboardCheck,
@@ -17,12 +18,12 @@ interface QuickAction {
   color: string;
   bgColor: string;
   href: string;
-  roles: string[];
+  // Shown when the user's role grants any of these
+  permissions: Permission[];
 }
 
 export function QuickActions() {
-  const { user } = useAuth();
-  const role = user?.role || "";
+  const { can } = useAuth();
 
   const allActions: QuickAction[] = [
     {
@@ -31,7 +32,7 @@ export function QuickActions() {
       color: "text-primary-600",
       bgColor: "bg-primary-100",
       href: "/students?action=new",
-      roles: ["admin"],
+      permissions: ["students:write:any"],
     },
     {
       icon: <GraduationCap className="h-6 w-6" />,
@@ -39,7 +40,7 @@ export function QuickActions() {
       color: "text-purple-600",
       bgColor: "bg-purple-100",
       href: "/faculty?action=new",
-      roles: ["admin"],
+      permissions: ["faculty:write:any"],
     },
     {
       icon: <BookOpen className="h-6 w-6" />,
@@ -47,7 +48,7 @@ export function QuickActions() {
       color: "text-indigo-600",
       bgColor: "bg-indigo-100",
       href: "/courses?action=new",
-      roles: ["admin"],
+      permissions: ["courses:write:any"],
     },
     {
       icon: <ClipboardCheck className="h-6 w-6" />,
@@ -55,7 +56,7 @@ export function QuickActions() {
       color: "text-blue-600",
       bgColor: "bg-blue-100",
       href: "/attendance?action=new",
-      roles: ["admin", "faculty"],
+      permissions: ["attendance:write:any", "attendance:write:own-course"],
     },
     {
       icon: <FileText className="h-6 w-6" />,
@@ -63,7 +64,7 @@ export function QuickActions() {
       color: "text-green-600",
       bgColor: "bg-green-100",
       href: "/grades?action=new",
-      roles: ["admin", "faculty"],
+      permissions: ["grades:write:any", "grades:write:own-course"],
     },
     {
       icon: <CalendarRange className="h-6 w-6" />,
@@ -71,7 +72,7 @@ export function QuickActions() {
       color: "text-amber-600",
       bgColor: "bg-amber-100",
       href: "/courses",
-      roles: ["admin", "faculty", "student"],
+      permissions: ["courses:read:any"],
     },
     {
       icon: <FileText className="h-6 w-6" />,
@@ -79,7 +80,7 @@ export function QuickActions() {
       color: "text-green-600",
       bgColor: "bg-green-100",
       href: "/reports",
-      roles: ["admin"],
+      permissions: ["reports:read:any"],
     },
     {
       icon: <Settings className="h-6 w-6" />,
@@ -87,16 +88,16 @@ export function QuickActions() {
       color: "text-indigo-600",
       bgColor: "bg-indigo-100",
       href: "/settings",
-      roles: ["admin", "faculty", "student"],
+      permissions: ["users:write:self"],
     },
   ];
 
-  // Filter actions based on user role
+  // Filter actions based on the user's permissions
   const availableActions = allActions.filter(action => 
-    action.roles.includes(role)
+    can(...action.permissions)
   );
 
-  // Take first 4 actions that match the user's role
+  // Take first 4 actions the user can perform
   const displayActions = availableActions.slice(0, 4);
 
   return (
@@ -22,7 +22,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Loader2 } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { createItem, updateItem } from "@/lib/api";
+import { createItem, updateItem, versionConflict } from "@/lib/api";
+import { VersionConflictDialog, mergeEdits, type VersionConflict } from "@/components/version-conflict-dialog";
 
 // Extended schema for the form
 const facultyFormSchema = z.object({
@@ -33,7 +34,7 @@ const facultyFormSchema = z.object({
   status: z.enum(["active", "inactive", "on leave"]),
   // User fields
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
   email: z.string().email("Invalid email address"),
   name: z.string().min(1, "Full name is required"),
   profileImage: z.string().optional(),
@@ -41,8 +42,25 @@ const facultyFormSchema = z.object({
 
 type FacultyFormValues = z.infer<typeof facultyFormSchema>;
 
+const CONFLICT_FIELDS = [
+  { name: "facultyId", label: "Faculty ID" },
+  { name: "department", label: "Department" },
+  { name: "position", label: "Position" },
+  { name: "status", label: "Status" },
+];
+
+// The form values with the profile fields taken from a saved faculty record
+const withRecord = (values: FacultyFormValues, record: Record<string, any>): FacultyFormValues => ({
+  ...values,
+  facultyId: record.facultyId,
+  department: record.department,
+  position: record.position,
+  status: record.status,
+});
+
 interface FacultyFormProps {
-  initialData?: Partial<FacultyFormValues>;
+  // When editing, id and version identify the copy of the profile the edit is based on
+  initialData?: Partial<FacultyFormValues> & { id?: number; version?: number };
   onSuccess?: () => void;
   isEdit?: boolean;
 }
@@ -51,6 +69,8 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const [conflict, setConflict] = useState<VersionConflict<FacultyFormValues> | null>(null);
 
   const form = useForm<FacultyFormValues>({
     resolver: zodResolver(facultyFormSchema),
@@ -68,19 +88,6 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
     },
   });
 
-  const createUserMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return await createItem("/api/users", {
-        username: data.username,
-        password: data.password,
-        email: data.email,
-        name: data.name,
-        role: "faculty",
-        profileImage: data.profileImage,
-      });
-    },
-  });
-
   const createFacultyMutation = useMutation({
     mutationFn: async (data: any) => {
       return await createItem("/api/faculty", data);
@@ -93,14 +100,15 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
     },
   });
 
-  async function onSubmit(data: FacultyFormValues) {
+  async function save(data: FacultyFormValues, basedOn: number | undefined) {
     setIsLoading(true);
     try {
-      if (isEdit && initialData?.userId) {
+      if (isEdit && initialData?.id) {
         // Update existing faculty
         await updateFacultyMutation.mutateAsync({
-          id: initialData.userId,
+          id: initialData.id,
           data: {
+            version: basedOn,
             facultyId: data.facultyId,
             department: data.department,
             position: data.position,
@@ -112,16 +120,19 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
           description: "Faculty information has been updated successfully.",
         });
       } else {
-        // Create new user first
-        const newUser = await createUserMutation.mutateAsync(data);
-        
-        // Then create faculty profile
+        // Create the user account and faculty profile in one request
         await createFacultyMutation.mutateAsync({
-          userId: newUser.id,
           facultyId: data.facultyId,
           department: data.department,
           position: data.position,
           status: data.status,
+          user: {
+            username: data.username,
+            password: data.password,
+            email: data.email,
+            name: data.name,
+            profileImage: data.profileImage,
+          },
         });
         
         toast({
@@ -138,6 +149,13 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
         onSuccess();
       }
     } catch (error) {
+      // Someone else saved the profile meanwhile; let the user merge or reload
+      const current = versionConflict(error);
+      if (current) {
+        setConflict({ base: form.formState.defaultValues as FacultyFormValues, mine: data, theirs: current });
+        return;
+      }
+
       console.error("Form submission error:", error);
       toast({
         title: "Failed to save faculty",
@@ -149,6 +167,26 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
     }
   }
 
+  const onSubmit = (data: FacultyFormValues) => save(data, version);
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdits(CONFLICT_FIELDS, conflict);
+    // The saved copy becomes the base for any further conflict
+    form.reset(withRecord(merged, conflict.theirs));
+    form.reset(merged, { keepDefaultValues: true });
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    form.reset(withRecord(form.getValues(), conflict.theirs));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -324,6 +362,15 @@ export function FacultyForm({ initialData, onSuccess, isEdit = false }: FacultyF
           </Button>
         </div>
       </form>
+
+      <VersionConflictDialog
+        conflict={conflict}
+        fields={CONFLICT_FIELDS}
+        isSaving={isLoading}
+        onMerge={handleMerge}
+        onReload={handleReload}
+        onCancel={() => setConflict(null)}
+      />
     </Form>
   );
 }
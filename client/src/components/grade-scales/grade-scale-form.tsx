@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createItem, updateItem, versionConflict } from "@/lib/api";
+
+export interface GradeBand {
+  grade: string;
+  minPercentage: number;
+  gradePoints: number | null;
+  passing: boolean;
+}
+
+export interface GradeScale {
+  id: number;
+  name: string;
+  bands: GradeBand[];
+  programs: string[];
+  isDefault: boolean;
+  version: number;
+}
+
+const gradeScaleFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  isDefault: z.boolean(),
+  programs: z.string(),
+  bands: z.array(z.object({
+    grade: z.string().min(1, "Required"),
+    minPercentage: z.coerce.number().min(0, "0–100").max(100, "0–100"),
+    // Empty for grades that do not count towards the GPA
+    gradePoints: z.string().regex(/^(\d+(\.\d+)?)?$/, "A number, or empty"),
+    passing: z.boolean(),
+  })).min(1, "Add at least one grade"),
+});
+
+type GradeScaleFormValues = z.infer<typeof gradeScaleFormSchema>;
+
+const toFormBands = (bands: GradeBand[]): GradeScaleFormValues["bands"] =>
+  bands.map((band) => ({ ...band, gradePoints: band.gradePoints === null ? "" : String(band.gradePoints) }));
+
+const toFormValues = (scale: GradeScale): GradeScaleFormValues => ({
+  name: scale.name,
+  isDefault: scale.isDefault,
+  programs: scale.programs.join(", "),
+  bands: toFormBands(scale.bands),
+});
+
+// The scale as the API takes it
+const toPayload = (values: GradeScaleFormValues) => ({
+  name: values.name,
+  isDefault: values.isDefault,
+  programs: values.programs.split(",").map((program) => program.trim()).filter(Boolean),
+  bands: values.bands.map((band) => ({
+    ...band,
+    gradePoints: band.gradePoints === "" ? null : parseFloat(band.gradePoints),
+  })),
+});
+
+// Starting points for a new scale
+const PRESETS: { label: string; bands: GradeBand[] }[] = [
+  {
+    label: "A–F with +/-",
+    bands: [
+      { grade: "A", minPercentage: 93, gradePoints: 4.0, passing: true },
+      { grade: "A-", minPercentage: 90, gradePoints: 3.7, passing: true },
+      { grade: "B+", minPercentage: 87, gradePoints: 3.3, passing: true },
+      { grade: "B", minPercentage: 83, gradePoints: 3.0, passing: true },
+      { grade: "B-", minPercentage: 80, gradePoints: 2.7, passing: true },
+      { grade: "C+", minPercentage: 77, gradePoints: 2.3, passing: true },
+      { grade: "C", minPercentage: 73, gradePoints: 2.0, passing: true },
+      { grade: "C-", minPercentage: 70, gradePoints: 1.7, passing: true },
+      { grade: "D+", minPercentage: 67, gradePoints: 1.3, passing: true },
+      { grade: "D", minPercentage: 63, gradePoints: 1.0, passing: true },
+      { grade: "D-", minPercentage: 60, gradePoints: 0.7, passing: true },
+      { grade: "F", minPercentage: 0, gradePoints: 0.0, passing: false },
+    ],
+  },
+  {
+    label: "Pass/Fail",
+    bands: [
+      { grade: "P", minPercentage: 60, gradePoints: null, passing: true },
+      { grade: "F", minPercentage: 0, gradePoints: null, passing: false },
+    ],
+  },
+];
+
+interface GradeScaleFormProps {
+  // When editing, the scale as loaded; its id and version identify the copy the edit is based on
+  initialData?: GradeScale;
+  onSuccess?: () => void;
+}
+
+export function GradeScaleForm({ initialData, onSuccess }: GradeScaleFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const isEdit = !!initialData;
+
+  const form = useForm<GradeScaleFormValues>({
+    resolver: zodResolver(gradeScaleFormSchema),
+    defaultValues: initialData
+      ? toFormValues(initialData)
+      : { name: "", isDefault: false, programs: "", bands: toFormBands(PRESETS[0].bands) },
+  });
+  const bands = useFieldArray({ control: form.control, name: "bands" });
+
+  const createScaleMutation = useMutation({
+    mutationFn: async (data: GradeScaleFormValues) => {
+      return await createItem("/api/grade-scales", toPayload(data));
+    },
+  });
+
+  const updateScaleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: GradeScaleFormValues }) => {
+      return await updateItem("/api/grade-scales", id, { ...toPayload(data), version });
+    },
+  });
+
+  async function onSubmit(data: GradeScaleFormValues) {
+    setIsLoading(true);
+    try {
+      if (initialData) {
+        await updateScaleMutation.mutateAsync({ id: initialData.id, data });
+        toast({ title: "Grading scale updated", description: `${data.name} has been updated successfully.` });
+      } else {
+        await createScaleMutation.mutateAsync(data);
+        toast({ title: "Grading scale created", description: `${data.name} has been created successfully.` });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/grade-scales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      // Bands do not merge field by field, so a scale saved by someone else meanwhile is loaded
+      // for the user to redo their edit on
+      const current = versionConflict(error);
+      if (current) {
+        form.reset(toFormValues(current as unknown as GradeScale));
+        setVersion(current.version);
+        toast({
+          title: "Scale changed meanwhile",
+          description: "Someone else saved this scale while you were editing. Their version has been loaded; make your changes again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      console.error("Form submission error:", error);
+      toast({
+        title: "Failed to save grading scale",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Letter grades (A–F)" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="programs"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Programs</FormLabel>
+                <FormControl>
+                  <Input placeholder="Computer Science, Biology" {...field} />
+                </FormControl>
+                <FormDescription>Comma-separated; their students are graded on this scale</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isDefault"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-4">
+              <div>
+                <FormLabel>Default scale</FormLabel>
+                <FormDescription>Used when neither the course nor the student's program names a scale</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} disabled={initialData?.isDefault} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h3 className="font-medium">Grades</h3>
+            {!isEdit && (
+              <div className="space-x-2">
+                {PRESETS.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => bands.replace(toFormBands(preset.bands))}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-neutral-500">
+            Each grade is earned from its minimum percentage up to the next grade. Leave grade points empty for
+            grades that do not count towards the GPA.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Grade</TableHead>
+                <TableHead>From %</TableHead>
+                <TableHead>Grade points</TableHead>
+                <TableHead>Passing</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bands.fields.map((band, index) => (
+                <TableRow key={band.id}>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.grade`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input className="w-20" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.minPercentage`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input className="w-24" type="number" min={0} max={100} step="any" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.gradePoints`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input className="w-24" inputMode="decimal" placeholder="—" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`bands.${index}.passing`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => bands.remove(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => bands.append({ grade: "", minPercentage: 0, gradePoints: "", passing: true })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Grade
+          </Button>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? "Update Scale" : "Create Scale"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
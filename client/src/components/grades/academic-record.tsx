@@ -0,0 +1,141 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+// The final grade of one course, as the academic record endpoint returns it
+interface CourseResult {
+  enrollmentId: number;
+  status: string;
+  course: { id: number; code: string; title: string; credits: number };
+  scale: { id: number; name: string } | null;
+  percentage: number | null;
+  grade: string | null;
+  gradePoints: number | null;
+  passing: boolean | null;
+}
+
+export interface GpaSummary {
+  gpa: number | null;
+  gpaCredits: number;
+  creditsAttempted: number;
+  creditsEarned: number;
+  provisional: boolean;
+}
+
+export interface AcademicRecordData {
+  terms: (GpaSummary & { term: { id: number; name: string } | null; courses: CourseResult[] })[];
+  cumulative: GpaSummary;
+}
+
+export const formatGpa = (gpa: number | null) => (gpa === null ? "—" : gpa.toFixed(2));
+
+export function useAcademicRecord(studentId: number | undefined) {
+  return useQuery<AcademicRecordData>({
+    queryKey: ["/api/students", String(studentId), "academic-record"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/students/${studentId}/academic-record`);
+      return response.json();
+    },
+    enabled: studentId !== undefined,
+  });
+}
+
+function GpaLine({ label, summary }: { label: string; summary: GpaSummary }) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm">
+      <span className="font-medium">
+        {label}: {formatGpa(summary.gpa)}
+      </span>
+      <span className="text-neutral-500">{summary.gpaCredits} GPA credits</span>
+      <span className="text-neutral-500">
+        {summary.creditsEarned} of {summary.creditsAttempted} completed credits earned
+      </span>
+      {summary.provisional && (
+        <Badge variant="outline" className="bg-yellow-100 text-yellow-800">includes courses in progress</Badge>
+      )}
+    </div>
+  );
+}
+
+// Final course grades term by term, with term and cumulative GPAs. Grades of courses still in
+// progress come from the items graded so far.
+export function AcademicRecord({ studentId }: { studentId: number }) {
+  const { data: record, isLoading } = useAcademicRecord(studentId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+  if (!record || record.terms.length === 0) {
+    return <div className="text-center py-8 text-neutral-500">No courses taken yet</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md border p-4">
+        <GpaLine label="Cumulative GPA" summary={record.cumulative} />
+      </div>
+
+      {record.terms.map((term) => (
+        <div key={term.term?.id ?? "none"} className="space-y-2">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <h4 className="font-medium">{term.term?.name ?? "No term"}</h4>
+            <GpaLine label="Term GPA" summary={term} />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Credits</TableHead>
+                <TableHead>Scale</TableHead>
+                <TableHead>Percentage</TableHead>
+                <TableHead>Grade</TableHead>
+                <TableHead>Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {term.courses.map((result) => (
+                <TableRow key={result.enrollmentId}>
+                  <TableCell>
+                    <div className="font-medium">{result.course.code}</div>
+                    <div className="text-sm text-neutral-500">
+                      {result.course.title}
+                      {result.status === "enrolled" && " (in progress)"}
+                    </div>
+                  </TableCell>
+                  <TableCell>{result.course.credits}</TableCell>
+                  <TableCell className="text-sm">{result.scale?.name ?? "—"}</TableCell>
+                  <TableCell>{result.percentage === null ? "Not graded" : `${result.percentage.toFixed(1)}%`}</TableCell>
+                  <TableCell>
+                    {result.grade && (
+                      <Badge
+                        variant="outline"
+                        className={cn(result.passing ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800")}
+                      >
+                        {result.grade}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{result.gradePoints === null ? "—" : result.gradePoints.toFixed(1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -87,7 +87,7 @@ export function GradeForm({ onSuccess }: GradeFormProps) {
     if (selectedCourseAssignment) {
       const fetchEnrollments = async () => {
         try {
-          const response = await apiRequest("GET", `/api/enrollments/course/${selectedCourseAssignment}`);
+          const response = await apiRequest("GET", `/api/enrollments/course/${selectedCourseAssignment}?status=enrolled`);
           const enrollmentsData = await response.json();
           setEnrollments(enrollmentsData);
         } catch (error) {
@@ -129,12 +129,9 @@ export function GradeForm({ onSuccess }: GradeFormProps) {
 
   const createGradeMutation = useMutation({
     mutationFn: async (records: any[]) => {
-      return Promise.all(
-        records.map((record) => 
-          apiRequest("POST", "/api/grades", record)
-            .then(res => res.json())
-        )
-      );
+      // Saved as one batch so a failure never leaves part of the class recorded
+      const response = await apiRequest("POST", "/api/grades/bulk", { records });
+      return response.json();
     },
   });
 
@@ -203,7 +200,7 @@ export function GradeForm({ onSuccess }: GradeFormProps) {
                     <SelectContent>
                       {courseAssignments?.map((assignment: any) => (
                         <SelectItem key={assignment.id} value={assignment.id.toString()}>
-                          {assignment.course?.title || `Course ID: ${assignment.courseId}`} - {assignment.semester} {assignment.year}
+                          {assignment.course?.title || `Course ID: ${assignment.courseId}`} - {assignment.term?.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
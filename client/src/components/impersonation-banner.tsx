@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Eye, LogOut } from "lucide-react";
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+// Shown on every page while an admin views the app as another user
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation]);
+
+  const remaining = impersonation ? new Date(impersonation.expiresAt).getTime() - now : 0;
+
+  // The server switches back on its own once the time is up; follow it
+  useEffect(() => {
+    if (impersonation && remaining <= 0) {
+      stopImpersonation().catch((error) => console.error("Failed to end impersonation:", error));
+    }
+  }, [impersonation, remaining <= 0]);
+
+  if (!impersonation || !user) return null;
+
+  const handleExit = async () => {
+    try {
+      await stopImpersonation();
+    } catch (error) {
+      toast({
+        title: "Failed to exit",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-40 flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-white">
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          Viewing as <strong>{user.name}</strong> ({user.role}). Changes you make are recorded under
+          your account, {impersonation.impersonator.name}. Ends in {formatRemaining(remaining)}.
+        </span>
+      </div>
+      <Button size="sm" variant="secondary" onClick={handleExit}>
+        <LogOut className="h-4 w-4 mr-2" />
+        Exit
+      </Button>
+    </div>
+  );
+}
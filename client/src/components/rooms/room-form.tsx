@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createItem, updateItem, versionConflict } from "@/lib/api";
+import { VersionConflictDialog, mergeEdits, type VersionConflict } from "@/components/version-conflict-dialog";
+
+const roomFormSchema = z.object({
+  name: z.string().min(1, "Room name is required"),
+  building: z.string().min(1, "Building is required"),
+  capacity: z.coerce.number().int().min(1, "A room seats at least one student"),
+});
+
+type RoomFormValues = z.infer<typeof roomFormSchema>;
+
+const CONFLICT_FIELDS = [
+  { name: "name", label: "Name" },
+  { name: "building", label: "Building" },
+  { name: "capacity", label: "Seats" },
+];
+
+const toFormValues = (room: Record<string, any>): RoomFormValues => ({
+  name: room.name,
+  building: room.building,
+  capacity: room.capacity,
+});
+
+// The saved room of a conflict, which is kept as form values
+const savedValues = (conflict: VersionConflict<RoomFormValues>): RoomFormValues => {
+  const { version, ...values } = conflict.theirs;
+  return values as RoomFormValues;
+};
+
+interface RoomFormProps {
+  // When editing, the room as loaded; its id and version identify the copy the edit is based on
+  initialData?: Record<string, any> & { id: number; version: number };
+  onSuccess?: () => void;
+}
+
+export function RoomForm({ initialData, onSuccess }: RoomFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const [conflict, setConflict] = useState<VersionConflict<RoomFormValues> | null>(null);
+  const isEdit = !!initialData;
+
+  const form = useForm<RoomFormValues>({
+    resolver: zodResolver(roomFormSchema),
+    defaultValues: initialData ? toFormValues(initialData) : { name: "", building: "", capacity: 30 },
+  });
+
+  const createRoomMutation = useMutation({
+    mutationFn: async (data: RoomFormValues) => {
+      return await createItem("/api/rooms", data);
+    },
+  });
+
+  const updateRoomMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: RoomFormValues & { version?: number } }) => {
+      return await updateItem("/api/rooms", id, data);
+    },
+  });
+
+  async function save(data: RoomFormValues, basedOn: number | undefined) {
+    setIsLoading(true);
+    try {
+      if (initialData) {
+        await updateRoomMutation.mutateAsync({ id: initialData.id, data: { ...data, version: basedOn } });
+
+        toast({
+          title: "Room updated",
+          description: `${data.name} has been updated successfully.`,
+        });
+      } else {
+        await createRoomMutation.mutateAsync(data);
+
+        toast({
+          title: "Room created",
+          description: `${data.name} has been created successfully.`,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      // Someone else saved the room meanwhile; let the user merge or reload
+      const current = versionConflict(error);
+      if (current) {
+        setConflict({
+          base: form.formState.defaultValues as RoomFormValues,
+          mine: data,
+          theirs: { ...toFormValues(current), version: current.version },
+        });
+        return;
+      }
+
+      console.error("Form submission error:", error);
+      toast({
+        title: "Failed to save room",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const onSubmit = (data: RoomFormValues) => save(data, version);
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdits(CONFLICT_FIELDS, conflict);
+    // The saved copy becomes the base for any further conflict
+    form.reset(savedValues(conflict));
+    form.reset(merged, { keepDefaultValues: true });
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    form.reset(savedValues(conflict));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Room Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="SCI 101" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="building"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Building</FormLabel>
+                <FormControl>
+                  <Input placeholder="Science Building" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="capacity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Seats</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormDescription>Sections meeting here cannot have more seats than the room</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? "Update Room" : "Create Room"}
+          </Button>
+        </div>
+      </form>
+
+      <VersionConflictDialog
+        conflict={conflict}
+        fields={CONFLICT_FIELDS}
+        isSaving={isLoading}
+        onMerge={handleMerge}
+        onReload={handleReload}
+        onCancel={() => setConflict(null)}
+      />
+    </Form>
+  );
+}
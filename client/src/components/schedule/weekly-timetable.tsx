@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+// One weekly meeting of a section, as the timetable endpoints return it
+export interface TimetableEntry {
+  meetingId: number;
+  courseAssignmentId: number;
+  course: { id: number; code: string; title: string } | null;
+  facultyName: string | null;
+  room: { id: number; name: string; building: string } | null;
+  days: string[];
+  startTime: string;
+  endTime: string;
+  status?: string;
+}
+
+interface Timetable {
+  term: { id: number; name: string } | null;
+  entries: TimetableEntry[];
+}
+
+const DAYS = [
+  { key: "mon", label: "Monday" },
+  { key: "tue", label: "Tuesday" },
+  { key: "wed", label: "Wednesday" },
+  { key: "thu", label: "Thursday" },
+  { key: "fri", label: "Friday" },
+  { key: "sat", label: "Saturday" },
+  { key: "sun", label: "Sunday" },
+];
+
+const HOUR_HEIGHT = 48;
+
+const minutes = (time: string) => {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+};
+
+interface WeeklyTimetableProps {
+  // Timetable endpoint, e.g. /api/students/1/timetable
+  url: string;
+  // Which detail to show under the course code: the room, or the instructor for room timetables
+  detail?: "room" | "instructor";
+}
+
+// A week of class meetings for one term, Monday to Friday plus any weekend days in use
+export function WeeklyTimetable({ url, detail = "room" }: WeeklyTimetableProps) {
+  const [termId, setTermId] = useState<string>("");
+
+  const { data: terms = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ["/api/terms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/terms");
+      return response.json();
+    },
+  });
+
+  const { data: timetable, isLoading } = useQuery<Timetable>({
+    queryKey: [url, termId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", termId ? `${url}?termId=${termId}` : url);
+      return response.json();
+    },
+  });
+
+  const entries = timetable?.entries ?? [];
+  const days = DAYS.filter((day, index) => index < 5 || entries.some((entry) => entry.days.includes(day.key)));
+
+  // Office hours by default, stretched to fit early and late classes
+  const firstHour = Math.min(8, ...entries.map((entry) => Math.floor(minutes(entry.startTime) / 60)));
+  const lastHour = Math.max(18, ...entries.map((entry) => Math.ceil(minutes(entry.endTime) / 60)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="text-sm text-neutral-500">
+          {timetable?.term ? timetable.term.name : !isLoading && "No current term is set"}
+        </div>
+        <Select value={termId || String(timetable?.term?.id ?? "")} onValueChange={setTermId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Select a term" />
+          </SelectTrigger>
+          <SelectContent>
+            {terms.map((term) => (
+              <SelectItem key={term.id} value={String(term.id)}>
+                {term.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <div className="grid min-w-[640px]" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+            <div className="border-b" />
+            {days.map((day) => (
+              <div key={day.key} className="border-b border-l px-2 py-2 text-sm font-medium text-center">
+                {day.label}
+              </div>
+            ))}
+
+            <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+              {hours.map((hour, index) => (
+                <div
+                  key={hour}
+                  className="absolute right-2 text-xs text-neutral-500"
+                  style={{ top: index * HOUR_HEIGHT + 2 }}
+                >
+                  {String(hour).padStart(2, "0")}:00
+                </div>
+              ))}
+            </div>
+
+            {days.map((day) => (
+              <div key={day.key} className="relative border-l" style={{ height: hours.length * HOUR_HEIGHT }}>
+                {hours.map((hour, index) => (
+                  <div key={hour} className="absolute inset-x-0 border-t border-neutral-100" style={{ top: index * HOUR_HEIGHT }} />
+                ))}
+                {entries
+                  .filter((entry) => entry.days.includes(day.key))
+                  .map((entry) => {
+                    const top = ((minutes(entry.startTime) - firstHour * 60) / 60) * HOUR_HEIGHT;
+                    const height = ((minutes(entry.endTime) - minutes(entry.startTime)) / 60) * HOUR_HEIGHT;
+                    return (
+                      <div
+                        key={entry.meetingId}
+                        title={`${entry.course?.title ?? ""} ${entry.startTime}–${entry.endTime}`}
+                        className={cn(
+                          "absolute inset-x-1 rounded-md border px-2 py-1 text-xs overflow-hidden",
+                          entry.status === "waitlisted"
+                            ? "bg-yellow-50 border-yellow-300 text-yellow-900"
+                            : "bg-blue-50 border-blue-300 text-blue-900"
+                        )}
+                        style={{ top, height }}
+                      >
+                        <div className="font-semibold">
+                          {entry.course?.code}
+                          {entry.status === "waitlisted" && " (waitlisted)"}
+                        </div>
+                        <div>{entry.startTime}–{entry.endTime}</div>
+                        <div className="truncate">
+                          {detail === "instructor" ? entry.facultyName : entry.room?.name ?? "Room to be announced"}
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!isLoading && timetable?.term && entries.length === 0 && (
+        <div className="text-center py-2 text-neutral-500">Nothing is scheduled in {timetable.term.name}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, LogOut, Monitor } from "lucide-react";
+
+interface SessionInfo {
+  id: string;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+}
+
+// Short "Browser on OS" label; the full user agent is available on hover
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+function formatTime(value: string | null) {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "Unknown";
+}
+
+// Where the signed-in user is signed in, with remote sign-out
+export function ActiveSessions() {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: SessionInfo) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      // Revoking the current session is the same as signing out
+      if (session.current) {
+        logout();
+        return;
+      }
+      toast({
+        title: "Session signed out",
+        description: "That device will have to sign in again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: onError("Failed to sign out session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/auth/sessions");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Other sessions signed out",
+        description: `${data.revoked} other ${data.revoked === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: onError("Failed to sign out other sessions"),
+  });
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Active Sessions</CardTitle>
+            <CardDescription>Devices currently signed in to your account</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+          >
+            {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign Out Other Sessions
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2" title={session.userAgent ?? undefined}>
+                      <Monitor className="h-4 w-4 text-neutral-500" />
+                      <span>{describeUserAgent(session.userAgent)}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{session.ip ?? "Unknown"}</TableCell>
+                  <TableCell>{formatTime(session.createdAt)}</TableCell>
+                  <TableCell>{session.current ? "Now" : formatTime(session.lastSeenAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <LogOut className="mr-2 h-4 w-4" />
+                      {session.current ? "Sign out" : "Revoke"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { ApiTokenScope } from "@shared/schema";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+
+interface ApiTokenInfo {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+const ACCESS_OPTIONS: Record<string, { label: string; scopes: ApiTokenScope[] }> = {
+  read: { label: "Read only", scopes: ["read"] },
+  write: { label: "Read and write", scopes: ["read", "write"] },
+};
+
+const EXPIRY_OPTIONS: Record<string, { label: string; days: number | null }> = {
+  "30": { label: "30 days", days: 30 },
+  "90": { label: "90 days", days: 90 },
+  "365": { label: "1 year", days: 365 },
+  never: { label: "Never", days: null },
+};
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function formatExpiry(value: string | null) {
+  if (!value) return "Never";
+  const expiresAt = new Date(value);
+  return expiresAt.getTime() <= Date.now() ? "Expired" : formatDistanceToNow(expiresAt, { addSuffix: true });
+}
+
+// Personal API tokens, for scripts that call the API with "Authorization: Bearer <token>"
+export function ApiTokens() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [access, setAccess] = useState("read");
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/auth/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/tokens", {
+        name,
+        scopes: ACCESS_OPTIONS[access].scopes,
+        expiresInDays: EXPIRY_OPTIONS[expiry].days,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create token", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (token: ApiTokenInfo) => {
+      await apiRequest("DELETE", `/api/auth/tokens/${token.id}`);
+      return token;
+    },
+    onSuccess: (token) => {
+      toast({
+        title: "Token revoked",
+        description: `Scripts using "${token.name}" can no longer reach the API.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to revoke token", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Let scripts and integrations call the API as you, by sending the token in an Authorization: Bearer header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdToken && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Copy your new token now</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all rounded bg-neutral-100 px-2 py-1 text-sm">{createdToken}</code>
+                <Button variant="outline" size="sm" onClick={copyToken}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+              <Button variant="link" className="h-auto p-0" onClick={() => setCreatedToken(null)}>
+                Done
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          className="grid grid-cols-1 gap-4 md:grid-cols-4 md:items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              placeholder="e.g. Nightly attendance export"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Access</Label>
+            <Select value={access} onValueChange={setAccess}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ACCESS_OPTIONS).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPIRY_OPTIONS).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-4">
+            <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Token
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-neutral-500">You have no API tokens.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Access</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => (
+                <TableRow key={token.id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-sm">{token.tokenPrefix}…</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{token.scopes.includes("write") ? "Read and write" : "Read only"}</Badge>
+                  </TableCell>
+                  <TableCell>{formatExpiry(token.expiresAt)}</TableCell>
+                  <TableCell>
+                    {token.lastUsedAt ? formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true }) : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(token)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
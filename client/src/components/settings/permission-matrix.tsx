@@ -0,0 +1,56 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Minus } from "lucide-react";
+import { PERMISSIONS, ROLES, ROLE_PERMISSIONS, type Permission } from "@shared/permissions";
+
+// Read-only view of the shared permission catalog: one row per permission, one column per role
+export function PermissionMatrix() {
+  const permissions = Object.keys(PERMISSIONS) as Permission[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles & Permissions</CardTitle>
+        <CardDescription>What each role is allowed to do across the system</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Permission</TableHead>
+              {ROLES.map((role) => (
+                <TableHead key={role} className="text-center capitalize">{role}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {permissions.map((permission) => (
+              <TableRow key={permission}>
+                <TableCell>
+                  <div className="font-mono text-sm">{permission}</div>
+                  <div className="text-sm text-neutral-500">{PERMISSIONS[permission]}</div>
+                </TableCell>
+                {ROLES.map((role) => (
+                  <TableCell key={role} className="text-center">
+                    {ROLE_PERMISSIONS[role].includes(permission) ? (
+                      <Check className="h-4 w-4 mx-auto text-green-600" aria-label="Granted" />
+                    ) : (
+                      <Minus className="h-4 w-4 mx-auto text-neutral-300" aria-label="Not granted" />
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Lets admins set how many credits students may register for themselves in one term
+export function RegistrationSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [maxCredits, setMaxCredits] = useState<string | null>(null);
+
+  const { data: settings } = useQuery<{ maxCredits: number }>({
+    queryKey: ["/api/settings/registration"],
+  });
+
+  const value = maxCredits ?? String(settings?.maxCredits ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async (credits: number) => {
+      return await apiRequest("PUT", "/api/settings/registration", { maxCredits: credits });
+    },
+    onSuccess: () => {
+      toast({ title: "Credit limit updated", description: "The new limit applies to sections students add from now on." });
+      setMaxCredits(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/registration"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/registration"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update credit limit", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registration</CardTitle>
+        <CardDescription>
+          The most credits a student may register for on their own in one term. The registrar can still enroll
+          students beyond it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="registration-max-credits">Credit limit per term</Label>
+          <Input
+            id="registration-max-credits"
+            type="number"
+            min={1}
+            value={value}
+            onChange={(event) => setMaxCredits(event.target.value)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => saveMutation.mutate(parseInt(value))}
+          disabled={maxCredits === null || !(parseInt(value) > 0) || saveMutation.isPending}
+        >
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Limit
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
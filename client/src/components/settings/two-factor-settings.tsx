@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { apiRequest } from "@/lib/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  setupPending: boolean;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorPolicy {
+  requiredRoles: string[];
+  availableRoles: string[];
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once after enabling or regenerating; only hashes are kept on the server
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Save your recovery codes</AlertTitle>
+        <AlertDescription>
+          Each code signs you in once if you lose your authenticator. They will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <div key={code}>{code}</div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+          Copy codes
+        </Button>
+        <Button onClick={onDone}>I have saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+// Lets admins choose which roles have to use two-factor authentication
+function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const { data: policy } = useQuery<TwoFactorPolicy>({
+    queryKey: ["/api/settings/two-factor"],
+  });
+
+  const requiredRoles = selected ?? policy?.requiredRoles ?? [];
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      return await apiRequest("PUT", "/api/settings/two-factor", { requiredRoles: roles });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Policy updated",
+        description: "Users in the selected roles will be asked to set up two-factor authentication.",
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/two-factor"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update policy",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setSelected(checked ? [...requiredRoles, role] : requiredRoles.filter((r) => r !== role));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Policy</CardTitle>
+        <CardDescription>Require two-factor authentication for every account in a role</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {policy?.availableRoles.map((role) => (
+          <div key={role} className="flex items-center space-x-2">
+            <Checkbox
+              id={`two-factor-role-${role}`}
+              checked={requiredRoles.includes(role)}
+              onCheckedChange={(checked) => toggleRole(role, checked === true)}
+            />
+            <Label htmlFor={`two-factor-role-${role}`} className="capitalize">{role}</Label>
+          </div>
+        ))}
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => savePolicyMutation.mutate(requiredRoles)}
+          disabled={selected === null || savePolicyMutation.isPending}
+        >
+          {savePolicyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Policy
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { can, completeTwoFactorEnrollment } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({ title, description: errorMessage(error), variant: "destructive" });
+  };
+
+  const refreshStatus = () => queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Failed to start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You will be asked for a code from your authenticator app when you sign in.",
+      });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      completeTwoFactorEnrollment();
+      refreshStatus();
+    },
+    onError: onError("Failed to enable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refreshStatus();
+    },
+    onError: onError("Failed to regenerate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (password: string) => {
+      return await apiRequest("POST", "/api/auth/2fa/disable", { password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+      setPassword("");
+      refreshStatus();
+    },
+    onError: onError("Failed to disable two-factor authentication"),
+  });
+
+  if (!can("two-factor:write:self")) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            {status && (
+              <Badge variant={status.enabled ? "default" : "secondary"}>
+                {status.enabled ? "Enabled" : "Disabled"}
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            Protect your account with a code from an authenticator app in addition to your password
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+
+          {status?.required && !status.enabled && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Two-factor authentication required</AlertTitle>
+              <AlertDescription>
+                Your role requires two-factor authentication. Set it up to continue using the system.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+          ) : status && !status.enabled && !setup ? (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set Up Two-Factor Authentication
+            </Button>
+          ) : status && !status.enabled && setup ? (
+            <div className="space-y-4">
+              <p className="text-sm text-neutral-500">
+                Scan the QR code with your authenticator app, or enter the key by hand, then type the 6-digit code it shows.
+              </p>
+              <div className="flex flex-col items-start gap-4 md:flex-row md:items-center">
+                <div className="rounded-md border bg-white p-3">
+                  <QRCodeSVG value={setup.otpauthUri} size={160} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Setup key</Label>
+                  <div className="font-mono text-sm break-all">{setup.secret}</div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Verification code</Label>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => enableMutation.mutate(code)}
+                  disabled={code.length !== 6 || enableMutation.isPending}
+                >
+                  {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enable
+                </Button>
+                <Button variant="outline" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : status?.enabled ? (
+            <div className="space-y-6">
+              <div className="flex items-center gap-2 text-sm">
+                <ShieldCheck className="h-4 w-4 text-green-600" />
+                <span>{status.recoveryCodesRemaining} recovery codes remaining</span>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Regenerate recovery codes</Label>
+                <p className="text-sm text-neutral-500">
+                  Enter a code from your authenticator app. Your old recovery codes stop working.
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <CodeInput value={code} onChange={setCode} />
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate(code)}
+                    disabled={code.length !== 6 || regenerateMutation.isPending}
+                  >
+                    {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Regenerate
+                  </Button>
+                </div>
+              </div>
+
+              {!status.required && (
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-disable-password">Disable two-factor authentication</Label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      id="two-factor-disable-password"
+                      type="password"
+                      placeholder="Current password"
+                      className="max-w-xs"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                    <Button
+                      variant="destructive"
+                      onClick={() => disableMutation.mutate(password)}
+                      disabled={!password || disableMutation.isPending}
+                    >
+                      {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Disable
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {can("settings:write:any") && <TwoFactorPolicyCard />}
+    </div>
+  );
+}
@@ -7,61 +7,66 @@ import {
   Users,
   GraduationCap,
   BookOpen,
+  CalendarRange,
+  DoorOpen,
   ClipboardList,
   BarChart2,
+  Award,
+  History,
+  Trash2,
   Settings,
   LogOut,
   Menu,
+  ShoppingCart,
   X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import type { Permission } from "@shared/permissions";
 
-const adminNav = [
-  { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
-  { href: "/students", label: "Students", icon: Users },
-  { href: "/faculty", label: "Faculty", icon: GraduationCap },
-  { href: "/courses", label: "Courses", icon: BookOpen },
-  { href: "/attendance", label: "Attendance", icon: ClipboardList },
-  { href: "/grades", label: "Grades", icon: BarChart2 },
-  { href: "/reports", label: "Reports", icon: BarChart2 },
-  { href: "/settings", label: "Settings", icon: Settings },
-];
-
-const facultyNav = [
-  { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
-  { href: "/students", label: "Students", icon: Users },
-  { href: "/courses", label: "My Courses", icon: BookOpen },
-  { href: "/attendance", label: "Attendance", icon: ClipboardList },
-  { href: "/grades", label: "Grades", icon: BarChart2 },
-  { href: "/settings", label: "Settings", icon: Settings },
-];
+interface NavItem {
+  href: string;
+  label: string;
+  icon: typeof LayoutDashboard;
+  // Shown when the user's role grants any of these; always shown when omitted
+  permissions?: Permission[];
+}
 
-const studentNav = [
+const navigation: NavItem[] = [
   { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
+  { href: "/students", label: "Students", icon: Users, permissions: ["students:read:any", "students:read:own-course"] },
+  { href: "/faculty", label: "Faculty", icon: GraduationCap, permissions: ["faculty:write:any"] },
   { href: "/courses", label: "Courses", icon: BookOpen },
+  { href: "/registration", label: "Registration", icon: ShoppingCart, permissions: ["enrollments:write:self"] },
+  { href: "/terms", label: "Terms", icon: CalendarRange, permissions: ["terms:read:any"] },
+  { href: "/rooms", label: "Rooms", icon: DoorOpen, permissions: ["rooms:read:any"] },
   { href: "/attendance", label: "Attendance", icon: ClipboardList },
   { href: "/grades", label: "Grades", icon: BarChart2 },
+  { href: "/grade-scales", label: "Grading Scales", icon: Award, permissions: ["grade-scales:read:any"] },
+  { href: "/reports", label: "Reports", icon: BarChart2, permissions: ["reports:read:any"] },
+  { href: "/audit-log", label: "Audit Log", icon: History, permissions: ["audit:read:any"] },
+  { href: "/trash", label: "Trash", icon: Trash2, permissions: ["trash:write:any"] },
   { href: "/settings", label: "Settings", icon: Settings },
 ];
 
 export function Sidebar() {
   const [location] = useLocation();
   const [mobileOpen, setMobileOpen] = useState(false);
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
 
   // Close mobile menu when location changes
   useEffect(() => {
     setMobileOpen(false);
   }, [location]);
 
-  // Determine navigation based on user role
-  const navigation = user?.role === "admin" 
-    ? adminNav 
-    : user?.role === "faculty" 
-      ? facultyNav 
-      : studentNav;
+  // Determine navigation based on the user's permissions
+  const visibleNavigation = navigation
+    .filter((item) => !item.permissions || can(...item.permissions))
+    .map((item) =>
+      // Instructors only see the sections they teach
+      item.href === "/courses" && user?.role === "faculty" ? { ...item, label: "My Courses" } : item
+    );
 
   const NavItems = () => (
     <>
@@ -80,7 +85,7 @@ export function Sidebar() {
               : "Student Dashboard"}
         </p>
         <nav className="space-y-1">
-          {navigation.map((item) => {
+          {visibleNavigation.map((item) => {
             const isActive = location === item.href;
             return (
               <Link 
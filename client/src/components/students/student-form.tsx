@@ -22,7 +22,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Loader2 } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { createItem, updateItem } from "@/lib/api";
+import { createItem, updateItem, versionConflict } from "@/lib/api";
+import { VersionConflictDialog, mergeEdits, type VersionConflict } from "@/components/version-conflict-dialog";
 
 // Extended schema for the form
 const studentFormSchema = z.object({
@@ -33,7 +34,7 @@ const studentFormSchema = z.object({
   status: z.enum(["active", "inactive", "on leave"]),
   // User fields
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
   email: z.string().email("Invalid email address"),
   name: z.string().min(1, "Full name is required"),
   profileImage: z.string().optional(),
@@ -41,8 +42,25 @@ const studentFormSchema = z.object({
 
 type StudentFormValues = z.infer<typeof studentFormSchema>;
 
+const CONFLICT_FIELDS = [
+  { name: "studentId", label: "Student ID" },
+  { name: "program", label: "Program" },
+  { name: "yearLevel", label: "Year Level" },
+  { name: "status", label: "Status" },
+];
+
+// The form values with the profile fields taken from a saved student record
+const withRecord = (values: StudentFormValues, record: Record<string, any>): StudentFormValues => ({
+  ...values,
+  studentId: record.studentId,
+  program: record.program,
+  yearLevel: record.yearLevel,
+  status: record.status,
+});
+
 interface StudentFormProps {
-  initialData?: Partial<StudentFormValues>;
+  // When editing, id and version identify the copy of the profile the edit is based on
+  initialData?: Partial<StudentFormValues> & { id?: number; version?: number };
   onSuccess?: () => void;
   isEdit?: boolean;
 }
@@ -51,6 +69,8 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const [conflict, setConflict] = useState<VersionConflict<StudentFormValues> | null>(null);
 
   const form = useForm<StudentFormValues>({
     resolver: zodResolver(studentFormSchema),
@@ -68,19 +88,6 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
     },
   });
 
-  const createUserMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return await createItem("/api/users", {
-        username: data.username,
-        password: data.password,
-        email: data.email,
-        name: data.name,
-        role: "student",
-        profileImage: data.profileImage,
-      });
-    },
-  });
-
   const createStudentMutation = useMutation({
     mutationFn: async (data: any) => {
       return await createItem("/api/students", data);
@@ -93,14 +100,15 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
     },
   });
 
-  async function onSubmit(data: StudentFormValues) {
+  async function save(data: StudentFormValues, basedOn: number | undefined) {
     setIsLoading(true);
     try {
-      if (isEdit && initialData?.userId) {
+      if (isEdit && initialData?.id) {
         // Update existing student
         await updateStudentMutation.mutateAsync({
-          id: initialData.userId,
+          id: initialData.id,
           data: {
+            version: basedOn,
             studentId: data.studentId,
             program: data.program,
             yearLevel: data.yearLevel,
@@ -112,16 +120,19 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
           description: "Student information has been updated successfully.",
         });
       } else {
-        // Create new user first
-        const newUser = await createUserMutation.mutateAsync(data);
-        
-        // Then create student profile
+        // Create the user account and student profile in one request
         await createStudentMutation.mutateAsync({
-          userId: newUser.id,
           studentId: data.studentId,
           program: data.program,
           yearLevel: data.yearLevel,
           status: data.status,
+          user: {
+            username: data.username,
+            password: data.password,
+            email: data.email,
+            name: data.name,
+            profileImage: data.profileImage,
+          },
         });
         
         toast({
@@ -138,6 +149,13 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
         onSuccess();
       }
     } catch (error) {
+      // Someone else saved the profile meanwhile; let the user merge or reload
+      const current = versionConflict(error);
+      if (current) {
+        setConflict({ base: form.formState.defaultValues as StudentFormValues, mine: data, theirs: current });
+        return;
+      }
+
       console.error("Form submission error:", error);
       toast({
         title: "Failed to save student",
@@ -149,6 +167,26 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
     }
   }
 
+  const onSubmit = (data: StudentFormValues) => save(data, version);
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdits(CONFLICT_FIELDS, conflict);
+    // The saved copy becomes the base for any further conflict
+    form.reset(withRecord(merged, conflict.theirs));
+    form.reset(merged, { keepDefaultValues: true });
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    form.reset(withRecord(form.getValues(), conflict.theirs));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -339,6 +377,15 @@ export function StudentForm({ initialData, onSuccess, isEdit = false }: StudentF
           </Button>
         </div>
       </form>
+
+      <VersionConflictDialog
+        conflict={conflict}
+        fields={CONFLICT_FIELDS}
+        isSaving={isLoading}
+        onMerge={handleMerge}
+        onReload={handleReload}
+        onCancel={() => setConflict(null)}
+      />
     </Form>
   );
 }
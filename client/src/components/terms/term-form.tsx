@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createItem, updateItem, versionConflict } from "@/lib/api";
+import { VersionConflictDialog, mergeEdits, type VersionConflict } from "@/components/version-conflict-dialog";
+
+// Dates are edited as yyyy-MM-dd strings and checked for order on the server
+const termFormSchema = z.object({
+  name: z.string().min(1, "Term name is required"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+  addDropDeadline: z.string().min(1, "Add/drop deadline is required"),
+  gradesDueDate: z.string().min(1, "Grades due date is required"),
+  isCurrent: z.boolean(),
+});
+
+type TermFormValues = z.infer<typeof termFormSchema>;
+
+const DATE_FIELDS = ["startDate", "endDate", "addDropDeadline", "gradesDueDate"] as const;
+
+const CONFLICT_FIELDS = [
+  { name: "name", label: "Name" },
+  { name: "startDate", label: "Start Date" },
+  { name: "endDate", label: "End Date" },
+  { name: "addDropDeadline", label: "Add/Drop Deadline" },
+  { name: "gradesDueDate", label: "Grades Due" },
+  { name: "isCurrent", label: "Current Term" },
+];
+
+const toDateInput = (value: string | Date) => format(new Date(value), "yyyy-MM-dd");
+
+const toFormValues = (term: Record<string, any>): TermFormValues => ({
+  name: term.name,
+  startDate: toDateInput(term.startDate),
+  endDate: toDateInput(term.endDate),
+  addDropDeadline: toDateInput(term.addDropDeadline),
+  gradesDueDate: toDateInput(term.gradesDueDate),
+  isCurrent: term.isCurrent,
+});
+
+// Date inputs are read as local midnight, so the day does not shift in the user's time zone
+const toRequest = (data: TermFormValues) => ({
+  ...data,
+  ...Object.fromEntries(DATE_FIELDS.map((field) => [field, new Date(`${data[field]}T00:00:00`).toISOString()])),
+});
+
+// The saved term of a conflict, which is kept as form values
+const savedValues = (conflict: VersionConflict<TermFormValues>): TermFormValues => {
+  const { version, ...values } = conflict.theirs;
+  return values as TermFormValues;
+};
+
+interface TermFormProps {
+  // When editing, the term as loaded; its id and version identify the copy the edit is based on
+  initialData?: Record<string, any> & { id: number; version: number };
+  onSuccess?: () => void;
+}
+
+export function TermForm({ initialData, onSuccess }: TermFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(initialData?.version);
+  const [conflict, setConflict] = useState<VersionConflict<TermFormValues> | null>(null);
+  const isEdit = !!initialData;
+
+  const form = useForm<TermFormValues>({
+    resolver: zodResolver(termFormSchema),
+    defaultValues: initialData
+      ? toFormValues(initialData)
+      : { name: "", startDate: "", endDate: "", addDropDeadline: "", gradesDueDate: "", isCurrent: false },
+  });
+
+  const createTermMutation = useMutation({
+    mutationFn: async (data: ReturnType<typeof toRequest>) => {
+      return await createItem("/api/terms", data);
+    },
+  });
+
+  const updateTermMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number, data: ReturnType<typeof toRequest> & { version?: number } }) => {
+      return await updateItem("/api/terms", id, data);
+    },
+  });
+
+  async function save(data: TermFormValues, basedOn: number | undefined) {
+    setIsLoading(true);
+    try {
+      if (initialData) {
+        await updateTermMutation.mutateAsync({
+          id: initialData.id,
+          data: { ...toRequest(data), version: basedOn },
+        });
+
+        toast({
+          title: "Term updated",
+          description: `${data.name} has been updated successfully.`,
+        });
+      } else {
+        await createTermMutation.mutateAsync(toRequest(data));
+
+        toast({
+          title: "Term created",
+          description: `${data.name} has been created successfully.`,
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/terms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (error) {
+      // Someone else saved the term meanwhile; let the user merge or reload
+      const current = versionConflict(error);
+      if (current) {
+        setConflict({
+          base: form.formState.defaultValues as TermFormValues,
+          mine: data,
+          theirs: { ...toFormValues(current), version: current.version },
+        });
+        return;
+      }
+
+      console.error("Form submission error:", error);
+      toast({
+        title: "Failed to save term",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const onSubmit = (data: TermFormValues) => save(data, version);
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdits(CONFLICT_FIELDS, conflict);
+    // The saved copy becomes the base for any further conflict
+    form.reset(savedValues(conflict));
+    form.reset(merged, { keepDefaultValues: true });
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+    save(merged, conflict.theirs.version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    form.reset(savedValues(conflict));
+    setVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Term Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Fall 2026" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="addDropDeadline"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Add/Drop Deadline</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Last day students can be enrolled in or dropped from a section</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gradesDueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Grades Due</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Grade entry closes after this day</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isCurrent"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Current term</FormLabel>
+                <FormDescription>Dashboards show this term by default; it replaces the current one</FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? "Update Term" : "Create Term"}
+          </Button>
+        </div>
+      </form>
+
+      <VersionConflictDialog
+        conflict={conflict}
+        fields={CONFLICT_FIELDS}
+        isSaving={isLoading}
+        onMerge={handleMerge}
+        onReload={handleReload}
+        onCancel={() => setConflict(null)}
+      />
+    </Form>
+  );
+}
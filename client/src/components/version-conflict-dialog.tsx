@@ -0,0 +1,121 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+type Values = Record<string, unknown>;
+
+export interface ConflictField {
+  name: string;
+  label: string;
+}
+
+// A record that was saved by someone else while the form was open
+export interface VersionConflict<T extends Values> {
+  // Form values when editing started, what the user submitted, and the record as saved now
+  base: T;
+  mine: T;
+  theirs: Values & { version: number };
+}
+
+const display = (value: unknown) => (value === null || value === undefined || value === "" ? "—" : String(value));
+const same = (a: unknown, b: unknown) => display(a) === display(b);
+
+// The user's edits applied on top of the saved record: fields they changed take their value,
+// every other field takes the saved one
+export function mergeEdits<T extends Values>(fields: ConflictField[], conflict: VersionConflict<T>): T {
+  const merged: Values = { ...conflict.mine };
+  for (const { name } of fields) {
+    if (same(conflict.mine[name], conflict.base[name]) && name in conflict.theirs) {
+      merged[name] = conflict.theirs[name] ?? "";
+    }
+  }
+  return merged as T;
+}
+
+interface VersionConflictDialogProps<T extends Values> {
+  conflict: VersionConflict<T> | null;
+  fields: ConflictField[];
+  isSaving?: boolean;
+  onMerge: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+// Shown when saving a form fails because the record changed in the meantime. Lists the fields either side
+// changed, and lets the user save their edits on top of the other change or start over from it.
+export function VersionConflictDialog<T extends Values>({
+  conflict,
+  fields,
+  isSaving,
+  onMerge,
+  onReload,
+  onCancel,
+}: VersionConflictDialogProps<T>) {
+  const rows = conflict
+    ? fields
+        .map((field) => ({
+          ...field,
+          mine: conflict.mine[field.name],
+          theirs: conflict.theirs[field.name],
+          changedByMe: !same(conflict.mine[field.name], conflict.base[field.name]),
+          changedByThem: !same(conflict.theirs[field.name], conflict.base[field.name]),
+        }))
+        .filter((row) => row.changedByMe || row.changedByThem)
+    : [];
+  const overlapping = rows.filter((row) => row.changedByMe && row.changedByThem && !same(row.mine, row.theirs));
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>This record was changed by someone else</DialogTitle>
+          <DialogDescription>
+            {overlapping.length > 0
+              ? "Some of the fields you edited were changed as well. Saving your edits replaces their values for those fields."
+              : "Your edits do not overlap with theirs, so both can be kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Your edit</TableHead>
+                <TableHead>Saved by someone else</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.name} className={cn(overlapping.includes(row) && "bg-amber-50")}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className={cn(!row.changedByMe && "text-neutral-400")}>{display(row.mine)}</TableCell>
+                  <TableCell className={cn(!row.changedByThem && "text-neutral-400")}>{display(row.theirs)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onReload} disabled={isSaving}>
+            Discard My Edits and Reload
+          </Button>
+          <Button onClick={onMerge} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save My Edits on Top
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,33 @@
 import { useState, useEffect, ReactNode, useContext } from "react";
 import { apiRequest } from "@/lib/api";
-import { LoginCredentials } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { LoginCredentials, TwoFactorLogin } from "@shared/schema";
 import { useLocation as useWouterLocation } from "wouter";
-import { AuthContext, AuthContextType } from "@/lib/auth-context";
+import { AuthContext, AuthContextType, Impersonation, LoginResult } from "@/lib/auth-context";
+import { hasAnyPermission, type Permission } from "@shared/permissions";
+
+// Reads the signed-in user (and any impersonation) from the server session
+async function fetchSession(): Promise<{ user: AuthContextType["user"]; impersonation: Impersonation | null }> {
+  const response = await apiRequest("GET", "/api/auth/session");
+  const data = await response.json();
+
+  if (!data.isAuthenticated || !data.user) {
+    return { user: null, impersonation: null };
+  }
+
+  // Fetch full user details
+  const userResponse = await apiRequest("GET", `/api/users/${data.user.id}`);
+  const userData = await userResponse.json();
+  return {
+    user: { ...userData, twoFactorEnrollmentRequired: data.user.twoFactorEnrollmentRequired },
+    impersonation: data.impersonation ?? null,
+  };
+}
 
 // Provider component
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState(null);
+  const [user, setUser] = useState<AuthContextType["user"]>(null);
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [, setLocation] = useWouterLocation();
 
@@ -18,14 +39,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     // Check if user is already authenticated
     const checkAuth = async () => {
       try {
-        const response = await apiRequest("GET", "/api/auth/session");
-        const data = await response.json();
+        const session = await fetchSession();
         
-        if (isMounted && data.isAuthenticated && data.user) {
-          // Fetch full user details
-          const userResponse = await apiRequest("GET", `/api/users/${data.user.id}`);
-          const userData = await userResponse.json();
-          setUser(userData);
+        if (isMounted && session.user) {
+          setUser(session.user);
+          setImpersonation(session.impersonation);
         }
       } catch (error) {
         console.error("Authentication check failed:", error);
@@ -44,13 +62,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
-  const login = async (credentials: LoginCredentials) => {
+  // Users who have to enroll in two-factor authentication land on the settings page instead
+  const signIn = (userData: NonNullable<AuthContextType["user"]>) => {
+    setUser(userData);
+    setLocation(userData.twoFactorEnrollmentRequired ? "/settings" : "/dashboard");
+  };
+
+  const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
     setIsLoading(true);
     try {
       const response = await apiRequest("POST", "/api/auth/login", credentials);
-      const userData = await response.json();
-      setUser(userData);
-      setLocation("/dashboard");
+      const data = await response.json();
+      if (data.twoFactorRequired) {
+        return { twoFactorRequired: true };
+      }
+      signIn(data);
+      return {};
     } catch (error) {
       throw error;
     } finally {
@@ -58,11 +85,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const verifyTwoFactor = async (proof: TwoFactorLogin) => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest("POST", "/api/auth/login/verify", proof);
+      signIn(await response.json());
+    } catch (error) {
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const completeTwoFactorEnrollment = () => {
+    setUser((current) => current && { ...current, twoFactorEnabled: true, twoFactorEnrollmentRequired: false });
+  };
+
   const logout = async () => {
     setIsLoading(true);
     try {
       await apiRequest("POST", "/api/auth/logout");
       setUser(null);
+      setImpersonation(null);
       setLocation("/login");
     } catch (error) {
       console.error("Logout failed:", error);
@@ -71,13 +115,53 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Swaps the whole app over to another identity; cached data belongs to the previous one
+  const switchIdentity = async () => {
+    queryClient.clear();
+    const session = await fetchSession();
+    setUser(session.user);
+    setImpersonation(session.impersonation);
+    setLocation("/dashboard");
+  };
+
+  const startImpersonation = async (userId: number) => {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", `/api/users/${userId}/impersonate`);
+      await switchIdentity();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const stopImpersonation = async () => {
+    setIsLoading(true);
+    try {
+      // 400 means the server already ended it (the time box ran out); just catch up
+      await apiRequest("POST", "/api/auth/impersonation/stop").catch((error) => {
+        if (error?.status !== 400) throw error;
+      });
+      await switchIdentity();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const can = (...permissions: Permission[]) => hasAnyPermission(user?.role, permissions);
+
   // Create the context value object
   const contextValue: AuthContextType = {
     user,
     isAuthenticated,
     isLoading,
+    impersonation,
     login,
+    verifyTwoFactor,
+    completeTwoFactorEnrollment,
     logout,
+    startImpersonation,
+    stopImpersonation,
+    can,
   };
 
   return (
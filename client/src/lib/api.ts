@@ -59,3 +59,14 @@ export async function updateItem<T>(endpoint: string, id: string | number, data:
 export async function deleteItem(endpoint: string, id: string | number): Promise<void> {
   await apiRequest("DELETE", `${endpoint}/${id}`);
 }
+
+// The record as it is now on the server, when a save was refused because it changed since it was loaded
+export function versionConflict(error: unknown): (Record<string, unknown> & { version: number }) | null {
+  if (!(error instanceof Error) || (error as ApiError).status !== 409) return null;
+  try {
+    const body = JSON.parse(error.message);
+    return body.code === "version_conflict" && body.current ? body.current : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 import { createContext } from "react";
-import { LoginCredentials } from "@shared/schema";
+import { LoginCredentials, TwoFactorLogin } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
 
 interface User {
   id: number;
@@ -8,14 +9,37 @@ interface User {
   email: string;
   role: string;
   profileImage?: string;
+  twoFactorEnabled?: boolean;
+  // The role requires two-factor authentication and the user has not set it up yet
+  twoFactorEnrollmentRequired?: boolean;
+}
+
+// Present while an admin views the app as another user
+export interface Impersonation {
+  impersonator: { id: number; username: string; name: string };
+  startedAt: string;
+  expiresAt: string;
+}
+
+export interface LoginResult {
+  // The password was accepted; finish signing in with verifyTwoFactor
+  twoFactorRequired?: boolean;
 }
 
 export interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (credentials: LoginCredentials) => Promise<void>;
+  impersonation: Impersonation | null;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyTwoFactor: (proof: TwoFactorLogin) => Promise<void>;
+  // Lifts the enrollment requirement once two-factor authentication has been enabled
+  completeTwoFactorEnrollment: () => void;
   logout: () => Promise<void>;
+  startImpersonation: (userId: number) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
+  // True when the signed-in user's role grants any of the permissions
+  can: (...permissions: Permission[]) => boolean;
 }
 
 // Create a default context with dummy functions
@@ -23,13 +47,27 @@ export const defaultAuthContext: AuthContextType = {
   user: null,
   isAuthenticated: false,
   isLoading: true,
+  impersonation: null,
   login: async () => {
     console.error("Auth context not initialized");
     throw new Error("Auth context not initialized");
   },
+  verifyTwoFactor: async () => {
+    console.error("Auth context not initialized");
+    throw new Error("Auth context not initialized");
+  },
+  completeTwoFactorEnrollment: () => {},
   logout: async () => {
     console.error("Auth context not initialized");
-  }
+  },
+  startImpersonation: async () => {
+    console.error("Auth context not initialized");
+    throw new Error("Auth context not initialized");
+  },
+  stopImpersonation: async () => {
+    console.error("Auth context not initialized");
+  },
+  can: () => false
 };
 
 // Create the context with a default value to avoid undefined
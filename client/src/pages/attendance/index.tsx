@@ -17,7 +17,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 export default function Attendance() {
   const [location, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [showNewAttendanceDialog, setShowNewAttendanceDialog] = useState(
     new URLSearchParams(location.split("?")[1]).get("action") === "new"
   );
@@ -52,13 +52,9 @@ export default function Attendance() {
   const { data: facultyEnrollments, isLoading: isLoadingFacultyEnrollments } = useQuery({
     queryKey: ["/api/faculty/enrollments", profileData?.id],
     queryFn: async () => {
-      const response = await apiRequest("GET", `/api/faculty/${profileData.id}`);
-      const facultyData = await response.json();
-      
-      // Extract all enrollments from all course assignments
-      return facultyData.courses
-        .flatMap((course: any) => course.enrollments || [])
-        .filter(Boolean);
+      // Enrollments across all of this faculty member's sections, with attendance and grades
+      const response = await apiRequest("GET", "/api/faculty/enrollments");
+      return response.json();
     },
     enabled: !!profileData && user?.role === "faculty",
   });
@@ -113,7 +109,7 @@ export default function Attendance() {
   };
 
   // Only admin and faculty can add attendance
-  const canAddAttendance = user?.role === 'admin' || user?.role === 'faculty';
+  const canAddAttendance = can("attendance:write:any", "attendance:write:own-course");
   
   // Determine what data to show based on user role
   const attendanceData = user?.role === "student" 
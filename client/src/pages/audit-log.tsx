@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditActionBadge,
+  AuditActor,
+  AuditChangeList,
+  type AuditEntryInfo,
+} from "@/components/audit/record-history";
+import { apiRequest } from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+interface AuditFilters {
+  entityType: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: AuditFilters = { entityType: "all", actorId: "all", from: "", to: "" };
+
+// Admin view of every recorded data change, filterable by entity, user and date range
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(NO_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const updateFilter = (name: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value }));
+    setPage(0);
+  };
+
+  const { data: users = [] } = useQuery<{ id: number; username: string; name: string }[]>({
+    queryKey: ["/api/users"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/users");
+      return response.json();
+    },
+  });
+
+  const { data: entries = [], isLoading } = useQuery<AuditEntryInfo[]>({
+    queryKey: ["/api/audit", filters, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE + 1), offset: String(page * PAGE_SIZE) });
+      if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+      if (filters.actorId !== "all") params.set("actorId", filters.actorId);
+      // Date inputs are local calendar days; send the whole day
+      if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const response = await apiRequest("GET", `/api/audit?${params}`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  // One extra row is requested to know whether there is a next page
+  const hasNextPage = entries.length > PAGE_SIZE;
+  const visibleEntries = entries.slice(0, PAGE_SIZE);
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Audit Log"
+        description="Who changed what, and when"
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>Every create, update and delete, newest first</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-5 md:items-end">
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name} ({user.username})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={(event) => updateFilter("from", event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={(event) => updateFilter("to", event.target.value)} />
+            </div>
+            <Button variant="outline" onClick={() => { setFilters(NO_FILTERS); setPage(0); }}>
+              Clear Filters
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visibleEntries.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">No changes match these filters</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleEntries.map((entry) => (
+                  <TableRow key={entry.id} className="align-top">
+                    <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), "PPp")}</TableCell>
+                    <TableCell><AuditActor entry={entry} /></TableCell>
+                    <TableCell><AuditActionBadge action={entry.action} /></TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType} #{entry.entityId}
+                    </TableCell>
+                    <TableCell><AuditChangeList entry={entry} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              Newer
+            </Button>
+            <span className="text-sm text-neutral-500">Page {page + 1}</span>
+            <Button variant="outline" onClick={() => setPage(page + 1)} disabled={!hasNextPage}>
+              Older
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,12 +9,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table";
-import { Edit, ArrowLeft, Trash2, AlertTriangle, BookOpen } from "lucide-react";
+import { Edit, ArrowLeft, Trash2, AlertTriangle, BookOpen, Users, CalendarClock } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { CourseForm } from "@/components/courses/course-form";
+import { CourseRequisites } from "@/components/courses/course-requisites";
+import { SectionCapacityDialog } from "@/components/courses/section-capacity-dialog";
+import { SectionMeetingsDialog, describeMeeting, type SectionMeeting } from "@/components/courses/section-meetings-dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { RecordHistory } from "@/components/audit/record-history";
 
 interface CourseDetailProps {
   id: string;
@@ -24,9 +28,11 @@ export default function CourseDetail({ id }: CourseDetailProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [capacitySection, setCapacitySection] = useState<any>(null);
+  const [scheduleSection, setScheduleSection] = useState<any>(null);
   
   // Fetch course details
   const { data: course, isLoading, error } = useQuery({
@@ -45,7 +51,7 @@ export default function CourseDetail({ id }: CourseDetailProps) {
     onSuccess: () => {
       toast({
         title: "Course deleted",
-        description: "Course has been deleted successfully.",
+        description: "Course has been moved to the trash.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
       setLocation("/courses");
@@ -83,7 +89,7 @@ export default function CourseDetail({ id }: CourseDetailProps) {
   };
 
   // Only admins can edit/delete courses
-  const isAdmin = user?.role === 'admin';
+  const canManageCourses = can("courses:write:any");
 
   if (isLoading) {
     return (
@@ -134,7 +140,7 @@ export default function CourseDetail({ id }: CourseDetailProps) {
               <ArrowLeft className="h-5 w-5 mr-2" />
               Back
             </Button>
-            {isAdmin && (
+            {canManageCourses && (
               <>
                 <Button 
                   variant="outline"
@@ -186,6 +192,10 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                 <span className="text-neutral-500">Credits:</span>
                 <span className="font-medium">{course.credits}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-neutral-500">Grading:</span>
+                <span className="font-medium">{course.gradeScale?.name ?? "Program or default scale"}</span>
+              </div>
               {course.description && (
                 <div className="pt-2">
                   <span className="text-neutral-500">Description:</span>
@@ -205,6 +215,7 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                 <TabsList>
                   <TabsTrigger value="faculty">Faculty</TabsTrigger>
                   <TabsTrigger value="students">Students</TabsTrigger>
+                  {can("audit:read:any") && <TabsTrigger value="history">History</TabsTrigger>}
                 </TabsList>
               </div>
               <CardDescription>Faculty and enrolled students</CardDescription>
@@ -236,10 +247,59 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                         ),
                       },
                       {
-                        key: "semester",
-                        title: "Semester",
-                        render: (row) => <div>{row.semester} {row.year}</div>,
+                        key: "term",
+                        title: "Term",
+                        render: (row) => <div>{row.term?.name}</div>,
+                      },
+                      {
+                        key: "meetings",
+                        title: "Schedule",
+                        render: (row: any) =>
+                          row.meetings?.length > 0 ? (
+                            <div className="space-y-1">
+                              {row.meetings.map((meeting: SectionMeeting) => (
+                                <div key={meeting.id} className="text-sm">{describeMeeting(meeting)}</div>
+                              ))}
+                            </div>
+                          ) : (
+                            <div className="text-sm text-neutral-500">Not scheduled</div>
+                          ),
+                      },
+                      {
+                        key: "seats",
+                        title: "Seats",
+                        render: (row: any) => (
+                          <div>
+                            {row.seats?.enrolled ?? 0} / {row.seats?.capacity ?? "no limit"}
+                            {row.seats?.available === 0 && (
+                              <Badge className="ml-2 bg-red-100 text-red-800" variant="outline">full</Badge>
+                            )}
+                          </div>
+                        ),
+                      },
+                      {
+                        key: "waitlist",
+                        title: "Waitlist",
+                        render: (row: any) => <div>{row.seats?.waitlisted ?? 0}</div>,
                       },
+                      ...(can("course-assignments:write:any")
+                        ? [{
+                            key: "actions",
+                            title: "",
+                            render: (row: any) => (
+                              <div className="flex justify-end space-x-1">
+                                <Button variant="ghost" size="sm" onClick={() => setScheduleSection(row)}>
+                                  <CalendarClock className="h-4 w-4 mr-1" />
+                                  Schedule
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setCapacitySection(row)}>
+                                  <Users className="h-4 w-4 mr-1" />
+                                  Capacity
+                                </Button>
+                              </div>
+                            ),
+                          }]
+                        : []),
                     ]}
                     keyExtractor={(item) => item.id}
                   />
@@ -256,12 +316,7 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                   <DataTable
                     data={course.assignments
                       .flatMap(assignment => assignment.enrollments || [])
-                      .filter(Boolean)
-                      .map(enrollment => ({
-                        ...enrollment,
-                        semester: course.assignments.find(a => a.id === enrollment.courseAssignmentId)?.semester,
-                        year: course.assignments.find(a => a.id === enrollment.courseAssignmentId)?.year,
-                      }))}
+                      .filter(Boolean)}
                     columns={[
                       {
                         key: "student",
@@ -283,9 +338,9 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                         ),
                       },
                       {
-                        key: "semester",
-                        title: "Semester",
-                        render: (row) => <div>{row.semester} {row.year}</div>,
+                        key: "term",
+                        title: "Term",
+                        render: (row) => <div>{row.term?.name}</div>,
                       },
                       {
                         key: "enrollmentDate",
@@ -295,14 +350,16 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                       {
                         key: "status",
                         title: "Status",
-                        render: (row) => (
+                        render: (row: any) => (
                           <Badge 
                             className={row.status === "enrolled" ? "bg-green-100 text-green-800" : 
                                       row.status === "dropped" ? "bg-red-100 text-red-800" : 
+                                      row.status === "waitlisted" ? "bg-yellow-100 text-yellow-800" :
                                       "bg-blue-100 text-blue-800"} 
                             variant="outline"
                           >
                             {row.status}
+                            {row.status === "waitlisted" && row.waitlistPosition && ` #${row.waitlistPosition}`}
                           </Badge>
                         ),
                       },
@@ -315,13 +372,22 @@ export default function CourseDetail({ id }: CourseDetailProps) {
                   </div>
                 )}
               </TabsContent>
+
+              {can("audit:read:any") && (
+                <TabsContent value="history" className="space-y-4">
+                  <h3 className="text-lg font-medium">Change History</h3>
+                  <RecordHistory records={[{ entityType: "course", entityId: course.id }]} />
+                </TabsContent>
+              )}
             </CardContent>
           </Tabs>
         </Card>
       </div>
 
+      <CourseRequisites course={course} />
+
       {/* Edit Course Dialog */}
-      {isAdmin && (
+      {canManageCourses && (
         <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
           <DialogContent className="max-w-4xl">
             <DialogHeader>
@@ -332,12 +398,15 @@ export default function CourseDetail({ id }: CourseDetailProps) {
             </DialogHeader>
             <CourseForm 
               initialData={{
+                id: course.id,
+                version: course.version,
                 code: course.code,
                 title: course.title,
                 description: course.description || "",
                 credits: course.credits,
                 department: course.department,
                 status: course.status as any,
+                gradeScaleId: course.gradeScaleId,
               }} 
               onSuccess={() => {
                 setShowEditDialog(false);
@@ -350,13 +419,13 @@ export default function CourseDetail({ id }: CourseDetailProps) {
       )}
 
       {/* Delete Confirmation Dialog */}
-      {isAdmin && (
+      {canManageCourses && (
         <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Confirm Deletion</DialogTitle>
               <DialogDescription>
-                Are you sure you want to delete this course? This action cannot be undone.
+                Are you sure you want to delete this course? An administrator can restore it from the trash.
               </DialogDescription>
             </DialogHeader>
             <DialogFooter>
@@ -374,6 +443,9 @@ export default function CourseDetail({ id }: CourseDetailProps) {
           </DialogContent>
         </Dialog>
       )}
+
+      <SectionCapacityDialog section={capacitySection} onClose={() => setCapacitySection(null)} />
+      <SectionMeetingsDialog section={scheduleSection} onClose={() => setScheduleSection(null)} />
     </div>
   );
 }
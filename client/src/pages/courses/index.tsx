@@ -13,7 +13,7 @@ import { useAuth } from "@/hooks/use-auth";
 
 export default function Courses() {
   const [location, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [showNewCourseDialog, setShowNewCourseDialog] = useState(
     new URLSearchParams(location.split("?")[1]).get("action") === "new"
   );
@@ -54,7 +54,7 @@ export default function Courses() {
   };
 
   // Only admins can add new courses
-  const isAdmin = user?.role === 'admin';
+  const canManageCourses = can("courses:write:any");
 
   return (
     <div className="p-4 md:p-6 max-w-7xl mx-auto">
@@ -67,7 +67,7 @@ export default function Courses() {
               <Download className="h-5 w-5 mr-2" />
               Export
             </Button>
-            {isAdmin && (
+            {canManageCourses && (
               <Button onClick={openNewCourseDialog} className="flex items-center">
                 <Plus className="h-5 w-5 mr-2" />
                 Add Course
@@ -120,7 +120,7 @@ export default function Courses() {
         />
       </div>
 
-      {isAdmin && (
+      {canManageCourses && (
         <Dialog open={showNewCourseDialog} onOpenChange={setShowNewCourseDialog}>
           <DialogContent className="max-w-4xl">
             <DialogHeader>
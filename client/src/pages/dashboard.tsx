@@ -1,9 +1,11 @@
+import { useState } from "react";
 import { Header } from "@/components/header";
 import { StatCard } from "@/components/dashboard/stat-card";
 import { EventsList } from "@/components/dashboard/events-list";
 import { CourseOverview } from "@/components/dashboard/course-overview";
 import { QuickActions } from "@/components/dashboard/quick-actions";
 import { CampusHighlights } from "@/components/dashboard/campus-highlights";
+import { AcademicStanding } from "@/components/dashboard/academic-standing";
 import { DataTable } from "@/components/ui/data-table";
 import { Button } from "@/components/ui/button";
 import { Download, Plus, Users, GraduationCap, BookOpen, CheckCircle } from "lucide-react";
@@ -13,19 +15,38 @@ import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  // Term the figures cover; until one is picked the server uses the current term
+  const [termId, setTermId] = useState<string>();
 
   // Fetch dashboard stats
   const { data: stats, isLoading: isLoadingStats } = useQuery({
-    queryKey: ["/api/dashboard/stats"],
+    queryKey: ["/api/dashboard/stats", termId],
     queryFn: async () => {
-      const response = await apiRequest("GET", "/api/dashboard/stats");
+      const response = await apiRequest("GET", `/api/dashboard/stats${termId ? `?termId=${termId}` : ""}`);
       return response.json();
     },
   });
 
+  // Fetch terms for the term picker
+  const { data: terms } = useQuery({
+    queryKey: ["/api/terms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/terms");
+      return response.json();
+    },
+    enabled: can("terms:read:any"),
+  });
+
   // Fetch upcoming events
   const { data: events, isLoading: isLoadingEvents } = useQuery({
     queryKey: ["/api/events/upcoming"],
@@ -42,7 +63,7 @@ export default function Dashboard() {
       const response = await apiRequest("GET", "/api/students");
       return response.json();
     },
-    enabled: user?.role === "admin" || user?.role === "faculty",
+    enabled: can("students:read:any", "students:read:own-course"),
   });
 
   const getStatusBadgeColor = (status: string) => {
@@ -65,11 +86,26 @@ export default function Dashboard() {
         description={`Welcome back${user?.name ? ", " + user.name : ""}`}
         actions={
           <>
+            {terms?.length > 0 && (
+              <Select value={termId ?? (stats?.term ? String(stats.term.id) : "all")} onValueChange={setTermId}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Select a term" />
+                </SelectTrigger>
+                <SelectContent>
+                  {terms.map((term: any) => (
+                    <SelectItem key={term.id} value={String(term.id)}>
+                      {term.name}{term.isCurrent ? " (current)" : ""}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="all">All terms</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
             <Button variant="outline" className="hidden md:flex items-center">
               <Download className="h-5 w-5 mr-2" />
               Download Report
             </Button>
-            {(user?.role === "admin" || user?.role === "faculty") && (
+            {can("students:read:any", "students:read:own-course") && (
               <Link href="/students?action=new">
                 <Button className="hidden md:flex items-center">
                   <Plus className="h-5 w-5 mr-2" />
@@ -145,7 +181,7 @@ export default function Dashboard() {
         {/* Left and Middle - Students Table Section */}
         <div className="lg:col-span-2 space-y-6">
           {/* Students Table */}
-          {(user?.role === "admin" || user?.role === "faculty") && (
+          {can("students:read:any", "students:read:own-course") && (
             <div className="bg-white rounded-xl shadow-sm border border-neutral-100 overflow-hidden">
               <div className="p-6 border-b border-neutral-100">
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
@@ -224,6 +260,9 @@ export default function Dashboard() {
 
         {/* Right Column */}
         <div className="space-y-6">
+          {/* GPA, for students */}
+          {can("students:read:self") && <AcademicStanding />}
+
           {/* Course Overview */}
           <CourseOverview 
             courseStats={stats?.courseStatistics || {
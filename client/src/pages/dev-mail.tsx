@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Inbox, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SentMail {
+  id: string;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: string;
+}
+
+// Turns URLs in a plain-text message into links, so reset links can be followed straight from here
+function linkify(text: string) {
+  return text.split(/(https?:\/\/\S+)/g).map((part, index) =>
+    /^https?:\/\//.test(part) ? (
+      <a key={index} href={part} className="text-primary-600 underline break-all">{part}</a>
+    ) : (
+      part
+    )
+  );
+}
+
+// Development-only viewer for mail written to the local outbox instead of being sent
+export default function DevMail() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: messages = [], error, refetch, isFetching } = useQuery<SentMail[]>({
+    queryKey: ["/api/dev/mail"],
+  });
+
+  const selected = messages.find((message) => message.id === selectedId) ?? messages[0];
+
+  return (
+    <div className="min-h-screen w-full bg-neutral-50 p-4 md:p-6">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-heading font-semibold">Outbox</h1>
+            <p className="text-neutral-500">Mail the server would have sent, kept locally for development</p>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={cn("h-4 w-4 mr-2", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTitle>Outbox unavailable</AlertTitle>
+            <AlertDescription>
+              The mail viewer only works in development while MAIL_TRANSPORT is "outbox".
+            </AlertDescription>
+          </Alert>
+        ) : messages.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center py-12 text-neutral-500">
+              <Inbox className="h-10 w-10 mb-2" />
+              No messages yet
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card className="md:col-span-1">
+              <CardContent className="p-0">
+                {messages.map((message) => (
+                  <button
+                    key={message.id}
+                    onClick={() => setSelectedId(message.id)}
+                    className={cn(
+                      "w-full text-left border-b px-4 py-3 hover:bg-neutral-100",
+                      selected?.id === message.id && "bg-neutral-100"
+                    )}
+                  >
+                    <div className="font-medium truncate">{message.subject}</div>
+                    <div className="text-sm text-neutral-500 truncate">{message.to}</div>
+                    <div className="text-xs text-neutral-400">
+                      {formatDistanceToNow(new Date(message.sentAt), { addSuffix: true })}
+                    </div>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>{selected.subject}</CardTitle>
+                  <CardDescription>
+                    From {selected.from} to {selected.to}, {new Date(selected.sentAt).toLocaleString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <pre className="whitespace-pre-wrap font-sans text-sm">{linkify(selected.text)}</pre>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,11 +9,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table";
-import { Edit, ArrowLeft, Trash2, AlertTriangle } from "lucide-react";
+import { Edit, ArrowLeft, Trash2, AlertTriangle, LogOut, Eye } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { FacultyForm } from "@/components/faculty/faculty-form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { RecordHistory } from "@/components/audit/record-history";
+import { WeeklyTimetable } from "@/components/schedule/weekly-timetable";
 
 interface FacultyDetailProps {
   id: string;
@@ -22,6 +25,7 @@ interface FacultyDetailProps {
 export default function FacultyDetail({ id }: FacultyDetailProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can, startImpersonation } = useAuth();
   const queryClient = useQueryClient();
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -38,16 +42,17 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
   // Delete faculty mutation
   const deleteFacultyMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("DELETE", `/api/faculty/${id}`);
-      // Also delete the user
+      // Trashing the account takes the profile with it, so both are restored together
       if (faculty?.user?.id) {
         await apiRequest("DELETE", `/api/users/${faculty.user.id}`);
+      } else {
+        await apiRequest("DELETE", `/api/faculty/${id}`);
       }
     },
     onSuccess: () => {
       toast({
         title: "Faculty deleted",
-        description: "Faculty record has been deleted successfully.",
+        description: "Faculty record has been moved to the trash.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/faculty"] });
       setLocation("/faculty");
@@ -61,6 +66,40 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
     },
   });
 
+  // Ends every session of the faculty's account, e.g. for a lost device
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/users/${faculty.user.id}/sessions`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Signed out everywhere",
+        description: `${data.revoked} ${data.revoked === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to sign out sessions",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Switches this browser to the faculty's account until the admin exits or the time box runs out
+  const handleViewAsUser = async () => {
+    try {
+      await startImpersonation(faculty.user.id);
+    } catch (error) {
+      toast({
+        title: "Failed to view as user",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     try {
       await deleteFacultyMutation.mutateAsync();
@@ -140,6 +179,22 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
               <Edit className="h-5 w-5 mr-2" />
               Edit
             </Button>
+            {can("users:write:any") && faculty.user?.id && (
+              <Button
+                variant="outline"
+                onClick={() => signOutEverywhereMutation.mutate()}
+                disabled={signOutEverywhereMutation.isPending}
+              >
+                <LogOut className="h-5 w-5 mr-2" />
+                Sign Out Everywhere
+              </Button>
+            )}
+            {can("users:impersonate:any") && faculty.user?.id && (
+              <Button variant="outline" onClick={handleViewAsUser}>
+                <Eye className="h-5 w-5 mr-2" />
+                View as User
+              </Button>
+            )}
             <Button 
               variant="destructive" 
               onClick={() => setShowDeleteDialog(true)}
@@ -212,6 +267,8 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
                 <TabsList>
                   <TabsTrigger value="courses">Courses</TabsTrigger>
                   <TabsTrigger value="students">Students</TabsTrigger>
+                  <TabsTrigger value="timetable">Timetable</TabsTrigger>
+                  {can("audit:read:any") && <TabsTrigger value="history">History</TabsTrigger>}
                 </TabsList>
               </div>
               <CardDescription>Course assignments and students</CardDescription>
@@ -234,9 +291,9 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
                         ),
                       },
                       {
-                        key: "semester",
-                        title: "Semester",
-                        render: (row) => <div>{row.semester} {row.year}</div>,
+                        key: "term",
+                        title: "Term",
+                        render: (row) => <div>{row.term?.name}</div>,
                       },
                       {
                         key: "credits",
@@ -331,6 +388,21 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="timetable" className="space-y-4">
+                <h3 className="text-lg font-medium">Teaching Timetable</h3>
+                <WeeklyTimetable url={`/api/faculty/${faculty.id}/timetable`} />
+              </TabsContent>
+
+              {can("audit:read:any") && (
+                <TabsContent value="history" className="space-y-4">
+                  <h3 className="text-lg font-medium">Change History</h3>
+                  <RecordHistory records={[
+                    { entityType: "faculty", entityId: faculty.id },
+                    ...(faculty.user?.id ? [{ entityType: "user", entityId: faculty.user.id }] : []),
+                  ]} />
+                </TabsContent>
+              )}
             </CardContent>
           </Tabs>
         </Card>
@@ -347,6 +419,8 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
           </DialogHeader>
           <FacultyForm 
             initialData={{
+              id: faculty.id,
+              version: faculty.version,
               userId: faculty.userId,
               facultyId: faculty.facultyId,
               department: faculty.department,
@@ -372,7 +446,7 @@ export default function FacultyDetail({ id }: FacultyDetailProps) {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this faculty member? This action cannot be undone.
+              Are you sure you want to delete this faculty member? An administrator can restore it from the trash.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,11 @@
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+
+export default function ForgotPassword() {
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gradient-to-b from-primary-50 to-neutral-50 px-4">
+      <div className="w-full max-w-md">
+        <ForgotPasswordForm />
+      </div>
+    </div>
+  );
+}
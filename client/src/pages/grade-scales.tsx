@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Header } from "@/components/header";
+import { GradeScaleForm, type GradeBand, type GradeScale } from "@/components/grade-scales/grade-scale-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// e.g. "A (93%+, 4.0)" or "P (60%+)"
+const describeBand = (band: GradeBand) =>
+  `${band.grade} (${band.minPercentage}%+${band.gradePoints !== null ? `, ${band.gradePoints.toFixed(1)}` : ""})`;
+
+// Grading scales, which turn final percentages into letter or pass/fail grades; admins add and edit them
+export default function GradeScales() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<GradeScale | "new" | null>(null);
+  const [deleting, setDeleting] = useState<GradeScale | null>(null);
+  const canWrite = can("grade-scales:write:any");
+
+  const { data: scales = [], isLoading } = useQuery<GradeScale[]>({
+    queryKey: ["/api/grade-scales"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/grade-scales");
+      return response.json();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (scale: GradeScale) => {
+      await apiRequest("DELETE", `/api/grade-scales/${scale.id}`);
+    },
+    onSuccess: (_result, scale) => {
+      toast({ title: "Grading scale deleted", description: `${scale.name} has been deleted.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/grade-scales"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete grading scale", description: errorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => setDeleting(null),
+  });
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Grading Scales"
+        description="How final percentages become grades and grade points"
+        actions={
+          canWrite && (
+            <Button onClick={() => setEditing("new")}>
+              <Plus className="h-5 w-5 mr-2" />
+              Add Scale
+            </Button>
+          )
+        }
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Scales</CardTitle>
+          <CardDescription>
+            A course is graded on its own scale if it names one, otherwise on the scale of the student's program,
+            otherwise on the default scale
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : scales.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">No grading scales have been set up yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scale</TableHead>
+                  <TableHead>Grades</TableHead>
+                  <TableHead>Programs</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scales.map((scale) => (
+                  <TableRow key={scale.id}>
+                    <TableCell className="font-medium">
+                      {scale.name}
+                      {scale.isDefault && (
+                        <Badge className="ml-2 bg-blue-100 text-blue-800" variant="outline">default</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-md">{scale.bands.map(describeBand).join(", ")}</TableCell>
+                    <TableCell className="text-sm">{scale.programs.length > 0 ? scale.programs.join(", ") : "—"}</TableCell>
+                    {canWrite && (
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button variant="outline" size="sm" onClick={() => setEditing(scale)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => setDeleting(scale)}
+                          disabled={scale.isDefault}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Grading Scale" : "Edit Grading Scale"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <GradeScaleForm
+              key={editing === "new" ? "new" : editing.id}
+              initialData={editing === "new" ? undefined : editing}
+              onSuccess={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Grading Scale</DialogTitle>
+            <DialogDescription>
+              {deleting?.name} will be deleted. Scales that courses are graded on cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
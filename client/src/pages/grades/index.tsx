@@ -17,7 +17,7 @@ import { Progress } from "@/components/ui/progress";
 
 export default function Grades() {
   const [location, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [showNewGradeDialog, setShowNewGradeDialog] = useState(
     new URLSearchParams(location.split("?")[1]).get("action") === "new"
   );
@@ -52,13 +52,9 @@ export default function Grades() {
   const { data: facultyEnrollments, isLoading: isLoadingFacultyEnrollments } = useQuery({
     queryKey: ["/api/faculty/enrollments", profileData?.id],
     queryFn: async () => {
-      const response = await apiRequest("GET", `/api/faculty/${profileData.id}`);
-      const facultyData = await response.json();
-      
-      // Extract all enrollments from all course assignments
-      return facultyData.courses
-        .flatMap((course: any) => course.enrollments || [])
-        .filter(Boolean);
+      // Enrollments across all of this faculty member's sections, with attendance and grades
+      const response = await apiRequest("GET", "/api/faculty/enrollments");
+      return response.json();
     },
     enabled: !!profileData && user?.role === "faculty",
   });
@@ -107,7 +103,7 @@ export default function Grades() {
   };
 
   // Only admin and faculty can add grades
-  const canAddGrades = user?.role === 'admin' || user?.role === 'faculty';
+  const canAddGrades = can("grades:write:any", "grades:write:own-course");
   
   // Determine what data to show based on user role
   const gradeData = user?.role === "student" 
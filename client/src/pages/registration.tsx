@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Header } from "@/components/header";
+import { describeMeeting, type SectionMeeting } from "@/components/courses/section-meetings-dialog";
+import type { SectionSeats } from "@/components/courses/section-capacity-dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { CalendarX, Loader2, Plus, ShoppingCart, X } from "lucide-react";
+
+// A section of the term as the registration endpoint returns it, with the student's place in it
+interface RegistrationSection {
+  id: number;
+  course: { id: number; code: string; title: string; credits: number };
+  facultyName: string | null;
+  seats: SectionSeats;
+  meetings: SectionMeeting[];
+  unmet: { type: string; group: number; description: string }[];
+  registration: { enrollmentId: number; status: string; waitlistPosition: number | null } | null;
+}
+
+interface RegistrationOverview {
+  term: { id: number; name: string; addDropDeadline: string } | null;
+  addDropOpen: boolean;
+  maxCredits: number;
+  registeredCredits: number;
+  sections: RegistrationSection[];
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function seatsLabel(seats: SectionSeats) {
+  if (seats.capacity === null) return "Open";
+  if (seats.available === 0) return `Full, ${seats.waitlisted} waiting`;
+  return `${seats.available} of ${seats.capacity} left`;
+}
+
+// Students pick sections of a term into a cart and register for them in one go, or drop the ones
+// they hold. The server checks every add; the cart only previews the credit load.
+export default function Registration() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [termId, setTermId] = useState<string>("");
+  const [cart, setCart] = useState<number[]>([]);
+  const [dropping, setDropping] = useState<RegistrationSection | null>(null);
+
+  const { data: terms = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ["/api/terms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/terms");
+      return response.json();
+    },
+  });
+
+  const { data: overview, isLoading } = useQuery<RegistrationOverview>({
+    queryKey: ["/api/registration", termId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", termId ? `/api/registration?termId=${termId}` : "/api/registration");
+      return response.json();
+    },
+  });
+
+  const sections = overview?.sections ?? [];
+  const registered = sections.filter((section) => section.registration);
+  const inCart = sections.filter((section) => cart.includes(section.id));
+  const cartCredits = inCart.reduce((sum, section) => sum + section.course.credits, 0);
+  const totalCredits = (overview?.registeredCredits ?? 0) + cartCredits;
+  const overLimit = !!overview && totalCredits > overview.maxCredits;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/registration"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/enrollments"] });
+  };
+
+  // Each section is registered on its own, so one refusal does not hold up the rest of the cart
+  const registerMutation = useMutation({
+    mutationFn: async (items: RegistrationSection[]) => {
+      const failures: { section: RegistrationSection; message: string }[] = [];
+      for (const section of items) {
+        try {
+          await apiRequest("POST", "/api/registration/enrollments", { courseAssignmentId: section.id });
+        } catch (error) {
+          failures.push({ section, message: errorMessage(error) });
+        }
+      }
+      return failures;
+    },
+    onSuccess: (failures, items) => {
+      setCart(failures.map((failure) => failure.section.id));
+      if (failures.length < items.length) {
+        toast({
+          title: "Registration saved",
+          description: `${items.length - failures.length} of ${items.length} sections registered. Full sections put you on the waitlist.`,
+        });
+      }
+      for (const failure of failures) {
+        toast({ title: `Could not register for ${failure.section.course.code}`, description: failure.message, variant: "destructive" });
+      }
+      refresh();
+    },
+  });
+
+  const dropMutation = useMutation({
+    mutationFn: async (section: RegistrationSection) => {
+      await apiRequest("DELETE", `/api/registration/enrollments/${section.registration!.enrollmentId}`);
+    },
+    onSuccess: (_result, section) => {
+      toast({ title: "Section dropped", description: `You have dropped ${section.course.code}.` });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to drop section", description: errorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => setDropping(null),
+  });
+
+  const changeTerm = (value: string) => {
+    setTermId(value);
+    setCart([]);
+  };
+
+  const canAdd = (section: RegistrationSection) =>
+    overview?.addDropOpen &&
+    section.unmet.length === 0 &&
+    !registered.some((other) => other.course.id === section.course.id) &&
+    !inCart.some((other) => other.course.id === section.course.id);
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Registration"
+        description="Add and drop sections during the add/drop window"
+        actions={
+          <Select value={termId || String(overview?.term?.id ?? "")} onValueChange={changeTerm}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select a term" />
+            </SelectTrigger>
+            <SelectContent>
+              {terms.map((term) => (
+                <SelectItem key={term.id} value={String(term.id)}>
+                  {term.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      {overview?.term && !overview.addDropOpen && (
+        <Alert className="mt-6">
+          <CalendarX className="h-4 w-4" />
+          <AlertTitle>Add/drop is closed</AlertTitle>
+          <AlertDescription>
+            The add/drop deadline for {overview.term.name} passed on{" "}
+            {format(new Date(overview.term.addDropDeadline), "MMM d, yyyy")}. Ask the registrar for any changes.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Sections</CardTitle>
+            <CardDescription>
+              {overview?.term
+                ? `Sections offered in ${overview.term.name}. Add/drop closes on ${format(new Date(overview.term.addDropDeadline), "MMM d, yyyy")}.`
+                : "Sections offered in the selected term"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : !overview?.term ? (
+              <div className="text-center py-8 text-neutral-500">No current term is set; pick a term to see its sections</div>
+            ) : sections.length === 0 ? (
+              <div className="text-center py-8 text-neutral-500">No sections are offered in {overview.term.name}</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Course</TableHead>
+                    <TableHead>Credits</TableHead>
+                    <TableHead>Instructor</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Seats</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sections.map((section) => (
+                    <TableRow key={section.id}>
+                      <TableCell>
+                        <div className="font-medium">{section.course.code}</div>
+                        <div className="text-sm text-neutral-500">{section.course.title}</div>
+                        {!section.registration && section.unmet.length > 0 && (
+                          <div className="text-xs text-red-600 mt-1">
+                            Requires {section.unmet.map((group) => group.description).join(", and ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{section.course.credits}</TableCell>
+                      <TableCell>{section.facultyName ?? "To be announced"}</TableCell>
+                      <TableCell className="text-sm">
+                        {section.meetings.length === 0
+                          ? "To be announced"
+                          : section.meetings.map((meeting) => <div key={meeting.id}>{describeMeeting(meeting)}</div>)}
+                      </TableCell>
+                      <TableCell className={cn("text-sm", section.seats.available === 0 && "text-red-600")}>
+                        {seatsLabel(section.seats)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {section.registration ? (
+                          <div className="flex items-center justify-end gap-2">
+                            <Badge
+                              variant="outline"
+                              className={section.registration.status === "waitlisted"
+                                ? "bg-yellow-100 text-yellow-800"
+                                : "bg-green-100 text-green-800"}
+                            >
+                              {section.registration.status}
+                              {section.registration.status === "waitlisted" && section.registration.waitlistPosition &&
+                                ` #${section.registration.waitlistPosition}`}
+                            </Badge>
+                            {overview.addDropOpen && (
+                              <Button variant="outline" size="sm" onClick={() => setDropping(section)}>
+                                Drop
+                              </Button>
+                            )}
+                          </div>
+                        ) : cart.includes(section.id) ? (
+                          <Button variant="outline" size="sm" onClick={() => setCart(cart.filter((id) => id !== section.id))}>
+                            <X className="h-4 w-4 mr-1" />
+                            Remove
+                          </Button>
+                        ) : (
+                          <Button size="sm" onClick={() => setCart([...cart, section.id])} disabled={!canAdd(section)}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            {section.seats.available === 0 ? "Waitlist" : "Add"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="self-start">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ShoppingCart className="h-5 w-5 mr-2" />
+              Your Schedule
+            </CardTitle>
+            <CardDescription>Waitlist places count towards your credits</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {registered.length === 0 && inCart.length === 0 && (
+              <div className="text-sm text-neutral-500">Add sections to start your registration</div>
+            )}
+            {registered.map((section) => (
+              <div key={section.id} className="flex justify-between text-sm">
+                <span>
+                  {section.course.code}
+                  {section.registration!.status === "waitlisted" && (
+                    <span className="text-yellow-700"> (waitlisted)</span>
+                  )}
+                </span>
+                <span>{section.course.credits} cr</span>
+              </div>
+            ))}
+            {inCart.length > 0 && (
+              <>
+                <Separator />
+                <div className="text-xs font-medium uppercase text-neutral-500">In your cart</div>
+                {inCart.map((section) => (
+                  <div key={section.id} className="flex justify-between text-sm">
+                    <span>{section.course.code}</span>
+                    <span>{section.course.credits} cr</span>
+                  </div>
+                ))}
+              </>
+            )}
+            <Separator />
+            <div className={cn("flex justify-between font-semibold", overLimit && "text-red-600")}>
+              <span>Total</span>
+              <span>
+                {totalCredits} of {overview?.maxCredits ?? "–"} credits
+              </span>
+            </div>
+            {overLimit && (
+              <div className="text-xs text-red-600">Remove sections to stay within the {overview!.maxCredits}-credit limit</div>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button
+              className="w-full"
+              onClick={() => registerMutation.mutate(inCart)}
+              disabled={inCart.length === 0 || overLimit || registerMutation.isPending || !overview?.addDropOpen}
+            >
+              {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Register{inCart.length > 0 && ` for ${inCart.length} ${inCart.length === 1 ? "section" : "sections"}`}
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+
+      <Dialog open={!!dropping} onOpenChange={(open) => !open && setDropping(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Drop Section</DialogTitle>
+            <DialogDescription>
+              You will lose your {dropping?.registration?.status === "waitlisted" ? "waitlist place" : "seat"} in{" "}
+              {dropping?.course.code} {dropping?.course.title}. It goes to the next student in line.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDropping(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => dropping && dropMutation.mutate(dropping)}
+              disabled={dropMutation.isPending}
+            >
+              {dropMutation.isPending ? "Dropping..." : "Drop"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
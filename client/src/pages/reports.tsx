@@ -14,7 +14,7 @@ import { Progress } from "@/components/ui/progress";
 import { format } from "date-fns";
 
 export default function Reports() {
-  const { user } = useAuth();
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState("attendance");
 
   // Fetch dashboard stats
@@ -178,8 +178,8 @@ export default function Reports() {
     }
   };
 
-  // Only admin can access reports page
-  if (user?.role !== "admin") {
+  // Reports need reports:read:any
+  if (!can("reports:read:any")) {
     return (
       <div className="p-4 md:p-6 max-w-7xl mx-auto">
         <Card>
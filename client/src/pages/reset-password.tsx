@@ -0,0 +1,14 @@
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+
+export default function ResetPassword() {
+  // The emailed link carries the token as ?token=...
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gradient-to-b from-primary-50 to-neutral-50 px-4">
+      <div className="w-full max-w-md">
+        <ResetPasswordForm token={token} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Header } from "@/components/header";
+import { RoomForm } from "@/components/rooms/room-form";
+import { WeeklyTimetable } from "@/components/schedule/weekly-timetable";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { CalendarDays, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+export interface Room {
+  id: number;
+  name: string;
+  building: string;
+  capacity: number;
+  version: number;
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Rooms sections meet in, with the weekly timetable of each; admins add and edit them
+export default function Rooms() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Room | "new" | null>(null);
+  const [deleting, setDeleting] = useState<Room | null>(null);
+  const [viewing, setViewing] = useState<Room | null>(null);
+  const canWrite = can("rooms:write:any");
+
+  const { data: rooms = [], isLoading } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/rooms");
+      return response.json();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (room: Room) => {
+      await apiRequest("DELETE", `/api/rooms/${room.id}`);
+    },
+    onSuccess: (_result, room) => {
+      toast({ title: "Room deleted", description: `${room.name} has been deleted.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete room", description: errorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => setDeleting(null),
+  });
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Rooms"
+        description="Classrooms, their seats and weekly timetables"
+        actions={
+          canWrite && (
+            <Button onClick={() => setEditing("new")}>
+              <Plus className="h-5 w-5 mr-2" />
+              Add Room
+            </Button>
+          )
+        }
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Rooms</CardTitle>
+          <CardDescription>A room holds one section at a time and seats no more students than it has seats for</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : rooms.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">No rooms have been set up yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Building</TableHead>
+                  <TableHead>Seats</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rooms.map((room) => (
+                  <TableRow key={room.id}>
+                    <TableCell className="font-medium">{room.name}</TableCell>
+                    <TableCell>{room.building}</TableCell>
+                    <TableCell>{room.capacity}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => setViewing(room)}>
+                        <CalendarDays className="h-4 w-4 mr-1" />
+                        Timetable
+                      </Button>
+                      {canWrite && (
+                        <>
+                          <Button variant="outline" size="sm" onClick={() => setEditing(room)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => setDeleting(room)}>
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.name} Timetable</DialogTitle>
+            <DialogDescription>
+              {viewing?.building}, {viewing?.capacity} seats
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && <WeeklyTimetable url={`/api/rooms/${viewing.id}/timetable`} detail="instructor" />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Room" : "Edit Room"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <RoomForm
+              key={editing === "new" ? "new" : editing.id}
+              initialData={editing === "new" ? undefined : editing}
+              onSuccess={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Room</DialogTitle>
+            <DialogDescription>
+              {deleting?.name} will be deleted. Rooms that sections still meet in cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -19,10 +19,15 @@ import {
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Loader2, Save, User, Shield, Moon, Sun } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, fetchById, versionConflict } from "@/lib/api";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { PermissionMatrix } from "@/components/settings/permission-matrix";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
+import { ActiveSessions } from "@/components/settings/active-sessions";
+import { ApiTokens } from "@/components/settings/api-tokens";
+import { RegistrationSettings } from "@/components/settings/registration-settings";
 
 // Profile form schema
 const profileFormSchema = z.object({
@@ -36,8 +41,8 @@ type ProfileFormValues = z.infer<typeof profileFormSchema>;
 // Password form schema
 const passwordFormSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "New password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Confirm password must be at least 6 characters"),
+  newPassword: z.string().min(8, "New password must be at least 8 characters"),
+  confirmPassword: z.string().min(8, "Confirm password must be at least 8 characters"),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "New password and confirm password do not match",
   path: ["confirmPassword"],
@@ -46,7 +51,7 @@ const passwordFormSchema = z.object({
 type PasswordFormValues = z.infer<typeof passwordFormSchema>;
 
 export default function Settings() {
-  const { user } = useAuth();
+  const { user, can, impersonation } = useAuth();
   const { toast } = useToast();
   // Using a simple state for theme to avoid dependency issues
   const [currentTheme, setCurrentTheme] = useState<"light" | "dark">("light");
@@ -73,10 +78,17 @@ export default function Settings() {
     },
   });
 
+  // The account as stored, for the version the profile edit is based on
+  const { data: account } = useQuery<{ version: number }>({
+    queryKey: ["/api/users", user?.id],
+    queryFn: () => fetchById("/api/users", user!.id),
+    enabled: !!user,
+  });
+
   // Update profile mutation
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormValues) => {
-      return await apiRequest("PUT", `/api/users/${user?.id}`, data);
+      return await apiRequest("PUT", `/api/users/${user?.id}`, { ...data, version: account?.version });
     },
     onSuccess: () => {
       toast({
@@ -87,6 +99,16 @@ export default function Settings() {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/session"] });
     },
     onError: (error) => {
+      // Changed elsewhere, e.g. by an administrator: fetch the new version so saving again goes through
+      if (versionConflict(error)) {
+        toast({
+          title: "Profile changed meanwhile",
+          description: "Your profile was changed elsewhere while you were editing. Save again to apply your changes over it.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/users", user?.id] });
+        return;
+      }
       toast({
         title: "Failed to update profile",
         description: error instanceof Error ? error.message : "An unexpected error occurred",
@@ -97,13 +119,15 @@ export default function Settings() {
 
   // Update password mutation
   const updatePasswordMutation = useMutation({
-    mutationFn: async (data: { password: string }) => {
-      return await apiRequest("PUT", `/api/users/${user?.id}/password`, data);
+    mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
+      const response = await apiRequest("PUT", `/api/users/${user?.id}/password`, data);
+      return response.json() as Promise<{ message: string; sessionsRevoked: boolean }>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: "Password updated",
-        description: "Your password has been updated successfully.",
+        // Other sessions normally end with the change; say so when they could not be
+        description: result.sessionsRevoked ? "Your password has been updated successfully." : result.message,
       });
       passwordForm.reset({
         currentPassword: "",
@@ -134,17 +158,11 @@ export default function Settings() {
   async function onPasswordSubmit(data: PasswordFormValues) {
     setIsLoading(true);
     try {
-      // Simulate verify current password
-      if (data.currentPassword !== "admin123" && data.currentPassword !== "faculty123" && data.currentPassword !== "student123") {
-        toast({
-          title: "Incorrect password",
-          description: "Your current password is incorrect.",
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      await updatePasswordMutation.mutateAsync({ password: data.newPassword });
+      // The server verifies the current password and enforces the password policy
+      await updatePasswordMutation.mutateAsync({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
     } catch (error) {
       console.error("Password update error:", error);
     } finally {
@@ -174,11 +192,14 @@ export default function Settings() {
       />
 
       <div className="mt-6">
-        <Tabs defaultValue="profile">
+        <Tabs defaultValue={user?.twoFactorEnrollmentRequired ? "security" : "profile"}>
           <TabsList className="mb-6">
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
             <TabsTrigger value="preferences">Preferences</TabsTrigger>
+            {can("roles:read:any") && (
+              <TabsTrigger value="permissions">Permissions</TabsTrigger>
+            )}
           </TabsList>
           
           {/* Profile Tab */}
@@ -278,7 +299,7 @@ export default function Settings() {
           </TabsContent>
           
           {/* Security Tab */}
-          <TabsContent value="security">
+          <TabsContent value="security" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Security Settings</CardTitle>
@@ -343,10 +364,16 @@ export default function Settings() {
                 </Form>
               </CardContent>
             </Card>
+
+            <TwoFactorSettings />
+
+            <ActiveSessions />
+
+            {!impersonation && <ApiTokens />}
           </TabsContent>
           
           {/* Preferences Tab */}
-          <TabsContent value="preferences">
+          <TabsContent value="preferences" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Preferences</CardTitle>
@@ -399,7 +426,16 @@ export default function Settings() {
                 </p>
               </CardFooter>
             </Card>
+
+            {can("settings:write:any") && <RegistrationSettings />}
           </TabsContent>
+
+          {/* Permissions Tab */}
+          {can("roles:read:any") && (
+            <TabsContent value="permissions">
+              <PermissionMatrix />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -9,11 +9,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { DataTable } from "@/components/ui/data-table";
-import { Edit, ArrowLeft, Trash2, AlertTriangle } from "lucide-react";
+import { Edit, ArrowLeft, Trash2, AlertTriangle, LogOut, Eye } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { StudentForm } from "@/components/students/student-form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { RecordHistory } from "@/components/audit/record-history";
+import { WeeklyTimetable } from "@/components/schedule/weekly-timetable";
+import { AcademicRecord } from "@/components/grades/academic-record";
 
 interface StudentDetailProps {
   id: string;
@@ -22,6 +26,7 @@ interface StudentDetailProps {
 export default function StudentDetail({ id }: StudentDetailProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can, startImpersonation } = useAuth();
   const queryClient = useQueryClient();
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -38,16 +43,17 @@ export default function StudentDetail({ id }: StudentDetailProps) {
   // Delete student mutation
   const deleteStudentMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("DELETE", `/api/students/${id}`);
-      // Also delete the user
+      // Trashing the account takes the profile with it, so both are restored together
       if (student?.user?.id) {
         await apiRequest("DELETE", `/api/users/${student.user.id}`);
+      } else {
+        await apiRequest("DELETE", `/api/students/${id}`);
       }
     },
     onSuccess: () => {
       toast({
         title: "Student deleted",
-        description: "Student record has been deleted successfully.",
+        description: "Student record has been moved to the trash.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/students"] });
       setLocation("/students");
@@ -61,6 +67,40 @@ export default function StudentDetail({ id }: StudentDetailProps) {
     },
   });
 
+  // Ends every session of the student's account, e.g. for a lost device
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/users/${student.user.id}/sessions`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Signed out everywhere",
+        description: `${data.revoked} ${data.revoked === 1 ? "session was" : "sessions were"} signed out.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to sign out sessions",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Switches this browser to the student's account until the admin exits or the time box runs out
+  const handleViewAsUser = async () => {
+    try {
+      await startImpersonation(student.user.id);
+    } catch (error) {
+      toast({
+        title: "Failed to view as user",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     try {
       await deleteStudentMutation.mutateAsync();
@@ -140,6 +180,22 @@ export default function StudentDetail({ id }: StudentDetailProps) {
               <Edit className="h-5 w-5 mr-2" />
               Edit
             </Button>
+            {can("users:write:any") && student.user?.id && (
+              <Button
+                variant="outline"
+                onClick={() => signOutEverywhereMutation.mutate()}
+                disabled={signOutEverywhereMutation.isPending}
+              >
+                <LogOut className="h-5 w-5 mr-2" />
+                Sign Out Everywhere
+              </Button>
+            )}
+            {can("users:impersonate:any") && student.user?.id && (
+              <Button variant="outline" onClick={handleViewAsUser}>
+                <Eye className="h-5 w-5 mr-2" />
+                View as User
+              </Button>
+            )}
             <Button 
               variant="destructive" 
               onClick={() => setShowDeleteDialog(true)}
@@ -213,6 +269,8 @@ export default function StudentDetail({ id }: StudentDetailProps) {
                   <TabsTrigger value="courses">Courses</TabsTrigger>
                   <TabsTrigger value="attendance">Attendance</TabsTrigger>
                   <TabsTrigger value="grades">Grades</TabsTrigger>
+                  <TabsTrigger value="timetable">Timetable</TabsTrigger>
+                  {can("audit:read:any") && <TabsTrigger value="history">History</TabsTrigger>}
                 </TabsList>
               </div>
               <CardDescription>Academic records and progress</CardDescription>
@@ -235,9 +293,9 @@ export default function StudentDetail({ id }: StudentDetailProps) {
                         ),
                       },
                       {
-                        key: "semester",
-                        title: "Semester",
-                        render: (row) => <div>{row.semester} {row.year}</div>,
+                        key: "term",
+                        title: "Term",
+                        render: (row) => <div>{row.term?.name}</div>,
                       },
                       {
                         key: "faculty",
@@ -317,7 +375,10 @@ export default function StudentDetail({ id }: StudentDetailProps) {
               </TabsContent>
               
               <TabsContent value="grades" className="space-y-4">
-                <h3 className="text-lg font-medium">Grade Records</h3>
+                <h3 className="text-lg font-medium">Final Grades</h3>
+                <AcademicRecord studentId={student.id} />
+
+                <h3 className="text-lg font-medium pt-4">Grade Records</h3>
                 {student.enrollments?.some(e => e.grades?.length > 0) ? (
                   <DataTable
                     data={student.enrollments.flatMap(e => 
@@ -362,6 +423,21 @@ export default function StudentDetail({ id }: StudentDetailProps) {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="timetable" className="space-y-4">
+                <h3 className="text-lg font-medium">Weekly Timetable</h3>
+                <WeeklyTimetable url={`/api/students/${student.id}/timetable`} />
+              </TabsContent>
+
+              {can("audit:read:any") && (
+                <TabsContent value="history" className="space-y-4">
+                  <h3 className="text-lg font-medium">Change History</h3>
+                  <RecordHistory records={[
+                    { entityType: "student", entityId: student.id },
+                    ...(student.user?.id ? [{ entityType: "user", entityId: student.user.id }] : []),
+                  ]} />
+                </TabsContent>
+              )}
             </CardContent>
           </Tabs>
         </Card>
@@ -378,6 +454,8 @@ export default function StudentDetail({ id }: StudentDetailProps) {
           </DialogHeader>
           <StudentForm 
             initialData={{
+              id: student.id,
+              version: student.version,
               userId: student.userId,
               studentId: student.studentId,
               program: student.program,
@@ -403,7 +481,7 @@ export default function StudentDetail({ id }: StudentDetailProps) {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this student? This action cannot be undone.
+              Are you sure you want to delete this student? An administrator can restore it from the trash.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Header } from "@/components/header";
+import { TermForm } from "@/components/terms/term-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { CalendarCheck, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+export interface Term {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+  addDropDeadline: string;
+  gradesDueDate: string;
+  isCurrent: boolean;
+  version: number;
+}
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+const day = (value: string) => format(new Date(value), "PP");
+
+// Academic terms with their dates and deadlines; admins add and edit them and pick the current one
+export default function Terms() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Term | "new" | null>(null);
+  const [deleting, setDeleting] = useState<Term | null>(null);
+  const canWrite = can("terms:write:any");
+
+  const { data: terms = [], isLoading } = useQuery<Term[]>({
+    queryKey: ["/api/terms"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/terms");
+      return response.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/terms"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const makeCurrentMutation = useMutation({
+    mutationFn: async (term: Term) => {
+      await apiRequest("PUT", `/api/terms/${term.id}`, { isCurrent: true, version: term.version });
+    },
+    onSuccess: (_result, term) => {
+      toast({ title: "Current term changed", description: `${term.name} is now the current term.` });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to change the current term", description: errorMessage(error), variant: "destructive" });
+      refresh();
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (term: Term) => {
+      await apiRequest("DELETE", `/api/terms/${term.id}`);
+    },
+    onSuccess: (_result, term) => {
+      toast({ title: "Term deleted", description: `${term.name} has been deleted.` });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete term", description: errorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => setDeleting(null),
+  });
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Academic Terms"
+        description="Term dates, add/drop and grade deadlines"
+        actions={
+          canWrite && (
+            <Button onClick={() => setEditing("new")}>
+              <Plus className="h-5 w-5 mr-2" />
+              Add Term
+            </Button>
+          )
+        }
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Terms</CardTitle>
+          <CardDescription>
+            Enrollment changes close at the add/drop deadline, attendance is taken within the term and
+            grade entry closes when grades are due
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : terms.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">No terms have been set up yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Add/Drop Deadline</TableHead>
+                  <TableHead>Grades Due</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {terms.map((term) => (
+                  <TableRow key={term.id}>
+                    <TableCell className="font-medium">
+                      {term.name}
+                      {term.isCurrent && <Badge className="ml-2 bg-green-100 text-green-800" variant="outline">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{day(term.startDate)} – {day(term.endDate)}</TableCell>
+                    <TableCell>{day(term.addDropDeadline)}</TableCell>
+                    <TableCell>{day(term.gradesDueDate)}</TableCell>
+                    {canWrite && (
+                      <TableCell className="text-right space-x-2">
+                        {!term.isCurrent && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => makeCurrentMutation.mutate(term)}
+                            disabled={makeCurrentMutation.isPending}
+                          >
+                            <CalendarCheck className="h-4 w-4 mr-1" />
+                            Make Current
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setEditing(term)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setDeleting(term)}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Term" : "Edit Term"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <TermForm
+              key={editing === "new" ? "new" : editing.id}
+              initialData={editing === "new" ? undefined : editing}
+              onSuccess={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Term</DialogTitle>
+            <DialogDescription>
+              {deleting?.name} will be deleted. Terms that still have course sections cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Header } from "@/components/header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+type TrashType = "user" | "student" | "faculty" | "course" | "event";
+
+interface TrashItem {
+  type: TrashType;
+  id: number;
+  label: string;
+  deletedAt: string;
+}
+
+const TYPE_LABELS: Record<TrashType, string> = {
+  user: "User",
+  student: "Student",
+  faculty: "Faculty",
+  course: "Course",
+  event: "Event",
+};
+
+// Lists that show rows of each type, refreshed when one comes back from the trash or leaves it
+const LIST_QUERIES: Record<TrashType, string[]> = {
+  user: ["/api/users", "/api/students", "/api/faculty"],
+  student: ["/api/students"],
+  faculty: ["/api/faculty"],
+  course: ["/api/courses", "/api/course-assignments"],
+  event: ["/api/events", "/api/events/upcoming"],
+};
+
+// The API answers with a JSON body; show its message rather than the raw text
+function errorMessage(error: unknown) {
+  if (!(error instanceof Error)) return "An unexpected error occurred";
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Admin view of deleted records, which can be restored or purged for good
+export default function Trash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  const { data: items = [], isLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/trash");
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const refresh = (item: TrashItem) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    for (const key of LIST_QUERIES[item.type]) {
+      queryClient.invalidateQueries({ queryKey: [key] });
+    }
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest("POST", `/api/trash/${item.type}/${item.id}/restore`);
+    },
+    onSuccess: (_result, item) => {
+      toast({ title: "Record restored", description: `${item.label} is back in place.` });
+      refresh(item);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore record", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest("DELETE", `/api/trash/${item.type}/${item.id}`);
+    },
+    onSuccess: (_result, item) => {
+      toast({ title: "Record deleted", description: `${item.label} has been deleted permanently.` });
+      refresh(item);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete record", description: errorMessage(error), variant: "destructive" });
+    },
+    onSettled: () => setPurging(null),
+  });
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <Header
+        title="Trash"
+        description="Deleted users, students, faculty, courses and events"
+      />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Deleted Records</CardTitle>
+          <CardDescription>
+            Deleted records are hidden everywhere else until they are restored or deleted permanently
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-8 text-neutral-500">The trash is empty</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={`${item.type}-${item.id}`}>
+                    <TableCell><Badge variant="outline">{TYPE_LABELS[item.type]}</Badge></TableCell>
+                    <TableCell className="font-medium">{item.label}</TableCell>
+                    <TableCell>{format(new Date(item.deletedAt), "PPp")}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(item)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => setPurging(item)}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete Permanently
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Permanently</DialogTitle>
+            <DialogDescription>
+              {purging?.label} and the records that depend on it, such as enrollments, attendance and grades,
+              will be deleted for good. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPurging(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => purging && purgeMutation.mutate(purging)}
+              disabled={purgeMutation.isPending}
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
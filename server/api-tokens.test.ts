@@ -0,0 +1,109 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { authenticateApiToken, createApiToken, publicApiToken, revokeApiTokens, scopesAllow } from "./api-tokens";
+import { MemStorage } from "./storage";
+
+const storage = new MemStorage();
+let user: User;
+
+before(async () => {
+  user = await storage.createUser({
+    username: "token.owner",
+    password: "x",
+    email: "token.owner@college.edu",
+    role: "faculty",
+    name: "Token Owner",
+  });
+});
+
+describe("scopesAllow", () => {
+  test("lets read tokens make only safe requests", () => {
+    assert.deepEqual(["GET", "HEAD", "OPTIONS"].map((method) => scopesAllow(["read"], method)), [true, true, true]);
+    assert.deepEqual(["POST", "PUT", "PATCH", "DELETE"].map((method) => scopesAllow(["read"], method)), [false, false, false, false]);
+  });
+
+  test("does not let write tokens read", () => {
+    assert.equal(scopesAllow(["write"], "POST"), true);
+    assert.equal(scopesAllow(["write"], "GET"), false);
+    assert.equal(scopesAllow(["read", "write"], "GET"), true);
+    assert.equal(scopesAllow([], "GET"), false);
+  });
+});
+
+describe("createApiToken", () => {
+  test("stores a hash and a short prefix, never the token", async () => {
+    const { token, apiToken } = await createApiToken(storage, user.id, { name: "Script", scopes: ["read", "read"], expiresInDays: null });
+
+    assert.match(token, /^cms_/);
+    assert.equal(apiToken.tokenPrefix, token.slice(0, 10));
+    assert.ok(!apiToken.tokenHash.includes(token));
+    assert.deepEqual(apiToken.scopes, ["read"]);
+    assert.equal(apiToken.expiresAt, null);
+    assert.equal("tokenHash" in publicApiToken(apiToken), false);
+  });
+});
+
+describe("authenticateApiToken", () => {
+  test("signs in the token's owner and records the use", async () => {
+    const { token, apiToken } = await createApiToken(storage, user.id, { name: "Script", scopes: ["read"], expiresInDays: 30 });
+    const now = new Date();
+    const found = await authenticateApiToken(storage, token, now);
+
+    assert.equal(found?.user.id, user.id);
+    assert.deepEqual((await storage.getApiTokenByHash(apiToken.tokenHash))?.lastUsedAt, now);
+  });
+
+  test("records a use at most once a minute", async () => {
+    const { token, apiToken } = await createApiToken(storage, user.id, { name: "Busy script", scopes: ["read"], expiresInDays: null });
+    const first = new Date();
+    await authenticateApiToken(storage, token, first);
+    await authenticateApiToken(storage, token, new Date(first.getTime() + 30_000));
+    assert.deepEqual((await storage.getApiTokenByHash(apiToken.tokenHash))?.lastUsedAt, first);
+
+    const later = new Date(first.getTime() + 60_000);
+    await authenticateApiToken(storage, token, later);
+    assert.deepEqual((await storage.getApiTokenByHash(apiToken.tokenHash))?.lastUsedAt, later);
+  });
+
+  test("refuses unknown and expired tokens", async () => {
+    const { token, apiToken } = await createApiToken(storage, user.id, { name: "Short-lived", scopes: ["read"], expiresInDays: 1 });
+
+    assert.equal(await authenticateApiToken(storage, "cms_unknown"), null);
+    assert.ok(await authenticateApiToken(storage, token, new Date(apiToken.expiresAt!.getTime() - 1)));
+    assert.equal(await authenticateApiToken(storage, token, apiToken.expiresAt!), null);
+  });
+
+  test("refuses tokens of accounts in the trash", async () => {
+    const trashed = await storage.createUser({
+      username: "token.trashed",
+      password: "x",
+      email: "token.trashed@college.edu",
+      role: "student",
+      name: "Token Trashed",
+    });
+    const { token } = await createApiToken(storage, trashed.id, { name: "Script", scopes: ["read"], expiresInDays: null });
+    await storage.updateUser(trashed.id, { deletedAt: new Date() });
+
+    assert.equal(await authenticateApiToken(storage, token), null);
+  });
+});
+
+describe("revokeApiTokens", () => {
+  test("deletes every token of the account and only that account", async () => {
+    const other = await storage.createUser({
+      username: "token.other",
+      password: "x",
+      email: "token.other@college.edu",
+      role: "student",
+      name: "Token Other",
+    });
+    const { token } = await createApiToken(storage, user.id, { name: "Revoked", scopes: ["write"], expiresInDays: null });
+    const kept = await createApiToken(storage, other.id, { name: "Kept", scopes: ["read"], expiresInDays: null });
+
+    assert.ok((await revokeApiTokens(storage, user.id)) >= 1);
+    assert.deepEqual(await storage.getApiTokensByUser(user.id), []);
+    assert.equal(await authenticateApiToken(storage, token), null);
+    assert.ok(await authenticateApiToken(storage, kept.token));
+  });
+});
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import type { ApiToken, CreateApiToken, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Marks our tokens so they are recognisable in scripts and secret scanners
+const TOKEN_PREFIX = "cms_";
+// Characters of the token kept in clear text for the token list
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// lastUsedAt is only written when it is at least this old, so busy scripts do not write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// The token from an "Authorization: Bearer <token>" header, if the request has one
+export function bearerToken(req: Request): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+// Whether a token with these scopes may make a request with this method
+export function scopesAllow(scopes: string[], method: string): boolean {
+  return scopes.includes(READ_METHODS.includes(method) ? "read" : "write");
+}
+
+// The token as shown to its owner; the hash never leaves the server
+export function publicApiToken(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+// Creates a token for the user; the plain token is returned only here and cannot be shown again
+export async function createApiToken(
+  storage: IStorage,
+  userId: number,
+  input: CreateApiToken
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+  const apiToken = await storage.createApiToken({
+    userId,
+    name: input.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    scopes: Array.from(new Set(input.scopes)),
+    expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+  });
+  return { token, apiToken };
+}
+
+// The unexpired token matching the presented value, with its account unless that is in the trash; records the use
+export async function authenticateApiToken(
+  storage: IStorage,
+  token: string,
+  now = new Date()
+): Promise<{ apiToken: ApiToken; user: User } | null> {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= now.getTime())) return null;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || user.deletedAt) return null;
+
+  const lastUsedAt = apiToken.lastUsedAt ? new Date(apiToken.lastUsedAt).getTime() : 0;
+  if (now.getTime() - lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+    await storage.updateApiToken(apiToken.id, { lastUsedAt: now });
+  }
+  return { apiToken, user };
+}
+
+// Deletes every token of the user, e.g. when the account is deactivated; returns how many were deleted
+export async function revokeApiTokens(storage: IStorage, userId: number): Promise<number> {
+  const tokens = await storage.getApiTokensByUser(userId);
+  for (const token of tokens) {
+    await storage.deleteApiToken(token.id);
+  }
+  return tokens.length;
+}
@@ -0,0 +1,123 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { auditRequests, diffRecords, withAuditLog } from "./audit";
+import { MemStorage } from "./storage";
+
+const entriesFor = (storage: MemStorage, entityType: string, entityId: number) =>
+  storage.getAuditEntries({ entityType, entityId: String(entityId), limit: 50, offset: 0 });
+
+const newUser = (storage: MemStorage, username: string) =>
+  storage.createUser({ username, password: "scrypt$secret", email: `${username}@college.edu`, role: "student", name: username });
+
+describe("diffRecords", () => {
+  test("lists changed fields with their old and new values", () => {
+    const changes = diffRecords("course", { id: 1, title: "Old", credits: 3, version: 1 }, { id: 1, title: "New", credits: 3, version: 2 });
+    assert.deepEqual(changes, { title: { from: "Old", to: "New" } });
+  });
+
+  test("compares dates by their instant and treats missing values as null", () => {
+    const at = new Date("2024-01-01T00:00:00Z");
+    assert.deepEqual(diffRecords("term", { startDate: at }, { startDate: new Date(at) }), {});
+    assert.deepEqual(diffRecords("term", { endDate: undefined }, { endDate: at }), { endDate: { from: null, to: at.toISOString() } });
+  });
+
+  test("records that a secret changed without its values", () => {
+    const changes = diffRecords(
+      "user",
+      { password: "scrypt$old", twoFactorSecret: null, twoFactorRecoveryCodes: ["a"] },
+      { password: "scrypt$new", twoFactorSecret: "JBSWY3DP", twoFactorRecoveryCodes: null }
+    );
+    assert.deepEqual(changes, {
+      password: { from: "[redacted]", to: "[redacted]" },
+      twoFactorSecret: { from: null, to: "[redacted]" },
+      twoFactorRecoveryCodes: { from: "[redacted]", to: null },
+    });
+    assert.deepEqual(diffRecords("apiToken", null, { tokenHash: "abc" }), { tokenHash: { from: null, to: "[redacted]" } });
+  });
+
+  test("ignores bookkeeping fields of the entity", () => {
+    assert.deepEqual(diffRecords("user", { twoFactorLastStep: 1 }, { twoFactorLastStep: 2 }), {});
+    assert.deepEqual(diffRecords("apiToken", { lastUsedAt: null }, { lastUsedAt: new Date() }), {});
+    assert.deepEqual(diffRecords("student", { lastUsedAt: null }, { lastUsedAt: "x" }), { lastUsedAt: { from: null, to: "x" } });
+  });
+});
+
+describe("withAuditLog", () => {
+  test("logs a new account without its password hash", async () => {
+    const backend = new MemStorage();
+    const user = await newUser(withAuditLog(backend), "audit.created");
+    const [entry] = await entriesFor(backend, "user", user.id);
+
+    assert.equal(entry.action, "create");
+    assert.equal(entry.actorName, "system");
+    assert.deepEqual(entry.changes.password, { from: null, to: "[redacted]" });
+    assert.equal(entry.changes.username.to, "audit.created");
+    assert.ok(!JSON.stringify(entry.changes).includes("scrypt$secret"));
+  });
+
+  test("logs only the fields an update changed, secrets redacted", async () => {
+    const backend = new MemStorage();
+    const storage = withAuditLog(backend);
+    const user = await newUser(storage, "audit.updated");
+    await storage.updateUser(user.id, { password: "scrypt$changed", name: "Renamed" });
+    const [entry] = await entriesFor(backend, "user", user.id);
+
+    assert.equal(entry.action, "update");
+    assert.deepEqual(entry.changes, {
+      password: { from: "[redacted]", to: "[redacted]" },
+      name: { from: "audit.updated", to: "Renamed" },
+    });
+  });
+
+  test("skips updates that change nothing worth logging", async () => {
+    const backend = new MemStorage();
+    const storage = withAuditLog(backend);
+    const user = await newUser(storage, "audit.quiet");
+    await storage.updateUser(user.id, { twoFactorLastStep: 12345 });
+    await storage.updateUser(user.id, { name: "audit.quiet" });
+
+    assert.deepEqual((await entriesFor(backend, "user", user.id)).map((entry) => entry.action), ["create"]);
+  });
+
+  test("logs token updates with the fields set, as tokens have no getter", async () => {
+    const backend = new MemStorage();
+    const storage = withAuditLog(backend);
+    const user = await newUser(storage, "audit.token");
+    const token = await storage.createApiToken({ userId: user.id, name: "Script", tokenHash: "hash", tokenPrefix: "cms_abcdef", scopes: ["read"] });
+    await storage.updateApiToken(token.id, { name: "Renamed script", lastUsedAt: new Date() });
+
+    const [update, create] = await entriesFor(backend, "apiToken", token.id);
+    assert.deepEqual(update.changes, { name: { from: null, to: "Renamed script" } });
+    assert.deepEqual(create.changes.tokenHash, { from: null, to: "[redacted]" });
+  });
+
+  test("leaves no entry for a rolled-back change", async () => {
+    const backend = new MemStorage();
+    const storage = withAuditLog(backend);
+    const user = await newUser(storage, "audit.rollback");
+    await assert.rejects(storage.transaction(async (tx) => {
+      await tx.updateUser(user.id, { name: "Never saved" });
+      throw new Error("rolled back");
+    }));
+
+    assert.deepEqual((await entriesFor(backend, "user", user.id)).map((entry) => entry.action), ["create"]);
+  });
+
+  test("attributes changes made during a request to its signed-in user", async () => {
+    const backend = new MemStorage();
+    const storage = withAuditLog(backend);
+    const req = { session: { user: { id: 7, username: "registrar" } }, ip: "10.0.0.5", socket: {} } as unknown as Request;
+
+    let created: Promise<{ id: number }> | undefined;
+    auditRequests(req, {} as Response, () => {
+      created = newUser(storage, "audit.request");
+    });
+    const user = await created!;
+    const [entry] = await entriesFor(backend, "user", user.id);
+
+    assert.equal(entry.actorId, 7);
+    assert.equal(entry.actorName, "registrar");
+    assert.equal(entry.ip, "10.0.0.5");
+  });
+});
@@ -0,0 +1,235 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+import type { AuditChanges, InsertAuditEntry } from "@shared/schema";
+import { planDelete, type EntityType } from "./integrity";
+import type { IStorage } from "./storage";
+
+export type AuditEntityType = EntityType | "setting";
+type AuditAction = "create" | "update" | "delete";
+
+const REDACTED = "[redacted]";
+// Fields whose values never go into the log; that they changed is still recorded
+const REDACTED_FIELDS = ["password", "twoFactorSecret", "twoFactorRecoveryCodes", "tokenHash"];
+// Bookkeeping that changes during ordinary use; updates touching only these are not logged
+const IGNORED_FIELDS: Partial<Record<AuditEntityType, string[]>> = {
+  user: ["twoFactorLastStep"],
+  apiToken: ["lastUsedAt"],
+};
+
+// Reads a row as it is before a change. Tokens can only be looked up by hash or owner, so their
+// updates are logged with the new values only.
+const GETTERS: Record<EntityType, ((storage: IStorage, id: number) => Promise<object | undefined>) | null> = {
+  user: (storage, id) => storage.getUser(id),
+  student: (storage, id) => storage.getStudent(id),
+  faculty: (storage, id) => storage.getFaculty(id),
+  course: (storage, id) => storage.getCourse(id),
+  gradeScale: (storage, id) => storage.getGradeScale(id),
+  courseRequisite: (storage, id) => storage.getCourseRequisite(id),
+  requisiteWaiver: (storage, id) => storage.getRequisiteWaiver(id),
+  term: (storage, id) => storage.getTerm(id),
+  courseAssignment: (storage, id) => storage.getCourseAssignment(id),
+  room: (storage, id) => storage.getRoom(id),
+  sectionMeeting: (storage, id) => storage.getSectionMeeting(id),
+  enrollment: (storage, id) => storage.getEnrollment(id),
+  attendance: (storage, id) => storage.getAttendance(id),
+  grade: (storage, id) => storage.getGrade(id),
+  event: (storage, id) => storage.getEvent(id),
+  passwordResetToken: null,
+  apiToken: null,
+};
+
+// Every IStorage method that changes a row, with the entity and action it stands for (setSetting is handled apart)
+const AUDITED_METHODS = {
+  createUser: ["user", "create"], updateUser: ["user", "update"], deleteUser: ["user", "delete"],
+  createStudent: ["student", "create"], updateStudent: ["student", "update"], deleteStudent: ["student", "delete"],
+  createFaculty: ["faculty", "create"], updateFaculty: ["faculty", "update"], deleteFaculty: ["faculty", "delete"],
+  createCourse: ["course", "create"], updateCourse: ["course", "update"], deleteCourse: ["course", "delete"],
+  createGradeScale: ["gradeScale", "create"], updateGradeScale: ["gradeScale", "update"], deleteGradeScale: ["gradeScale", "delete"],
+  createCourseRequisite: ["courseRequisite", "create"], deleteCourseRequisite: ["courseRequisite", "delete"],
+  createRequisiteWaiver: ["requisiteWaiver", "create"], deleteRequisiteWaiver: ["requisiteWaiver", "delete"],
+  createTerm: ["term", "create"], updateTerm: ["term", "update"], deleteTerm: ["term", "delete"],
+  createCourseAssignment: ["courseAssignment", "create"],
+  updateCourseAssignment: ["courseAssignment", "update"],
+  deleteCourseAssignment: ["courseAssignment", "delete"],
+  createRoom: ["room", "create"], updateRoom: ["room", "update"], deleteRoom: ["room", "delete"],
+  createSectionMeeting: ["sectionMeeting", "create"], deleteSectionMeeting: ["sectionMeeting", "delete"],
+  createEnrollment: ["enrollment", "create"], updateEnrollment: ["enrollment", "update"], deleteEnrollment: ["enrollment", "delete"],
+  createAttendance: ["attendance", "create"], updateAttendance: ["attendance", "update"], deleteAttendance: ["attendance", "delete"],
+  createGrade: ["grade", "create"], updateGrade: ["grade", "update"], deleteGrade: ["grade", "delete"],
+  createEvent: ["event", "create"], updateEvent: ["event", "update"], deleteEvent: ["event", "delete"],
+  createPasswordResetToken: ["passwordResetToken", "create"],
+  updatePasswordResetToken: ["passwordResetToken", "update"],
+  createApiToken: ["apiToken", "create"], updateApiToken: ["apiToken", "update"], deleteApiToken: ["apiToken", "delete"],
+} as const satisfies Partial<Record<keyof IStorage, readonly [EntityType, AuditAction]>>;
+
+type AuditedMethod = keyof typeof AUDITED_METHODS;
+
+// The audited methods standing for one action, and what they resolve to. Arguments are passed on
+// as the caller gave them, so as never[].
+type MethodsFor<A extends AuditAction> = {
+  [M in AuditedMethod]: (typeof AUDITED_METHODS)[M][1] extends A ? M : never;
+}[AuditedMethod];
+interface AuditedResults {
+  create: { id: number };
+  update: Record<string, unknown> | undefined;
+  delete: boolean;
+}
+type AuditedMethods<A extends AuditAction> = Record<MethodsFor<A>, (...args: never[]) => Promise<AuditedResults[A]>>;
+
+const isAction = <A extends AuditAction>(method: AuditedMethod, action: A): method is MethodsFor<A> =>
+  AUDITED_METHODS[method][1] === action;
+
+// The request being handled in the current async context
+const currentRequest = new AsyncLocalStorage<Request>();
+
+// Middleware: changes made while handling the request are attributed to its signed-in user
+export function auditRequests(req: Request, _res: Response, next: NextFunction) {
+  currentRequest.run(req, next);
+}
+
+// Who is making the current change. Outside a request (seeding, startup) it is the system.
+function currentActor(): Pick<InsertAuditEntry, "actorId" | "actorName" | "impersonatorId" | "impersonatorName" | "ip"> {
+  const req = currentRequest.getStore();
+  if (!req) {
+    return { actorId: null, actorName: "system", impersonatorId: null, impersonatorName: null, ip: null };
+  }
+
+  const user = req.session?.user;
+  const impersonator = req.session?.impersonator?.user;
+  return {
+    actorId: user?.id ?? null,
+    actorName: user?.username ?? "anonymous",
+    impersonatorId: impersonator?.id ?? null,
+    impersonatorName: impersonator?.username ?? null,
+    ip: req.ip || req.socket.remoteAddress || null,
+  };
+}
+
+const normalize = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Field-by-field differences between two versions of a row (either may be missing)
+export function diffRecords(type: AuditEntityType, before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const ignored = IGNORED_FIELDS[type] ?? [];
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))) {
+    // The version only moves along with the fields that actually changed
+    if (field === "id" || field === "version" || ignored.includes(field)) continue;
+
+    const oldValue = normalize(from[field]);
+    const newValue = normalize(to[field]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes[field] = REDACTED_FIELDS.includes(field)
+      ? { from: oldValue === null ? null : REDACTED, to: newValue === null ? null : REDACTED }
+      : { from: oldValue, to: newValue };
+  }
+  return changes;
+}
+
+async function record(
+  storage: IStorage,
+  type: AuditEntityType,
+  id: number | string,
+  action: AuditAction,
+  changes: AuditChanges
+): Promise<void> {
+  if (action === "update" && Object.keys(changes).length === 0) return;
+  await storage.createAuditEntry({ entityType: type, entityId: String(id), action, changes, ...currentActor() });
+}
+
+// Logs why a change was let through a check that would have refused it, e.g. a grade entered after
+// its term's due date. Called in the change's transaction, next to the change itself.
+export async function recordOverride(storage: IStorage, type: AuditEntityType, id: number, reason: string): Promise<void> {
+  await storage.createAuditEntry({
+    entityType: type,
+    entityId: String(id),
+    action: "override",
+    changes: { reason: { from: null, to: reason } },
+    ...currentActor(),
+  });
+}
+
+// Runs one mutation and logs it in the same transaction, so a rolled-back change leaves no entry
+function auditedCall(storage: IStorage, method: AuditedMethod, args: unknown[]): Promise<unknown> {
+  const [type] = AUDITED_METHODS[method];
+  const getter = GETTERS[type];
+  const passed = args as never[];
+
+  return storage.transaction(async (tx) => {
+    if (isAction(method, "create")) {
+      const creators: AuditedMethods<"create"> = tx;
+      const row = await creators[method](...passed);
+      await record(tx, type, row.id, "create", diffRecords(type, null, row));
+      return row;
+    }
+
+    const id = args[0] as number;
+
+    if (isAction(method, "update")) {
+      const updaters: AuditedMethods<"update"> = tx;
+      const before = getter ? await getter(tx, id) : undefined;
+      const row = await updaters[method](...passed);
+      if (row) {
+        // Without the old row, only the fields the caller set can be shown
+        const after = getter ? row : Object.fromEntries(Object.keys(args[1] as object).map((field) => [field, row[field]]));
+        await record(tx, type, id, "update", diffRecords(type, before, after));
+      }
+      return row;
+    }
+
+    // A delete may cascade to dependent rows or archive the row instead; log every row it touches.
+    // When a restrict rule blocks it, the delete itself throws and nothing is logged.
+    const plan = await planDelete(tx, type, id).catch(() => null);
+    const rows: { type: EntityType; id: number; before: object | undefined }[] = [];
+    for (const ref of plan?.deletions ?? [{ type, id }]) {
+      rows.push({ ...ref, before: await GETTERS[ref.type]?.(tx, ref.id) });
+    }
+    const before = getter ? await getter(tx, id) : undefined;
+
+    const deleters: AuditedMethods<"delete"> = tx;
+    const deleted = await deleters[method](...passed);
+    if (!deleted) return deleted;
+
+    if (plan?.archive) {
+      await record(tx, type, id, "update", diffRecords(type, before, getter ? await getter(tx, id) : undefined));
+    } else {
+      for (const row of rows) {
+        await record(tx, row.type, row.id, "delete", diffRecords(row.type, row.before, null));
+      }
+    }
+    return deleted;
+  });
+}
+
+function auditedSetSetting(storage: IStorage, key: string, value: string): Promise<void> {
+  return storage.transaction(async (tx) => {
+    const before = await tx.getSetting(key);
+    await tx.setSetting(key, value);
+    await record(tx, "setting", key, before === undefined ? "create" : "update", diffRecords("setting", before === undefined ? null : { value: before }, { value }));
+  });
+}
+
+// Wraps a storage backend so every change made through it is written to the audit log. The backend
+// itself is left untouched, so its own internal calls (and FileStorage journal replays) are not logged twice.
+export function withAuditLog<T extends IStorage>(storage: T): T {
+  return new Proxy(storage, {
+    get(target, prop, receiver) {
+      if (prop === "transaction") {
+        return <R>(fn: (tx: IStorage) => Promise<R>) =>
+          target.transaction((tx) => fn(tx === target ? receiver : withAuditLog(tx)));
+      }
+      if (prop === "setSetting") {
+        return (key: string, value: string) => auditedSetSetting(target, key, value);
+      }
+      if (typeof prop === "string" && prop in AUDITED_METHODS) {
+        return (...args: unknown[]) => auditedCall(target, prop as AuditedMethod, args);
+      }
+
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { VersionConflictError, VersionRequiredError, expectedVersion, updateIfCurrent, versionTag } from "./concurrency";
+import { MemStorage } from "./storage";
+
+const request = (ifMatch?: string, body?: unknown) =>
+  ({ get: (name: string) => (name === "If-Match" ? ifMatch : undefined), body }) as Request;
+
+describe("expectedVersion", () => {
+  test("reads If-Match as sent by browsers and by hand", () => {
+    assert.equal(expectedVersion(request('"3"')), 3);
+    assert.equal(expectedVersion(request('W/"4"')), 4);
+    assert.equal(expectedVersion(request(" 5 ")), 5);
+    assert.equal(expectedVersion(request(versionTag(6))), 6);
+  });
+
+  test("prefers If-Match over a version in the body", () => {
+    assert.equal(expectedVersion(request('"3"', { version: 9 })), 3);
+    assert.equal(expectedVersion(request(undefined, { version: 9 })), 9);
+    assert.equal(expectedVersion(request(undefined, { version: "9" })), 9);
+  });
+
+  test("makes the update unconditional only with If-Match *", () => {
+    assert.equal(expectedVersion(request("*")), undefined);
+    assert.equal(expectedVersion(request("*", { version: null })), undefined);
+  });
+
+  test("requires a version when neither If-Match nor a version is sent", () => {
+    const required = (error: unknown) => error instanceof VersionRequiredError && error.status === 428 && error.code === "version_required";
+    assert.throws(() => expectedVersion(request()), required);
+    assert.throws(() => expectedVersion(request("", { version: null })), required);
+  });
+
+  test("never matches a value that is not a version number", () => {
+    assert.ok(Number.isNaN(expectedVersion(request('"abc"'))));
+    assert.ok(Number.isNaN(expectedVersion(request(undefined, { version: "1.5" }))));
+  });
+});
+
+describe("updateIfCurrent", () => {
+  const setup = async () => {
+    const storage = new MemStorage();
+    const course = await storage.createCourse({ code: "CONC101", title: "Original", credits: 3, department: "Testing" });
+    return { storage, course };
+  };
+
+  test("applies an update based on the current version", async () => {
+    const { storage, course } = await setup();
+    const updated = await updateIfCurrent(storage, course.version, (tx) => tx.updateCourse(course.id, { title: "Edited" }));
+
+    assert.equal(updated?.title, "Edited");
+    assert.equal(updated?.version, course.version + 1);
+  });
+
+  test("refuses and rolls back an update based on an older version", async () => {
+    const { storage, course } = await setup();
+    await storage.updateCourse(course.id, { title: "Changed elsewhere" });
+
+    await assert.rejects(
+      updateIfCurrent(storage, course.version, (tx) => tx.updateCourse(course.id, { title: "Stale edit" })),
+      (error) => error instanceof VersionConflictError && error.status === 409 && error.code === "version_conflict"
+    );
+    const current = await storage.getCourse(course.id);
+    assert.equal(current?.title, "Changed elsewhere");
+    assert.equal(current?.version, course.version + 1);
+  });
+
+  test("refuses a version that cannot match", async () => {
+    const { storage, course } = await setup();
+    await assert.rejects(updateIfCurrent(storage, NaN, (tx) => tx.updateCourse(course.id, { title: "Edit" })), VersionConflictError);
+    assert.equal((await storage.getCourse(course.id))?.title, "Original");
+  });
+
+  test("applies an update without an expected version whatever the current one", async () => {
+    const { storage, course } = await setup();
+    await storage.updateCourse(course.id, { title: "Changed elsewhere" });
+
+    assert.equal((await updateIfCurrent(storage, undefined, (tx) => tx.updateCourse(course.id, { title: "Last wins" })))?.title, "Last wins");
+  });
+});
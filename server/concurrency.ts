@@ -0,0 +1,66 @@
+import type { Request } from "express";
+import type { IStorage } from "./storage";
+
+// Optimistic concurrency: every versioned row carries a version number that each update bumps by one.
+// A client sends back the version its edit is based on, and the update is refused when the row has
+// been changed since, instead of silently overwriting the other change.
+
+// Raised when an update was based on an out-of-date copy of the row
+export class VersionConflictError extends Error {
+  status = 409;
+  code = "version_conflict";
+
+  constructor() {
+    super("This record was changed by someone else since you loaded it");
+  }
+}
+
+// Raised when an update does not say which version it is based on
+export class VersionRequiredError extends Error {
+  status = 428;
+  code = "version_required";
+
+  constructor() {
+    super("Send the version this edit is based on, in an If-Match header or a version field");
+  }
+}
+
+// The version the client's edit is based on: an If-Match header ("3" or W/"3") or a `version` body
+// field. Sending neither raises a VersionRequiredError, except that If-Match "*" asks for the update
+// whatever the version and gives undefined. A value that is not a version number can never match.
+export function expectedVersion(req: Request): number | undefined {
+  const ifMatch = req.get("If-Match")?.trim();
+  if (ifMatch && ifMatch !== "*") {
+    const match = ifMatch.match(/^(?:W\/)?"?(\d+)"?$/);
+    return match ? parseInt(match[1]) : NaN;
+  }
+
+  const version = req.body?.version;
+  if (version === undefined || version === null) {
+    if (ifMatch === "*") return undefined;
+    throw new VersionRequiredError();
+  }
+  return typeof version === "number" ? version : Number.isInteger(Number(version)) ? Number(version) : NaN;
+}
+
+// ETag header value for a row version, so clients can echo it back in If-Match
+export function versionTag(version: number): string {
+  return `"${version}"`;
+}
+
+// Runs the update and checks it was applied on top of the expected version, rolling it back with a
+// VersionConflictError otherwise. The check happens after the write, which locks the row, so a
+// concurrent update landing between the client's read and this one is caught as well.
+export function updateIfCurrent<T extends { version: number }>(
+  storage: IStorage,
+  expected: number | undefined,
+  update: (tx: IStorage) => Promise<T | undefined>
+): Promise<T | undefined> {
+  return storage.transaction(async (tx) => {
+    const updated = await update(tx);
+    if (updated && expected !== undefined && updated.version !== expected + 1) {
+      throw new VersionConflictError();
+    }
+    return updated;
+  });
+}
@@ -0,0 +1,127 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { DatabaseStorage } from "./db-storage";
+import { IntegrityError } from "./integrity";
+import { MemStorage } from "./storage";
+import { createTestDatabase } from "./test-database";
+
+// DatabaseStorage against a real (in-process) Postgres, seeded with the sample data
+let client: PGlite;
+let storage: DatabaseStorage;
+
+before(async () => {
+  const database = await createTestDatabase();
+  client = database.client;
+  storage = new DatabaseStorage(database.db);
+  await storage.seedFrom(new MemStorage());
+});
+
+after(() => client.close());
+
+const course = (code: string) =>
+  storage.createCourse({ code, title: `Course ${code}`, credits: 3, department: "Testing" });
+
+describe("CRUD", () => {
+  test("creates records after the seeded ones and reads them back", async () => {
+    const created = await course("DB-101");
+    assert.equal(created.version, 1);
+    assert.deepEqual(await storage.getCourse(created.id), created);
+    assert.ok((await storage.getAllCourses()).some((c) => c.id === created.id));
+  });
+
+  test("bumps the version on every update", async () => {
+    const created = await course("DB-102");
+    const updated = await storage.updateCourse(created.id, { title: "Renamed" });
+    assert.equal(updated?.title, "Renamed");
+    assert.equal(updated?.version, 2);
+    assert.equal(await storage.updateCourse(999_999, { title: "Missing" }), undefined);
+  });
+
+  test("leaves records in the trash out of listings", async () => {
+    const created = await course("DB-103");
+    await storage.updateCourse(created.id, { deletedAt: new Date() });
+    assert.ok(!(await storage.getAllCourses()).some((c) => c.id === created.id));
+    assert.ok(await storage.getCourse(created.id));
+  });
+
+  test("enforces unique columns", async () => {
+    await course("DB-104");
+    await assert.rejects(course("DB-104"));
+  });
+
+  test("allows one seat or waitlist place per student and section", async () => {
+    const [enrollment] = await storage.getAllEnrollments();
+    const again = { studentId: enrollment.studentId, courseAssignmentId: enrollment.courseAssignmentId };
+    await storage.updateEnrollment(enrollment.id, { status: "enrolled" });
+
+    await assert.rejects(storage.createEnrollment({ ...again, status: "waitlisted" }));
+    assert.equal((await storage.createEnrollment({ ...again, status: "dropped" })).status, "dropped");
+  });
+});
+
+describe("planDelete", () => {
+  test("cascades from a user to their student profile", async () => {
+    const user = await storage.createUser({
+      username: "db.cascade",
+      password: "x",
+      email: "db.cascade@example.edu",
+      role: "student",
+      name: "Cascade Test",
+    });
+    const student = await storage.createStudent({ userId: user.id, studentId: "DB-S1", program: "Testing", yearLevel: 1, status: "active" });
+
+    assert.equal(await storage.deleteUser(user.id), true);
+    assert.equal(await storage.getUser(user.id), undefined);
+    assert.equal(await storage.getStudent(student.id), undefined);
+  });
+
+  test("refuses to delete a grading scale still used by a course", async () => {
+    const scale = await storage.createGradeScale({
+      name: "DB pass/fail",
+      bands: [{ grade: "P", minPercentage: 50, gradePoints: null, passing: true }],
+    });
+    const created = await course("DB-201");
+    await storage.updateCourse(created.id, { gradeScaleId: scale.id });
+
+    await assert.rejects(storage.deleteGradeScale(scale.id), IntegrityError);
+    assert.ok(await storage.getGradeScale(scale.id));
+  });
+
+  test("archives a course that has sections instead of deleting it", async () => {
+    const created = await course("DB-202");
+    const [teacher] = await storage.getAllFaculty();
+    const [term] = await storage.getAllTerms();
+    await storage.createCourseAssignment({ courseId: created.id, facultyId: teacher.id, termId: term.id });
+
+    assert.equal(await storage.deleteCourse(created.id), true);
+    assert.equal((await storage.getCourse(created.id))?.status, "archived");
+  });
+});
+
+describe("transaction", () => {
+  test("rolls back every write when the callback throws", async () => {
+    await assert.rejects(
+      storage.transaction(async (tx) => {
+        await tx.createCourse({ code: "DB-301", title: "Rolled back", credits: 3, department: "Testing" });
+        throw new Error("abort");
+      }),
+      /abort/
+    );
+    assert.equal(await storage.getCourseByCode("DB-301"), undefined);
+  });
+
+  test("reads a section locked for the rest of the transaction", async () => {
+    const [section] = await storage.getAllCourseAssignments();
+    const locked = await storage.transaction((tx) => tx.lockCourseAssignment(section.id));
+    assert.deepEqual(locked, section);
+    assert.equal(await storage.transaction((tx) => tx.lockCourseAssignment(999_999)), undefined);
+  });
+
+  test("keeps the writes of a committed transaction", async () => {
+    const created = await storage.transaction((tx) =>
+      tx.createCourse({ code: "DB-302", title: "Committed", credits: 3, department: "Testing" })
+    );
+    assert.deepEqual(await storage.getCourseByCode("DB-302"), created);
+  });
+});
@@ -0,0 +1,933 @@
+import {
+  User, InsertUser, users,
+  Student, InsertStudent, students,
+  Faculty, InsertFaculty, faculty,
+  Course, InsertCourse, courses,
+  GradeScale, InsertGradeScale, gradeScales,
+  CourseRequisite, InsertCourseRequisite, courseRequisites,
+  RequisiteWaiver, InsertRequisiteWaiver, requisiteWaivers,
+  Term, InsertTerm, terms,
+  CourseAssignment, InsertCourseAssignment, courseAssignments,
+  Room, InsertRoom, rooms,
+  SectionMeeting, InsertSectionMeeting, sectionMeetings,
+  Enrollment, InsertEnrollment, enrollments,
+  Attendance, InsertAttendance, attendance,
+  Grade, InsertGrade, grades,
+  Event, InsertEvent, events,
+  settings,
+  PasswordResetToken, InsertPasswordResetToken, passwordResetTokens,
+  ApiToken, InsertApiToken, apiTokens,
+  AuditEntry, InsertAuditEntry, AuditQuery, auditLog,
+  LoginCredentials
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+import { ARCHIVED_STATUS, planDelete, type DeletePlan, type EntityType } from "./integrity";
+import { hashPassword, verifyPassword } from "./passwords";
+import type { IStorage } from "./storage";
+import type { TrashableType, TrashedRecord } from "./trash";
+
+const TABLES = {
+  user: users,
+  student: students,
+  faculty: faculty,
+  course: courses,
+  gradeScale: gradeScales,
+  courseRequisite: courseRequisites,
+  requisiteWaiver: requisiteWaivers,
+  term: terms,
+  courseAssignment: courseAssignments,
+  room: rooms,
+  sectionMeeting: sectionMeetings,
+  enrollment: enrollments,
+  attendance: attendance,
+  grade: grades,
+  event: events,
+  passwordResetToken: passwordResetTokens,
+  apiToken: apiTokens,
+} satisfies Record<EntityType, unknown>;
+
+// Postgres storage implementation backed by drizzle
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+
+  async getUserByCredentials(credentials: LoginCredentials): Promise<User | undefined> {
+    const user = await this.getUserByUsername(credentials.username);
+    if (!user) return undefined;
+
+    const { valid, needsRehash } = await verifyPassword(credentials.password, user.password);
+    if (!valid) return undefined;
+
+    // Upgrade legacy plaintext rows and outdated hashes now that we know the password
+    if (needsRehash) {
+      return (await this.updateUser(user.id, { password: await hashPassword(credentials.password) })) ?? user;
+    }
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const [updatedUser] = await this.db
+      .update(users)
+      .set({ ...userData, version: sql`${users.version} + 1` })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    if (!(await this.getUser(id))) return false;
+    return this.applyDelete(await planDelete(this, "user", id));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).where(isNull(users.deletedAt)).orderBy(asc(users.id));
+  }
+
+  // Student operations
+  async getStudent(id: number): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.id, id));
+    return student;
+  }
+
+  async lockStudent(id: number): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.id, id)).for("update");
+    return student;
+  }
+
+  async getStudentByStudentId(studentId: string): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.studentId, studentId));
+    return student;
+  }
+
+  async getStudentByUserId(userId: number): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.userId, userId));
+    return student;
+  }
+
+  async createStudent(student: InsertStudent): Promise<Student> {
+    const [newStudent] = await this.db.insert(students).values(student).returning();
+    return newStudent;
+  }
+
+  async updateStudent(id: number, studentData: Partial<Student>): Promise<Student | undefined> {
+    const [updatedStudent] = await this.db
+      .update(students)
+      .set({ ...studentData, version: sql`${students.version} + 1` })
+      .where(eq(students.id, id))
+      .returning();
+    return updatedStudent;
+  }
+
+  async deleteStudent(id: number): Promise<boolean> {
+    if (!(await this.getStudent(id))) return false;
+    return this.applyDelete(await planDelete(this, "student", id));
+  }
+
+  async getAllStudents(): Promise<Student[]> {
+    return this.db.select().from(students).where(isNull(students.deletedAt)).orderBy(asc(students.id));
+  }
+
+  async getStudentDetails(id: number): Promise<any> {
+    const student = await this.getStudent(id);
+    if (!student) return null;
+
+    const user = await this.getUser(student.userId);
+    if (!user) return null;
+
+    const rows = await this.db
+      .select({
+        enrollment: enrollments,
+        term: terms,
+        course: courses,
+        faculty: faculty,
+        facultyName: users.name,
+      })
+      .from(enrollments)
+      .innerJoin(courseAssignments, eq(enrollments.courseAssignmentId, courseAssignments.id))
+      .leftJoin(terms, eq(courseAssignments.termId, terms.id))
+      .leftJoin(courses, eq(courseAssignments.courseId, courses.id))
+      .leftJoin(faculty, eq(courseAssignments.facultyId, faculty.id))
+      .leftJoin(users, eq(faculty.userId, users.id))
+      .where(eq(enrollments.studentId, id))
+      .orderBy(asc(enrollments.id));
+
+    const enrollmentIds = rows.map((row) => row.enrollment.id);
+    const attendanceRecords = enrollmentIds.length > 0
+      ? await this.db.select().from(attendance).where(inArray(attendance.enrollmentId, enrollmentIds))
+      : [];
+    const gradeRecords = enrollmentIds.length > 0
+      ? await this.db.select().from(grades).where(inArray(grades.enrollmentId, enrollmentIds))
+      : [];
+
+    return {
+      ...student,
+      user,
+      enrollments: rows.map((row) => ({
+        enrollment: row.enrollment,
+        course: row.course ?? undefined,
+        faculty: row.faculty ?? undefined,
+        facultyName: row.facultyName ?? undefined,
+        attendance: attendanceRecords.filter((record) => record.enrollmentId === row.enrollment.id),
+        grades: gradeRecords.filter((grade) => grade.enrollmentId === row.enrollment.id),
+        term: row.term ?? undefined
+      }))
+    };
+  }
+
+  // Faculty operations
+  async getFaculty(id: number): Promise<Faculty | undefined> {
+    const [member] = await this.db.select().from(faculty).where(eq(faculty.id, id));
+    return member;
+  }
+
+  async getFacultyByFacultyId(facultyId: string): Promise<Faculty | undefined> {
+    const [member] = await this.db.select().from(faculty).where(eq(faculty.facultyId, facultyId));
+    return member;
+  }
+
+  async getFacultyByUserId(userId: number): Promise<Faculty | undefined> {
+    const [member] = await this.db.select().from(faculty).where(eq(faculty.userId, userId));
+    return member;
+  }
+
+  async createFaculty(facultyData: InsertFaculty): Promise<Faculty> {
+    const [newFaculty] = await this.db.insert(faculty).values(facultyData).returning();
+    return newFaculty;
+  }
+
+  async updateFaculty(id: number, facultyData: Partial<Faculty>): Promise<Faculty | undefined> {
+    const [updatedFaculty] = await this.db
+      .update(faculty)
+      .set({ ...facultyData, version: sql`${faculty.version} + 1` })
+      .where(eq(faculty.id, id))
+      .returning();
+    return updatedFaculty;
+  }
+
+  async deleteFaculty(id: number): Promise<boolean> {
+    if (!(await this.getFaculty(id))) return false;
+    return this.applyDelete(await planDelete(this, "faculty", id));
+  }
+
+  async getAllFaculty(): Promise<Faculty[]> {
+    return this.db.select().from(faculty).where(isNull(faculty.deletedAt)).orderBy(asc(faculty.id));
+  }
+
+  // Course operations
+  async getCourse(id: number): Promise<Course | undefined> {
+    const [course] = await this.db.select().from(courses).where(eq(courses.id, id));
+    return course;
+  }
+
+  async getCourseByCode(code: string): Promise<Course | undefined> {
+    const [course] = await this.db.select().from(courses).where(eq(courses.code, code));
+    return course;
+  }
+
+  async createCourse(course: InsertCourse): Promise<Course> {
+    const [newCourse] = await this.db.insert(courses).values(course).returning();
+    return newCourse;
+  }
+
+  async updateCourse(id: number, courseData: Partial<Course>): Promise<Course | undefined> {
+    const [updatedCourse] = await this.db
+      .update(courses)
+      .set({ ...courseData, version: sql`${courses.version} + 1` })
+      .where(eq(courses.id, id))
+      .returning();
+    return updatedCourse;
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    if (!(await this.getCourse(id))) return false;
+    return this.applyDelete(await planDelete(this, "course", id));
+  }
+
+  async getAllCourses(): Promise<Course[]> {
+    return this.db.select().from(courses).where(isNull(courses.deletedAt)).orderBy(asc(courses.id));
+  }
+
+  // Grading scale operations
+  async getGradeScale(id: number): Promise<GradeScale | undefined> {
+    const [scale] = await this.db.select().from(gradeScales).where(eq(gradeScales.id, id));
+    return scale;
+  }
+
+  async getDefaultGradeScale(): Promise<GradeScale | undefined> {
+    const [scale] = await this.db.select().from(gradeScales).where(eq(gradeScales.isDefault, true));
+    return scale;
+  }
+
+  async createGradeScale(scale: InsertGradeScale): Promise<GradeScale> {
+    const [newScale] = await this.db.insert(gradeScales).values(scale).returning();
+    return newScale;
+  }
+
+  async updateGradeScale(id: number, scaleData: Partial<GradeScale>): Promise<GradeScale | undefined> {
+    const [updatedScale] = await this.db
+      .update(gradeScales)
+      .set({ ...scaleData, version: sql`${gradeScales.version} + 1` })
+      .where(eq(gradeScales.id, id))
+      .returning();
+    return updatedScale;
+  }
+
+  async deleteGradeScale(id: number): Promise<boolean> {
+    if (!(await this.getGradeScale(id))) return false;
+    return this.applyDelete(await planDelete(this, "gradeScale", id));
+  }
+
+  async getAllGradeScales(): Promise<GradeScale[]> {
+    return this.db.select().from(gradeScales).orderBy(asc(gradeScales.name));
+  }
+
+  async getCoursesByGradeScale(gradeScaleId: number): Promise<Course[]> {
+    return this.db.select().from(courses).where(eq(courses.gradeScaleId, gradeScaleId)).orderBy(asc(courses.id));
+  }
+
+  // Course requisite operations; "prerequisite" sorts after "corequisite", hence the descending type
+  async getCourseRequisite(id: number): Promise<CourseRequisite | undefined> {
+    const [requisite] = await this.db.select().from(courseRequisites).where(eq(courseRequisites.id, id));
+    return requisite;
+  }
+
+  async getCourseRequisites(courseId: number): Promise<CourseRequisite[]> {
+    return this.db
+      .select()
+      .from(courseRequisites)
+      .where(eq(courseRequisites.courseId, courseId))
+      .orderBy(desc(courseRequisites.type), asc(courseRequisites.group), asc(courseRequisites.id));
+  }
+
+  async getCourseRequisitesRequiring(requiredCourseId: number): Promise<CourseRequisite[]> {
+    return this.db
+      .select()
+      .from(courseRequisites)
+      .where(eq(courseRequisites.requiredCourseId, requiredCourseId))
+      .orderBy(desc(courseRequisites.type), asc(courseRequisites.group), asc(courseRequisites.id));
+  }
+
+  async createCourseRequisite(requisite: InsertCourseRequisite): Promise<CourseRequisite> {
+    const [newRequisite] = await this.db.insert(courseRequisites).values(requisite).returning();
+    return newRequisite;
+  }
+
+  async deleteCourseRequisite(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(courseRequisites)
+      .where(eq(courseRequisites.id, id))
+      .returning({ id: courseRequisites.id });
+    return deleted.length > 0;
+  }
+
+  // Requisite waiver operations
+  async getRequisiteWaiver(id: number): Promise<RequisiteWaiver | undefined> {
+    const [waiver] = await this.db.select().from(requisiteWaivers).where(eq(requisiteWaivers.id, id));
+    return waiver;
+  }
+
+  async getRequisiteWaiversByStudent(studentId: number): Promise<RequisiteWaiver[]> {
+    return this.db
+      .select()
+      .from(requisiteWaivers)
+      .where(eq(requisiteWaivers.studentId, studentId))
+      .orderBy(asc(requisiteWaivers.id));
+  }
+
+  async getRequisiteWaiversByCourse(courseId: number): Promise<RequisiteWaiver[]> {
+    return this.db
+      .select()
+      .from(requisiteWaivers)
+      .where(eq(requisiteWaivers.courseId, courseId))
+      .orderBy(asc(requisiteWaivers.id));
+  }
+
+  async createRequisiteWaiver(waiver: InsertRequisiteWaiver): Promise<RequisiteWaiver> {
+    const [newWaiver] = await this.db.insert(requisiteWaivers).values(waiver).returning();
+    return newWaiver;
+  }
+
+  async deleteRequisiteWaiver(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(requisiteWaivers)
+      .where(eq(requisiteWaivers.id, id))
+      .returning({ id: requisiteWaivers.id });
+    return deleted.length > 0;
+  }
+
+  // Term operations
+  async getTerm(id: number): Promise<Term | undefined> {
+    const [term] = await this.db.select().from(terms).where(eq(terms.id, id));
+    return term;
+  }
+
+  async getCurrentTerm(): Promise<Term | undefined> {
+    const [term] = await this.db.select().from(terms).where(eq(terms.isCurrent, true));
+    return term;
+  }
+
+  async createTerm(term: InsertTerm): Promise<Term> {
+    const [newTerm] = await this.db.insert(terms).values(term).returning();
+    return newTerm;
+  }
+
+  async updateTerm(id: number, termData: Partial<Term>): Promise<Term | undefined> {
+    const [updatedTerm] = await this.db
+      .update(terms)
+      .set({ ...termData, version: sql`${terms.version} + 1` })
+      .where(eq(terms.id, id))
+      .returning();
+    return updatedTerm;
+  }
+
+  async deleteTerm(id: number): Promise<boolean> {
+    if (!(await this.getTerm(id))) return false;
+    return this.applyDelete(await planDelete(this, "term", id));
+  }
+
+  async getAllTerms(): Promise<Term[]> {
+    return this.db.select().from(terms).orderBy(asc(terms.startDate));
+  }
+
+  // Course Assignment operations
+  async getCourseAssignment(id: number): Promise<CourseAssignment | undefined> {
+    const [assignment] = await this.db.select().from(courseAssignments).where(eq(courseAssignments.id, id));
+    return assignment;
+  }
+
+  // Transactions run at READ COMMITTED, so concurrent ones would otherwise count the same free seat
+  async lockCourseAssignment(id: number): Promise<CourseAssignment | undefined> {
+    const [assignment] = await this.db
+      .select()
+      .from(courseAssignments)
+      .where(eq(courseAssignments.id, id))
+      .for("update");
+    return assignment;
+  }
+
+  async createCourseAssignment(assignment: InsertCourseAssignment): Promise<CourseAssignment> {
+    const [newAssignment] = await this.db.insert(courseAssignments).values(assignment).returning();
+    return newAssignment;
+  }
+
+  async updateCourseAssignment(id: number, assignmentData: Partial<CourseAssignment>): Promise<CourseAssignment | undefined> {
+    const [updatedAssignment] = await this.db
+      .update(courseAssignments)
+      .set({ ...assignmentData, version: sql`${courseAssignments.version} + 1` })
+      .where(eq(courseAssignments.id, id))
+      .returning();
+    return updatedAssignment;
+  }
+
+  async deleteCourseAssignment(id: number): Promise<boolean> {
+    if (!(await this.getCourseAssignment(id))) return false;
+    return this.applyDelete(await planDelete(this, "courseAssignment", id));
+  }
+
+  async getAllCourseAssignments(): Promise<CourseAssignment[]> {
+    return this.db.select().from(courseAssignments).orderBy(asc(courseAssignments.id));
+  }
+
+  async getCourseAssignmentsByCourse(courseId: number): Promise<CourseAssignment[]> {
+    return this.db
+      .select()
+      .from(courseAssignments)
+      .where(eq(courseAssignments.courseId, courseId))
+      .orderBy(asc(courseAssignments.id));
+  }
+
+  async getCourseAssignmentsByFaculty(facultyId: number): Promise<CourseAssignment[]> {
+    return this.db
+      .select()
+      .from(courseAssignments)
+      .where(eq(courseAssignments.facultyId, facultyId))
+      .orderBy(asc(courseAssignments.id));
+  }
+
+  async getCourseAssignmentsByTerm(termId: number): Promise<CourseAssignment[]> {
+    return this.db
+      .select()
+      .from(courseAssignments)
+      .where(eq(courseAssignments.termId, termId))
+      .orderBy(asc(courseAssignments.id));
+  }
+
+  // Room operations
+  async getRoom(id: number): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const [newRoom] = await this.db.insert(rooms).values(room).returning();
+    return newRoom;
+  }
+
+  async updateRoom(id: number, roomData: Partial<Room>): Promise<Room | undefined> {
+    const [updatedRoom] = await this.db
+      .update(rooms)
+      .set({ ...roomData, version: sql`${rooms.version} + 1` })
+      .where(eq(rooms.id, id))
+      .returning();
+    return updatedRoom;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    if (!(await this.getRoom(id))) return false;
+    return this.applyDelete(await planDelete(this, "room", id));
+  }
+
+  async getAllRooms(): Promise<Room[]> {
+    return this.db.select().from(rooms).orderBy(asc(rooms.name));
+  }
+
+  // Section meeting operations
+  async getSectionMeeting(id: number): Promise<SectionMeeting | undefined> {
+    const [meeting] = await this.db.select().from(sectionMeetings).where(eq(sectionMeetings.id, id));
+    return meeting;
+  }
+
+  async getSectionMeetings(courseAssignmentId: number): Promise<SectionMeeting[]> {
+    return this.db
+      .select()
+      .from(sectionMeetings)
+      .where(eq(sectionMeetings.courseAssignmentId, courseAssignmentId))
+      .orderBy(asc(sectionMeetings.id));
+  }
+
+  async getSectionMeetingsByRoom(roomId: number): Promise<SectionMeeting[]> {
+    return this.db
+      .select()
+      .from(sectionMeetings)
+      .where(eq(sectionMeetings.roomId, roomId))
+      .orderBy(asc(sectionMeetings.id));
+  }
+
+  async createSectionMeeting(meeting: InsertSectionMeeting): Promise<SectionMeeting> {
+    const [newMeeting] = await this.db.insert(sectionMeetings).values(meeting).returning();
+    return newMeeting;
+  }
+
+  async deleteSectionMeeting(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sectionMeetings)
+      .where(eq(sectionMeetings.id, id))
+      .returning({ id: sectionMeetings.id });
+    return deleted.length > 0;
+  }
+
+  // Enrollment operations
+  async getEnrollment(id: number): Promise<Enrollment | undefined> {
+    const [enrollment] = await this.db.select().from(enrollments).where(eq(enrollments.id, id));
+    return enrollment;
+  }
+
+  async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
+    const [newEnrollment] = await this.db.insert(enrollments).values(enrollment).returning();
+    return newEnrollment;
+  }
+
+  async updateEnrollment(id: number, enrollmentData: Partial<Enrollment>): Promise<Enrollment | undefined> {
+    const [updatedEnrollment] = await this.db
+      .update(enrollments)
+      .set({ ...enrollmentData, version: sql`${enrollments.version} + 1` })
+      .where(eq(enrollments.id, id))
+      .returning();
+    return updatedEnrollment;
+  }
+
+  async deleteEnrollment(id: number): Promise<boolean> {
+    if (!(await this.getEnrollment(id))) return false;
+    return this.applyDelete(await planDelete(this, "enrollment", id));
+  }
+
+  async getAllEnrollments(): Promise<Enrollment[]> {
+    return this.db.select().from(enrollments).orderBy(asc(enrollments.id));
+  }
+
+  async getEnrollmentsByStudent(studentId: number): Promise<Enrollment[]> {
+    return this.db
+      .select()
+      .from(enrollments)
+      .where(eq(enrollments.studentId, studentId))
+      .orderBy(asc(enrollments.id));
+  }
+
+  async getEnrollmentsByCourseAssignment(courseAssignmentId: number): Promise<Enrollment[]> {
+    return this.db
+      .select()
+      .from(enrollments)
+      .where(eq(enrollments.courseAssignmentId, courseAssignmentId))
+      .orderBy(asc(enrollments.id));
+  }
+
+  // Attendance operations
+  async getAttendance(id: number): Promise<Attendance | undefined> {
+    const [record] = await this.db.select().from(attendance).where(eq(attendance.id, id));
+    return record;
+  }
+
+  async createAttendance(attendanceData: InsertAttendance): Promise<Attendance> {
+    const [newAttendance] = await this.db.insert(attendance).values(attendanceData).returning();
+    return newAttendance;
+  }
+
+  async updateAttendance(id: number, attendanceData: Partial<Attendance>): Promise<Attendance | undefined> {
+    const [updatedAttendance] = await this.db
+      .update(attendance)
+      .set({ ...attendanceData, version: sql`${attendance.version} + 1` })
+      .where(eq(attendance.id, id))
+      .returning();
+    return updatedAttendance;
+  }
+
+  async deleteAttendance(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(attendance).where(eq(attendance.id, id)).returning({ id: attendance.id });
+    return deleted.length > 0;
+  }
+
+  async getAllAttendance(): Promise<Attendance[]> {
+    return this.db.select().from(attendance).orderBy(asc(attendance.id));
+  }
+
+  async getAttendanceByEnrollment(enrollmentId: number): Promise<Attendance[]> {
+    return this.db
+      .select()
+      .from(attendance)
+      .where(eq(attendance.enrollmentId, enrollmentId))
+      .orderBy(asc(attendance.id));
+  }
+
+  // Grade operations
+  async getGrade(id: number): Promise<Grade | undefined> {
+    const [grade] = await this.db.select().from(grades).where(eq(grades.id, id));
+    return grade;
+  }
+
+  async createGrade(grade: InsertGrade): Promise<Grade> {
+    const [newGrade] = await this.db.insert(grades).values(grade).returning();
+    return newGrade;
+  }
+
+  async updateGrade(id: number, gradeData: Partial<Grade>): Promise<Grade | undefined> {
+    const [updatedGrade] = await this.db
+      .update(grades)
+      .set({ ...gradeData, version: sql`${grades.version} + 1` })
+      .where(eq(grades.id, id))
+      .returning();
+    return updatedGrade;
+  }
+
+  async deleteGrade(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(grades).where(eq(grades.id, id)).returning({ id: grades.id });
+    return deleted.length > 0;
+  }
+
+  async getAllGrades(): Promise<Grade[]> {
+    return this.db.select().from(grades).orderBy(asc(grades.id));
+  }
+
+  async getGradesByEnrollment(enrollmentId: number): Promise<Grade[]> {
+    return this.db
+      .select()
+      .from(grades)
+      .where(eq(grades.enrollmentId, enrollmentId))
+      .orderBy(asc(grades.id));
+  }
+
+  // Event operations
+  async getEvent(id: number): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async createEvent(event: InsertEvent): Promise<Event> {
+    const [newEvent] = await this.db.insert(events).values(event).returning();
+    return newEvent;
+  }
+
+  async updateEvent(id: number, eventData: Partial<Event>): Promise<Event | undefined> {
+    const [updatedEvent] = await this.db
+      .update(events)
+      .set({ ...eventData, version: sql`${events.version} + 1` })
+      .where(eq(events.id, id))
+      .returning();
+    return updatedEvent;
+  }
+
+  async deleteEvent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(events).where(eq(events.id, id)).returning({ id: events.id });
+    return deleted.length > 0;
+  }
+
+  async getAllEvents(): Promise<Event[]> {
+    return this.db.select().from(events).where(isNull(events.deletedAt)).orderBy(asc(events.id));
+  }
+
+  async getUpcomingEvents(): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(events)
+      .where(and(isNull(events.deletedAt), gt(events.startDate, new Date())))
+      .orderBy(asc(events.startDate));
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<string | undefined> {
+    const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    await this.db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value } });
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await this.db.insert(passwordResetTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getPasswordResetTokensByUser(userId: number): Promise<PasswordResetToken[]> {
+    return this.db.select().from(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+  }
+
+  async updatePasswordResetToken(id: number, tokenData: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined> {
+    const [updatedToken] = await this.db
+      .update(passwordResetTokens)
+      .set(tokenData)
+      .where(eq(passwordResetTokens.id, id))
+      .returning();
+    return updatedToken;
+  }
+
+  // API token operations
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await this.db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return this.db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(asc(apiTokens.id));
+  }
+
+  async updateApiToken(id: number, tokenData: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const [updatedToken] = await this.db
+      .update(apiTokens)
+      .set(tokenData)
+      .where(eq(apiTokens.id, id))
+      .returning();
+    return updatedToken;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiTokens).where(eq(apiTokens.id, id)).returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Audit log operations
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const [newEntry] = await this.db
+      .insert(auditLog)
+      .values({ ...entry, changes: entry.changes as AuditEntry["changes"] })
+      .returning();
+    return newEntry;
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(and(
+        query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+        query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+        query.actorId !== undefined ? eq(auditLog.actorId, query.actorId) : undefined,
+        query.from ? gte(auditLog.createdAt, query.from) : undefined,
+        query.to ? lte(auditLog.createdAt, query.to) : undefined
+      ))
+      .orderBy(desc(auditLog.id))
+      .limit(query.limit)
+      .offset(query.offset);
+  }
+
+  // Trash operations
+  async getDeletedRecords(type: TrashableType): Promise<TrashedRecord[]> {
+    const table = TABLES[type] as typeof users;
+    return this.db.select().from(table).where(isNotNull(table.deletedAt)).orderBy(asc(table.id));
+  }
+
+  // Dashboard statistics
+  async getDashboardStats(termId?: number): Promise<any> {
+    const [{ value: totalStudents }] = await this.db.select({ value: count() }).from(students).where(isNull(students.deletedAt));
+    const [{ value: totalFaculty }] = await this.db.select({ value: count() }).from(faculty).where(isNull(faculty.deletedAt));
+
+    // Sections counted towards the attendance and enrollment figures
+    const inTerm = termId !== undefined ? eq(courseAssignments.termId, termId) : undefined;
+
+    // Calculate attendance rate
+    const [attendanceTotals] = await this.db
+      .select({
+        total: count(),
+        present: count(sql`case when ${attendance.status} in ('present', 'late') then 1 end`),
+      })
+      .from(attendance)
+      .innerJoin(enrollments, eq(attendance.enrollmentId, enrollments.id))
+      .innerJoin(courseAssignments, eq(enrollments.courseAssignmentId, courseAssignments.id))
+      .where(inTerm);
+
+    const attendanceRate = attendanceTotals.total > 0
+      ? (attendanceTotals.present / attendanceTotals.total) * 100
+      : 0;
+
+    // Course statistics
+    const statusCounts = await this.db
+      .select({ status: courses.status, value: count() })
+      .from(courses)
+      .where(isNull(courses.deletedAt))
+      .groupBy(courses.status);
+
+    const countFor = (status: string) => statusCounts.find((row) => row.status === status)?.value ?? 0;
+    const totalCourses = statusCounts.reduce((sum, row) => sum + row.value, 0);
+    const activeCourses = countFor("active");
+    const pendingCourses = countFor("pending");
+    const archivedCourses = countFor("archived");
+
+    const percentageOf = (value: number) =>
+      totalCourses > 0 ? parseFloat(((value / totalCourses) * 100).toFixed(1)) : 0;
+
+    // Popular courses with student count
+    const popularCourses = await this.db
+      .select({
+        id: courses.id,
+        code: courses.code,
+        title: courses.title,
+        studentCount: count(enrollments.id),
+      })
+      .from(courses)
+      .leftJoin(courseAssignments, and(eq(courseAssignments.courseId, courses.id), inTerm))
+      .leftJoin(enrollments, eq(enrollments.courseAssignmentId, courseAssignments.id))
+      .where(isNull(courses.deletedAt))
+      .groupBy(courses.id, courses.code, courses.title)
+      .orderBy(desc(count(enrollments.id)), asc(courses.id))
+      .limit(3);
+
+    return {
+      totalStudents,
+      totalFaculty,
+      totalCourses,
+      activeCourses,
+      attendanceRate: parseFloat(attendanceRate.toFixed(1)),
+      courseStatistics: {
+        active: {
+          count: activeCourses,
+          percentage: percentageOf(activeCourses)
+        },
+        pending: {
+          count: pendingCourses,
+          percentage: percentageOf(pendingCourses)
+        },
+        archived: {
+          count: archivedCourses,
+          percentage: percentageOf(archivedCourses)
+        }
+      },
+      popularCourses
+    };
+  }
+
+  // Nested calls become savepoints inside the outer transaction
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new DatabaseStorage(tx as unknown as Database)));
+  }
+
+  // Referential integrity helpers
+  private async applyDelete(plan: DeletePlan): Promise<boolean> {
+    if (plan.archive) {
+      const table = TABLES[plan.root.type] as typeof courses;
+      await this.db
+        .update(table)
+        .set({ status: ARCHIVED_STATUS[plan.root.type] })
+        .where(eq(table.id, plan.root.id));
+      return true;
+    }
+
+    await this.db.transaction(async (tx) => {
+      for (const row of plan.deletions) {
+        const table = TABLES[row.type] as typeof users;
+        await tx.delete(table).where(eq(table.id, row.id));
+      }
+    });
+    return true;
+  }
+
+  // Copy another storage's records into an empty database (used to load the demo data on first boot)
+  async seedFrom(source: IStorage): Promise<void> {
+    const [{ value: existingUsers }] = await this.db.select({ value: count() }).from(users);
+    if (existingUsers > 0) return;
+
+    await this.db.transaction(async (tx) => {
+      const copy = async <TTable extends PgTable>(table: TTable, rows: TTable["$inferInsert"][]) => {
+        if (rows.length > 0) await tx.insert(table).values(rows);
+      };
+
+      await copy(users, await source.getAllUsers());
+      await copy(students, await source.getAllStudents());
+      await copy(faculty, await source.getAllFaculty());
+      await copy(gradeScales, await source.getAllGradeScales());
+      await copy(courses, await source.getAllCourses());
+      for (const course of await source.getAllCourses()) {
+        await copy(courseRequisites, await source.getCourseRequisites(course.id));
+      }
+      await copy(terms, await source.getAllTerms());
+      await copy(courseAssignments, await source.getAllCourseAssignments());
+      await copy(rooms, await source.getAllRooms());
+      for (const assignment of await source.getAllCourseAssignments()) {
+        await copy(sectionMeetings, await source.getSectionMeetings(assignment.id));
+      }
+      await copy(enrollments, await source.getAllEnrollments());
+      await copy(attendance, await source.getAllAttendance());
+      await copy(grades, await source.getAllGrades());
+      await copy(events, await source.getAllEvents());
+
+      // Explicit ids bypass the serial sequences, so move them past the copied rows
+      for (const table of ["users", "students", "faculty", "grade_scales", "courses", "course_requisites", "terms", "course_assignments", "rooms", "section_meetings", "enrollments", "attendance", "grades", "events"]) {
+        await tx.execute(
+          sql.raw(`select setval(pg_get_serial_sequence('${table}', 'id'), coalesce((select max(id) from ${table}), 0) + 1, false)`)
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database built over the shared schema. The server connects
+// through the Neon driver, but tests can hand in a pglite or node-postgres instance.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): Pool {
+  return new Pool({ connectionString });
+}
+
+export function createDatabase(connectionString: string): Database {
+  return drizzle({ client: createPool(connectionString), schema });
+}
@@ -0,0 +1,155 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileStorage } from "./storage";
+import { JournalError } from "./journal";
+
+// Each test gets its own directory. Storage is reopened without closing the previous instance, as
+// after a crash: closing would fold the journal into a snapshot.
+const newDirectory = () => fs.mkdtempSync(path.join(os.tmpdir(), "file-storage-"));
+
+const open = async (directory: string) => {
+  const storage = new FileStorage(directory, 0);
+  await storage.load();
+  return storage;
+};
+
+const journalPath = (directory: string) => path.join(directory, "journal.log");
+
+const addStudent = (storage: FileStorage, studentId: string) =>
+  storage.createStudent({ userId: 0, studentId, program: "Testing", yearLevel: 1, status: "active" });
+
+describe("FileStorage", () => {
+  test("keeps created and updated records across a restart", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    const student = await addStudent(storage, "FILE-S1");
+    const [grade] = await storage.getAllGrades();
+    await storage.updateGrade(grade.id, { score: 42 });
+
+    const restarted = await open(directory);
+    assert.deepEqual(await restarted.getStudent(student.id), student);
+    assert.equal((await restarted.getGrade(grade.id))?.score, 42);
+    assert.equal((await restarted.getGrade(grade.id))?.version, grade.version + 1);
+  });
+
+  test("keeps the changes of a committed transaction together", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await storage.transaction(async (tx) => {
+      await tx.createStudent({ userId: 0, studentId: "FILE-T1", program: "Testing", yearLevel: 1, status: "active" });
+      await tx.createStudent({ userId: 0, studentId: "FILE-T2", program: "Testing", yearLevel: 1, status: "active" });
+    });
+    await assert.rejects(storage.transaction(async (tx) => {
+      await tx.createStudent({ userId: 0, studentId: "FILE-T3", program: "Testing", yearLevel: 1, status: "active" });
+      throw new Error("rolled back");
+    }));
+
+    const restarted = await open(directory);
+    assert.ok(await restarted.getStudentByStudentId("FILE-T1"));
+    assert.ok(await restarted.getStudentByStudentId("FILE-T2"));
+    assert.equal(await restarted.getStudentByStudentId("FILE-T3"), undefined);
+  });
+
+  test("gives rows the same ids after a restart when a transaction rolled back before them", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await assert.rejects(storage.transaction(async (tx) => {
+      await tx.createStudent({ userId: 0, studentId: "FILE-R1", program: "Testing", yearLevel: 1, status: "active" });
+      throw new Error("rolled back");
+    }));
+    const kept = await addStudent(storage, "FILE-R2");
+    await storage.updateStudent(kept.id, { program: "Updated" });
+
+    const restarted = await open(directory);
+    const student = await restarted.getStudentByStudentId("FILE-R2");
+    assert.equal(student?.id, kept.id);
+    assert.equal(student?.program, "Updated");
+    assert.equal((await addStudent(restarted, "FILE-R3")).id, kept.id + 1);
+  });
+
+  test("does not journal updates and deletes that found no row", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    assert.equal(await storage.updateStudent(99999, { program: "Nobody" }), undefined);
+    assert.equal(await storage.deleteStudent(99999), false);
+
+    assert.equal(fs.readFileSync(journalPath(directory), "utf8"), "");
+  });
+
+  test("refuses to load a journaled update of a row that does not exist", async () => {
+    const directory = newDirectory();
+    await addStudent(await open(directory), "FILE-R4");
+    fs.appendFileSync(journalPath(directory), '{"seq":99,"op":"updateStudent","args":[99999,{"program":"Lost"}]}\n');
+
+    await assert.rejects(open(directory), (error) => error instanceof JournalError && /updateStudent found no row with id 99999/.test(error.message));
+  });
+
+  test("replays the journal on top of the last snapshot", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await addStudent(storage, "FILE-S2");
+    await storage.snapshot();
+    assert.equal(fs.readFileSync(journalPath(directory), "utf8"), "");
+    await addStudent(storage, "FILE-S3");
+
+    const restarted = await open(directory);
+    assert.ok(await restarted.getStudentByStudentId("FILE-S2"));
+    assert.ok(await restarted.getStudentByStudentId("FILE-S3"));
+  });
+
+  test("skips journal entries the snapshot already holds", async () => {
+    // As after a crash between writing the snapshot and emptying the journal
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await addStudent(storage, "FILE-S4");
+    const journal = fs.readFileSync(journalPath(directory));
+    await storage.snapshot();
+    fs.writeFileSync(journalPath(directory), journal);
+
+    const restarted = await open(directory);
+    const matching = (await restarted.getAllStudents()).filter((student) => student.studentId === "FILE-S4");
+    assert.equal(matching.length, 1);
+  });
+
+  test("drops a torn last entry and appends after the entries before it", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await addStudent(storage, "FILE-S5");
+    fs.appendFileSync(journalPath(directory), '{"seq":99,"op":"createStudent","args":[{"userId":0,"stud');
+
+    const restarted = await open(directory);
+    assert.ok(await restarted.getStudentByStudentId("FILE-S5"));
+    assert.equal(fs.readFileSync(journalPath(directory), "utf8"), "");
+
+    await addStudent(restarted, "FILE-S6");
+    const again = await open(directory);
+    assert.ok(await again.getStudentByStudentId("FILE-S5"));
+    assert.ok(await again.getStudentByStudentId("FILE-S6"));
+  });
+
+  test("refuses to load a journal with a corrupt line before other entries, leaving it as it is", async () => {
+    const directory = newDirectory();
+    const storage = await open(directory);
+    await addStudent(storage, "FILE-S7");
+    await addStudent(storage, "FILE-S8");
+    const [first, second] = fs.readFileSync(journalPath(directory), "utf8").split("\n");
+    const damaged = `${first}\n{"seq":\n${second}\n`;
+    fs.writeFileSync(journalPath(directory), damaged);
+
+    await assert.rejects(open(directory), (error) => error instanceof JournalError && /line 2/.test(error.message));
+    assert.equal(fs.readFileSync(journalPath(directory), "utf8"), damaged);
+  });
+
+  test("refuses to load a journal entry that fails to replay", async () => {
+    const directory = newDirectory();
+    await addStudent(await open(directory), "FILE-S9");
+    fs.appendFileSync(journalPath(directory), '{"seq":99,"op":"dropEverything","args":[]}\n');
+    const journal = fs.readFileSync(journalPath(directory), "utf8");
+
+    await assert.rejects(open(directory), (error) => error instanceof JournalError && /entry 99 \(dropEverything\)/.test(error.message));
+    assert.equal(fs.readFileSync(journalPath(directory), "utf8"), journal);
+  });
+});
@@ -0,0 +1,194 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Course, Grade, GradeBand, GradeScale, Student } from "@shared/schema";
+import {
+  GradeScaleError,
+  academicRecord,
+  checkScalePrograms,
+  clearOtherDefaultScales,
+  finalPercentage,
+  gradeFor,
+  scaleFor,
+  summarize,
+  validateGradeScale,
+  type CourseResult,
+} from "./grading";
+import { MemStorage } from "./storage";
+
+const LETTERS: GradeBand[] = [
+  { grade: "A", minPercentage: 90, gradePoints: 4, passing: true },
+  { grade: "B", minPercentage: 80, gradePoints: 3, passing: true },
+  { grade: "C", minPercentage: 70, gradePoints: 2, passing: true },
+  { grade: "F", minPercentage: 0, gradePoints: 0, passing: false },
+];
+const PASS_FAIL: GradeBand[] = [
+  { grade: "P", minPercentage: 60, gradePoints: null, passing: true },
+  { grade: "NP", minPercentage: 0, gradePoints: null, passing: false },
+];
+
+const grade = (score: number, maxScore: number, weight: number) => ({ score, maxScore, weight }) as Grade;
+
+const result = (credits: number, gradePoints: number | null, status = "completed", passing = true) =>
+  ({ status, course: { credits }, gradePoints, passing }) as CourseResult;
+
+describe("finalPercentage", () => {
+  test("weights each item's fraction of its maximum score", () => {
+    assert.equal(finalPercentage([grade(45, 50, 40), grade(70, 100, 60)]), 78);
+  });
+
+  test("leaves out items without a usable fraction", () => {
+    assert.equal(finalPercentage([grade(10, 0, 50), grade(8, 10, 50)]), 80);
+    assert.equal(finalPercentage([grade(10, 0, 50)]), undefined);
+    assert.equal(finalPercentage([]), undefined);
+  });
+});
+
+describe("gradeFor", () => {
+  const scale = { bands: [...LETTERS].reverse() } as GradeScale;
+
+  test("finds the band a percentage falls in, bands in any order", () => {
+    assert.deepEqual([95, 90, 89.99, 70, 12].map((percentage) => gradeFor(scale, percentage)?.grade), ["A", "A", "B", "C", "F"]);
+  });
+
+  test("compares percentages as shown, to two decimals", () => {
+    assert.equal(gradeFor(scale, 89.995)?.grade, "A");
+    assert.equal(gradeFor(scale, 89.994)?.grade, "B");
+  });
+
+  test("gives no grade to a value that is not a number", () => {
+    assert.equal(gradeFor(scale, NaN), undefined);
+    assert.equal(gradeFor(scale, Infinity), undefined);
+  });
+});
+
+describe("validateGradeScale", () => {
+  test("accepts a complete scale", () => {
+    validateGradeScale({ bands: LETTERS });
+    validateGradeScale({ bands: PASS_FAIL });
+  });
+
+  test("refuses gaps, repeats and failing grades above passing ones", () => {
+    const refused = (bands: GradeBand[], message: RegExp) =>
+      assert.throws(() => validateGradeScale({ bands }), (error) => error instanceof GradeScaleError && message.test(error.message));
+
+    refused(LETTERS.slice(0, 3), /lowest grade must start at 0%/);
+    refused([...LETTERS, { ...LETTERS[0], grade: "a", minPercentage: 95 }], /grade A is listed more than once/);
+    refused([...LETTERS, { ...LETTERS[1], grade: "B+" }], /different percentage/);
+    refused([...LETTERS, { grade: "D", minPercentage: 75, gradePoints: 1, passing: false }], /failing grade cannot sit above/);
+  });
+});
+
+describe("summarize", () => {
+  test("averages grade points weighted by credits, to two decimals", () => {
+    const summary = summarize([result(3, 4), result(4, 3), result(1, 2)]);
+    assert.equal(summary.gpa, 3.25);
+    assert.equal(summary.gpaCredits, 8);
+  });
+
+  test("leaves pass/fail and ungraded courses out of the GPA but counts their credits", () => {
+    const summary = summarize([result(3, 4), result(2, null), result(4, null, "completed", false), result(3, 0, "completed", false)]);
+
+    assert.equal(summary.gpa, 2);
+    assert.equal(summary.gpaCredits, 6);
+    assert.equal(summary.creditsAttempted, 12);
+    assert.equal(summary.creditsEarned, 5);
+  });
+
+  test("marks the GPA provisional while graded courses are in progress", () => {
+    assert.equal(summarize([result(3, 4), result(3, 2, "enrolled", true)]).provisional, true);
+    assert.equal(summarize([result(3, 4), result(3, null, "enrolled", true)]).provisional, false);
+    assert.deepEqual(summarize([]), { gpa: null, gpaCredits: 0, creditsAttempted: 0, creditsEarned: 0, provisional: false });
+  });
+});
+
+describe("with storage", () => {
+  let storage: MemStorage;
+  let student: Student;
+  let letters: GradeScale;
+  let passFail: GradeScale;
+  let facultyId: number;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    letters = await storage.createGradeScale({ name: "Test Letters", bands: LETTERS, programs: ["Test Program"], isDefault: false });
+    passFail = await storage.createGradeScale({ name: "Test Pass/Fail", bands: PASS_FAIL, programs: [], isDefault: true });
+    await clearOtherDefaultScales(storage, passFail.id);
+    const user = await storage.createUser({ username: "gpa.student", password: "x", email: "gpa.student@college.edu", role: "student", name: "GPA Student" });
+    student = await storage.createStudent({ userId: user.id, studentId: "GPA-1", program: "test program", yearLevel: 1, status: "active" });
+    facultyId = (await storage.getAllFaculty())[0].id;
+  });
+
+  const newCourse = (code: string, credits: number, gradeScaleId: number | null = null) =>
+    storage.createCourse({ code, title: code, credits, department: "Testing", gradeScaleId });
+
+  const newTerm = (name: string, year: number) =>
+    storage.createTerm({
+      name,
+      startDate: new Date(year, 0, 8),
+      endDate: new Date(year, 4, 4),
+      addDropDeadline: new Date(year, 0, 22),
+      gradesDueDate: new Date(year, 4, 18),
+      isCurrent: false,
+    });
+
+  // Takes the course in the term with a single final grade, unless no score is given
+  const take = async (course: Course, termId: number, status: string, score?: number) => {
+    const section = await storage.createCourseAssignment({ courseId: course.id, facultyId, termId });
+    const enrollment = await storage.createEnrollment({ studentId: student.id, courseAssignmentId: section.id, status });
+    if (score !== undefined) {
+      await storage.createGrade({ enrollmentId: enrollment.id, assignmentName: "Final", score, maxScore: 100, weight: 100 });
+    }
+  };
+
+  test("scaleFor prefers the course's scale, then the student's program, then the default", async () => {
+    assert.equal((await scaleFor(storage, await newCourse("GPA100", 3, passFail.id), student))?.id, passFail.id);
+    assert.equal((await scaleFor(storage, await newCourse("GPA101", 3), student))?.id, letters.id);
+    assert.equal((await scaleFor(storage, await newCourse("GPA102", 3), { ...student, program: "Other" }))?.id, passFail.id);
+  });
+
+  test("checkScalePrograms refuses a program another scale already grades", async () => {
+    await assert.rejects(checkScalePrograms(storage, ["TEST PROGRAM"]), /TEST PROGRAM is already graded on Test Letters/);
+    await checkScalePrograms(storage, ["Test Program"], letters.id);
+  });
+
+  test("academicRecord gives term and cumulative GPAs in calendar order", async () => {
+    const spring = await newTerm("GPA Spring", 2002);
+    const fall = await newTerm("GPA Fall", 2001);
+    const [calculus, physics, seminar, history] = [
+      await newCourse("GPA201", 4),
+      await newCourse("GPA202", 3),
+      await newCourse("GPA203", 1, passFail.id),
+      await newCourse("GPA204", 3),
+    ];
+    await take(calculus, fall.id, "completed", 93);
+    await take(seminar, fall.id, "completed", 65);
+    await take(physics, spring.id, "completed", 55);
+    await take(history, spring.id, "enrolled", 84);
+    await take(history, fall.id, "dropped", 20);
+    await take(calculus, spring.id, "waitlisted");
+
+    const record = await academicRecord(storage, student);
+
+    assert.deepEqual(record.terms.map((term) => [term.term?.name, term.courses.map((course) => course.course.code)]), [
+      ["GPA Fall", ["GPA201", "GPA203"]],
+      ["GPA Spring", ["GPA202", "GPA204"]],
+    ]);
+    assert.deepEqual(record.terms[0].courses.map((course) => [course.grade, course.gradePoints, course.scale?.name]), [
+      ["A", 4, "Test Letters"],
+      ["P", null, "Test Pass/Fail"],
+    ]);
+    assert.deepEqual(
+      record.terms.map(({ gpa, gpaCredits, creditsAttempted, creditsEarned, provisional }) => [gpa, gpaCredits, creditsAttempted, creditsEarned, provisional]),
+      [[4, 4, 5, 5, false], [1.5, 6, 3, 0, true]]
+    );
+    assert.deepEqual(record.cumulative, { gpa: 2.5, gpaCredits: 10, creditsAttempted: 8, creditsEarned: 5, provisional: true });
+  });
+
+  test("academicRecord leaves ungraded courses without a grade or GPA", async () => {
+    const term = await newTerm("GPA Ungraded", 2003);
+    await take(await newCourse("GPA301", 3), term.id, "enrolled");
+
+    const [only] = (await academicRecord(storage, student)).terms;
+    assert.deepEqual([only.courses[0].percentage, only.courses[0].grade, only.gpa], [null, null, null]);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Course, Enrollment, Grade, GradeBand, GradeScale, InsertGradeScale, Student, Term } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Why a grading scale was refused
+export class GradeScaleError extends Error {
+  status = 400;
+}
+
+// Weighted average of an enrollment's grades as a percentage; undefined before anything is graded.
+// Records that give no usable fraction (a maximum score of 0, say) are left out rather than
+// turning the average into Infinity or NaN.
+export function finalPercentage(grades: Grade[]): number | undefined {
+  const usable = grades.filter((grade) =>
+    grade.maxScore > 0 && Number.isFinite(grade.score / grade.maxScore) && Number.isFinite(grade.weight)
+  );
+  const totalWeight = usable.reduce((sum, grade) => sum + grade.weight, 0);
+  if (totalWeight === 0) return undefined;
+
+  const earned = usable.reduce((sum, grade) => sum + (grade.score / grade.maxScore) * grade.weight, 0);
+  const percentage = (earned / totalWeight) * 100;
+  return Number.isFinite(percentage) ? percentage : undefined;
+}
+
+// Highest band first, which is the order grades are looked up in
+export const sortBands = (bands: GradeBand[]) => [...bands].sort((a, b) => b.minPercentage - a.minPercentage);
+
+// Every percentage needs a grade: bands start at distinct percentages, the lowest at 0, and no
+// grade is listed twice. Failing grades carry no more grade points than passing ones above them.
+export function validateGradeScale(scale: Pick<InsertGradeScale, "bands">) {
+  const bands = sortBands(scale.bands);
+
+  const grades = bands.map((band) => band.grade.toUpperCase());
+  const repeated = grades.find((grade, index) => grades.indexOf(grade) !== index);
+  if (repeated) {
+    throw new GradeScaleError(`The grade ${repeated} is listed more than once`);
+  }
+  if (bands.some((band, index) => index > 0 && band.minPercentage === bands[index - 1].minPercentage)) {
+    throw new GradeScaleError("Each grade must start at a different percentage");
+  }
+  if (bands[bands.length - 1].minPercentage !== 0) {
+    throw new GradeScaleError("The lowest grade must start at 0% so every percentage has a grade");
+  }
+  if (bands.some((band, index) => !band.passing && bands.slice(index + 1).some((lower) => lower.passing))) {
+    throw new GradeScaleError("A failing grade cannot sit above a passing one");
+  }
+}
+
+// A program takes its grading scale from at most one scale
+export async function checkScalePrograms(storage: IStorage, programs: string[], id?: number) {
+  for (const scale of await storage.getAllGradeScales()) {
+    if (scale.id === id) continue;
+
+    const taken = programs.find((program) =>
+      scale.programs.some((other) => other.toLowerCase() === program.toLowerCase())
+    );
+    if (taken) {
+      throw new GradeScaleError(`${taken} is already graded on ${scale.name}`);
+    }
+  }
+}
+
+// Clears the default flag on every scale but the given one, so only one scale is the default
+export async function clearOtherDefaultScales(storage: IStorage, id: number) {
+  for (const scale of await storage.getAllGradeScales()) {
+    if (scale.isDefault && scale.id !== id) {
+      await storage.updateGradeScale(scale.id, { isDefault: false });
+    }
+  }
+}
+
+// The scale a student is graded on in a course: the course's own, else their program's, else the default
+export async function scaleFor(storage: IStorage, course: Course, student: Student): Promise<GradeScale | undefined> {
+  const courseScale = course.gradeScaleId ? await storage.getGradeScale(course.gradeScaleId) : undefined;
+  if (courseScale) return courseScale;
+
+  const scales = await storage.getAllGradeScales();
+  const programScale = scales.find((scale) =>
+    scale.programs.some((program) => program.toLowerCase() === student.program.toLowerCase())
+  );
+  return programScale ?? scales.find((scale) => scale.isDefault);
+}
+
+// The band a percentage falls in. Percentages are compared as shown, to two decimals, so 89.999
+// is not an A- on screen and a B+ on the transcript. A value that is not a number gets no grade.
+export function gradeFor(scale: GradeScale, percentage: number): GradeBand | undefined {
+  if (!Number.isFinite(percentage)) return undefined;
+
+  const rounded = Math.round(percentage * 100) / 100;
+  const bands = sortBands(scale.bands);
+  return bands.find((band) => rounded >= band.minPercentage) ?? bands[bands.length - 1];
+}
+
+// The final grade of one course. Enrollments still in progress get a grade from the items graded so far.
+export interface CourseResult {
+  enrollmentId: number;
+  status: string;
+  course: { id: number; code: string; title: string; credits: number };
+  scale: { id: number; name: string } | null;
+  percentage: number | null;
+  grade: string | null;
+  gradePoints: number | null;
+  passing: boolean | null;
+}
+
+export interface GpaSummary {
+  // Null until a course with grade points has been graded
+  gpa: number | null;
+  // Credits of the courses the GPA is averaged over
+  gpaCredits: number;
+  // Credits of completed courses, and of those passed
+  creditsAttempted: number;
+  creditsEarned: number;
+  // True while in-progress courses count towards the GPA
+  provisional: boolean;
+}
+
+export interface TermRecord extends GpaSummary {
+  term: Pick<Term, "id" | "name" | "startDate"> | null;
+  courses: CourseResult[];
+}
+
+export interface AcademicRecord {
+  terms: TermRecord[];
+  cumulative: GpaSummary;
+}
+
+async function courseResult(
+  storage: IStorage,
+  student: Student,
+  enrollment: Enrollment,
+  course: Course
+): Promise<CourseResult> {
+  const scale = await scaleFor(storage, course, student);
+  const percentage = finalPercentage(await storage.getGradesByEnrollment(enrollment.id));
+  const band = scale && percentage !== undefined ? gradeFor(scale, percentage) : undefined;
+
+  return {
+    enrollmentId: enrollment.id,
+    status: enrollment.status,
+    course: { id: course.id, code: course.code, title: course.title, credits: course.credits },
+    scale: scale ? { id: scale.id, name: scale.name } : null,
+    percentage: percentage === undefined ? null : Math.round(percentage * 100) / 100,
+    grade: band?.grade ?? null,
+    gradePoints: band?.gradePoints ?? null,
+    passing: band?.passing ?? null
+  };
+}
+
+// Credit-weighted average of the grade points earned; courses without grade points (pass/fail,
+// or nothing graded yet) are left out
+export function summarize(results: CourseResult[]): GpaSummary {
+  const counted = results.filter((result) => result.gradePoints !== null);
+  const gpaCredits = counted.reduce((sum, result) => sum + result.course.credits, 0);
+  const points = counted.reduce((sum, result) => sum + result.gradePoints! * result.course.credits, 0);
+  const completed = results.filter((result) => result.status === "completed");
+
+  return {
+    gpa: gpaCredits > 0 ? Math.round((points / gpaCredits) * 100) / 100 : null,
+    gpaCredits,
+    creditsAttempted: completed.reduce((sum, result) => sum + result.course.credits, 0),
+    creditsEarned: completed
+      .filter((result) => result.passing)
+      .reduce((sum, result) => sum + result.course.credits, 0),
+    provisional: counted.some((result) => result.status === "enrolled")
+  };
+}
+
+// Final grades of every course the student has taken or is taking, grouped by term in calendar
+// order, with term and cumulative GPAs. Waitlisted and dropped enrollments are left out.
+export async function academicRecord(storage: IStorage, student: Student): Promise<AcademicRecord> {
+  const byTerm = new Map<number, CourseResult[]>();
+
+  for (const enrollment of await storage.getEnrollmentsByStudent(student.id)) {
+    if (enrollment.status !== "enrolled" && enrollment.status !== "completed") continue;
+
+    const section = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+    const course = section ? await storage.getCourse(section.courseId) : undefined;
+    if (!section || !course) continue;
+
+    byTerm.set(section.termId, [...(byTerm.get(section.termId) ?? []), await courseResult(storage, student, enrollment, course)]);
+  }
+
+  const terms = await Promise.all(Array.from(byTerm.entries()).map(async ([termId, courses]) => {
+    const term = await storage.getTerm(termId);
+    return {
+      term: term ? { id: term.id, name: term.name, startDate: term.startDate } : null,
+      courses: courses.sort((a, b) => a.course.code.localeCompare(b.course.code)),
+      ...summarize(courses)
+    };
+  }));
+  terms.sort((a, b) => new Date(a.term?.startDate ?? 0).getTime() - new Date(b.term?.startDate ?? 0).getTime());
+
+  return { terms, cumulative: summarize(terms.flatMap((term) => term.courses)) };
+}
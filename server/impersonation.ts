@@ -0,0 +1,122 @@
+import type { Request } from "express";
+import type { SessionData } from "express-session";
+import type { AuditEntry, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// How long an admin may view the app as another user before being switched back
+export const IMPERSONATION_TTL_MS = parseInt(process.env.IMPERSONATION_TTL_MS || String(30 * 60 * 1000));
+
+// Audit log entity type of impersonation events; the entity id is the impersonated user's
+const AUDIT_ENTITY_TYPE = "impersonation";
+
+type SessionUser = SessionData["user"];
+
+interface Identity {
+  id: number;
+  username: string;
+}
+
+export interface ImpersonationEvent {
+  type: "started" | "ended" | "expired" | "action";
+  // The admin really making the requests
+  impersonator: Identity;
+  // The account being viewed as
+  user: Identity;
+  at: Date;
+  // Set on "action" events
+  method?: string;
+  path?: string;
+  status?: number;
+}
+
+// Keeps the admin's own sign-in on the session and switches it to the target user
+export function startImpersonation(req: Request, admin: SessionUser, target: User, now = Date.now()): void {
+  req.session.impersonator = {
+    user: admin,
+    startedAt: now,
+    expiresAt: now + IMPERSONATION_TTL_MS,
+  };
+  req.session.user = {
+    id: target.id,
+    username: target.username,
+    role: target.role,
+    name: target.name,
+  };
+}
+
+// Switches the session back to the admin; returns the admin's session user, or null when not impersonating
+export function endImpersonation(req: Request): SessionUser | null {
+  const impersonator = req.session.impersonator;
+  if (!impersonator) return null;
+
+  req.session.user = impersonator.user;
+  delete req.session.impersonator;
+  return impersonator.user;
+}
+
+export function impersonationExpired(req: Request, now = Date.now()): boolean {
+  const impersonator = req.session.impersonator;
+  return !!impersonator && impersonator.expiresAt <= now;
+}
+
+// Trail of impersonation sessions and of every change made during them, kept in the audit log
+export class ImpersonationLog {
+  constructor(private storage: IStorage) {}
+
+  async record(event: ImpersonationEvent, ip: string | null = null): Promise<void> {
+    const detail = (value: string | number | undefined) => ({ from: null, to: value ?? null });
+    await this.storage.createAuditEntry({
+      entityType: AUDIT_ENTITY_TYPE,
+      entityId: String(event.user.id),
+      action: event.type,
+      actorId: event.user.id,
+      actorName: event.user.username,
+      impersonatorId: event.impersonator.id,
+      impersonatorName: event.impersonator.username,
+      ip,
+      changes: event.type === "action"
+        ? { method: detail(event.method), path: detail(event.path), status: detail(event.status) }
+        : {},
+    });
+  }
+
+  // Records an event for the impersonation running on this request's session. A failed write is
+  // logged rather than raised, so it never changes the outcome of the request.
+  async recordFor(req: Request, type: ImpersonationEvent["type"], details: Partial<ImpersonationEvent> = {}): Promise<void> {
+    const impersonator = req.session.impersonator?.user;
+    const user = req.session.user;
+    if (!impersonator || !user) return;
+
+    const event: ImpersonationEvent = {
+      type,
+      impersonator: { id: impersonator.id, username: impersonator.username },
+      user: { id: user.id, username: user.username },
+      at: new Date(),
+      ...details,
+    };
+    try {
+      await this.record(event, req.ip || req.socket.remoteAddress || null);
+    } catch (error) {
+      console.error(`Failed to record impersonation ${type} of ${user.username} by ${impersonator.username}:`, error);
+    }
+  }
+
+  // Most recent first
+  async list(limit: number, offset: number): Promise<ImpersonationEvent[]> {
+    const entries = await this.storage.getAuditEntries({ entityType: AUDIT_ENTITY_TYPE, limit, offset });
+    return entries.map(toEvent);
+  }
+}
+
+function toEvent(entry: AuditEntry): ImpersonationEvent {
+  const detail = (field: string) => entry.changes[field]?.to ?? undefined;
+  return {
+    type: entry.action as ImpersonationEvent["type"],
+    impersonator: { id: entry.impersonatorId ?? 0, username: entry.impersonatorName ?? "" },
+    user: { id: Number(entry.entityId), username: entry.actorName },
+    at: entry.createdAt,
+    method: detail("method") as string | undefined,
+    path: detail("path") as string | undefined,
+    status: detail("status") as number | undefined,
+  };
+}
@@ -0,0 +1,243 @@
+import type { IStorage } from "./storage";
+
+export type EntityType =
+  | "user"
+  | "student"
+  | "faculty"
+  | "course"
+  | "gradeScale"
+  | "courseRequisite"
+  | "requisiteWaiver"
+  | "term"
+  | "courseAssignment"
+  | "room"
+  | "sectionMeeting"
+  | "enrollment"
+  | "attendance"
+  | "grade"
+  | "event"
+  | "passwordResetToken"
+  | "apiToken";
+
+// What happens to the parent row when it is deleted while children still point at it:
+// - restrict: refuse the delete and report the children
+// - cascade:  delete the children as well (recursively applying their own rules)
+// - archive:  keep the parent, flip it to its archived status instead of deleting it
+export type DeletePolicy = "restrict" | "cascade" | "archive";
+
+interface Relation {
+  parent: EntityType;
+  child: EntityType;
+  policy: DeletePolicy;
+  findChildren: (storage: IStorage, parentId: number) => Promise<{ id: number }[]>;
+}
+
+const optional = <T>(row: T | undefined) => (row ? [row] : []);
+
+// The single source of truth for foreign keys between entities, used by every IStorage implementation
+export const RELATIONS: Relation[] = [
+  {
+    parent: "gradeScale",
+    child: "course",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getCoursesByGradeScale(id),
+  },
+  {
+    parent: "user",
+    child: "student",
+    policy: "cascade",
+    findChildren: async (storage, id) => optional(await storage.getStudentByUserId(id)),
+  },
+  {
+    parent: "user",
+    child: "faculty",
+    policy: "cascade",
+    findChildren: async (storage, id) => optional(await storage.getFacultyByUserId(id)),
+  },
+  {
+    parent: "user",
+    child: "passwordResetToken",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getPasswordResetTokensByUser(id),
+  },
+  {
+    parent: "user",
+    child: "apiToken",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getApiTokensByUser(id),
+  },
+  {
+    parent: "student",
+    child: "requisiteWaiver",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getRequisiteWaiversByStudent(id),
+  },
+  {
+    parent: "student",
+    child: "enrollment",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getEnrollmentsByStudent(id),
+  },
+  {
+    parent: "faculty",
+    child: "courseAssignment",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getCourseAssignmentsByFaculty(id),
+  },
+  {
+    parent: "course",
+    child: "courseAssignment",
+    policy: "archive",
+    findChildren: (storage, id) => storage.getCourseAssignmentsByCourse(id),
+  },
+  {
+    parent: "course",
+    child: "courseRequisite",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getCourseRequisites(id),
+  },
+  {
+    parent: "course",
+    child: "courseRequisite",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getCourseRequisitesRequiring(id),
+  },
+  {
+    parent: "course",
+    child: "requisiteWaiver",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getRequisiteWaiversByCourse(id),
+  },
+  {
+    parent: "term",
+    child: "courseAssignment",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getCourseAssignmentsByTerm(id),
+  },
+  {
+    parent: "courseAssignment",
+    child: "enrollment",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getEnrollmentsByCourseAssignment(id),
+  },
+  {
+    parent: "courseAssignment",
+    child: "sectionMeeting",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getSectionMeetings(id),
+  },
+  {
+    parent: "room",
+    child: "sectionMeeting",
+    policy: "restrict",
+    findChildren: (storage, id) => storage.getSectionMeetingsByRoom(id),
+  },
+  {
+    parent: "enrollment",
+    child: "attendance",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getAttendanceByEnrollment(id),
+  },
+  {
+    parent: "enrollment",
+    child: "grade",
+    policy: "cascade",
+    findChildren: (storage, id) => storage.getGradesByEnrollment(id),
+  },
+];
+
+// Status written by the "archive" policy
+export const ARCHIVED_STATUS: Partial<Record<EntityType, string>> = {
+  course: "archived",
+};
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  user: "user",
+  student: "student",
+  faculty: "faculty member",
+  course: "course",
+  gradeScale: "grading scale",
+  courseRequisite: "course requisite",
+  requisiteWaiver: "requisite waiver",
+  term: "term",
+  courseAssignment: "course assignment",
+  room: "room",
+  sectionMeeting: "section meeting",
+  enrollment: "enrollment",
+  attendance: "attendance record",
+  grade: "grade",
+  event: "event",
+  passwordResetToken: "password reset token",
+  apiToken: "API token",
+};
+
+export interface EntityRef {
+  type: EntityType;
+  id: number;
+}
+
+export interface DeletePlan {
+  root: EntityRef;
+  // Archive the root instead of deleting anything
+  archive: boolean;
+  // Rows to delete, children before their parents, ending with the root
+  deletions: EntityRef[];
+}
+
+export class IntegrityError extends Error {
+  status = 409;
+
+  constructor(public entity: EntityRef, public dependents: EntityRef[]) {
+    super(
+      `Cannot delete ${ENTITY_LABELS[entity.type]}: ${dependents.length} dependent ` +
+      `record${dependents.length === 1 ? "" : "s"} must be removed first`
+    );
+  }
+}
+
+// Works out everything a delete touches, throwing IntegrityError if a restrict rule blocks it.
+// Archive rules only apply to the row being deleted; reached through a cascade they act as restrict,
+// since archiving a child would leave it pointing at a deleted parent. Pass archive: false when the
+// row has to go for good (e.g. purging it from the trash), so they act as restrict for it as well.
+export async function planDelete(
+  storage: IStorage,
+  type: EntityType,
+  id: number,
+  options: { archive?: boolean } = {}
+): Promise<DeletePlan> {
+  const root = { type, id };
+  const blockers: EntityRef[] = [];
+  const deletions: EntityRef[] = [];
+
+  if (options.archive !== false) {
+    for (const relation of RELATIONS.filter((r) => r.parent === type && r.policy === "archive")) {
+      if ((await relation.findChildren(storage, id)).length > 0) {
+        return { root, archive: true, deletions: [] };
+      }
+    }
+  }
+
+  const visit = async (entity: EntityRef) => {
+    for (const relation of RELATIONS.filter((r) => r.parent === entity.type)) {
+      const children = await relation.findChildren(storage, entity.id);
+
+      for (const child of children) {
+        const ref = { type: relation.child, id: child.id };
+        if (relation.policy === "cascade") {
+          await visit(ref);
+        } else {
+          blockers.push(ref);
+        }
+      }
+    }
+    deletions.push(entity);
+  };
+
+  await visit(root);
+
+  if (blockers.length > 0) {
+    throw new IntegrityError(root, blockers);
+  }
+
+  return { root, archive: false, deletions };
+}
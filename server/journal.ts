@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+
+export interface JournalEntry {
+  seq: number;
+  op: string;
+  args: unknown[];
+}
+
+export interface Snapshot<T> {
+  seq: number;
+  takenAt: string;
+  data: T;
+}
+
+// JSON.stringify turns dates into plain strings, so tag them to get real Date objects back on load
+function replacer(this: any, key: string, value: unknown) {
+  const raw = this[key];
+  if (raw instanceof Date) {
+    return { $date: raw.toISOString() };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: any) {
+  if (value && typeof value === "object" && typeof value.$date === "string" && Object.keys(value).length === 1) {
+    return new Date(value.$date);
+  }
+  return value;
+}
+
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+export function deserialize<T>(text: string): T {
+  return JSON.parse(text, reviver);
+}
+
+// Raised when the journal cannot be read back or replayed as written. The files are left as they
+// are, so nothing is lost before someone has looked at them.
+export class JournalError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "JournalError";
+  }
+}
+
+function parseEntry(line: string): JournalEntry | null {
+  try {
+    const entry = deserialize<JournalEntry>(line);
+    return typeof entry?.seq === "number" && typeof entry.op === "string" && Array.isArray(entry.args) ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+// Append-only mutation log plus the latest full snapshot, both kept in one directory
+export class Journal<T> {
+  private journalPath: string;
+  private snapshotPath: string;
+  private fd: number | null = null;
+  private lastSeq = 0;
+
+  constructor(directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.journalPath = path.join(directory, "journal.log");
+    this.snapshotPath = path.join(directory, "snapshot.json");
+  }
+
+  readSnapshot(): Snapshot<T> | null {
+    if (!fs.existsSync(this.snapshotPath)) return null;
+
+    const snapshot = deserialize<Snapshot<T>>(fs.readFileSync(this.snapshotPath, "utf8"));
+    this.lastSeq = Math.max(this.lastSeq, snapshot.seq);
+    return snapshot;
+  }
+
+  // Reads every complete entry. Only the last line can be torn (the process died mid-write): it is
+  // cut off so new entries append cleanly. An unreadable line with entries after it means the file
+  // was damaged some other way, and reading stops with a JournalError instead of dropping them.
+  readEntries(afterSeq: number): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const contents = fs.readFileSync(this.journalPath, "utf8");
+    const entries: JournalEntry[] = [];
+    let offset = 0;
+
+    while (offset < contents.length) {
+      const newline = contents.indexOf("\n", offset);
+      const end = newline === -1 ? contents.length : newline;
+      const entry = newline === -1 ? null : parseEntry(contents.slice(offset, end));
+
+      if (!entry) {
+        if (end + 1 < contents.length) {
+          const line = contents.slice(0, offset).split("\n").length;
+          throw new JournalError(`Journal line ${line} in ${this.journalPath} is corrupt and has entries after it`);
+        }
+        const validBytes = Buffer.byteLength(contents.slice(0, offset), "utf8");
+        console.warn(`Discarding a torn last entry after byte ${validBytes} in ${this.journalPath}`);
+        fs.truncateSync(this.journalPath, validBytes);
+        break;
+      }
+
+      offset = end + 1;
+      this.lastSeq = Math.max(this.lastSeq, entry.seq);
+      if (entry.seq > afterSeq) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  append(op: string, args: unknown[]): void {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.journalPath, "a");
+    }
+
+    const entry: JournalEntry = { seq: ++this.lastSeq, op, args };
+    fs.writeSync(this.fd, serialize(entry) + "\n");
+    fs.fsyncSync(this.fd);
+  }
+
+  get hasEntriesSinceSnapshot(): boolean {
+    return this.fd !== null || (fs.existsSync(this.journalPath) && fs.statSync(this.journalPath).size > 0);
+  }
+
+  // Writes the snapshot atomically, then empties the journal it supersedes. If we crash in
+  // between, the snapshot's seq tells readEntries which journal lines are already included.
+  writeSnapshot(data: T): void {
+    const snapshot: Snapshot<T> = { seq: this.lastSeq, takenAt: new Date().toISOString(), data };
+    const tempPath = `${this.snapshotPath}.tmp`;
+
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      fs.writeSync(fd, serialize(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.snapshotPath);
+
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+    fs.writeFileSync(this.journalPath, "");
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
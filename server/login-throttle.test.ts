@@ -0,0 +1,78 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { LoginThrottle } from "./login-throttle";
+
+const config = { maxFailures: 3, maxIpFailures: 5, lockoutMs: 60_000, backoffBaseMs: 1000, backoffMaxMs: 4000 };
+const NOW = 1_000_000;
+
+describe("LoginThrottle", () => {
+  test("lets first attempts through", () => {
+    assert.equal(new LoginThrottle(config).check("emma", "10.0.0.1", NOW), null);
+  });
+
+  test("backs off after each failure, doubling up to the maximum", () => {
+    const throttle = new LoginThrottle({ ...config, maxFailures: 10 });
+    const delays = [];
+    let now = NOW;
+    for (let failure = 1; failure <= 4; failure++) {
+      throttle.recordFailure("emma", "10.0.0.1", now);
+      delays.push(throttle.check("emma", "10.0.0.1", now)?.retryAfterMs);
+      now += 5000;
+    }
+    assert.deepEqual(delays, [1000, 2000, 4000, 4000]);
+    assert.equal(throttle.check("emma", "10.0.0.1", now), null);
+  });
+
+  test("locks the account after too many failures, whatever the letter case", () => {
+    const throttle = new LoginThrottle(config);
+    assert.equal(throttle.recordFailure("Emma", "10.0.0.1", NOW), null);
+    assert.equal(throttle.recordFailure("emma", "10.0.0.2", NOW), null);
+    const lockout = throttle.recordFailure("EMMA", "10.0.0.3", NOW);
+
+    assert.equal(lockout?.reason, "account_locked");
+    assert.equal(lockout?.retryAfterMs, config.lockoutMs);
+    assert.equal(throttle.check("emma", "10.0.0.9", NOW + 30_000)?.reason, "account_locked");
+    assert.deepEqual(throttle.lockedUntil("emma", NOW), new Date(NOW + config.lockoutMs));
+  });
+
+  test("lifts the lock once it expires", () => {
+    const throttle = new LoginThrottle(config);
+    for (let i = 0; i < config.maxFailures; i++) throttle.recordFailure("emma", "10.0.0.1", NOW);
+
+    assert.equal(throttle.check("emma", "10.0.0.2", NOW + config.lockoutMs), null);
+    assert.equal(throttle.lockedUntil("emma", NOW + config.lockoutMs), null);
+  });
+
+  test("locks an address guessing across usernames", () => {
+    const throttle = new LoginThrottle(config);
+    for (let i = 0; i < config.maxIpFailures - 1; i++) {
+      assert.equal(throttle.recordFailure(`user${i}`, "10.0.0.1", NOW), null);
+    }
+    assert.equal(throttle.recordFailure("user9", "10.0.0.1", NOW)?.reason, "ip_locked");
+    assert.equal(throttle.check("someone", "10.0.0.1", NOW)?.reason, "ip_locked");
+    assert.equal(throttle.check("someone", "10.0.0.2", NOW), null);
+  });
+
+  test("clears the username's failures on success but keeps the address count", () => {
+    const throttle = new LoginThrottle(config);
+    for (const username of ["emma", "emma", "james", "james"]) throttle.recordFailure(username, "10.0.0.1", NOW);
+    throttle.recordSuccess("emma");
+
+    assert.equal(throttle.check("emma", "10.0.0.1", NOW), null);
+    assert.equal(throttle.recordFailure("sophia", "10.0.0.1", NOW)?.reason, "ip_locked");
+  });
+
+  test("records locks and manual unlocks, most recent first", () => {
+    const throttle = new LoginThrottle(config);
+    for (let i = 0; i < config.maxFailures; i++) throttle.recordFailure("emma", "10.0.0.1", NOW);
+
+    assert.deepEqual(throttle.activeLockouts(NOW).map((lock) => [lock.scope, lock.key]), [["username", "emma"]]);
+    assert.equal(throttle.unlock("Emma", "admin", NOW + 1000), true);
+    assert.equal(throttle.unlock("emma", "admin", NOW + 1000), false);
+    assert.equal(throttle.check("emma", "10.0.0.1", NOW + 1000), null);
+    assert.deepEqual(
+      throttle.lockoutEvents().map((event) => [event.type, event.key, event.by]),
+      [["unlocked", "emma", "admin"], ["locked", "emma", undefined]]
+    );
+  });
+});
@@ -0,0 +1,172 @@
+// Brute-force protection for sign-in, configurable through the environment
+export const loginThrottleConfig = {
+  // Failed attempts for one username before the account is locked
+  maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES || "5"),
+  // Failed attempts from one IP address (across usernames) before the address is locked
+  maxIpFailures: parseInt(process.env.LOGIN_MAX_IP_FAILURES || "20"),
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MS || String(15 * 60 * 1000)),
+  // Delay imposed after each failure for a username, doubling every time up to the maximum
+  backoffBaseMs: parseInt(process.env.LOGIN_BACKOFF_BASE_MS || "1000"),
+  backoffMaxMs: parseInt(process.env.LOGIN_BACKOFF_MAX_MS || "60000"),
+};
+
+type Scope = "username" | "ip";
+
+interface AttemptState {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+export interface LockoutEvent {
+  type: "locked" | "unlocked";
+  scope: Scope;
+  key: string;
+  at: Date;
+  until?: Date;
+  // Who lifted the lock, when it was lifted by hand
+  by?: string;
+}
+
+export interface LoginRefusal {
+  reason: "account_locked" | "ip_locked" | "backoff";
+  retryAfterMs: number;
+  lockedUntil?: Date;
+}
+
+// Number of lockout events kept for the admin API
+const EVENT_HISTORY = 500;
+
+// Tracks failed sign-ins per username and per IP address in memory
+export class LoginThrottle {
+  private states: Record<Scope, Map<string, AttemptState>> = {
+    username: new Map(),
+    ip: new Map(),
+  };
+  private events: LockoutEvent[] = [];
+
+  constructor(private config = loginThrottleConfig) {}
+
+  // Returns why an attempt has to be refused right now, or null to let it through
+  check(username: string, ip: string, now = Date.now()): LoginRefusal | null {
+    const account = this.current("username", username, now);
+    if (account?.lockedUntil) {
+      return { reason: "account_locked", retryAfterMs: account.lockedUntil - now, lockedUntil: new Date(account.lockedUntil) };
+    }
+
+    const address = this.current("ip", ip, now);
+    if (address?.lockedUntil) {
+      return { reason: "ip_locked", retryAfterMs: address.lockedUntil - now, lockedUntil: new Date(address.lockedUntil) };
+    }
+
+    if (account && account.failures > 0) {
+      const delay = Math.min(
+        this.config.backoffBaseMs * 2 ** (account.failures - 1),
+        this.config.backoffMaxMs
+      );
+      const retryAfterMs = account.lastFailureAt + delay - now;
+      if (retryAfterMs > 0) {
+        return { reason: "backoff", retryAfterMs };
+      }
+    }
+
+    return null;
+  }
+
+  // Counts a failed attempt; returns the refusal to report if it tipped the account or address into a lockout
+  recordFailure(username: string, ip: string, now = Date.now()): LoginRefusal | null {
+    const account = this.fail("username", username, this.config.maxFailures, now);
+    const address = this.fail("ip", ip, this.config.maxIpFailures, now);
+
+    if (account.lockedUntil) {
+      return { reason: "account_locked", retryAfterMs: account.lockedUntil - now, lockedUntil: new Date(account.lockedUntil) };
+    }
+    if (address.lockedUntil) {
+      return { reason: "ip_locked", retryAfterMs: address.lockedUntil - now, lockedUntil: new Date(address.lockedUntil) };
+    }
+    return null;
+  }
+
+  // A successful sign-in clears the username's failures. The address keeps its count so that
+  // one valid account cannot be used to reset guessing against others.
+  recordSuccess(username: string): void {
+    this.states.username.delete(username.toLowerCase());
+  }
+
+  // Lifts a lock by hand; returns false if the username was not locked
+  unlock(username: string, by: string, now = Date.now()): boolean {
+    const key = username.toLowerCase();
+    const state = this.current("username", key, now);
+    this.states.username.delete(key);
+
+    if (!state?.lockedUntil) return false;
+    this.record({ type: "unlocked", scope: "username", key, at: new Date(now), by });
+    return true;
+  }
+
+  lockedUntil(username: string, now = Date.now()): Date | null {
+    const state = this.current("username", username, now);
+    return state?.lockedUntil ? new Date(state.lockedUntil) : null;
+  }
+
+  activeLockouts(now = Date.now()): { scope: Scope; key: string; failures: number; lockedUntil: Date }[] {
+    const active = [];
+    for (const scope of ["username", "ip"] as Scope[]) {
+      for (const key of Array.from(this.states[scope].keys())) {
+        const state = this.current(scope, key, now);
+        if (state?.lockedUntil) {
+          active.push({ scope, key, failures: state.failures, lockedUntil: new Date(state.lockedUntil) });
+        }
+      }
+    }
+    return active;
+  }
+
+  // Most recent first
+  lockoutEvents(): LockoutEvent[] {
+    return this.events.slice().reverse();
+  }
+
+  // Returns the live state for a key, dropping it once its lock has expired or its failures are stale
+  private current(scope: Scope, rawKey: string, now: number): AttemptState | undefined {
+    const key = rawKey.toLowerCase();
+    const state = this.states[scope].get(key);
+    if (!state) return undefined;
+
+    const expired = state.lockedUntil
+      ? state.lockedUntil <= now
+      : now - state.lastFailureAt > this.config.lockoutMs;
+    if (expired) {
+      this.states[scope].delete(key);
+      return undefined;
+    }
+    return state;
+  }
+
+  private fail(scope: Scope, rawKey: string, maxFailures: number, now: number): AttemptState {
+    const key = rawKey.toLowerCase();
+    const state = this.current(scope, key, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: null };
+
+    state.failures++;
+    state.lastFailureAt = now;
+    if (!state.lockedUntil && state.failures >= maxFailures) {
+      state.lockedUntil = now + this.config.lockoutMs;
+      this.record({ type: "locked", scope, key, at: new Date(now), until: new Date(state.lockedUntil) });
+    }
+
+    this.states[scope].set(key, state);
+    return state;
+  }
+
+  private record(event: LockoutEvent): void {
+    console.warn(
+      `Login ${event.type}: ${event.scope} "${event.key}"` +
+      (event.until ? ` until ${event.until.toISOString()}` : "") +
+      (event.by ? ` by ${event.by}` : "")
+    );
+    this.events.push(event);
+    if (this.events.length > EVENT_HISTORY) {
+      this.events.shift();
+    }
+  }
+}
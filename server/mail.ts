@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+// Outgoing mail, configurable through the environment
+export const mailConfig = {
+  // "outbox" writes messages to a local directory instead of sending them; "smtp" delivers through SMTP_URL
+  transport: process.env.MAIL_TRANSPORT || "outbox",
+  from: process.env.MAIL_FROM || "College Management <no-reply@college.local>",
+  outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(process.env.STORAGE_DIR || "data", "outbox"),
+  smtpUrl: process.env.SMTP_URL,
+  // Serves the outbox, reset links included, to anyone at /api/dev/mail; only for local development
+  outboxViewer: process.env.MAIL_OUTBOX_VIEWER === "true",
+};
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SentMail extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: Date;
+}
+
+export interface MailTransport {
+  send(mail: SentMail): Promise<void>;
+}
+
+// Keeps every message as a JSON file, newest last by name, for the development mail viewer
+export class OutboxTransport implements MailTransport {
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async send(mail: SentMail): Promise<void> {
+    const name = `${mail.sentAt.toISOString().replace(/[:.]/g, "-")}-${mail.id}.json`;
+    await fs.promises.writeFile(path.join(this.directory, name), JSON.stringify(mail, null, 2));
+  }
+
+  // Most recent first
+  async list(limit = 50): Promise<SentMail[]> {
+    const names = (await fs.promises.readdir(this.directory))
+      .filter((name) => name.endsWith(".json"))
+      .sort()
+      .reverse()
+      .slice(0, limit);
+
+    return Promise.all(names.map((name) => this.read(name)));
+  }
+
+  async get(id: string): Promise<SentMail | undefined> {
+    const name = (await fs.promises.readdir(this.directory)).find((entry) => entry.endsWith(`-${id}.json`));
+    return name ? this.read(name) : undefined;
+  }
+
+  private async read(name: string): Promise<SentMail> {
+    const mail = JSON.parse(await fs.promises.readFile(path.join(this.directory, name), "utf8"));
+    return { ...mail, sentAt: new Date(mail.sentAt) };
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(mail: SentMail): Promise<void> {
+    await this.transporter.sendMail({
+      from: mail.from,
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+    });
+  }
+}
+
+export class Mailer {
+  constructor(private transport: MailTransport, private from: string) {}
+
+  async send(message: MailMessage): Promise<SentMail> {
+    const mail: SentMail = { ...message, id: crypto.randomUUID(), from: this.from, sentAt: new Date() };
+    await this.transport.send(mail);
+    return mail;
+  }
+
+  // The local outbox, when messages are kept there rather than delivered
+  get outbox(): OutboxTransport | null {
+    return this.transport instanceof OutboxTransport ? this.transport : null;
+  }
+}
+
+export function createMailer(config = mailConfig): Mailer {
+  switch (config.transport) {
+    case "outbox":
+      if (process.env.NODE_ENV === "production") {
+        console.warn(`MAIL_TRANSPORT is "outbox": mail is written to ${config.outboxDir} and not delivered`);
+      }
+      return new Mailer(new OutboxTransport(config.outboxDir), config.from);
+    case "smtp":
+      if (!config.smtpUrl) {
+        throw new Error("SMTP_URL must be set when MAIL_TRANSPORT is \"smtp\"");
+      }
+      return new Mailer(new SmtpTransport(config.smtpUrl), config.from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${config.transport}"`);
+  }
+}
@@ -0,0 +1,196 @@
+// A minimal OpenID Connect provider for trying single sign-on locally. Start it with
+// `npm run oidc:mock`, then run the app with:
+//
+//   OIDC_ISSUER=http://localhost:5010 OIDC_CLIENT_ID=college-app OIDC_CLIENT_SECRET=mock-secret
+//
+// Its sign-in page lets you pick a demo account or type any email, name and groups.
+// Keys and codes only live in memory; never expose this server outside development.
+import crypto from "crypto";
+import express from "express";
+
+const port = parseInt(process.env.OIDC_MOCK_PORT || "5010");
+const issuer = process.env.OIDC_MOCK_ISSUER || `http://localhost:${port}`;
+const clientId = process.env.OIDC_MOCK_CLIENT_ID || "college-app";
+const clientSecret = process.env.OIDC_MOCK_CLIENT_SECRET || "mock-secret";
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+// Matches the demo data, so the accounts exist without provisioning
+const PRESETS = [
+  { email: "admin@college.edu", name: "John Admin", groups: "admin" },
+  { email: "smith@college.edu", name: "Professor Smith", groups: "faculty" },
+  { email: "emma.wilson@example.com", name: "Emma Wilson", groups: "student" },
+  { email: "new.student@example.com", name: "New Student", groups: "student" },
+];
+
+interface Claims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  preferred_username: string;
+  groups: string[];
+}
+
+interface PendingCode {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: Claims;
+  expiresAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString("hex");
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Claims>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function signIdToken(claims: Claims, nonce: string | undefined): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify({
+    ...claims,
+    iss: issuer,
+    aud: clientId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    ...(nonce ? { nonce } : {}),
+  })).toString("base64url");
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+// Client credentials from HTTP basic auth or the form body
+function clientCredentials(req: express.Request): { id?: string; secret?: string } {
+  const basic = req.headers.authorization?.match(/^Basic\s+(.+)$/i);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], "base64").toString().split(":").map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: req.body.client_id, secret: req.body.client_secret };
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+});
+
+// Sign-in page; the authorization request is carried through as hidden fields
+app.get("/authorize", (req, res) => {
+  const params = req.query as Record<string, string>;
+  if (params.client_id !== clientId || params.response_type !== "code" || !params.redirect_uri) {
+    return res.status(400).send("Invalid authorization request");
+  }
+
+  const hidden = ["redirect_uri", "state", "nonce", "code_challenge"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] ?? "")}">`)
+    .join("");
+  const presets = PRESETS.map((preset) => `
+    <form method="post" action="/authorize">${hidden}
+      <input type="hidden" name="email" value="${preset.email}">
+      <input type="hidden" name="name" value="${preset.name}">
+      <input type="hidden" name="groups" value="${preset.groups}">
+      <button>${preset.name} &lt;${preset.email}&gt; [${preset.groups}]</button>
+    </form>`).join("");
+
+  res.send(`<!doctype html><title>Mock identity provider</title>
+    <body style="font-family: sans-serif; max-width: 32rem; margin: 2rem auto">
+      <h1>Mock identity provider</h1>
+      <h2>Demo accounts</h2>${presets}
+      <h2>Someone else</h2>
+      <form method="post" action="/authorize">${hidden}
+        <p><label>Email <input name="email" required></label></p>
+        <p><label>Name <input name="name"></label></p>
+        <p><label>Groups (comma separated) <input name="groups"></label></p>
+        <button>Sign in</button>
+      </form>
+      <p><a href="${escapeHtml(params.redirect_uri)}?error=access_denied&state=${encodeURIComponent(params.state ?? "")}">Cancel</a></p>
+    </body>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, email, name, groups } = req.body;
+  const code = crypto.randomBytes(16).toString("base64url");
+
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge || undefined,
+    claims: {
+      sub: crypto.createHash("sha256").update(email.toLowerCase()).digest("hex").slice(0, 16),
+      email,
+      email_verified: true,
+      name: name || email,
+      preferred_username: email.split("@")[0],
+      groups: String(groups || "").split(",").map((group) => group.trim()).filter(Boolean),
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set("code", code);
+  if (state) target.searchParams.set("state", state);
+  res.redirect(target.toString());
+});
+
+app.post("/token", (req, res) => {
+  const client = clientCredentials(req);
+  if (client.id !== clientId || client.secret !== clientSecret) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  if (pending.codeChallenge) {
+    const challenge = crypto.createHash("sha256").update(String(req.body.code_verifier ?? "")).digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+  }
+
+  const accessToken = crypto.randomBytes(24).toString("base64url");
+  accessTokens.set(accessToken, pending.claims);
+  res.json({
+    token_type: "Bearer",
+    access_token: accessToken,
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: signIdToken(pending.claims, pending.nonce),
+  });
+});
+
+app.get("/userinfo", (req, res) => {
+  const token = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const claims = token && accessTokens.get(token);
+  if (!claims) {
+    return res.status(401).json({ error: "invalid_token" });
+  }
+  res.json(claims);
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider at ${issuer} (client ${clientId} / ${clientSecret})`);
+});
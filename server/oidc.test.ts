@@ -0,0 +1,138 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { NO_LOCAL_PASSWORD } from "./passwords";
+import { OidcLoginError, oidcConfig, resolveOidcUser, roleForClaims, type OidcClaims } from "./oidc";
+import { MemStorage } from "./storage";
+
+const config = {
+  ...oidcConfig,
+  groupsClaim: "groups",
+  roleGroups: { admin: ["it-admins"], faculty: ["staff"], student: ["students"] },
+  provisionUsers: false,
+  syncRoles: false,
+};
+
+const claims = (email: string, extra: Partial<OidcClaims> = {}): OidcClaims => ({
+  sub: `sub-${email}`,
+  email,
+  email_verified: true,
+  ...extra,
+});
+
+const withUser = async (email: string, role = "student") => {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: email.split("@")[0], password: "x", email, role, name: "Linked User" });
+  return { storage, user };
+};
+
+const refusedWith = (code: string) => (error: unknown) => error instanceof OidcLoginError && error.code === code;
+
+describe("roleForClaims", () => {
+  test("picks the highest role the groups grant", () => {
+    assert.equal(roleForClaims(claims("a@college.edu", { groups: ["students", "staff"] }), config), "faculty");
+    assert.equal(roleForClaims(claims("a@college.edu", { groups: ["students", "it-admins"] }), config), "admin");
+  });
+
+  test("accepts a single group as a string and ignores unknown groups", () => {
+    assert.equal(roleForClaims(claims("a@college.edu", { groups: "students" }), config), "student");
+    assert.equal(roleForClaims(claims("a@college.edu", { groups: ["visitors"] }), config), null);
+    assert.equal(roleForClaims(claims("a@college.edu"), config), null);
+  });
+});
+
+describe("resolveOidcUser", () => {
+  test("links an existing account by its verified email, whatever the letter case", async () => {
+    const { storage, user } = await withUser("linked.user@college.edu");
+    const signIn = await resolveOidcUser(storage, claims("Linked.User@College.edu"), config);
+
+    assert.equal(signIn.user.id, user.id);
+    assert.equal(signIn.roleChanged, false);
+  });
+
+  test("refuses to link an email the provider has not verified", async () => {
+    const { storage } = await withUser("linked.user@college.edu");
+
+    await assert.rejects(
+      resolveOidcUser(storage, claims("linked.user@college.edu", { email_verified: false }), config),
+      refusedWith("email_unverified")
+    );
+    await assert.rejects(
+      resolveOidcUser(storage, claims("linked.user@college.edu", { email_verified: undefined }), config),
+      refusedWith("email_unverified")
+    );
+  });
+
+  test("refuses sign-ins without an email", async () => {
+    const { storage } = await withUser("linked.user@college.edu");
+    await assert.rejects(resolveOidcUser(storage, claims("  "), config), refusedWith("no_email"));
+  });
+
+  test("refuses an email more than one account uses", async () => {
+    const { storage } = await withUser("shared@college.edu");
+    await storage.createUser({ username: "shared.two", password: "x", email: "SHARED@college.edu", role: "student", name: "Shared" });
+
+    await assert.rejects(resolveOidcUser(storage, claims("shared@college.edu"), config), refusedWith("ambiguous_email"));
+  });
+
+  test("refuses accounts whose profile is deactivated", async () => {
+    const { storage, user } = await withUser("inactive.user@college.edu");
+    await storage.createStudent({ userId: user.id, studentId: "OIDC-1", program: "Testing", yearLevel: 1, status: "inactive" });
+
+    await assert.rejects(resolveOidcUser(storage, claims("inactive.user@college.edu"), config), refusedWith("account_inactive"));
+  });
+
+  test("keeps the role of existing accounts unless role sync is on", async () => {
+    const { storage, user } = await withUser("synced.user@college.edu");
+    const promoted = claims("synced.user@college.edu", { groups: ["staff"] });
+
+    assert.equal((await resolveOidcUser(storage, promoted, config)).user.role, "student");
+
+    const signIn = await resolveOidcUser(storage, promoted, { ...config, syncRoles: true });
+    assert.equal(signIn.user.role, "faculty");
+    assert.equal(signIn.roleChanged, true);
+    assert.equal((await storage.getUser(user.id))?.role, "faculty");
+    assert.equal((await resolveOidcUser(storage, promoted, { ...config, syncRoles: true })).roleChanged, false);
+  });
+
+  test("does not sync a role away when the groups grant none", async () => {
+    const { storage } = await withUser("kept.user@college.edu", "faculty");
+    const signIn = await resolveOidcUser(storage, claims("kept.user@college.edu", { groups: ["visitors"] }), { ...config, syncRoles: true });
+
+    assert.equal(signIn.user.role, "faculty");
+    assert.equal(signIn.roleChanged, false);
+  });
+
+  test("creates unknown users only when provisioning is on and their groups grant a role", async () => {
+    const storage = new MemStorage();
+    const newcomer = claims("new.comer@college.edu", { groups: ["students"], name: "New Comer", preferred_username: "New.Comer" });
+
+    await assert.rejects(resolveOidcUser(storage, newcomer, config), refusedWith("no_account"));
+    await assert.rejects(
+      resolveOidcUser(storage, { ...newcomer, groups: ["visitors"] }, { ...config, provisionUsers: true }),
+      refusedWith("no_role")
+    );
+
+    const { user } = await resolveOidcUser(storage, newcomer, { ...config, provisionUsers: true });
+    assert.equal(user.username, "new.comer");
+    assert.equal(user.role, "student");
+    assert.equal(user.name, "New Comer");
+    assert.equal(user.password, NO_LOCAL_PASSWORD);
+  });
+
+  test("gives provisioned users a username nobody has", async () => {
+    const { storage } = await withUser("taken@other.edu");
+    const { user } = await resolveOidcUser(storage, claims("taken@college.edu", { groups: ["students"] }), { ...config, provisionUsers: true });
+
+    assert.equal(user.username, "taken2");
+  });
+
+  test("does not provision an account again while it is in the trash", async () => {
+    const { storage, user } = await withUser("trashed.user@college.edu");
+    await storage.updateUser(user.id, { deletedAt: new Date() });
+
+    await assert.rejects(
+      resolveOidcUser(storage, claims("trashed.user@college.edu", { groups: ["students"] }), { ...config, provisionUsers: true }),
+      refusedWith("no_account")
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import crypto from "crypto";
+import type { User } from "@shared/schema";
+import { NO_LOCAL_PASSWORD } from "./passwords";
+import { canSignIn } from "./records";
+import type { IStorage } from "./storage";
+
+const list = (value: string | undefined, fallback: string) =>
+  (value ?? fallback).split(",").map((item) => item.trim()).filter(Boolean);
+
+// Single sign-on through an OpenID Connect provider, configurable through the environment.
+// Enabled once OIDC_ISSUER and OIDC_CLIENT_ID are set.
+export const oidcConfig = {
+  issuer: (process.env.OIDC_ISSUER || "").replace(/\/$/, ""),
+  clientId: process.env.OIDC_CLIENT_ID || "",
+  clientSecret: process.env.OIDC_CLIENT_SECRET || "",
+  // Defaults to /api/auth/oidc/callback on APP_URL (or the request's host)
+  redirectUri: process.env.OIDC_REDIRECT_URI,
+  scopes: list(process.env.OIDC_SCOPES, "openid,email,profile,groups"),
+  // Label of the sign-in button
+  providerName: process.env.OIDC_PROVIDER_NAME || "Single Sign-On",
+  // Claim holding the user's groups, and the groups that grant each role (highest role wins)
+  groupsClaim: process.env.OIDC_GROUPS_CLAIM || "groups",
+  roleGroups: {
+    admin: list(process.env.OIDC_ADMIN_GROUPS, "admin"),
+    faculty: list(process.env.OIDC_FACULTY_GROUPS, "faculty"),
+    student: list(process.env.OIDC_STUDENT_GROUPS, "student"),
+  },
+  // Create accounts on first sign-in for people the app does not know yet
+  provisionUsers: process.env.OIDC_PROVISION_USERS === "true",
+  // Change the role of existing accounts to the one their provider groups grant, on every sign-in
+  syncRoles: process.env.OIDC_SYNC_ROLES === "true",
+};
+
+export function oidcEnabled(): boolean {
+  return !!(oidcConfig.issuer && oidcConfig.clientId);
+}
+
+// How long the provider may take to send the user back after the redirect
+export const OIDC_LOGIN_TTL_MS = 10 * 60 * 1000;
+// Allowed clock difference when checking token timestamps
+const CLOCK_SKEW_SECONDS = 60;
+
+// Why a single sign-on attempt was refused; the code is passed to the login page
+export class OidcLoginError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  [claim: string]: unknown;
+}
+
+// State kept on the session between the redirect to the provider and the callback
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new OidcLoginError("provider_error", `Identity provider answered ${response.status} for ${url}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Relying party for the authorization code flow with PKCE
+export class OidcClient {
+  private metadata: ProviderMetadata | null = null;
+  private keys = new Map<string, crypto.KeyObject>();
+
+  constructor(private config: typeof oidcConfig) {}
+
+  private async discover(): Promise<ProviderMetadata> {
+    if (!this.metadata) {
+      const metadata = await fetchJson<ProviderMetadata>(`${this.config.issuer}/.well-known/openid-configuration`);
+      if (metadata.issuer.replace(/\/$/, "") !== this.config.issuer) {
+        throw new OidcLoginError("provider_error", "Identity provider reported a different issuer");
+      }
+      this.metadata = metadata;
+    }
+    return this.metadata;
+  }
+
+  // Signing keys by key id; refetched when a token names a key we have not seen, e.g. after rotation
+  private async signingKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const find = () => (kid ? this.keys.get(kid) : this.keys.size === 1 ? Array.from(this.keys.values())[0] : undefined);
+
+    if (!find()) {
+      const { jwks_uri } = await this.discover();
+      const { keys } = await fetchJson<{ keys: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(jwks_uri);
+      this.keys = new Map(
+        keys
+          .filter((jwk) => jwk.use !== "enc")
+          .map((jwk, index) => [jwk.kid ?? String(index), crypto.createPublicKey({ key: jwk, format: "jwk" })])
+      );
+    }
+
+    const key = find();
+    if (!key) throw new OidcLoginError("invalid_token", "ID token is signed with an unknown key");
+    return key;
+  }
+
+  // Where to send the browser, plus the values the callback has to match
+  async authorizationUrl(redirectUri: string): Promise<{ url: string; login: OidcLoginState }> {
+    const { authorization_endpoint } = await this.discover();
+    const login: OidcLoginState = {
+      state: base64url(crypto.randomBytes(16)),
+      nonce: base64url(crypto.randomBytes(16)),
+      codeVerifier: base64url(crypto.randomBytes(32)),
+      expiresAt: Date.now() + OIDC_LOGIN_TTL_MS,
+    };
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      scope: this.config.scopes.join(" "),
+      state: login.state,
+      nonce: login.nonce,
+      code_challenge: base64url(crypto.createHash("sha256").update(login.codeVerifier).digest()),
+      code_challenge_method: "S256",
+    }).toString();
+
+    return { url: url.toString(), login };
+  }
+
+  // Trades the authorization code for tokens and returns the verified claims about the user
+  async completeLogin(code: string, login: OidcLoginState, redirectUri: string): Promise<OidcClaims> {
+    const { token_endpoint, userinfo_endpoint } = await this.discover();
+
+    const headers: Record<string, string> = { "content-type": "application/x-www-form-urlencoded" };
+    const body = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: login.codeVerifier,
+      client_id: this.config.clientId,
+    });
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers.authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+
+    const tokens = await fetchJson<{ id_token?: string; access_token?: string }>(token_endpoint, {
+      method: "POST",
+      headers,
+      body,
+    });
+    if (!tokens.id_token) {
+      throw new OidcLoginError("invalid_token", "Identity provider did not return an ID token");
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, login.nonce);
+
+    // Some providers only put email and groups on the userinfo endpoint
+    if (userinfo_endpoint && tokens.access_token) {
+      const userinfo = await fetchJson<OidcClaims>(userinfo_endpoint, {
+        headers: { authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userinfo.sub === claims.sub) {
+        return { ...userinfo, ...claims };
+      }
+    }
+    return claims;
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const [encodedHeader, encodedPayload, signature] = idToken.split(".");
+    if (!encodedHeader || !encodedPayload || !signature) {
+      throw new OidcLoginError("invalid_token", "ID token is malformed");
+    }
+
+    const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString());
+    const algorithms: Record<string, { hash: string; dsaEncoding?: "ieee-p1363" }> = {
+      RS256: { hash: "sha256" },
+      ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+    };
+    const algorithm = algorithms[header.alg];
+    if (!algorithm) {
+      throw new OidcLoginError("invalid_token", `ID token algorithm ${header.alg} is not supported`);
+    }
+
+    const key = await this.signingKey(header.kid);
+    const valid = crypto.verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      Buffer.from(signature, "base64url")
+    );
+    if (!valid) throw new OidcLoginError("invalid_token", "ID token signature is invalid");
+
+    const claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString());
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (String(claims.iss).replace(/\/$/, "") !== this.config.issuer) {
+      throw new OidcLoginError("invalid_token", "ID token was issued by a different provider");
+    }
+    if (!audience.includes(this.config.clientId)) {
+      throw new OidcLoginError("invalid_token", "ID token was issued for a different client");
+    }
+    if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new OidcLoginError("invalid_token", "ID token has expired");
+    }
+    if (claims.nonce !== nonce) {
+      throw new OidcLoginError("invalid_token", "ID token does not belong to this sign-in");
+    }
+    if (typeof claims.sub !== "string") {
+      throw new OidcLoginError("invalid_token", "ID token has no subject");
+    }
+    return claims;
+  }
+}
+
+// The highest role granted by the user's provider groups, or null when none of them maps to a role
+export function roleForClaims(claims: OidcClaims, config = oidcConfig): string | null {
+  const value = claims[config.groupsClaim];
+  const groups = Array.isArray(value) ? value.map(String) : typeof value === "string" ? [value] : [];
+
+  for (const role of ["admin", "faculty", "student"] as const) {
+    if (config.roleGroups[role].some((group) => groups.includes(group))) {
+      return role;
+    }
+  }
+  return null;
+}
+
+// A username nobody has yet, based on what the provider calls the user
+async function freeUsername(storage: IStorage, claims: OidcClaims, email: string): Promise<string> {
+  const base = (claims.preferred_username || email.split("@")[0]).toLowerCase().replace(/[^a-z0-9._-]/g, "") || "user";
+  let username = base;
+  for (let suffix = 2; await storage.getUserByUsername(username); suffix++) {
+    username = `${base}${suffix}`;
+  }
+  return username;
+}
+
+// The account a provider sign-in resolved to; roleChanged is set when role sync changed its role
+export interface OidcSignIn {
+  user: User;
+  roleChanged: boolean;
+}
+
+// Finds the account for a provider sign-in by email, creating it when provisioning is on. Existing
+// accounts are only matched on an email the provider has verified. The provider's groups decide the
+// role of new accounts, and of existing ones only when role sync is on.
+export async function resolveOidcUser(storage: IStorage, claims: OidcClaims, config = oidcConfig): Promise<OidcSignIn> {
+  const email = claims.email?.trim();
+  if (!email) {
+    throw new OidcLoginError("no_email", "The identity provider did not share an email address");
+  }
+  if (claims.email_verified === false) {
+    throw new OidcLoginError("email_unverified", "The email address at the identity provider is not verified");
+  }
+
+  const role = roleForClaims(claims, config);
+  const matches = (await storage.getAllUsers()).filter((user) => user.email.toLowerCase() === email.toLowerCase());
+  if (matches.length > 1) {
+    throw new OidcLoginError("ambiguous_email", "More than one account uses this email address");
+  }
+
+  const [existing] = matches;
+  if (existing) {
+    // Otherwise anyone able to set that address at the provider could take over the account
+    if (claims.email_verified !== true) {
+      throw new OidcLoginError("email_unverified", "The email address at the identity provider is not verified");
+    }
+    if (!(await canSignIn(storage, existing))) {
+      throw new OidcLoginError("account_inactive", "This account has been deactivated");
+    }
+    if (config.syncRoles && role && role !== existing.role) {
+      const updated = await storage.updateUser(existing.id, { role });
+      return updated ? { user: updated, roleChanged: true } : { user: existing, roleChanged: false };
+    }
+    return { user: existing, roleChanged: false };
+  }
+
+  // An account in the trash is not provisioned again; it has to be restored
+  const trashed = (await storage.getDeletedRecords("user")).some(
+    (user) => (user as User).email.toLowerCase() === email.toLowerCase()
+  );
+  if (!config.provisionUsers || trashed) {
+    throw new OidcLoginError("no_account", "There is no account for this email address");
+  }
+  if (!role) {
+    throw new OidcLoginError("no_role", "Your identity provider groups do not grant access to this app");
+  }
+
+  const user = await storage.createUser({
+    username: await freeUsername(storage, claims, email),
+    password: NO_LOCAL_PASSWORD,
+    email,
+    role,
+    name: claims.name || email,
+    profileImage: typeof claims.picture === "string" ? claims.picture : null,
+  });
+  return { user, roleChanged: false };
+}
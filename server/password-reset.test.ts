@@ -0,0 +1,125 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { Mailer, type MailTransport, type SentMail } from "./mail";
+import { NO_LOCAL_PASSWORD } from "./passwords";
+import { completePasswordReset, findResetToken, requestPasswordReset } from "./password-reset";
+import { MemStorage } from "./storage";
+
+// Keeps sent messages in memory instead of writing them to the outbox
+class CapturingTransport implements MailTransport {
+  sent: SentMail[] = [];
+
+  async send(mail: SentMail): Promise<void> {
+    this.sent.push(mail);
+  }
+}
+
+const BASE_URL = "https://college.example";
+let storage: MemStorage;
+let transport: CapturingTransport;
+let mailer: Mailer;
+let user: User;
+
+const addUser = (username: string, email: string, password = "scrypt$hash") =>
+  storage.createUser({ username, password, email, role: "student", name: username });
+
+// The token from the link in a reset email
+const tokenFrom = (mail: SentMail) => new URL(mail.text.match(/https:\S+/)![0]).searchParams.get("token")!;
+
+const requestToken = async () => {
+  await requestPasswordReset(storage, mailer, user.email, BASE_URL);
+  return tokenFrom(transport.sent.at(-1)!);
+};
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  transport = new CapturingTransport();
+  mailer = new Mailer(transport, "test@college.local");
+  user = await addUser("reset.user", "reset.user@college.edu");
+});
+
+describe("requestPasswordReset", () => {
+  test("emails a link to the accounts with the address, whatever the letter case", async () => {
+    const second = await addUser("reset.second", "Reset.User@college.edu");
+    await requestPasswordReset(storage, mailer, "RESET.USER@college.edu", BASE_URL);
+
+    assert.deepEqual(transport.sent.map((mail) => mail.to).sort(), ["Reset.User@college.edu", "reset.user@college.edu"]);
+    assert.ok(transport.sent.every((mail) => mail.text.includes(`${BASE_URL}/reset-password?token=`)));
+    assert.equal((await storage.getPasswordResetTokensByUser(second.id)).length, 1);
+  });
+
+  test("sends nothing for unknown addresses or single sign-on accounts", async () => {
+    await addUser("reset.sso", "reset.sso@college.edu", NO_LOCAL_PASSWORD);
+    await requestPasswordReset(storage, mailer, "nobody@college.edu", BASE_URL);
+    await requestPasswordReset(storage, mailer, "reset.sso@college.edu", BASE_URL);
+
+    assert.equal(transport.sent.length, 0);
+  });
+
+  test("stores only a hash of the emailed token", async () => {
+    const token = await requestToken();
+    const [stored] = await storage.getPasswordResetTokensByUser(user.id);
+
+    assert.notEqual(stored.tokenHash, token);
+    assert.ok(!stored.tokenHash.includes(token));
+  });
+
+  test("waits out the cooldown before sending another link, then ends the earlier one", async () => {
+    const first = await requestToken();
+    await requestPasswordReset(storage, mailer, user.email, BASE_URL);
+    assert.equal(transport.sent.length, 1);
+
+    const [issued] = await storage.getPasswordResetTokensByUser(user.id);
+    await storage.updatePasswordResetToken(issued.id, { createdAt: new Date(Date.now() - 2 * 60 * 1000) });
+    const second = await requestToken();
+
+    assert.equal(transport.sent.length, 2);
+    assert.equal(await findResetToken(storage, first), null);
+    assert.equal((await findResetToken(storage, second))?.user.id, user.id);
+  });
+});
+
+describe("findResetToken", () => {
+  test("finds the account for an unused, unexpired token", async () => {
+    const found = await findResetToken(storage, await requestToken());
+    assert.equal(found?.user.id, user.id);
+  });
+
+  test("refuses an unknown token", async () => {
+    await requestToken();
+    assert.equal(await findResetToken(storage, "not-a-token"), null);
+  });
+
+  test("refuses a token once it expires", async () => {
+    const token = await requestToken();
+    const found = (await findResetToken(storage, token))!;
+    await storage.updatePasswordResetToken(found.token.id, { expiresAt: new Date(Date.now() - 1) });
+
+    assert.equal(await findResetToken(storage, token), null);
+  });
+});
+
+describe("completePasswordReset", () => {
+  test("sets the new password and uses the token up", async () => {
+    const token = await requestToken();
+    const found = (await findResetToken(storage, token))!;
+    await completePasswordReset(storage, found.token, "scrypt$new");
+
+    assert.equal((await storage.getUser(user.id))?.password, "scrypt$new");
+    assert.equal(await findResetToken(storage, token), null);
+  });
+
+  test("ends the account's other unused tokens too", async () => {
+    const token = await requestToken();
+    const found = (await findResetToken(storage, token))!;
+    const other = await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: "other",
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    await completePasswordReset(storage, found.token, "scrypt$new");
+
+    assert.ok((await storage.getPasswordResetTokenByHash(other.tokenHash))?.usedAt);
+  });
+});
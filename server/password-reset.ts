@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import type { PasswordResetToken, User } from "@shared/schema";
+import type { Mailer } from "./mail";
+import { hasLocalPassword } from "./passwords";
+import type { IStorage } from "./storage";
+
+// How long an emailed reset link stays valid
+export const PASSWORD_RESET_TTL_MS = parseInt(process.env.PASSWORD_RESET_TTL_MS || String(60 * 60 * 1000));
+// Minimum time between reset emails for one account, so the form cannot be used to flood an inbox
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Ends every unused token of the user, e.g. once a newer one is issued or the password changes
+async function invalidateResetTokens(storage: IStorage, userId: number): Promise<void> {
+  for (const token of await storage.getPasswordResetTokensByUser(userId)) {
+    if (!token.usedAt) {
+      await storage.updatePasswordResetToken(token.id, { usedAt: new Date() });
+    }
+  }
+}
+
+// Emails a reset link to every account registered with the address. Unknown addresses are
+// skipped silently, so callers can answer the same way whether or not an account exists.
+export async function requestPasswordReset(storage: IStorage, mailer: Mailer, email: string, baseUrl: string): Promise<void> {
+  // Single sign-on accounts have no local password to reset
+  const accounts = (await storage.getAllUsers()).filter(
+    (user) => user.email.toLowerCase() === email.toLowerCase() && hasLocalPassword(user.password)
+  );
+
+  for (const user of accounts) {
+    const tokens = await storage.getPasswordResetTokensByUser(user.id);
+    const recent = tokens.some(
+      (token) => !token.usedAt && Date.now() - new Date(token.createdAt).getTime() < RESEND_COOLDOWN_MS
+    );
+    if (recent) continue;
+
+    await invalidateResetTokens(storage, user.id);
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: hashResetToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+    });
+
+    const link = `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    const minutes = Math.round(PASSWORD_RESET_TTL_MS / 60000);
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your College Management System password",
+      text:
+        `Hello ${user.name},\n\n` +
+        `Someone asked to reset the password for the account "${user.username}". ` +
+        `Open this link within ${minutes} minutes to choose a new password:\n\n${link}\n\n` +
+        `If you did not ask for this, you can ignore this email; your password stays the same.\n`,
+    });
+  }
+}
+
+// The unused, unexpired token matching the emailed value, with its account
+export async function findResetToken(
+  storage: IStorage,
+  token: string
+): Promise<{ token: PasswordResetToken; user: User } | null> {
+  const record = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  if (!record || record.usedAt || new Date(record.expiresAt).getTime() <= Date.now()) return null;
+
+  const user = await storage.getUser(record.userId);
+  return user ? { token: record, user } : null;
+}
+
+// Sets the new (already hashed) password and uses up the token along with any others for the account
+export async function completePasswordReset(
+  storage: IStorage,
+  token: PasswordResetToken,
+  passwordHash: string
+): Promise<void> {
+  await storage.transaction(async (tx) => {
+    await tx.updateUser(token.userId, { password: passwordHash });
+    await invalidateResetTokens(tx, token.userId);
+  });
+}
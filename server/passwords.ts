@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Cost parameters for new hashes. They are stored in every hash, so raising them
+// later only affects new passwords; older hashes are upgraded on the next login.
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const PREFIX = "scrypt";
+
+// Hashes are stored as scrypt$N$r$p$salt$key with base64 salt and key
+function encode(params: typeof SCRYPT_PARAMS, salt: Buffer, key: Buffer): string {
+  return [PREFIX, params.N, params.r, params.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+function decode(stored: string) {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== PREFIX) return null;
+
+  const [, N, r, p, salt, key] = parts;
+  return {
+    params: { N: Number(N), r: Number(r), p: Number(p) },
+    salt: Buffer.from(salt, "base64"),
+    key: Buffer.from(key, "base64"),
+  };
+}
+
+// Stored instead of a hash for accounts that only sign in through single sign-on; no password matches it
+export const NO_LOCAL_PASSWORD = "!sso";
+
+export function hasLocalPassword(stored: string): boolean {
+  return stored !== NO_LOCAL_PASSWORD;
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return decode(stored) !== null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  return encode(SCRYPT_PARAMS, salt, key);
+}
+
+// Used while seeding demo data, which runs synchronously in the storage constructor
+export function hashPasswordSync(password: string): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = crypto.scryptSync(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  return encode(SCRYPT_PARAMS, salt, key);
+}
+
+// Checks a password against a stored value. Rows written before hashing was introduced hold
+// the plaintext; they still verify, but needsRehash tells the caller to replace them.
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!hasLocalPassword(stored)) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const decoded = decode(stored);
+
+  if (!decoded) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    const valid = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+  }
+
+  const key = await scrypt(password, decoded.salt, decoded.key.length, decoded.params);
+  const valid = crypto.timingSafeEqual(key, decoded.key);
+  const outdated =
+    decoded.params.N !== SCRYPT_PARAMS.N ||
+    decoded.params.r !== SCRYPT_PARAMS.r ||
+    decoded.params.p !== SCRYPT_PARAMS.p;
+
+  return { valid, needsRehash: valid && outdated };
+}
+
+// Password rules, configurable through the environment
+export const passwordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8"),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE === "true",
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE === "true",
+  requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== "false",
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+};
+
+// Returns the policy rules a password breaks; an empty list means it is acceptable
+export function checkPasswordPolicy(password: string, context: { username?: string } = {}): string[] {
+  const problems: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    problems.push(`Password must be at least ${passwordPolicy.minLength} characters`);
+  }
+  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push("Password must contain a lowercase letter");
+  }
+  if (passwordPolicy.requireDigit && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a digit");
+  }
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a symbol");
+  }
+  if (context.username && password.toLowerCase().includes(context.username.toLowerCase())) {
+    problems.push("Password must not contain the username");
+  }
+
+  return problems;
+}
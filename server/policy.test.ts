@@ -0,0 +1,202 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import type { Viewer } from "./records";
+import { authorize, authorizeMove, filterVisible } from "./policy";
+
+// Two instructors each teaching one section, with one student enrolled in each section and a grade
+// and attendance record per enrollment, plus an empty second section of the first instructor and a
+// student who dropped the first section.
+// Built on top of the sample data, using ids of its own.
+const storage = new MemStorage();
+const fixture = {} as {
+  teacher: number;
+  otherTeacher: number;
+  student: number;
+  otherStudent: number;
+  droppedStudent: number;
+  section: number;
+  otherSection: number;
+  spareSection: number;
+  enrollment: number;
+  otherEnrollment: number;
+  grade: number;
+  otherGrade: number;
+  attendance: number;
+  otherAttendance: number;
+};
+
+before(async () => {
+  const term = (await storage.getCurrentTerm())!;
+  const course = (await storage.getAllCourses())[0];
+
+  const addFaculty = async (facultyId: string) =>
+    (await storage.createFaculty({ userId: 0, facultyId, department: "Testing", position: "Lecturer", status: "active" })).id;
+  const addStudent = async (studentId: string) =>
+    (await storage.createStudent({ userId: 0, studentId, program: "Testing", yearLevel: 1, status: "active" })).id;
+  const addSection = async (facultyId: number) =>
+    (await storage.createCourseAssignment({ courseId: course.id, facultyId, termId: term.id })).id;
+  const enroll = async (studentId: number, courseAssignmentId: number, status = "enrolled") =>
+    (await storage.createEnrollment({ studentId, courseAssignmentId, status })).id;
+  const grade = async (enrollmentId: number) =>
+    (await storage.createGrade({ enrollmentId, assignmentName: "Quiz", score: 8, maxScore: 10, weight: 10, date: new Date() })).id;
+  const attend = async (enrollmentId: number) =>
+    (await storage.createAttendance({ enrollmentId, date: new Date(), status: "present" })).id;
+
+  fixture.teacher = await addFaculty("POLICY-F1");
+  fixture.otherTeacher = await addFaculty("POLICY-F2");
+  fixture.student = await addStudent("POLICY-S1");
+  fixture.otherStudent = await addStudent("POLICY-S2");
+  fixture.droppedStudent = await addStudent("POLICY-S3");
+  fixture.section = await addSection(fixture.teacher);
+  fixture.otherSection = await addSection(fixture.otherTeacher);
+  fixture.spareSection = await addSection(fixture.teacher);
+  fixture.enrollment = await enroll(fixture.student, fixture.section);
+  fixture.otherEnrollment = await enroll(fixture.otherStudent, fixture.otherSection);
+  await enroll(fixture.droppedStudent, fixture.section, "dropped");
+  fixture.grade = await grade(fixture.enrollment);
+  fixture.otherGrade = await grade(fixture.otherEnrollment);
+  fixture.attendance = await attend(fixture.enrollment);
+  fixture.otherAttendance = await attend(fixture.otherEnrollment);
+});
+
+const rows = (...ids: number[]) => ids.map((id) => ({ id }));
+const MISSING = 999_999;
+
+describe("admin", () => {
+  const admin: Viewer = { userId: 1, role: "admin" };
+
+  test("may view and manage every record", async () => {
+    for (const action of ["view", "manage"] as const) {
+      assert.equal(await authorize(storage, admin, action, "student", fixture.otherStudent), "allowed");
+      assert.equal(await authorize(storage, admin, action, "courseAssignment", fixture.otherSection), "allowed");
+      assert.equal(await authorize(storage, admin, action, "enrollment", fixture.otherEnrollment), "allowed");
+      assert.equal(await authorize(storage, admin, action, "grade", fixture.otherGrade), "allowed");
+      assert.equal(await authorize(storage, admin, action, "attendance", fixture.otherAttendance), "allowed");
+    }
+  });
+
+  test("gets not_found for records that do not exist", async () => {
+    assert.equal(await authorize(storage, admin, "view", "student", MISSING), "not_found");
+    assert.equal(await authorize(storage, admin, "manage", "grade", MISSING), "not_found");
+    assert.equal(await authorizeMove(storage, admin, fixture.enrollment, MISSING), "not_found");
+  });
+
+  test("may move any enrollment into any section", async () => {
+    assert.equal(await authorizeMove(storage, admin, fixture.enrollment, fixture.otherSection), "allowed");
+  });
+
+  test("sees every row", async () => {
+    const students = rows(fixture.student, fixture.otherStudent);
+    assert.deepEqual(await filterVisible(storage, admin, "student", students), students);
+    const grades = rows(fixture.grade, fixture.otherGrade);
+    assert.deepEqual(await filterVisible(storage, admin, "grade", grades), grades);
+  });
+});
+
+describe("faculty", () => {
+  const teacher = (): Viewer => ({ userId: 2, role: "faculty", facultyId: fixture.teacher });
+
+  test("may view the students and records of sections they teach", async () => {
+    assert.equal(await authorize(storage, teacher(), "view", "student", fixture.student), "allowed");
+    assert.equal(await authorize(storage, teacher(), "view", "courseAssignment", fixture.section), "allowed");
+    assert.equal(await authorize(storage, teacher(), "view", "enrollment", fixture.enrollment), "allowed");
+    assert.equal(await authorize(storage, teacher(), "view", "grade", fixture.grade), "allowed");
+    assert.equal(await authorize(storage, teacher(), "view", "attendance", fixture.attendance), "allowed");
+  });
+
+  test("may manage enrollments, grades and attendance in sections they teach", async () => {
+    assert.equal(await authorize(storage, teacher(), "manage", "enrollment", fixture.enrollment), "allowed");
+    assert.equal(await authorize(storage, teacher(), "manage", "grade", fixture.grade), "allowed");
+    assert.equal(await authorize(storage, teacher(), "manage", "attendance", fixture.attendance), "allowed");
+  });
+
+  test("loses sight of students who dropped their sections", async () => {
+    assert.equal(await authorize(storage, teacher(), "view", "student", fixture.droppedStudent), "denied");
+  });
+
+  test("may not manage student profiles or sections, even their own", async () => {
+    assert.equal(await authorize(storage, teacher(), "manage", "student", fixture.student), "denied");
+    assert.equal(await authorize(storage, teacher(), "manage", "courseAssignment", fixture.section), "denied");
+  });
+
+  test("is denied the records of other instructors' sections", async () => {
+    assert.equal(await authorize(storage, teacher(), "view", "student", fixture.otherStudent), "denied");
+    assert.equal(await authorize(storage, teacher(), "view", "courseAssignment", fixture.otherSection), "denied");
+    assert.equal(await authorize(storage, teacher(), "view", "grade", fixture.otherGrade), "denied");
+    assert.equal(await authorize(storage, teacher(), "manage", "grade", fixture.otherGrade), "denied");
+    assert.equal(await authorize(storage, teacher(), "manage", "attendance", fixture.otherAttendance), "denied");
+  });
+
+  test("may move enrollments only between sections they teach", async () => {
+    assert.equal(await authorizeMove(storage, teacher(), fixture.enrollment, fixture.spareSection), "allowed");
+    assert.equal(await authorizeMove(storage, teacher(), fixture.enrollment, fixture.otherSection), "denied");
+    assert.equal(await authorizeMove(storage, teacher(), fixture.otherEnrollment, fixture.spareSection), "denied");
+  });
+
+  test("without a faculty profile is denied everything scoped to their courses", async () => {
+    const noProfile: Viewer = { userId: 2, role: "faculty" };
+    assert.equal(await authorize(storage, noProfile, "view", "grade", fixture.grade), "denied");
+  });
+
+  test("sees only rows from sections they teach", async () => {
+    assert.deepEqual(
+      await filterVisible(storage, teacher(), "student", rows(fixture.student, fixture.otherStudent)),
+      rows(fixture.student)
+    );
+    assert.deepEqual(
+      await filterVisible(storage, teacher(), "grade", rows(fixture.grade, fixture.otherGrade, MISSING)),
+      rows(fixture.grade)
+    );
+    assert.deepEqual(
+      await filterVisible(storage, teacher(), "courseAssignment", rows(fixture.section, fixture.otherSection)),
+      rows(fixture.section)
+    );
+  });
+});
+
+describe("student", () => {
+  const student = (): Viewer => ({ userId: 3, role: "student", studentId: fixture.student });
+
+  test("may view their own profile, sections and records", async () => {
+    assert.equal(await authorize(storage, student(), "view", "student", fixture.student), "allowed");
+    assert.equal(await authorize(storage, student(), "view", "courseAssignment", fixture.section), "allowed");
+    assert.equal(await authorize(storage, student(), "view", "enrollment", fixture.enrollment), "allowed");
+    assert.equal(await authorize(storage, student(), "view", "grade", fixture.grade), "allowed");
+    assert.equal(await authorize(storage, student(), "view", "attendance", fixture.attendance), "allowed");
+  });
+
+  test("may manage only their own enrollments", async () => {
+    assert.equal(await authorize(storage, student(), "manage", "enrollment", fixture.enrollment), "allowed");
+    assert.equal(await authorize(storage, student(), "manage", "enrollment", fixture.otherEnrollment), "denied");
+    assert.equal(await authorize(storage, student(), "manage", "grade", fixture.grade), "denied");
+    assert.equal(await authorize(storage, student(), "manage", "attendance", fixture.attendance), "denied");
+    assert.equal(await authorize(storage, student(), "manage", "student", fixture.student), "denied");
+  });
+
+  test("is denied other students' records and sections they are not in", async () => {
+    assert.equal(await authorize(storage, student(), "view", "student", fixture.otherStudent), "denied");
+    assert.equal(await authorize(storage, student(), "view", "courseAssignment", fixture.otherSection), "denied");
+    assert.equal(await authorize(storage, student(), "view", "grade", fixture.otherGrade), "denied");
+    assert.equal(await authorize(storage, student(), "view", "attendance", fixture.otherAttendance), "denied");
+  });
+
+  test("still gets not_found for records that do not exist", async () => {
+    assert.equal(await authorize(storage, student(), "view", "grade", MISSING), "not_found");
+  });
+
+  test("sees only their own rows", async () => {
+    assert.deepEqual(
+      await filterVisible(storage, student(), "student", rows(fixture.student, fixture.otherStudent)),
+      rows(fixture.student)
+    );
+    assert.deepEqual(
+      await filterVisible(storage, student(), "enrollment", rows(fixture.enrollment, fixture.otherEnrollment)),
+      rows(fixture.enrollment)
+    );
+    assert.deepEqual(
+      await filterVisible(storage, student(), "attendance", rows(fixture.attendance, fixture.otherAttendance)),
+      rows(fixture.attendance)
+    );
+  });
+});
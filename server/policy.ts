@@ -0,0 +1,202 @@
+import type { IStorage } from "./storage";
+import type { Viewer } from "./records";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+export type Action = "view" | "manage";
+
+export type Resource =
+  | "student"
+  | "courseAssignment"
+  | "enrollment"
+  | "attendance"
+  | "grade";
+
+// Who a record belongs to: the instructor of its section and/or the enrolled student
+interface Owners {
+  facultyId?: number;
+  studentId?: number;
+}
+
+async function enrollmentOwners(storage: IStorage, enrollmentId: number): Promise<Owners | null> {
+  const enrollment = await storage.getEnrollment(enrollmentId);
+  if (!enrollment) return null;
+
+  const courseAssignment = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+  return { facultyId: courseAssignment?.facultyId, studentId: enrollment.studentId };
+}
+
+// Walks record → enrollment → course assignment to find the owners; null when the record doesn't exist
+async function ownersOf(storage: IStorage, resource: Resource, id: number): Promise<Owners | null> {
+  switch (resource) {
+    case "student":
+      return (await storage.getStudent(id)) ? { studentId: id } : null;
+    case "courseAssignment": {
+      const courseAssignment = await storage.getCourseAssignment(id);
+      return courseAssignment ? { facultyId: courseAssignment.facultyId } : null;
+    }
+    case "enrollment":
+      return enrollmentOwners(storage, id);
+    case "attendance": {
+      const attendance = await storage.getAttendance(id);
+      return attendance ? enrollmentOwners(storage, attendance.enrollmentId) : null;
+    }
+    case "grade": {
+      const grade = await storage.getGrade(id);
+      return grade ? enrollmentOwners(storage, grade.enrollmentId) : null;
+    }
+  }
+}
+
+// Students who dropped the faculty member's sections no longer count as theirs
+async function teachesStudent(storage: IStorage, facultyId: number, studentId: number): Promise<boolean> {
+  const enrollments = await storage.getEnrollmentsByStudent(studentId);
+  for (const enrollment of enrollments.filter((e) => e.status !== "dropped")) {
+    const courseAssignment = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+    if (courseAssignment?.facultyId === facultyId) return true;
+  }
+  return false;
+}
+
+async function attendsSection(storage: IStorage, studentId: number, courseAssignmentId: number): Promise<boolean> {
+  const enrollments = await storage.getEnrollmentsByStudent(studentId);
+  return enrollments.some((e) => e.courseAssignmentId === courseAssignmentId);
+}
+
+type Scope = "any" | "own-course" | "self";
+
+// The catalog permission for each resource, action and scope. Combinations the catalog does not
+// have are left out and never granted.
+const PERMISSION_FOR: Record<Resource, Record<Action, Partial<Record<Scope, Permission>>>> = {
+  student: {
+    view: { any: "students:read:any", "own-course": "students:read:own-course", self: "students:read:self" },
+    manage: { any: "students:write:any" },
+  },
+  courseAssignment: {
+    view: {
+      any: "course-assignments:read:any",
+      "own-course": "course-assignments:read:own-course",
+      self: "course-assignments:read:self",
+    },
+    manage: { any: "course-assignments:write:any" },
+  },
+  enrollment: {
+    view: { any: "enrollments:read:any", "own-course": "enrollments:read:own-course", self: "enrollments:read:self" },
+    manage: { any: "enrollments:write:any", "own-course": "enrollments:write:own-course", self: "enrollments:write:self" },
+  },
+  attendance: {
+    view: { any: "attendance:read:any", "own-course": "attendance:read:own-course", self: "attendance:read:self" },
+    manage: { any: "attendance:write:any", "own-course": "attendance:write:own-course" },
+  },
+  grade: {
+    view: { any: "grades:read:any", "own-course": "grades:read:own-course", self: "grades:read:self" },
+    manage: { any: "grades:write:any", "own-course": "grades:write:own-course" },
+  },
+};
+
+function holds(role: string, resource: Resource, action: Action, scope: Scope): boolean {
+  const permission = PERMISSION_FOR[resource][action][scope];
+  return !!permission && hasPermission(role, permission);
+}
+
+// "own-course": the record sits in a section the faculty member teaches (for students, any such enrollment)
+async function inOwnCourse(storage: IStorage, facultyId: number, resource: Resource, owners: Owners): Promise<boolean> {
+  if (owners.facultyId !== undefined) return owners.facultyId === facultyId;
+  if (resource === "student" && owners.studentId !== undefined) {
+    return teachesStudent(storage, facultyId, owners.studentId);
+  }
+  return false;
+}
+
+// "self": the record is the student's own (for sections, one they are enrolled in)
+async function isOwn(storage: IStorage, studentId: number, resource: Resource, id: number, owners: Owners): Promise<boolean> {
+  if (owners.studentId !== undefined) return owners.studentId === studentId;
+  if (resource === "courseAssignment") return attendsSection(storage, studentId, id);
+  return false;
+}
+
+// Resolves the scoped permissions of the viewer's role against one record:
+// ":any" allows every row, ":own-course" rows in sections the viewer teaches, ":self" the viewer's own rows.
+// Missing records resolve to "not found" so routes can keep answering 404.
+export async function authorize(
+  storage: IStorage,
+  viewer: Viewer,
+  action: Action,
+  resource: Resource,
+  id: number
+): Promise<"allowed" | "denied" | "not_found"> {
+  const owners = await ownersOf(storage, resource, id);
+  if (!owners) return "not_found";
+
+  return decide(storage, viewer, action, resource, id, owners);
+}
+
+// Authorizes moving an enrollment into another section: the viewer has to be allowed to manage
+// the enrollment both where it is now and as it will be afterwards, sitting in the target section
+export async function authorizeMove(
+  storage: IStorage,
+  viewer: Viewer,
+  enrollmentId: number,
+  courseAssignmentId: number
+): Promise<"allowed" | "denied" | "not_found"> {
+  const current = await authorize(storage, viewer, "manage", "enrollment", enrollmentId);
+  if (current !== "allowed") return current;
+
+  const enrollment = await storage.getEnrollment(enrollmentId);
+  const target = await storage.getCourseAssignment(courseAssignmentId);
+  if (!enrollment || !target) return "not_found";
+
+  const owners = { facultyId: target.facultyId, studentId: enrollment.studentId };
+  return decide(storage, viewer, "manage", "enrollment", enrollmentId, owners);
+}
+
+async function decide(
+  storage: IStorage,
+  viewer: Viewer,
+  action: Action,
+  resource: Resource,
+  id: number,
+  owners: Owners
+): Promise<"allowed" | "denied"> {
+  if (holds(viewer.role, resource, action, "any")) {
+    return "allowed";
+  }
+  if (
+    viewer.facultyId &&
+    holds(viewer.role, resource, action, "own-course") &&
+    (await inOwnCourse(storage, viewer.facultyId, resource, owners))
+  ) {
+    return "allowed";
+  }
+  if (
+    viewer.studentId &&
+    holds(viewer.role, resource, action, "self") &&
+    (await isOwn(storage, viewer.studentId, resource, id, owners))
+  ) {
+    return "allowed";
+  }
+
+  return "denied";
+}
+
+export async function can(
+  storage: IStorage,
+  viewer: Viewer,
+  action: Action,
+  resource: Resource,
+  id: number
+): Promise<boolean> {
+  return (await authorize(storage, viewer, action, resource, id)) === "allowed";
+}
+
+// Keeps only the rows the viewer is allowed to see
+export async function filterVisible<T extends { id: number }>(
+  storage: IStorage,
+  viewer: Viewer,
+  resource: Resource,
+  rows: T[]
+): Promise<T[]> {
+  if (holds(viewer.role, resource, "view", "any")) return rows;
+
+  const allowed = await Promise.all(rows.map((row) => can(storage, viewer, "view", resource, row.id)));
+  return rows.filter((_, i) => allowed[i]);
+}
@@ -0,0 +1,158 @@
+import type { Attendance, CourseAssignment, Enrollment, Grade, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { hasPermission } from "@shared/permissions";
+
+// The signed-in user together with the profile their data access is scoped to
+export interface Viewer {
+  userId: number;
+  role: string;
+  facultyId?: number;
+  studentId?: number;
+}
+
+export async function resolveViewer(
+  storage: IStorage,
+  user: { id: number; role: string }
+): Promise<Viewer> {
+  const viewer: Viewer = { userId: user.id, role: user.role };
+
+  if (user.role === "faculty") {
+    viewer.facultyId = (await storage.getFacultyByUserId(user.id))?.id;
+  } else if (user.role === "student") {
+    viewer.studentId = (await storage.getStudentByUserId(user.id))?.id;
+  }
+
+  return viewer;
+}
+
+// Whether the user may sign in, by password, single sign-on or API token: accounts in the trash and
+// accounts whose student or faculty profile has been deactivated or moved to the trash may not
+export async function canSignIn(storage: IStorage, user: User): Promise<boolean> {
+  if (user.deletedAt) return false;
+
+  const profiles = [await storage.getStudentByUserId(user.id), await storage.getFacultyByUserId(user.id)];
+  return !profiles.some((profile) => profile && (profile.status === "inactive" || profile.deletedAt));
+}
+
+// Scoped lookups: ":any" readers see everything, faculty the sections they teach, students their own enrollments
+export async function visibleCourseAssignments(storage: IStorage, viewer: Viewer): Promise<CourseAssignment[]> {
+  if (hasPermission(viewer.role, "course-assignments:read:any")) {
+    return storage.getAllCourseAssignments();
+  }
+  if (viewer.facultyId) {
+    return storage.getCourseAssignmentsByFaculty(viewer.facultyId);
+  }
+  if (viewer.studentId) {
+    const enrollments = await storage.getEnrollmentsByStudent(viewer.studentId);
+    const assignments = await Promise.all(
+      Array.from(new Set(enrollments.map((e) => e.courseAssignmentId))).map((id) => storage.getCourseAssignment(id))
+    );
+    return assignments.filter((a): a is CourseAssignment => !!a);
+  }
+  return [];
+}
+
+// Enrollments in every section the faculty member teaches
+export async function taughtEnrollments(storage: IStorage, facultyId: number): Promise<Enrollment[]> {
+  const assignments = await storage.getCourseAssignmentsByFaculty(facultyId);
+  const enrollments = await Promise.all(
+    assignments.map((assignment) => storage.getEnrollmentsByCourseAssignment(assignment.id))
+  );
+  return enrollments.flat();
+}
+
+export async function visibleEnrollments(storage: IStorage, viewer: Viewer): Promise<Enrollment[]> {
+  if (hasPermission(viewer.role, "enrollments:read:any")) {
+    return storage.getAllEnrollments();
+  }
+  if (viewer.facultyId) {
+    return taughtEnrollments(storage, viewer.facultyId);
+  }
+  if (viewer.studentId) {
+    return storage.getEnrollmentsByStudent(viewer.studentId);
+  }
+  return [];
+}
+
+// Public subset of a user returned alongside related records
+export function publicUser(user: User | undefined) {
+  return user ? {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    name: user.name,
+    profileImage: user.profileImage
+  } : null;
+}
+
+// An account as the account update endpoint returns it, with the version to send back on the next edit
+export function editableUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    profileImage: user.profileImage,
+    version: user.version
+  };
+}
+
+// Joins a course assignment with its course, instructor and term
+export async function enrichCourseAssignment(storage: IStorage, assignment: CourseAssignment) {
+  const course = await storage.getCourse(assignment.courseId);
+  const term = await storage.getTerm(assignment.termId);
+  const faculty = await storage.getFaculty(assignment.facultyId);
+  const facultyUser = faculty ? await storage.getUser(faculty.userId) : undefined;
+
+  return {
+    ...assignment,
+    course,
+    term,
+    faculty,
+    facultyName: facultyUser?.name
+  };
+}
+
+// Joins an enrollment with its student (and user), course, section and term;
+// withRecords also attaches the enrollment's attendance and grades
+export async function enrichEnrollment(
+  storage: IStorage,
+  enrollment: Enrollment,
+  options: { withRecords?: boolean } = {}
+) {
+  const student = await storage.getStudent(enrollment.studentId);
+  const user = student ? await storage.getUser(student.userId) : undefined;
+  const courseAssignment = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+  const course = courseAssignment ? await storage.getCourse(courseAssignment.courseId) : undefined;
+  const term = courseAssignment ? await storage.getTerm(courseAssignment.termId) : undefined;
+
+  return {
+    ...enrollment,
+    student: student ? { ...student, user: publicUser(user) } : null,
+    courseAssignment,
+    course,
+    term,
+    ...(options.withRecords ? {
+      attendance: await storage.getAttendanceByEnrollment(enrollment.id),
+      grades: await storage.getGradesByEnrollment(enrollment.id)
+    } : {})
+  };
+}
+
+// Flattens an attendance or grade record with the student and course names the list pages display
+export async function enrichEnrollmentRecord<T extends Attendance | Grade>(storage: IStorage, record: T) {
+  const enrollment = await storage.getEnrollment(record.enrollmentId);
+  const details = enrollment ? await enrichEnrollment(storage, enrollment) : null;
+
+  return {
+    ...record,
+    studentId: details?.student?.studentId,
+    studentName: details?.student?.user?.name,
+    studentImage: details?.student?.user?.profileImage,
+    courseName: details?.course?.title,
+    courseCode: details?.course?.code,
+    termId: details?.term?.id,
+    termName: details?.term?.name
+  };
+}
@@ -0,0 +1,96 @@
+import type { Course, CourseAssignment, Enrollment } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Why an add or drop was refused
+export class RegistrationError extends Error {
+  status = 400;
+}
+
+const MAX_CREDITS_SETTING = "registration.maxCredits";
+const DEFAULT_MAX_CREDITS = 18;
+
+// The most credits a student may register for in one term; the registrar is not held to it
+export async function getMaxCredits(storage: IStorage): Promise<number> {
+  const value = await storage.getSetting(MAX_CREDITS_SETTING);
+  return value ? JSON.parse(value) : DEFAULT_MAX_CREDITS;
+}
+
+export async function setMaxCredits(storage: IStorage, credits: number): Promise<void> {
+  await storage.setSetting(MAX_CREDITS_SETTING, JSON.stringify(credits));
+}
+
+export interface Registration {
+  enrollment: Enrollment;
+  section: CourseAssignment;
+  course: Course;
+}
+
+// The sections of a term the student holds a seat or waitlist place in
+export async function registrationsInTerm(storage: IStorage, studentId: number, termId: number): Promise<Registration[]> {
+  const registrations: Registration[] = [];
+  for (const enrollment of await storage.getEnrollmentsByStudent(studentId)) {
+    if (enrollment.status !== "enrolled" && enrollment.status !== "waitlisted") continue;
+
+    const section = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+    const course = section ? await storage.getCourse(section.courseId) : undefined;
+    if (section && course && section.termId === termId) {
+      registrations.push({ enrollment, section, course });
+    }
+  }
+  return registrations;
+}
+
+// Waitlist places count towards the load, since they turn into seats without asking the student
+export const registeredCredits = (registrations: Registration[]) =>
+  registrations.reduce((sum, registration) => sum + registration.course.credits, 0);
+
+// Courses in the trash keep their status, so that is checked too
+export const isOpenForRegistration = (course: Course) => course.status === "active" && !course.deletedAt;
+
+// A student registers for active courses only, once per course and term, and within the credit limit.
+// Locks the student, so run it in the transaction that saves the enrollment.
+export async function checkRegistration(storage: IStorage, studentId: number, courseAssignmentId: number) {
+  await storage.lockStudent(studentId);
+  const section = await storage.getCourseAssignment(courseAssignmentId);
+  const course = section ? await storage.getCourse(section.courseId) : undefined;
+  if (!section || !course) {
+    throw new RegistrationError("Section not found");
+  }
+  if (!isOpenForRegistration(course)) {
+    throw new RegistrationError(`${course.code} is not open for registration`);
+  }
+
+  const registrations = await registrationsInTerm(storage, studentId, section.termId);
+  const existing = registrations.find((registration) => registration.course.id === course.id);
+  if (existing) {
+    throw new RegistrationError(
+      existing.section.id === section.id
+        ? `You are already ${existing.enrollment.status === "waitlisted" ? "on the waitlist for" : "registered for"} this section of ${course.code}`
+        : `You are already registered for another section of ${course.code}; drop it first`
+    );
+  }
+
+  const maxCredits = await getMaxCredits(storage);
+  const total = registeredCredits(registrations) + course.credits;
+  if (total > maxCredits) {
+    throw new RegistrationError(
+      `Adding ${course.code} (${course.credits} credits) would bring you to ${total} credits this term; the limit is ${maxCredits}`
+    );
+  }
+}
+
+// The registrar enrolls a student in a section once, however many requests arrive at the same time.
+// Locks the student, so run it in the transaction that saves the enrollment.
+export async function checkNotInSection(storage: IStorage, studentId: number, courseAssignmentId: number) {
+  await storage.lockStudent(studentId);
+  const existing = (await storage.getEnrollmentsByStudent(studentId)).find(
+    (e) => e.courseAssignmentId === courseAssignmentId && (e.status === "enrolled" || e.status === "waitlisted")
+  );
+  if (existing) {
+    throw new RegistrationError(
+      existing.status === "waitlisted"
+        ? "Student is already on the waitlist for this course"
+        : "Student is already enrolled in this course"
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Course, InsertCourseRequisite } from "@shared/schema";
+import { RequisiteError, UnmetRequisitesError, checkRequisites, unmetRequisites, validateRequisites } from "./requisites";
+import { MemStorage } from "./storage";
+
+let storage: MemStorage;
+let studentId: number;
+let facultyId: number;
+let pastTerm: number;
+let currentTerm: number;
+let courses: Record<"a" | "b" | "target", Course>;
+let section: number;
+
+const newTerm = (name: string, year: number) =>
+  storage.createTerm({
+    name,
+    startDate: new Date(year, 0, 8),
+    endDate: new Date(year, 4, 4),
+    addDropDeadline: new Date(year, 0, 22),
+    gradesDueDate: new Date(year, 4, 18),
+    isCurrent: false,
+  });
+
+// An enrollment in a section of the course, completed ones with a single final grade
+const take = async (course: Course, status: string, options: { score?: number; termId?: number } = {}) => {
+  const taken = await storage.createCourseAssignment({ courseId: course.id, facultyId, termId: options.termId ?? pastTerm });
+  const enrollment = await storage.createEnrollment({ studentId, courseAssignmentId: taken.id, status });
+  if (options.score !== undefined) {
+    await storage.createGrade({ enrollmentId: enrollment.id, assignmentName: "Final", score: options.score, maxScore: 100, weight: 100 });
+  }
+};
+
+const requireFor = async (rules: Omit<InsertCourseRequisite, "courseId">[]) => {
+  for (const rule of rules) await storage.createCourseRequisite({ ...rule, courseId: courses.target.id });
+};
+
+const prerequisite = (group: number, course: Course | null, minGrade: number | null = null) =>
+  ({ type: "prerequisite", group, requiredCourseId: course?.id ?? null, minGrade });
+
+const unmet = async () => (await unmetRequisites(storage, studentId, section))!.unmet.map((group) => group.description);
+
+const waive = (kind: "consent" | "override") =>
+  storage.createRequisiteWaiver({ studentId, courseId: courses.target.id, kind, reason: "Testing", grantedById: null, grantedByName: "admin" });
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  const user = await storage.createUser({ username: "req.student", password: "x", email: "req.student@college.edu", role: "student", name: "Req Student" });
+  studentId = (await storage.createStudent({ userId: user.id, studentId: "REQ-1", program: "Testing", yearLevel: 1, status: "active" })).id;
+  facultyId = (await storage.getAllFaculty())[0].id;
+  pastTerm = (await newTerm("Requisites Past", 2001)).id;
+  currentTerm = (await newTerm("Requisites Current", 2002)).id;
+
+  const course = (code: string) => storage.createCourse({ code, title: code, credits: 3, department: "Testing" });
+  courses = { a: await course("RQA101"), b: await course("RQB101"), target: await course("RQT201") };
+  section = (await storage.createCourseAssignment({ courseId: courses.target.id, facultyId, termId: currentTerm })).id;
+});
+
+describe("unmetRequisites", () => {
+  test("finds nothing missing for a course without rules", async () => {
+    assert.deepEqual(await unmet(), []);
+  });
+
+  test("requires every group: completing one leaves the other unmet", async () => {
+    await requireFor([prerequisite(1, courses.a), prerequisite(2, courses.b)]);
+    await take(courses.a, "completed", { score: 90 });
+
+    assert.deepEqual(await unmet(), ["RQB101"]);
+  });
+
+  test("is satisfied by any alternative within a group", async () => {
+    await requireFor([prerequisite(1, courses.a, 70), prerequisite(1, courses.b)]);
+    assert.deepEqual(await unmet(), ["RQA101 (70% or better) or RQB101"]);
+
+    await take(courses.b, "completed");
+    assert.deepEqual(await unmet(), []);
+  });
+
+  test("counts a completed course only at or above the minimum grade", async () => {
+    await requireFor([prerequisite(1, courses.a, 70)]);
+
+    await take(courses.a, "completed", { score: 69 });
+    assert.deepEqual(await unmet(), ["RQA101 (70% or better)"]);
+    await take(courses.a, "completed");
+    assert.deepEqual(await unmet(), ["RQA101 (70% or better)"], "a completion without grades has no percentage");
+    await take(courses.a, "completed", { score: 70 });
+    assert.deepEqual(await unmet(), []);
+  });
+
+  test("does not count prerequisites still in progress or dropped", async () => {
+    await requireFor([prerequisite(1, courses.a)]);
+    await take(courses.a, "enrolled", { termId: currentTerm });
+    await take(courses.a, "dropped");
+
+    assert.deepEqual(await unmet(), ["RQA101"]);
+  });
+
+  test("counts a corequisite taken in the same term but not in another", async () => {
+    await requireFor([{ type: "corequisite", group: 1, requiredCourseId: courses.a.id, minGrade: null }]);
+
+    await take(courses.a, "enrolled", { termId: pastTerm });
+    assert.deepEqual(await unmet(), ["RQA101 (taken before or alongside)"]);
+    await take(courses.a, "enrolled", { termId: currentTerm });
+    assert.deepEqual(await unmet(), []);
+  });
+
+  test("meets instructor consent alternatives with a consent waiver only", async () => {
+    await requireFor([prerequisite(1, courses.a), prerequisite(1, null), prerequisite(2, courses.b)]);
+    assert.deepEqual(await unmet(), ["RQA101 or instructor consent", "RQB101"]);
+
+    await waive("consent");
+    assert.deepEqual(await unmet(), ["RQB101"]);
+  });
+
+  test("waives every group with an override", async () => {
+    await requireFor([prerequisite(1, courses.a, 90), prerequisite(2, courses.b)]);
+    await waive("override");
+
+    assert.deepEqual(await unmet(), []);
+  });
+});
+
+describe("checkRequisites", () => {
+  test("refuses the enrollment listing every missing group", async () => {
+    await requireFor([prerequisite(1, courses.a), prerequisite(2, courses.b, 60)]);
+
+    await assert.rejects(
+      checkRequisites(storage, studentId, section),
+      (error) => error instanceof UnmetRequisitesError && error.message === "RQT201 requires RQA101, and RQB101 (60% or better)"
+    );
+  });
+});
+
+describe("validateRequisites", () => {
+  test("refuses a course requiring itself or a course that does not exist", async () => {
+    await assert.rejects(validateRequisites(storage, courses.a.id, [prerequisite(1, courses.a)]), /cannot require itself/);
+    await assert.rejects(
+      validateRequisites(storage, courses.a.id, [{ ...prerequisite(1, null), requiredCourseId: 99999 }]),
+      RequisiteError
+    );
+  });
+
+  test("refuses prerequisite cycles, direct or through other courses", async () => {
+    await storage.createCourseRequisite({ ...prerequisite(1, courses.a), courseId: courses.b.id });
+    await storage.createCourseRequisite({ ...prerequisite(1, courses.b), courseId: courses.target.id });
+
+    await assert.rejects(validateRequisites(storage, courses.a.id, [prerequisite(1, courses.target)]), /RQT201 already has this course/);
+    await validateRequisites(storage, courses.a.id, [{ type: "corequisite", group: 1, requiredCourseId: courses.target.id, minGrade: null }]);
+  });
+});
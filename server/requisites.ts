@@ -0,0 +1,193 @@
+import type { Course, CourseRequisite, InsertCourseRequisite, RequisiteType } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { finalPercentage } from "./grading";
+import type { IStorage } from "./storage";
+import type { Viewer } from "./records";
+
+// Why a set of requisite rules or a waiver was refused
+export class RequisiteError extends Error {
+  status = 400;
+}
+
+// A group of alternatives the student has not met, in words
+export interface UnmetRequisite {
+  type: RequisiteType;
+  group: number;
+  description: string;
+}
+
+// Why an enrollment was refused: the student is missing one or more requisite groups
+export class UnmetRequisitesError extends Error {
+  status = 409;
+
+  constructor(public course: Course, public unmet: UnmetRequisite[]) {
+    super(`${course.code} requires ${unmet.map((group) => group.description).join(", and ")}`);
+  }
+}
+
+// Rules of the same type and group, in the order storage returns them
+function groupRules(rules: CourseRequisite[]): CourseRequisite[][] {
+  const groups = new Map<string, CourseRequisite[]>();
+  for (const rule of rules) {
+    const key = `${rule.type}:${rule.group}`;
+    groups.set(key, [...(groups.get(key) ?? []), rule]);
+  }
+  return Array.from(groups.values());
+}
+
+async function describeGroup(storage: IStorage, rules: CourseRequisite[]): Promise<string> {
+  const options = await Promise.all(rules.map(async (rule) => {
+    if (rule.requiredCourseId === null) return "instructor consent";
+
+    const code = (await storage.getCourse(rule.requiredCourseId))?.code ?? `course #${rule.requiredCourseId}`;
+    return rule.minGrade !== null ? `${code} (${rule.minGrade}% or better)` : code;
+  }));
+  const joined = options.join(" or ");
+  return rules[0].type === "corequisite" ? `${joined} (taken before or alongside)` : joined;
+}
+
+// A course's rules joined with the code and title of each required course, for display
+export async function describeRequisites(storage: IStorage, courseId: number) {
+  const rules = await storage.getCourseRequisites(courseId);
+  return Promise.all(rules.map(async (rule) => {
+    const course = rule.requiredCourseId !== null ? await storage.getCourse(rule.requiredCourseId) : undefined;
+    return {
+      ...rule,
+      requiredCourse: course ? { id: course.id, code: course.code, title: course.title } : null
+    };
+  }));
+}
+
+// The requisite groups a student has not met for a course section. Prerequisites count completed
+// enrollments only; corequisites also count an enrollment in the same term. An override waives
+// everything, a consent waiver meets the "instructor consent" alternatives.
+export async function unmetRequisites(
+  storage: IStorage,
+  studentId: number,
+  courseAssignmentId: number
+): Promise<{ course: Course; unmet: UnmetRequisite[] } | null> {
+  const section = await storage.getCourseAssignment(courseAssignmentId);
+  const course = section ? await storage.getCourse(section.courseId) : undefined;
+  if (!section || !course) return null;
+
+  const rules = await storage.getCourseRequisites(course.id);
+  if (rules.length === 0) return { course, unmet: [] };
+
+  const waivers = (await storage.getRequisiteWaiversByStudent(studentId)).filter((w) => w.courseId === course.id);
+  if (waivers.some((waiver) => waiver.kind === "override")) return { course, unmet: [] };
+  const hasConsent = waivers.some((waiver) => waiver.kind === "consent");
+
+  // The student's enrollments, with the course and term of their section and the final percentage
+  const history = await Promise.all(
+    (await storage.getEnrollmentsByStudent(studentId)).map(async (enrollment) => {
+      const enrolledSection = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+      return {
+        status: enrollment.status,
+        courseId: enrolledSection?.courseId,
+        termId: enrolledSection?.termId,
+        percentage: enrollment.status === "completed"
+          ? finalPercentage(await storage.getGradesByEnrollment(enrollment.id))
+          : undefined
+      };
+    })
+  );
+
+  const meets = (rule: CourseRequisite) => {
+    if (rule.requiredCourseId === null) return hasConsent;
+
+    return history.some((taken) => {
+      if (taken.courseId !== rule.requiredCourseId) return false;
+      if (taken.status === "completed") {
+        return rule.minGrade === null || (taken.percentage !== undefined && taken.percentage >= rule.minGrade);
+      }
+      return rule.type === "corequisite" && taken.status === "enrolled" && taken.termId === section.termId;
+    });
+  };
+
+  const unmet: UnmetRequisite[] = [];
+  for (const group of groupRules(rules)) {
+    if (!group.some(meets)) {
+      unmet.push({ type: group[0].type as RequisiteType, group: group[0].group, description: await describeGroup(storage, group) });
+    }
+  }
+  return { course, unmet };
+}
+
+// Refuses an enrollment while the student is missing any of the course's requisites
+export async function checkRequisites(storage: IStorage, studentId: number, courseAssignmentId: number) {
+  const result = await unmetRequisites(storage, studentId, courseAssignmentId);
+  if (result && result.unmet.length > 0) {
+    throw new UnmetRequisitesError(result.course, result.unmet);
+  }
+}
+
+// Required courses must exist and be other courses, and no course may end up (indirectly) a
+// prerequisite of itself, which would make both impossible to take
+export async function validateRequisites(
+  storage: IStorage,
+  courseId: number,
+  rules: Omit<InsertCourseRequisite, "courseId">[]
+) {
+  for (const rule of rules) {
+    if (rule.requiredCourseId === null || rule.requiredCourseId === undefined) continue;
+    if (rule.requiredCourseId === courseId) {
+      throw new RequisiteError("A course cannot require itself");
+    }
+
+    const required = await storage.getCourse(rule.requiredCourseId);
+    if (!required) {
+      throw new RequisiteError(`Course #${rule.requiredCourseId} not found`);
+    }
+    if (rule.type === "prerequisite" && (await requiresPrerequisite(storage, required.id, courseId))) {
+      throw new RequisiteError(`${required.code} already has this course as a prerequisite`);
+    }
+  }
+}
+
+// Whether fromCourseId needs targetCourseId first, directly or through other prerequisites
+async function requiresPrerequisite(storage: IStorage, fromCourseId: number, targetCourseId: number): Promise<boolean> {
+  const seen = new Set<number>();
+  const pending = [fromCourseId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    for (const rule of await storage.getCourseRequisites(id)) {
+      if (rule.type !== "prerequisite" || rule.requiredCourseId === null) continue;
+      if (rule.requiredCourseId === targetCourseId) return true;
+      pending.push(rule.requiredCourseId);
+    }
+  }
+  return false;
+}
+
+// Admins record overrides and consent for any course; instructors give consent for courses they teach
+export async function canGrantWaiver(
+  storage: IStorage,
+  viewer: Viewer,
+  kind: "consent" | "override",
+  courseId: number
+): Promise<boolean> {
+  if (kind === "override") return hasPermission(viewer.role, "requisites:override:any");
+  if (hasPermission(viewer.role, "requisites:consent:any")) return true;
+  if (!hasPermission(viewer.role, "requisites:consent:own-course") || !viewer.facultyId) return false;
+
+  const sections = await storage.getCourseAssignmentsByCourse(courseId);
+  return sections.some((section) => section.facultyId === viewer.facultyId);
+}
+
+// Replaces every rule of a course with the given ones
+export async function replaceRequisites(
+  storage: IStorage,
+  courseId: number,
+  rules: Omit<InsertCourseRequisite, "courseId">[]
+) {
+  for (const rule of await storage.getCourseRequisites(courseId)) {
+    await storage.deleteCourseRequisite(rule.id);
+  }
+  for (const rule of rules) {
+    await storage.createCourseRequisite({ ...rule, courseId });
+  }
+}
@@ -0,0 +1,388 @@
+import { after, before, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { createApiToken } from "./api-tokens";
+import { hashPassword } from "./passwords";
+import { versionTag } from "./concurrency";
+
+// The routes run against the in-memory storage and its sample data, on a port of their own
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// A browser: keeps the session cookie between requests
+class Client {
+  private cookie?: string;
+
+  constructor(private headers: Record<string, string> = {}) {}
+
+  async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...this.headers,
+        ...headers,
+        ...(this.cookie ? { cookie: this.cookie } : {}),
+        ...(body === undefined ? {} : { "content-type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    const text = await res.text();
+    return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : undefined };
+  }
+
+  login(username: string, password: string) {
+    return this.request("POST", "/api/auth/login", { username, password });
+  }
+}
+
+const signedIn = async (username: string, password: string) => {
+  const client = new Client();
+  assert.equal((await client.login(username, password)).status, 200);
+  return client;
+};
+
+describe("deactivated accounts", () => {
+  test("cannot sign in with their password once their student profile is deactivated", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const user = (await storage.getUserByUsername("james.rodriguez"))!;
+    const student = (await storage.getStudentByUserId(user.id))!;
+
+    const james = await signedIn("james.rodriguez", "student123");
+    const deactivated = await admin.request("PUT", `/api/students/${student.id}`, { status: "inactive", version: student.version });
+    assert.equal(deactivated.status, 200);
+
+    assert.equal((await james.request("GET", "/api/auth/session")).body.isAuthenticated, false);
+    const refused = await new Client().login("james.rodriguez", "student123");
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.code, "account_inactive");
+  });
+
+  test("cannot use an API token", async () => {
+    const user = (await storage.getUserByUsername("michael.johnson"))!;
+    const { token } = await createApiToken(storage, user.id, { name: "Script", scopes: ["read"], expiresInDays: null });
+
+    const res = await new Client({ authorization: `Bearer ${token}` }).request("GET", "/api/courses");
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, "account_inactive");
+  });
+
+  test("are saved even when their API tokens cannot be deleted", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const user = await storage.createUser({
+      username: "token.failure",
+      password: await hashPassword("Token-failure-1"),
+      email: "token.failure@college.edu",
+      role: "student",
+      name: "Token Failure",
+    });
+    const student = await storage.createStudent({ userId: user.id, studentId: "ROUTE-T1", program: "Testing", yearLevel: 1, status: "active" });
+    await createApiToken(storage, user.id, { name: "Script", scopes: ["read"], expiresInDays: null });
+
+    const failing = mock.method(storage, "deleteApiToken", async () => {
+      throw new Error("Storage unavailable");
+    });
+    const logged = mock.method(console, "error", () => {});
+    try {
+      const res = await admin.request("PUT", `/api/students/${student.id}`, { status: "inactive", version: student.version });
+      assert.equal(res.status, 200);
+      assert.equal(res.body.status, "inactive");
+    } finally {
+      failing.mock.restore();
+      logged.mock.restore();
+    }
+    assert.equal((await storage.getStudent(student.id))?.status, "inactive");
+    assert.match(String(logged.mock.calls[0]?.arguments[0]), /Could not delete the API tokens/);
+  });
+
+  test("lose their sessions and API tokens once their profile is moved to the trash", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const user = await storage.createUser({
+      username: "trashed.student",
+      password: await hashPassword("Trashed-student-1"),
+      email: "trashed.student@college.edu",
+      role: "student",
+      name: "Trashed Student",
+    });
+    const student = await storage.createStudent({ userId: user.id, studentId: "ROUTE-T2", program: "Testing", yearLevel: 1, status: "active" });
+    const { token } = await createApiToken(storage, user.id, { name: "Script", scopes: ["read"], expiresInDays: null });
+    const session = await signedIn("trashed.student", "Trashed-student-1");
+
+    const trashed = await admin.request("DELETE", `/api/students/${student.id}`);
+    assert.equal(trashed.status, 200);
+    assert.equal(trashed.body.accessRevoked, true);
+
+    assert.equal((await session.request("GET", "/api/auth/session")).body.isAuthenticated, false);
+    assert.equal((await new Client({ authorization: `Bearer ${token}` }).request("GET", "/api/courses")).status, 401);
+    const refused = await new Client().login("trashed.student", "Trashed-student-1");
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.code, "account_inactive");
+  });
+
+  test("leaves other accounts signing in", async () => {
+    assert.equal((await new Client().login("emma.wilson", "student123")).status, 200);
+  });
+});
+
+describe("API tokens", () => {
+  const tokenClient = async (scopes: ("read" | "write")[]) => {
+    const user = (await storage.getUserByUsername("professor.smith"))!;
+    const { token } = await createApiToken(storage, user.id, { name: "Script", scopes, expiresInDays: null });
+    return new Client({ authorization: `Bearer ${token}` });
+  };
+
+  test("are held to their scopes", async () => {
+    const reader = await tokenClient(["read"]);
+    assert.equal((await reader.request("GET", "/api/courses")).status, 200);
+    const write = await reader.request("POST", "/api/courses", { code: "TOKEN01", title: "Token", credits: 3, department: "Testing" });
+    assert.equal(write.status, 403);
+    assert.equal(write.body.code, "api_token_scope");
+
+    const writer = await tokenClient(["write"]);
+    assert.equal((await writer.request("GET", "/api/courses")).body.code, "api_token_scope");
+  });
+
+  test("cannot manage tokens", async () => {
+    const client = await tokenClient(["read", "write"]);
+    const res = await client.request("POST", "/api/auth/tokens", { name: "Another", scopes: ["read"], expiresInDays: null });
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, "api_token_forbidden");
+  });
+
+  test("stop working once revoked", async () => {
+    const owner = await signedIn("professor.smith", "faculty123");
+    const created = await owner.request("POST", "/api/auth/tokens", { name: "Revoked", scopes: ["read"], expiresInDays: null });
+    const client = new Client({ authorization: `Bearer ${created.body.token}` });
+    assert.equal((await client.request("GET", "/api/courses")).status, 200);
+
+    assert.equal((await owner.request("DELETE", `/api/auth/tokens/${created.body.id}`)).status, 200);
+    assert.equal((await client.request("GET", "/api/courses")).status, 401);
+  });
+});
+
+describe("role changes", () => {
+  test("sign a demoted admin out of their sessions", async () => {
+    const demoted = await storage.createUser({
+      username: "demoted.admin",
+      password: await hashPassword("Demoted-admin-1"),
+      email: "demoted.admin@college.edu",
+      role: "admin",
+      name: "Demoted Admin",
+    });
+    const admin = await signedIn("admin", "admin123");
+    const session = await signedIn("demoted.admin", "Demoted-admin-1");
+    assert.equal((await session.request("GET", "/api/users")).status, 200);
+
+    const res = await admin.request("PUT", `/api/users/${demoted.id}`, { role: "faculty", version: demoted.version });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.sessionsRevoked, true);
+
+    assert.equal((await session.request("GET", "/api/users")).status, 401);
+  });
+});
+
+describe("faculty enrollments", () => {
+  test("narrow to one instructor's sections for those who can read any enrollment", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const smith = (await storage.getFacultyByUserId((await storage.getUserByUsername("professor.smith"))!.id))!;
+    const sections = new Set((await storage.getCourseAssignmentsByFaculty(smith.id)).map((section) => section.id));
+
+    const taught = await admin.request("GET", `/api/faculty/enrollments?facultyId=${smith.id}`);
+    assert.equal(taught.status, 200);
+    assert.ok(taught.body.length > 0);
+    assert.ok(taught.body.every((enrollment: { courseAssignmentId: number }) => sections.has(enrollment.courseAssignmentId)));
+  });
+
+  test("refuse an instructor id that is not a number, and one that does not exist", async () => {
+    const admin = await signedIn("admin", "admin123");
+
+    assert.equal((await admin.request("GET", "/api/faculty/enrollments?facultyId=abc")).status, 400);
+    assert.equal((await admin.request("GET", "/api/faculty/enrollments?facultyId=1.5")).status, 400);
+    assert.equal((await admin.request("GET", "/api/faculty/enrollments?facultyId=99999")).status, 404);
+  });
+});
+
+describe("registration", () => {
+  test("lists the term's sections by course code, and refuses a term that does not exist", async () => {
+    const emma = await signedIn("emma.wilson", "student123");
+
+    const listed = await emma.request("GET", "/api/registration");
+    assert.equal(listed.status, 200);
+    const codes = listed.body.sections.map((section: { course: { code: string } }) => section.course.code);
+    assert.ok(codes.length > 1);
+    assert.deepEqual(codes, [...codes].sort((a, b) => a.localeCompare(b)));
+
+    const missing = await emma.request("GET", "/api/registration?termId=99999");
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.message, "Term not found");
+  });
+});
+
+describe("edit conflicts", () => {
+  test("refuse an edit based on an old copy with 409 and the current copy", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const course = await storage.createCourse({ code: "CONF101", title: "Conflicts", credits: 3, department: "Testing" });
+
+    const first = await admin.request("PUT", `/api/courses/${course.id}`, { title: "First edit" }, { "If-Match": versionTag(course.version) });
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get("etag"), versionTag(course.version + 1));
+
+    const stale = await admin.request("PUT", `/api/courses/${course.id}`, { title: "Stale edit" }, { "If-Match": versionTag(course.version) });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.code, "version_conflict");
+    assert.equal(stale.body.current.title, "First edit");
+    assert.equal(stale.body.current.version, course.version + 1);
+    assert.equal((await storage.getCourse(course.id))?.title, "First edit");
+
+    const retried = await admin.request("PUT", `/api/courses/${course.id}`, { title: "Merged edit", version: stale.body.current.version });
+    assert.equal(retried.status, 200);
+    assert.equal(retried.body.title, "Merged edit");
+  });
+
+  test("are still answered with 409 when the current copy cannot be read", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const course = await storage.createCourse({ code: "CONF102", title: "Conflicts", credits: 3, department: "Testing" });
+    await storage.updateCourse(course.id, { title: "Changed elsewhere" });
+
+    // The route and the audit log read the course before updating it; the read after the conflict fails
+    const getCourse = storage.getCourse.bind(storage);
+    let reads = 0;
+    const failing = mock.method(storage, "getCourse", async (id: number) => {
+      if (++reads > 2) throw new Error("Storage unavailable");
+      return getCourse(id);
+    });
+    const logged = mock.method(console, "error", () => {});
+    try {
+      const stale = await admin.request("PUT", `/api/courses/${course.id}`, { title: "Stale edit" }, { "If-Match": versionTag(course.version) });
+      assert.equal(stale.status, 409);
+      assert.equal(stale.body.code, "version_conflict");
+      assert.equal(stale.body.current, undefined);
+    } finally {
+      failing.mock.restore();
+      logged.mock.restore();
+    }
+    assert.match(String(logged.mock.calls[0]?.arguments[0]), /Could not load the current copy/);
+  });
+
+  test("refuse an edit that names no version with 428, on every kind of update", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const course = await storage.createCourse({ code: "CONF103", title: "Unversioned", credits: 3, department: "Testing" });
+    const emma = (await storage.getUserByUsername("emma.wilson"))!;
+    const student = (await storage.getStudentByUserId(emma.id))!;
+
+    for (const [path, body] of [
+      [`/api/courses/${course.id}`, { title: "Blind edit" }],
+      [`/api/courses/${course.id}/requisites`, { rules: [] }],
+      [`/api/students/${student.id}`, { yearLevel: 4 }],
+      [`/api/users/${emma.id}`, { name: "Blind Edit" }],
+    ] as const) {
+      const res = await admin.request("PUT", path, body);
+      assert.equal(res.status, 428, path);
+      assert.equal(res.body.code, "version_required");
+    }
+    assert.equal((await storage.getCourse(course.id))?.title, "Unversioned");
+    assert.equal((await storage.getStudent(student.id))?.yearLevel, student.yearLevel);
+    assert.equal((await storage.getUser(emma.id))?.name, emma.name);
+
+    const unconditional = await admin.request("PUT", `/api/courses/${course.id}`, { title: "Any version" }, { "If-Match": "*" });
+    assert.equal(unconditional.status, 200);
+  });
+
+  test("move the course's version on when its requisites are replaced", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const course = await storage.createCourse({ code: "CONF104", title: "Requisites", credits: 3, department: "Testing" });
+
+    const replaced = await admin.request("PUT", `/api/courses/${course.id}/requisites`, { rules: [] }, { "If-Match": versionTag(course.version) });
+    assert.equal(replaced.status, 200);
+    assert.equal(replaced.headers.get("etag"), versionTag(course.version + 1));
+
+    const stale = await admin.request("PUT", `/api/courses/${course.id}/requisites`, { rules: [], version: course.version });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.current.version, course.version + 1);
+  });
+
+  test("return accounts in the conflict without their secrets", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const user = (await storage.getUserByUsername("emma.wilson"))!;
+
+    const stale = await admin.request("PUT", `/api/users/${user.id}`, { name: user.name }, { "If-Match": versionTag(user.version - 1) });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.current.username, "emma.wilson");
+    assert.equal(stale.body.current.version, user.version);
+    assert.equal("password" in stale.body.current, false);
+  });
+});
+
+describe("past terms", () => {
+  const fixture = {} as { student: number; section: number; enrollment: number; grade: number };
+
+  before(async () => {
+    const term = await storage.createTerm({
+      name: "Spring 2001",
+      startDate: new Date(2001, 0, 8),
+      endDate: new Date(2001, 4, 4),
+      addDropDeadline: new Date(2001, 0, 22),
+      gradesDueDate: new Date(2001, 4, 18),
+      isCurrent: false,
+    });
+    const course = await storage.createCourse({ code: "HIST001", title: "Past Term Testing", credits: 3, department: "Testing" });
+    const teacher = await storage.getFacultyByUserId((await storage.getUserByUsername("professor.smith"))!.id);
+    fixture.student = (await storage.getStudentByUserId((await storage.getUserByUsername("emma.wilson"))!.id))!.id;
+    fixture.section = (await storage.createCourseAssignment({ courseId: course.id, facultyId: teacher!.id, termId: term.id })).id;
+  });
+
+  test("take completed enrollments but not new places after the add/drop deadline", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const enroll = (status: string) =>
+      admin.request("POST", "/api/enrollments", { studentId: fixture.student, courseAssignmentId: fixture.section, status });
+
+    const closed = await enroll("enrolled");
+    assert.equal(closed.status, 400);
+    assert.match(closed.body.message, /add\/drop deadline/);
+
+    const completed = await enroll("completed");
+    assert.equal(completed.status, 201);
+    assert.equal(completed.body.status, "completed");
+    fixture.enrollment = completed.body.id;
+  });
+
+  test("take grades after the due date only from grades:write:any holders giving a reason", async () => {
+    const admin = await signedIn("admin", "admin123");
+    const teacher = await signedIn("professor.smith", "faculty123");
+    const grade = { enrollmentId: fixture.enrollment, assignmentName: "Final", score: 80, maxScore: 100, weight: 100, date: "2001-05-01" };
+
+    const closed = await teacher.request("POST", "/api/grades", grade);
+    assert.equal(closed.status, 400);
+    assert.match(closed.body.message, /Grade entry for Spring 2001 closed/);
+    assert.equal((await teacher.request("POST", "/api/grades", { ...grade, overrideReason: "Late exam" })).status, 403);
+    assert.match((await admin.request("POST", "/api/grades", grade)).body.message, /Grade entry for Spring 2001 closed/);
+
+    const created = await admin.request("POST", "/api/grades", { ...grade, overrideReason: "Late exam" });
+    assert.equal(created.status, 201);
+    fixture.grade = created.body.id;
+
+    const corrected = await admin.request("PUT", `/api/grades/${fixture.grade}`, { score: 85, overrideReason: "Regraded", version: created.body.version });
+    assert.equal(corrected.status, 200);
+    assert.equal(corrected.body.score, 85);
+
+    const overrides = (await storage.getAuditEntries({ entityType: "grade", entityId: String(fixture.grade), limit: 10, offset: 0 }))
+      .filter((entry) => entry.action === "override");
+    assert.deepEqual(overrides.map((entry) => entry.changes.reason.to).sort(), ["Late exam", "Regraded"]);
+    assert.ok(overrides.every((entry) => entry.actorName === "admin"));
+  });
+});
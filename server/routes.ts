@@ -1,10 +1,33 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { loginSchema, insertUserSchema, insertStudentSchema, insertFacultySchema, insertCourseSchema, insertCourseAssignmentSchema, insertEnrollmentSchema, insertAttendanceSchema, insertGradeSchema, insertEventSchema } from "@shared/schema";
+import { loginSchema, insertUserSchema, insertStudentSchema, insertFacultySchema, insertCourseSchema, insertTermSchema, createCourseAssignmentSchema, createEnrollmentSchema, registrationSchema, registrationSettingsSchema, sectionCapacitySchema, sectionMeetingsUpdateSchema, insertRoomSchema, timetableQuerySchema, facultyEnrollmentsQuerySchema, courseRequisitesUpdateSchema, createRequisiteWaiverSchema, insertAttendanceSchema, createGradeSchema, updateGradeSchema, updateStudentSchema, updateFacultySchema, updateCourseSchema, updateEnrollmentSchema, updateAttendanceSchema, updateEventSchema, insertEventSchema, createStudentWithUserSchema, createFacultyWithUserSchema, bulkAttendanceSchema, bulkGradeSchema, changePasswordSchema, twoFactorLoginSchema, twoFactorCodeSchema, twoFactorDisableSchema, twoFactorPolicySchema, passwordResetRequestSchema, passwordResetSchema, createApiTokenSchema, auditQuerySchema, insertGradeScaleSchema, type CourseAssignment, type Enrollment, type Faculty, type Student, type User } from "@shared/schema";
 import session from "express-session";
-import MemoryStore from "memorystore";
 import { z } from "zod";
+import { IntegrityError } from "./integrity";
+import { VersionConflictError, VersionRequiredError, expectedVersion, updateIfCurrent, versionTag } from "./concurrency";
+import { RequisiteError, UnmetRequisitesError, canGrantWaiver, checkRequisites, describeRequisites, replaceRequisites, unmetRequisites, validateRequisites } from "./requisites";
+import { SectionFullError, WaitlistError, checkSeatAvailable, fillSection, notifyPromoted, placeEnrollment, sectionSeats } from "./waitlists";
+import { ScheduleConflictError, ScheduleError, checkRoomCapacity, checkRoomSeats, checkSectionSchedule, checkStudentSchedule, describeMeetings, replaceMeetings, timetableEntries, timetableTerm, validateMeetings } from "./schedules";
+import { TermError, checkAddDropWindow, checkAttendanceDate, checkGradeEntry, clearOtherCurrentTerms, isAddDropOpen, validateTermDates } from "./terms";
+import { GradeScaleError, academicRecord, checkScalePrograms, clearOtherDefaultScales, sortBands, validateGradeScale } from "./grading";
+import { RegistrationError, checkNotInSection, checkRegistration, getMaxCredits, isOpenForRegistration, registeredCredits, registrationsInTerm, setMaxCredits } from "./registration";
+import { TrashError, isTrashable, listTrash, moveToTrash, purgeFromTrash, restoreFromTrash } from "./trash";
+import { resolveViewer, canSignIn, publicUser, editableUser, visibleCourseAssignments, visibleEnrollments, taughtEnrollments, enrichCourseAssignment, enrichEnrollment, enrichEnrollmentRecord } from "./records";
+import { authorize, authorizeMove, can, filterVisible, type Action, type Resource } from "./policy";
+import { checkPasswordPolicy, hasLocalPassword, hashPassword, verifyPassword } from "./passwords";
+import { ROLES, hasAnyPermission, hasPermission, type Permission } from "@shared/permissions";
+import { LoginThrottle, type LoginRefusal } from "./login-throttle";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import { SessionRegistry, sessionExpired, sessionExpiresAt, startSessionMeta, touchSession } from "./sessions";
+import { createSessionStore, sessionConfig } from "./session-store";
+import { createMailer, mailConfig } from "./mail";
+import { completePasswordReset, findResetToken, requestPasswordReset } from "./password-reset";
+import { auditRequests, recordOverride } from "./audit";
+import { authenticateApiToken, bearerToken, createApiToken, publicApiToken, revokeApiTokens, scopesAllow } from "./api-tokens";
+import { OidcClient, OidcLoginError, oidcConfig, oidcEnabled, resolveOidcUser, type OidcLoginState } from "./oidc";
+import { ImpersonationLog, endImpersonation, impersonationExpired, startImpersonation } from "./impersonation";
+import { TWO_FACTOR_ISSUER, getTwoFactorRequiredRoles, issueRecoveryCodes, setTwoFactorRequiredRoles, verifySecondFactor } from "./two-factor";
 
 declare module "express-session" {
   interface SessionData {
@@ -13,6 +36,33 @@ declare module "express-session" {
       username: string;
       role: string;
       name: string;
+      // Set when the user's role requires two-factor authentication and they have not enrolled yet
+      twoFactorEnrollmentRequired?: boolean;
+    };
+    // When and from where the user signed in on this session, shown in the session list
+    meta?: {
+      createdAt: number;
+      lastSeenAt: number;
+      ip: string;
+      userAgent: string | null;
+    };
+    // Set while an admin views the app as another user; holds the admin's own sign-in
+    impersonator?: {
+      user: SessionData["user"];
+      startedAt: number;
+      expiresAt: number;
+    };
+    // Set on the throwaway session of a request authenticated with an API token
+    apiToken?: {
+      id: number;
+      scopes: string[];
+    };
+    // Single sign-on in progress: sent to the identity provider, waiting for the callback
+    oidcLogin?: OidcLoginState;
+    // Password accepted, waiting for the second factor
+    pendingTwoFactor?: {
+      userId: number;
+      expiresAt: number;
     };
   }
 }
@@ -20,65 +70,321 @@ declare module "express-session" {
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
-  // Setup session middleware
-  const MemoryStoreInstance = MemoryStore(session);
-  app.use(session({
+  // Setup session middleware; the cookie expiry slides forward with every request (rolling)
+  const sessionStore = createSessionStore();
+  const sessionMiddleware = session({
     secret: process.env.SESSION_SECRET || "college-management-secret",
     resave: false,
     saveUninitialized: false,
-    cookie: { secure: process.env.NODE_ENV === "production", maxAge: 24 * 60 * 60 * 1000 }, // 24 hours
-    store: new MemoryStoreInstance({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    })
-  }));
-
-  // Middleware to check authentication
-  const requireAuth = (req: Request, res: Response, next: any) => {
+    rolling: true,
+    cookie: { secure: process.env.NODE_ENV === "production", maxAge: sessionConfig.idleTimeoutMs },
+    store: sessionStore
+  });
+
+  // Requests with an API token are stateless: they get a session that lives for the request only
+  // and is never stored, which requireAuth fills in from the token
+  app.use((req, res, next) => {
+    if (!bearerToken(req)) {
+      return sessionMiddleware(req, res, next);
+    }
+    // The Session constructor is public at runtime but declared private in the typings
+    const TransientSession = session.Session as unknown as new (req: Request) => Request["session"];
+    req.session = new TransientSession(req);
+    next();
+  });
+
+  const sessions = new SessionRegistry(sessionStore);
+
+  // Signs a user out everywhere after a change that has already been saved. Failures are logged and
+  // returned as false instead of thrown, so the caller never answers that the saved change failed.
+  const revokeSessionsAfterChange = async (userId: number, keepSessionId?: string): Promise<boolean> => {
+    try {
+      await sessions.revokeAll(userId, keepSessionId);
+      return true;
+    } catch (error) {
+      console.error(`Could not end the sessions of user ${userId}:`, error);
+      return false;
+    }
+  };
+
+  // Signs a user out everywhere and deletes their API tokens, e.g. once their profile is deactivated.
+  // As with revokeSessionsAfterChange, failures are logged and returned as false instead of thrown.
+  const revokeAccessAfterChange = async (userId: number): Promise<boolean> => {
+    const sessionsRevoked = await revokeSessionsAfterChange(userId);
+    try {
+      await revokeApiTokens(storage, userId);
+      return sessionsRevoked;
+    } catch (error) {
+      console.error(`Could not delete the API tokens of user ${userId}:`, error);
+      return false;
+    }
+  };
+  const impersonationLog = new ImpersonationLog(storage);
+
+  // Starts a fresh, signed-out session once the absolute timeout has passed
+  app.use((req, _res, next) => {
+    if (sessionExpired(req, sessionConfig)) {
+      return req.session.regenerate(next);
+    }
+    touchSession(req, sessionConfig);
+    next();
+  });
+
+  // Ends impersonation once its time is up, and tags every change made while impersonating
+  // with both the admin's and the impersonated user's identity
+  app.use(async (req, res, next) => {
+    if (impersonationExpired(req)) {
+      await impersonationLog.recordFor(req, "expired");
+      endImpersonation(req);
+    }
+
+    if (req.session.impersonator && !["GET", "HEAD", "OPTIONS"].includes(req.method)) {
+      const { method, originalUrl } = req;
+      res.on("finish", () => {
+        void impersonationLog.recordFor(req, "action", { method, path: originalUrl, status: res.statusCode });
+      });
+    }
+    next();
+  });
+
+  // Attributes every change made while handling a request to the request's user in the audit log
+  app.use(auditRequests);
+
+  // Middleware for account and credential changes, which an impersonating admin must not make
+  const forbidWhileImpersonating = (req: Request, res: Response, next: any) => {
+    if (req.session.impersonator) {
+      return res.status(403).json({
+        message: "Not available while viewing as another user",
+        code: "impersonation_forbidden"
+      });
+    }
+    next();
+  };
+
+  // Middleware for credential management, which needs a signed-in browser session rather than an API token
+  const forbidApiTokens = (req: Request, res: Response, next: any) => {
+    if (bearerToken(req)) {
+      return res.status(403).json({
+        message: "Not available with an API token",
+        code: "api_token_forbidden"
+      });
+    }
+    next();
+  };
+
+  // Middleware to check authentication, letting through users who still have to enroll in two-factor
+  const requireSession = (req: Request, res: Response, next: any) => {
+    if (!req.session.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    next();
+  };
+
+  // Signs the request in with its "Authorization: Bearer" API token, limited to the token's scopes
+  const authenticateBearer = async (req: Request, res: Response, token: string) => {
+    const found = await authenticateApiToken(storage, token);
+    if (!found) {
+      res.status(401).json({ message: "Invalid or expired API token" });
+      return false;
+    }
+    if (!scopesAllow(found.apiToken.scopes, req.method)) {
+      res.status(403).json({ message: "API token does not have the required scope", code: "api_token_scope" });
+      return false;
+    }
+    if (!(await canSignIn(storage, found.user))) {
+      res.status(403).json({ message: "This account has been deactivated", code: "account_inactive" });
+      return false;
+    }
+
+    const requiredRoles = await getTwoFactorRequiredRoles(storage);
+    req.session.apiToken = { id: found.apiToken.id, scopes: found.apiToken.scopes };
+    req.session.user = {
+      id: found.user.id,
+      username: found.user.username,
+      role: found.user.role,
+      name: found.user.name,
+      twoFactorEnrollmentRequired: !found.user.twoFactorEnabled && requiredRoles.includes(found.user.role)
+    };
+    return true;
+  };
+
+  // Middleware to check authentication, by session cookie or API token. Users whose role requires
+  // two-factor authentication only reach the enrollment endpoints (which use requireSession) until
+  // they have enrolled.
+  const requireAuth = async (req: Request, res: Response, next: any) => {
+    const token = bearerToken(req);
+    if (token) {
+      try {
+        if (!(await authenticateBearer(req, res, token))) return;
+      } catch (error) {
+        return res.status(500).json({ message: "Failed to check API token" });
+      }
+    }
+
     if (!req.session.user) {
       return res.status(401).json({ message: "Authentication required" });
     }
+    if (req.session.user.twoFactorEnrollmentRequired) {
+      return res.status(403).json({
+        message: "Two-factor authentication must be set up before continuing",
+        code: "two_factor_enrollment_required"
+      });
+    }
     next();
   };
 
-  // Middleware to check role
-  const requireRole = (roles: string[]) => {
+  // Middleware to check the caller's role grants at least one of the permissions
+  const requirePermission = (...permissions: Permission[]) => {
     return (req: Request, res: Response, next: any) => {
       if (!req.session.user) {
         return res.status(401).json({ message: "Authentication required" });
       }
-      if (!roles.includes(req.session.user.role)) {
+      if (!hasAnyPermission(req.session.user.role, permissions)) {
         return res.status(403).json({ message: "Access denied" });
       }
       next();
     };
   };
 
+  // Middleware to check row-level access to the record named by a route parameter.
+  // Missing records are passed through so the handler can answer 404.
+  const requireAccess = (action: Action, resource: Resource, param = "id") => {
+    return async (req: Request, res: Response, next: any) => {
+      if (!req.session.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      try {
+        const viewer = await resolveViewer(storage, req.session.user);
+        const result = await authorize(storage, viewer, action, resource, parseInt(req.params[param]));
+        if (result === "denied") {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        next();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to check access" });
+      }
+    };
+  };
+
+  // Checks that the viewer may record attendance or grades against every given enrollment
+  const canManageEnrollments = async (req: Request, enrollmentIds: number[]) => {
+    const viewer = await resolveViewer(storage, req.session.user!);
+    for (const enrollmentId of Array.from(new Set(enrollmentIds))) {
+      if ((await authorize(storage, viewer, "manage", "enrollment", enrollmentId)) === "denied") {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Answers an update refused by its version check with the record as it is now, so the client
+  // can show what changed and merge or reload. The conflict stands even when the record cannot be
+  // read again; the answer then goes without it.
+  const sendVersionConflict = async (res: Response, error: VersionConflictError, load: () => Promise<unknown>) => {
+    let current: unknown;
+    try {
+      current = await load();
+    } catch (loadError) {
+      console.error("Could not load the current copy after a version conflict:", loadError);
+    }
+    res.status(error.status).json({ message: error.message, code: error.code, current });
+  };
+
+  const loginThrottle = new LoginThrottle();
+  const mailer = createMailer();
+
+  // Answers a sign-in refused by the throttle: 423 for a locked account, 429 otherwise
+  const sendLoginRefusal = (res: Response, refusal: LoginRefusal) => {
+    const retryAfter = Math.ceil(refusal.retryAfterMs / 1000);
+    res.setHeader("Retry-After", String(retryAfter));
+
+    if (refusal.reason === "account_locked") {
+      return res.status(423).json({
+        message: "This account is temporarily locked after too many failed sign-in attempts. Try again later or contact an administrator.",
+        lockedUntil: refusal.lockedUntil,
+        retryAfter
+      });
+    }
+    res.status(429).json({
+      message: `Too many failed sign-in attempts. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`,
+      retryAfter
+    });
+  };
+
+  // How long the second sign-in step may take after the password was accepted
+  const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
+  // Signs the user in on a new session id, so an id handed out before sign-in (possibly planted by
+  // someone else) never becomes a signed-in one. Nothing carries over: the pending single sign-on
+  // and second-factor state are used up by the time the user signs in.
+  const startUserSession = async (req: Request, user: User, twoFactorEnrollmentRequired: boolean) => {
+    await new Promise<void>((resolve, reject) => req.session.regenerate((err) => (err ? reject(err) : resolve())));
+    startSessionMeta(req);
+    req.session.user = {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      name: user.name,
+      twoFactorEnrollmentRequired
+    };
+  };
+
+  // Signs the user in on this session and answers with their profile
+  const completeLogin = async (req: Request, res: Response, user: User) => {
+    const requiredRoles = await getTwoFactorRequiredRoles(storage);
+    const twoFactorEnrollmentRequired = !user.twoFactorEnabled && requiredRoles.includes(user.role);
+
+    await startUserSession(req, user, twoFactorEnrollmentRequired);
+
+    res.json({
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      profileImage: user.profileImage,
+      twoFactorEnabled: user.twoFactorEnabled,
+      twoFactorEnrollmentRequired
+    });
+  };
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
       const credentials = loginSchema.parse(req.body);
+      const ip = req.ip || req.socket.remoteAddress || "unknown";
+
+      const refusal = loginThrottle.check(credentials.username, ip);
+      if (refusal) {
+        return sendLoginRefusal(res, refusal);
+      }
+
       const user = await storage.getUserByCredentials(credentials);
 
-      if (!user) {
+      // Accounts in the trash cannot sign in
+      if (!user || user.deletedAt) {
+        const lockout = loginThrottle.recordFailure(credentials.username, ip);
+        if (lockout) {
+          return sendLoginRefusal(res, lockout);
+        }
         return res.status(401).json({ message: "Invalid username or password" });
       }
 
-      // Store user in session
-      req.session.user = {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-        name: user.name
-      };
+      // Deactivated students and faculty keep their password but may not use it
+      if (!(await canSignIn(storage, user))) {
+        return res.status(403).json({ message: "This account has been deactivated", code: "account_inactive" });
+      }
 
-      res.json({
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        profileImage: user.profileImage
-      });
+      // Failures are only cleared once the second factor is in as well, so guessing codes
+      // after a correct password still counts towards the lockout
+      if (user.twoFactorEnabled) {
+        delete req.session.user;
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+        return res.json({ twoFactorRequired: true });
+      }
+
+      loginThrottle.recordSuccess(credentials.username);
+      await completeLogin(req, res, user);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -87,703 +393,2471 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Logout failed" });
-      }
-      res.json({ message: "Logged out successfully" });
-    });
+  // Single sign-on through the campus identity provider (OpenID Connect authorization code flow)
+  const oidc = new OidcClient(oidcConfig);
+  const oidcRedirectUri = (req: Request) =>
+    oidcConfig.redirectUri || `${process.env.APP_URL || `${req.protocol}://${req.get("host")}`}/api/auth/oidc/callback`;
+
+  app.get("/api/auth/oidc", (req, res) => {
+    res.json({ enabled: oidcEnabled(), providerName: oidcConfig.providerName });
   });
 
-  app.get("/api/auth/session", (req, res) => {
-    if (req.session.user) {
-      return res.json({ 
-        isAuthenticated: true, 
-        user: req.session.user 
-      });
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    if (!oidcEnabled()) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
     }
-    res.json({ isAuthenticated: false });
-  });
 
-  // User routes
-  app.get("/api/users", requireAuth, requireRole(["admin"]), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users.map(u => ({
-        id: u.id,
-        username: u.username,
-        email: u.email,
-        name: u.name,
-        role: u.role,
-        profileImage: u.profileImage
-      })));
+      const { url, login } = await oidc.authorizationUrl(oidcRedirectUri(req));
+      req.session.oidcLogin = login;
+      res.redirect(url);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve users" });
+      console.error("Single sign-on could not start:", error);
+      res.redirect("/login?sso_error=provider_error");
     }
   });
 
-  app.get("/api/users/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const user = await storage.getUser(id);
+  // The provider sends the browser back here. Failures go back to the login page with a reason code.
+  // Multi-factor checks are the provider's job, so local two-factor settings do not apply here.
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    if (!oidcEnabled()) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
+    }
 
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+    const login = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+    const fail = (code: string) => res.redirect(`/login?sso_error=${encodeURIComponent(code)}`);
+
+    try {
+      if (typeof req.query.error === "string") {
+        return fail("denied");
+      }
+      if (!login || login.expiresAt < Date.now() || req.query.state !== login.state) {
+        return fail("expired");
+      }
+      if (typeof req.query.code !== "string") {
+        return fail("invalid_response");
       }
 
-      // Only allow admins to view other users, or users to view themselves
-      if (req.session.user.role !== "admin" && req.session.user.id !== id) {
-        return res.status(403).json({ message: "Access denied" });
+      const claims = await oidc.completeLogin(req.query.code, login, oidcRedirectUri(req));
+      const { user, roleChanged } = await resolveOidcUser(storage, claims);
+      // Other sessions still carry the old role
+      if (roleChanged) {
+        await revokeSessionsAfterChange(user.id);
       }
 
-      res.json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        profileImage: user.profileImage
-      });
+      await startUserSession(req, user, false);
+      res.redirect("/dashboard");
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve user" });
+      if (error instanceof OidcLoginError) {
+        console.warn(`Single sign-on refused: ${error.message}`);
+        return fail(error.code);
+      }
+      console.error("Single sign-on failed:", error);
+      fail("server_error");
     }
   });
 
-  app.post("/api/users", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Second sign-in step for users with two-factor authentication
+  app.post("/api/auth/login/verify", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(userData.username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign-in expired, please enter your password again", code: "two_factor_expired" });
       }
 
-      const user = await storage.createUser(userData);
-      
-      res.status(201).json({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        profileImage: user.profileImage
-      });
+      const proof = twoFactorLoginSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || !(await canSignIn(storage, user))) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign-in expired, please enter your password again", code: "two_factor_expired" });
+      }
+
+      const ip = req.ip || req.socket.remoteAddress || "unknown";
+      const refusal = loginThrottle.check(user.username, ip);
+      if (refusal) {
+        return sendLoginRefusal(res, refusal);
+      }
+
+      if (!(await verifySecondFactor(storage, user, proof))) {
+        const lockout = loginThrottle.recordFailure(user.username, ip);
+        if (lockout) {
+          delete req.session.pendingTwoFactor;
+          return sendLoginRefusal(res, lockout);
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      loginThrottle.recordSuccess(user.username);
+      await completeLogin(req, res, (await storage.getUser(user.id)) ?? user);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Login failed" });
     }
   });
 
-  app.put("/api/users/:id", requireAuth, async (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+    await impersonationLog.recordFor(req, "ended");
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Logout failed" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  // Current sign-in lockouts and the recent lock/unlock history
+  app.get("/api/auth/lockouts", requireAuth, requirePermission("users:read:any"), (req, res) => {
+    res.json({
+      active: loginThrottle.activeLockouts(),
+      events: loginThrottle.lockoutEvents()
+    });
+  });
+
+  // "Forgot password": always answers the same way so it does not reveal which emails have accounts
+  app.post("/api/auth/password-reset/request", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const user = await storage.getUser(id);
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      // Links point at APP_URL when set; the request's own host is only trusted as a fallback
+      const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
 
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      await requestPasswordReset(storage, mailer, email, baseUrl);
 
-      // Only allow admins to update other users, or users to update themselves
-      if (req.session.user.role !== "admin" && req.session.user.id !== id) {
-        return res.status(403).json({ message: "Access denied" });
+      res.json({ message: "If an account uses that email address, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
 
-      // If changing username, check if it already exists
-      if (req.body.username && req.body.username !== user.username) {
-        const existingUser = await storage.getUserByUsername(req.body.username);
-        if (existingUser && existingUser.id !== id) {
-          return res.status(400).json({ message: "Username already exists" });
-        }
-      }
+  // Lets the reset page check a link before asking for the new password
+  app.get("/api/auth/password-reset", async (req, res) => {
+    try {
+      const found = typeof req.query.token === "string" ? await findResetToken(storage, req.query.token) : null;
 
-      // Don't allow role change unless admin
-      if (req.body.role && req.body.role !== user.role && req.session.user.role !== "admin") {
-        return res.status(403).json({ message: "Cannot change role" });
+      if (!found) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
       }
 
-      const updatedUser = await storage.updateUser(id, req.body);
+      res.json({ username: found.user.username, expiresAt: found.token.expiresAt });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check reset link" });
+    }
+  });
 
-      if (!updatedUser) {
-        return res.status(500).json({ message: "Failed to update user" });
+  app.post("/api/auth/password-reset", async (req, res) => {
+    try {
+      const { token, newPassword } = passwordResetSchema.parse(req.body);
+      const found = await findResetToken(storage, token);
+
+      if (!found) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const passwordProblems = checkPasswordPolicy(newPassword, { username: found.user.username });
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the password policy", errors: passwordProblems });
       }
 
+      await completePasswordReset(storage, found.token, await hashPassword(newPassword));
+      // Whoever held the old password is signed out, and a lockout no longer applies
+      const sessionsRevoked = await revokeSessionsAfterChange(found.user.id);
+      loginThrottle.unlock(found.user.username, "password reset");
+
       res.json({
-        id: updatedUser.id,
-        username: updatedUser.username,
-        email: updatedUser.email,
-        name: updatedUser.name,
-        role: updatedUser.role,
-        profileImage: updatedUser.profileImage
+        message: sessionsRevoked
+          ? "Password has been reset. You can now log in."
+          : "Password has been reset, but existing sessions could not be signed out. You can now log in.",
+        sessionsRevoked
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
     }
   });
 
-  app.delete("/api/users/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      
-      // Don't allow deleting yourself
-      if (req.session.user.id === id) {
-        return res.status(400).json({ message: "Cannot delete your own account" });
+  // Development mail viewer. It needs no login, so it is only served when MAIL_OUTBOX_VIEWER is
+  // turned on explicitly (the dev script does) and mail goes to the local outbox.
+  if (mailer.outbox && mailConfig.outboxViewer) {
+    const outbox = mailer.outbox;
+
+    app.get("/api/dev/mail", async (req, res) => {
+      try {
+        res.json(await outbox.list());
+      } catch (error) {
+        res.status(500).json({ message: "Failed to read outbox" });
       }
+    });
 
-      const deleted = await storage.deleteUser(id);
+    app.get("/api/dev/mail/:id", async (req, res) => {
+      try {
+        const mail = await outbox.get(req.params.id);
 
-      if (!deleted) {
-        return res.status(404).json({ message: "User not found" });
+        if (!mail) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+
+        res.json(mail);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to read outbox" });
       }
+    });
+  }
 
-      res.json({ message: "User deleted successfully" });
+  // Sessions of the signed-in user, most recently active first
+  app.get("/api/auth/sessions", requireSession, async (req, res) => {
+    try {
+      res.json(await sessions.list(req.session.user!.id, req.sessionID));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete user" });
+      res.status(500).json({ message: "Failed to retrieve sessions" });
     }
   });
 
-  // Student routes
-  app.get("/api/students", requireAuth, async (req, res) => {
+  // Signs out every other session of the signed-in user
+  app.delete("/api/auth/sessions", requireSession, forbidWhileImpersonating, async (req, res) => {
     try {
-      const students = await storage.getAllStudents();
-      
-      // Fetch user data for each student
-      const studentsWithDetails = await Promise.all(
-        students.map(async (student) => {
-          const user = await storage.getUser(student.userId);
-          return {
-            ...student,
-            user: user ? {
-              id: user.id,
-              username: user.username,
-              email: user.email,
-              name: user.name,
-              profileImage: user.profileImage
-            } : null
-          };
-        })
-      );
-      
-      res.json(studentsWithDetails);
+      const revoked = await sessions.revokeAll(req.session.user!.id, req.sessionID);
+      res.json({ message: "Other sessions signed out", revoked });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve students" });
+      res.status(500).json({ message: "Failed to revoke sessions" });
     }
   });
 
-  app.get("/api/students/:id", requireAuth, async (req, res) => {
+  app.delete("/api/auth/sessions/:sessionId", requireSession, forbidWhileImpersonating, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const studentDetails = await storage.getStudentDetails(id);
+      const revoked = await sessions.revoke(req.session.user!.id, req.params.sessionId);
 
-      if (!studentDetails) {
-        return res.status(404).json({ message: "Student not found" });
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      res.json(studentDetails);
+      res.json({ message: "Session signed out" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve student" });
+      res.status(500).json({ message: "Failed to revoke session" });
     }
   });
 
-  app.post("/api/students", requireAuth, requireRole(["admin"]), async (req, res) => {
-    try {
-      const studentData = insertStudentSchema.parse(req.body);
-      
-      // Verify user exists and is a student
-      const user = await storage.getUser(studentData.userId);
-      if (!user) {
-        return res.status(400).json({ message: "User not found" });
-      }
-      
-      if (user.role !== "student") {
-        return res.status(400).json({ message: "User is not a student" });
-      }
-      
-      // Check if student ID already exists
-      const existingStudent = await storage.getStudentByStudentId(studentData.studentId);
-      if (existingStudent) {
-        return res.status(400).json({ message: "Student ID already exists" });
-      }
-      
-      // Check if user already has a student profile
-      const existingProfile = await storage.getStudentByUserId(studentData.userId);
-      if (existingProfile) {
-        return res.status(400).json({ message: "User already has a student profile" });
-      }
-
-      const student = await storage.createStudent(studentData);
-      
-      res.status(201).json({
-        ...student,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        }
+  app.get("/api/auth/session", (req, res) => {
+    if (req.session.user) {
+      return res.json({ 
+        isAuthenticated: true, 
+        user: req.session.user,
+        expiresAt: sessionExpiresAt(req, sessionConfig),
+        impersonation: req.session.impersonator ? {
+          impersonator: {
+            id: req.session.impersonator.user.id,
+            username: req.session.impersonator.user.username,
+            name: req.session.impersonator.user.name
+          },
+          startedAt: new Date(req.session.impersonator.startedAt),
+          expiresAt: new Date(req.session.impersonator.expiresAt)
+        } : null
       });
+    }
+    res.json({ isAuthenticated: false });
+  });
+
+  // Switches back from viewing as another user to the admin's own account
+  app.post("/api/auth/impersonation/stop", requireSession, async (req, res) => {
+    if (!req.session.impersonator) {
+      return res.status(400).json({ message: "Not viewing as another user" });
+    }
+
+    await impersonationLog.recordFor(req, "ended");
+    const admin = endImpersonation(req);
+    res.json({ message: "Stopped viewing as another user", user: admin });
+  });
+
+  // Impersonation sessions and the changes made during them
+  app.get("/api/auth/impersonation/events", requireAuth, requirePermission("users:impersonate:any"), async (req, res) => {
+    try {
+      const { limit, offset } = auditQuerySchema.parse(req.query);
+      res.json(await impersonationLog.list(limit, offset));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create student" });
+      res.status(500).json({ message: "Failed to retrieve impersonation events" });
     }
   });
 
-  app.put("/api/students/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Personal API tokens of the signed-in user
+  app.get("/api/auth/tokens", requireAuth, forbidApiTokens, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const student = await storage.getStudent(id);
-
-      if (!student) {
-        return res.status(404).json({ message: "Student not found" });
-      }
-
-      // If changing student ID, check if it already exists
-      if (req.body.studentId && req.body.studentId !== student.studentId) {
-        const existingStudent = await storage.getStudentByStudentId(req.body.studentId);
-        if (existingStudent && existingStudent.id !== id) {
-          return res.status(400).json({ message: "Student ID already exists" });
-        }
-      }
-
-      const updatedStudent = await storage.updateStudent(id, req.body);
-
-      if (!updatedStudent) {
-        return res.status(500).json({ message: "Failed to update student" });
-      }
+      const tokens = await storage.getApiTokensByUser(req.session.user!.id);
+      res.json(tokens.map(publicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve API tokens" });
+    }
+  });
 
-      const user = await storage.getUser(updatedStudent.userId);
+  // Creates a token; the response is the only time the token itself is shown
+  app.post("/api/auth/tokens", requireAuth, forbidApiTokens, forbidWhileImpersonating, async (req, res) => {
+    try {
+      const input = createApiTokenSchema.parse(req.body);
+      const { token, apiToken } = await createApiToken(storage, req.session.user!.id, input);
 
-      res.json({
-        ...updatedStudent,
-        user: user ? {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        } : null
-      });
+      res.status(201).json({ ...publicApiToken(apiToken), token });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update student" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create API token" });
     }
   });
 
-  app.delete("/api/students/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.delete("/api/auth/tokens/:id", requireAuth, forbidApiTokens, forbidWhileImpersonating, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteStudent(id);
+      const token = (await storage.getApiTokensByUser(req.session.user!.id)).find((token) => token.id === id);
 
-      if (!deleted) {
-        return res.status(404).json({ message: "Student not found" });
+      if (!token) {
+        return res.status(404).json({ message: "API token not found" });
       }
 
-      res.json({ message: "Student deleted successfully" });
+      await storage.deleteApiToken(id);
+      res.json({ message: "API token revoked" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete student" });
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
-  // Faculty routes
-  app.get("/api/faculty", requireAuth, async (req, res) => {
+  // Audit log of data changes, newest first; filter by entity, record, user and date range
+  app.get("/api/audit", requireAuth, requirePermission("audit:read:any"), async (req, res) => {
     try {
-      const facultyMembers = await storage.getAllFaculty();
-      
-      // Fetch user data for each faculty member
-      const facultyWithDetails = await Promise.all(
-        facultyMembers.map(async (faculty) => {
-          const user = await storage.getUser(faculty.userId);
-          return {
-            ...faculty,
-            user: user ? {
-              id: user.id,
-              username: user.username,
-              email: user.email,
-              name: user.name,
-              profileImage: user.profileImage
-            } : null
-          };
-        })
-      );
-      
-      res.json(facultyWithDetails);
+      const query = auditQuerySchema.parse(req.query);
+      res.json(await storage.getAuditEntries(query));
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve faculty members" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve audit log" });
     }
   });
 
-  app.get("/api/faculty/:id", requireAuth, async (req, res) => {
+  // Two-factor authentication management for the signed-in user
+  app.get("/api/auth/2fa", requireSession, requirePermission("two-factor:write:self"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const faculty = await storage.getFaculty(id);
-
-      if (!faculty) {
-        return res.status(404).json({ message: "Faculty member not found" });
+      const user = await storage.getUser(req.session.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const user = await storage.getUser(faculty.userId);
-      
-      // Get courses assigned to this faculty
-      const courseAssignments = await storage.getCourseAssignmentsByFaculty(id);
-      const courses = await Promise.all(
-        courseAssignments.map(async (assignment) => {
-          const course = await storage.getCourse(assignment.courseId);
-          return {
-            ...assignment,
-            course
-          };
-        })
-      );
-
+      const requiredRoles = await getTwoFactorRequiredRoles(storage);
       res.json({
-        ...faculty,
-        user: user ? {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        } : null,
-        courses
+        enabled: user.twoFactorEnabled,
+        setupPending: !user.twoFactorEnabled && !!user.twoFactorSecret,
+        recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+        required: requiredRoles.includes(user.role)
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve faculty member" });
+      res.status(500).json({ message: "Failed to retrieve two-factor status" });
     }
   });
 
-  app.post("/api/faculty", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Starts enrollment with a new secret; it only takes effect once confirmed through /enable
+  app.post("/api/auth/2fa/setup", requireSession, requirePermission("two-factor:write:self"), forbidWhileImpersonating, async (req, res) => {
     try {
-      const facultyData = insertFacultySchema.parse(req.body);
-      
-      // Verify user exists and is faculty
-      const user = await storage.getUser(facultyData.userId);
+      const user = await storage.getUser(req.session.user!.id);
       if (!user) {
-        return res.status(400).json({ message: "User not found" });
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      if (user.role !== "faculty") {
-        return res.status(400).json({ message: "User is not faculty" });
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
       }
-      
-      // Check if faculty ID already exists
-      const existingFaculty = await storage.getFacultyByFacultyId(facultyData.facultyId);
-      if (existingFaculty) {
-        return res.status(400).json({ message: "Faculty ID already exists" });
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { twoFactorSecret: secret, twoFactorLastStep: null });
+
+      res.json({ secret, otpauthUri: totpUri(secret, user.username, TWO_FACTOR_ISSUER) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", requireSession, requirePermission("two-factor:write:self"), forbidWhileImpersonating, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.session.user!.id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      // Check if user already has a faculty profile
-      const existingProfile = await storage.getFacultyByUserId(facultyData.userId);
-      if (existingProfile) {
-        return res.status(400).json({ message: "User already has a faculty profile" });
+      if (user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.twoFactorSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
       }
 
-      const faculty = await storage.createFaculty(facultyData);
-      
-      res.status(201).json({
-        ...faculty,
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        }
-      });
+      const step = verifyTotp(user.twoFactorSecret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.updateUser(user.id, { twoFactorEnabled: true, twoFactorLastStep: step });
+      const recoveryCodes = await issueRecoveryCodes(storage, user.id);
+      req.session.user!.twoFactorEnrollmentRequired = false;
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create faculty member" });
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
     }
   });
 
-  app.put("/api/faculty/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Replaces the recovery codes; needs a current authenticator code
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, forbidApiTokens, requirePermission("two-factor:write:self"), forbidWhileImpersonating, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const faculty = await storage.getFaculty(id);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.session.user!.id);
 
-      if (!faculty) {
-        return res.status(404).json({ message: "Faculty member not found" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await verifySecondFactor(storage, user, { code }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
       }
 
-      // If changing faculty ID, check if it already exists
-      if (req.body.facultyId && req.body.facultyId !== faculty.facultyId) {
-        const existingFaculty = await storage.getFacultyByFacultyId(req.body.facultyId);
-        if (existingFaculty && existingFaculty.id !== id) {
-          return res.status(400).json({ message: "Faculty ID already exists" });
-        }
+      res.json({ recoveryCodes: await issueRecoveryCodes(storage, user.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
 
-      const updatedFaculty = await storage.updateFaculty(id, req.body);
+  app.post("/api/auth/2fa/disable", requireAuth, forbidApiTokens, requirePermission("two-factor:write:self"), forbidWhileImpersonating, async (req, res) => {
+    try {
+      const { password } = twoFactorDisableSchema.parse(req.body);
+      const user = await storage.getUser(req.session.user!.id);
 
-      if (!updatedFaculty) {
-        return res.status(500).json({ message: "Failed to update faculty member" });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await verifyPassword(password, user.password)).valid) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if ((await getTwoFactorRequiredRoles(storage)).includes(user.role)) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
       }
 
-      const user = await storage.getUser(updatedFaculty.userId);
+      await storage.updateUser(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastStep: null
+      });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
 
+  // Which roles must use two-factor authentication
+  app.get("/api/settings/two-factor", requireAuth, requirePermission("settings:write:any"), async (req, res) => {
+    try {
       res.json({
-        ...updatedFaculty,
-        user: user ? {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          name: user.name,
-          profileImage: user.profileImage
-        } : null
+        requiredRoles: await getTwoFactorRequiredRoles(storage),
+        availableRoles: ROLES.filter((role) => hasPermission(role, "two-factor:write:self"))
       });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update faculty member" });
+      res.status(500).json({ message: "Failed to retrieve two-factor settings" });
     }
   });
 
-  app.delete("/api/faculty/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Newly required roles are asked to enroll at their next sign-in. Settings are single values
+  // with no version; the request states the whole policy, so there is no edit to merge.
+  app.put("/api/settings/two-factor", requireAuth, requirePermission("settings:write:any"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteFaculty(id);
+      const { requiredRoles } = twoFactorPolicySchema.parse(req.body);
 
-      if (!deleted) {
-        return res.status(404).json({ message: "Faculty member not found" });
+      const unsupported = requiredRoles.filter((role) => !hasPermission(role, "two-factor:write:self"));
+      if (unsupported.length > 0) {
+        return res.status(400).json({ message: `Two-factor authentication is not available for: ${unsupported.join(", ")}` });
       }
 
-      res.json({ message: "Faculty member deleted successfully" });
+      await setTwoFactorRequiredRoles(storage, requiredRoles);
+      res.json({ requiredRoles: await getTwoFactorRequiredRoles(storage) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete faculty member" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update two-factor settings" });
     }
   });
 
-  // Course routes
-  app.get("/api/courses", requireAuth, async (req, res) => {
+  // The per-term credit limit students register within
+  app.get("/api/settings/registration", requireAuth, requirePermission("settings:write:any"), async (req, res) => {
     try {
-      const courses = await storage.getAllCourses();
-      res.json(courses);
+      res.json({ maxCredits: await getMaxCredits(storage) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve courses" });
+      res.status(500).json({ message: "Failed to retrieve registration settings" });
     }
   });
 
-  app.get("/api/courses/:id", requireAuth, async (req, res) => {
+  // Lowering the limit leaves existing registrations alone; it applies to later adds. Like the
+  // two-factor policy, the setting has no version to check.
+  app.put("/api/settings/registration", requireAuth, requirePermission("settings:write:any"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const course = await storage.getCourse(id);
+      const { maxCredits } = registrationSettingsSchema.parse(req.body);
+      await setMaxCredits(storage, maxCredits);
+      res.json({ maxCredits: await getMaxCredits(storage) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update registration settings" });
+    }
+  });
+
+  // User routes
+  app.get("/api/users", requireAuth, requirePermission("users:read:any"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(u => ({
+        id: u.id,
+        username: u.username,
+        email: u.email,
+        name: u.name,
+        role: u.role,
+        profileImage: u.profileImage,
+        lockedUntil: loginThrottle.lockedUntil(u.username),
+        twoFactorEnabled: u.twoFactorEnabled
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve users" });
+    }
+  });
+
+  app.get("/api/users/:id", requireSession, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Only allow viewing other users with users:read:any, or users to view themselves
+      const role = req.session.user!.role;
+      const isSelf = req.session.user!.id === id;
+      if (!hasPermission(role, "users:read:any") && !(isSelf && hasPermission(role, "users:read:self"))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        profileImage: user.profileImage,
+        twoFactorEnabled: user.twoFactorEnabled,
+        version: user.version
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve user" });
+    }
+  });
+
+  app.post("/api/users", requireAuth, requirePermission("users:write:any"), async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      
+      // Check if username already exists
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const passwordProblems = checkPasswordPolicy(userData.password, { username: userData.username });
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the password policy", errors: passwordProblems });
+      }
+
+      const user = await storage.createUser({ ...userData, password: await hashPassword(userData.password) });
+      
+      res.status(201).json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        profileImage: user.profileImage
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requireAuth, forbidWhileImpersonating, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Only allow updating other users with users:write:any, or users to update themselves
+      const role = req.session.user!.role;
+      const isSelf = req.session.user!.id === id;
+      if (!hasPermission(role, "users:write:any") && !(isSelf && hasPermission(role, "users:write:self"))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // If changing username, check if it already exists
+      if (req.body.username && req.body.username !== user.username) {
+        const existingUser = await storage.getUserByUsername(req.body.username);
+        if (existingUser && existingUser.id !== id) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+      }
+
+      // Passwords only change through the dedicated endpoint, which checks the policy and hashes them
+      if (req.body.password !== undefined) {
+        return res.status(400).json({ message: "Use the change-password endpoint to update passwords" });
+      }
+
+      // Don't allow role change without users:write:any
+      if (req.body.role && req.body.role !== user.role && !hasPermission(role, "users:write:any")) {
+        return res.status(403).json({ message: "Cannot change role" });
+      }
+
+      // Only plain profile fields; two-factor columns are managed by their own endpoints
+      const userData = insertUserSchema.partial().parse(req.body);
+      const updatedUser = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateUser(id, userData));
+
+      if (!updatedUser) {
+        return res.status(500).json({ message: "Failed to update user" });
+      }
+
+      // Sessions carry the role the user signed in with, so a new role signs them out everywhere.
+      // An admin changing their own role keeps this session, which takes the new role.
+      if (updatedUser.role !== user.role) {
+        const sessionsRevoked = await revokeSessionsAfterChange(id, isSelf ? req.sessionID : undefined);
+        if (isSelf) {
+          req.session.user!.role = updatedUser.role;
+        }
+        res.setHeader("ETag", versionTag(updatedUser.version));
+        return res.json({ ...editableUser(updatedUser), sessionsRevoked });
+      }
+
+      res.setHeader("ETag", versionTag(updatedUser.version));
+      res.json(editableUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, async () => {
+          const current = await storage.getUser(parseInt(req.params.id));
+          return current && editableUser(current);
+        });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Changing your own password requires the current one; users:write:any may reset anyone's.
+  // Every other session of that user is signed out afterwards. A new password replaces the old one
+  // outright rather than editing a loaded copy, so no version is asked for.
+  app.put("/api/users/:id/password", requireAuth, forbidApiTokens, forbidWhileImpersonating, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const role = req.session.user!.role;
+      const isSelf = req.session.user!.id === id;
+      if (!hasPermission(role, "users:write:any") && !(isSelf && hasPermission(role, "users:write:self"))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      if (isSelf && !hasLocalPassword(user.password)) {
+        return res.status(400).json({ message: "This account signs in through single sign-on and has no password here" });
+      }
+      if (isSelf && !(currentPassword && (await verifyPassword(currentPassword, user.password)).valid)) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const passwordProblems = checkPasswordPolicy(newPassword, { username: user.username });
+      if (passwordProblems.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the password policy", errors: passwordProblems });
+      }
+
+      await storage.updateUser(id, { password: await hashPassword(newPassword) });
+      const sessionsRevoked = await revokeSessionsAfterChange(id, isSelf ? req.sessionID : undefined);
+
+      res.json({
+        message: sessionsRevoked
+          ? "Password updated successfully"
+          : "Password updated, but other sessions could not be signed out. End them from the session list.",
+        sessionsRevoked
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update password" });
+    }
+  });
+
+  // Lifts a sign-in lockout before it expires
+  app.post("/api/users/:id/unlock", requireAuth, requirePermission("users:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const wasLocked = loginThrottle.unlock(user.username, req.session.user!.username);
+      res.json({ message: wasLocked ? "Account unlocked" : "Account was not locked" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlock user" });
+    }
+  });
+
+  // Turns off two-factor authentication for a user who lost their authenticator and recovery codes
+  app.delete("/api/users/:id/2fa", requireAuth, requirePermission("users:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.updateUser(id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastStep: null
+      });
+
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  app.get("/api/users/:id/sessions", requireAuth, requirePermission("users:read:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await sessions.list(id, req.sessionID));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve sessions" });
+    }
+  });
+
+  // Signs a user out everywhere (keeping the caller's own session when they target themselves)
+  app.delete("/api/users/:id/sessions", requireAuth, requirePermission("users:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const revoked = await sessions.revokeAll(id, req.session.user!.id === id ? req.sessionID : undefined);
+      res.json({ message: "User signed out everywhere", revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // Starts viewing the app as the user, for support; time-boxed and recorded
+  app.post("/api/users/:id/impersonate", requireAuth, requirePermission("users:impersonate:any"), forbidApiTokens, forbidWhileImpersonating, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const target = await storage.getUser(id);
+
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.id === req.session.user!.id) {
+        return res.status(400).json({ message: "You cannot view as yourself" });
+      }
+      // Accounts in the trash cannot sign in, so nobody acts as them either
+      if (target.deletedAt) {
+        return res.status(400).json({ message: "Users in the trash cannot be impersonated; restore the account first" });
+      }
+      // Acting as another admin would only hide who made a change
+      if (hasPermission(target.role, "users:impersonate:any")) {
+        return res.status(403).json({ message: "Administrators cannot be impersonated" });
+      }
+
+      startImpersonation(req, req.session.user!, target);
+      await impersonationLog.recordFor(req, "started");
+
+      res.json({
+        message: `Now viewing as ${target.name}`,
+        expiresAt: new Date(req.session.impersonator!.expiresAt)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start impersonation" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireAuth, requirePermission("users:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      // Don't allow deleting yourself
+      if (req.session.user.id === id) {
+        return res.status(400).json({ message: "Cannot delete your own account" });
+      }
+
+      const trashed = await moveToTrash(storage, "user", id);
+
+      if (!trashed) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const sessionsRevoked = await revokeSessionsAfterChange(id);
+
+      res.json({
+        message: sessionsRevoked
+          ? "User moved to the trash"
+          : "User moved to the trash, but their sessions could not be ended",
+        sessionsRevoked
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Student routes
+  app.get("/api/students", requireAuth, requirePermission("students:read:any", "students:read:own-course", "students:read:self"), async (req, res) => {
+    try {
+      const viewer = await resolveViewer(storage, req.session.user!);
+      const students = await filterVisible(storage, viewer, "student", await storage.getAllStudents());
+      
+      // Fetch user data for each student
+      const studentsWithDetails = await Promise.all(
+        students.map(async (student) => {
+          const user = await storage.getUser(student.userId);
+          return {
+            ...student,
+            user: user ? {
+              id: user.id,
+              username: user.username,
+              email: user.email,
+              name: user.name,
+              profileImage: user.profileImage
+            } : null
+          };
+        })
+      );
+      
+      res.json(studentsWithDetails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve students" });
+    }
+  });
+
+  app.get("/api/students/:id", requireAuth, requireAccess("view", "student"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const studentDetails = await storage.getStudentDetails(id);
+
+      if (!studentDetails) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json({ ...studentDetails, user: publicUser(studentDetails.user) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve student" });
+    }
+  });
+
+  // Final course grades by term, with term and cumulative GPAs
+  app.get("/api/students/:id/academic-record", requireAuth, requireAccess("view", "student"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      res.json(await academicRecord(storage, student));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve academic record" });
+    }
+  });
+
+  // The sections the student is enrolled or waitlisted in, week by week
+  app.get("/api/students/:id/timetable", requireAuth, requireAccess("view", "student"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const { termId } = timetableQuerySchema.parse(req.query);
+      const term = await timetableTerm(storage, termId);
+      const enrollments = (await storage.getEnrollmentsByStudent(id))
+        .filter((enrollment) => enrollment.status === "enrolled" || enrollment.status === "waitlisted");
+
+      const sections = await Promise.all(enrollments.map(async (enrollment) => ({
+        section: await storage.getCourseAssignment(enrollment.courseAssignmentId),
+        status: enrollment.status
+      })));
+      const entries = await timetableEntries(storage, sections.filter(
+        (entry): entry is { section: CourseAssignment; status: string } => !!entry.section && entry.section.termId === term?.id
+      ));
+
+      res.json({ term: term ?? null, entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve timetable" });
+    }
+  });
+
+  app.post("/api/students", requireAuth, requirePermission("students:write:any"), async (req, res) => {
+    try {
+      // A new account and its profile are created together so a failure cannot leave an orphan user
+      if (req.body.user) {
+        const { user: userData, ...profileData } = createStudentWithUserSchema.parse(req.body);
+
+        if (await storage.getUserByUsername(userData.username)) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+        if (await storage.getStudentByStudentId(profileData.studentId)) {
+          return res.status(400).json({ message: "Student ID already exists" });
+        }
+
+        const passwordProblems = checkPasswordPolicy(userData.password, { username: userData.username });
+        if (passwordProblems.length > 0) {
+          return res.status(400).json({ message: "Password does not meet the password policy", errors: passwordProblems });
+        }
+        const password = await hashPassword(userData.password);
+
+        const { user, student } = await storage.transaction(async (tx) => {
+          const user = await tx.createUser({ ...userData, password, role: "student" });
+          const student = await tx.createStudent({ ...profileData, userId: user.id });
+          return { user, student };
+        });
+
+        return res.status(201).json({
+          ...student,
+          user: {
+            id: user.id,
+            username: user.username,
+            email: user.email,
+            name: user.name,
+            profileImage: user.profileImage
+          }
+        });
+      }
+
+      const studentData = insertStudentSchema.parse(req.body);
+      
+      // Verify user exists and is a student
+      const user = await storage.getUser(studentData.userId);
+      if (!user) {
+        return res.status(400).json({ message: "User not found" });
+      }
+      
+      if (user.role !== "student") {
+        return res.status(400).json({ message: "User is not a student" });
+      }
+      
+      // Check if student ID already exists
+      const existingStudent = await storage.getStudentByStudentId(studentData.studentId);
+      if (existingStudent) {
+        return res.status(400).json({ message: "Student ID already exists" });
+      }
+      
+      // Check if user already has a student profile
+      const existingProfile = await storage.getStudentByUserId(studentData.userId);
+      if (existingProfile) {
+        return res.status(400).json({ message: "User already has a student profile" });
+      }
+
+      const student = await storage.createStudent(studentData);
+      
+      res.status(201).json({
+        ...student,
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          profileImage: user.profileImage
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create student" });
+    }
+  });
+
+  app.put("/api/students/:id", requireAuth, requirePermission("students:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const student = await storage.getStudent(id);
+
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      const studentData = updateStudentSchema.parse(req.body);
+
+      // If changing student ID, check if it already exists
+      if (studentData.studentId && studentData.studentId !== student.studentId) {
+        const existingStudent = await storage.getStudentByStudentId(studentData.studentId);
+        if (existingStudent && existingStudent.id !== id) {
+          return res.status(400).json({ message: "Student ID already exists" });
+        }
+      }
+
+      const updatedStudent = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateStudent(id, studentData));
+
+      if (!updatedStudent) {
+        return res.status(500).json({ message: "Failed to update student" });
+      }
+
+      // Deactivating a student signs them out and ends their API tokens
+      if (updatedStudent.status === "inactive" && student.status !== "inactive") {
+        await revokeAccessAfterChange(updatedStudent.userId);
+      }
+
+      const user = await storage.getUser(updatedStudent.userId);
+
+      res.setHeader("ETag", versionTag(updatedStudent.version));
+      res.json({
+        ...updatedStudent,
+        user: user ? {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          profileImage: user.profileImage
+        } : null
+      });
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getStudent(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update student" });
+    }
+  });
+
+  app.delete("/api/students/:id", requireAuth, requirePermission("students:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trashed = await moveToTrash(storage, "student", id);
+
+      if (!trashed) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // A profile in the trash no longer signs in, so its sessions and API tokens end with it
+      const accessRevoked = await revokeAccessAfterChange((trashed as Student).userId);
+
+      res.json({
+        message: accessRevoked
+          ? "Student moved to the trash"
+          : "Student moved to the trash, but their sessions or API tokens could not be ended",
+        accessRevoked
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete student" });
+    }
+  });
+
+  // Faculty routes
+  app.get("/api/faculty", requireAuth, requirePermission("faculty:read:any"), async (req, res) => {
+    try {
+      const facultyMembers = await storage.getAllFaculty();
+      
+      // Fetch user data for each faculty member
+      const facultyWithDetails = await Promise.all(
+        facultyMembers.map(async (faculty) => {
+          const user = await storage.getUser(faculty.userId);
+          return {
+            ...faculty,
+            user: user ? {
+              id: user.id,
+              username: user.username,
+              email: user.email,
+              name: user.name,
+              profileImage: user.profileImage
+            } : null
+          };
+        })
+      );
+      
+      res.json(facultyWithDetails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve faculty members" });
+    }
+  });
+
+  // Enrollments in the sections a faculty member teaches, with attendance and grades.
+  // Callers who can read any enrollment may pass ?facultyId= to look at one instructor, otherwise they get every enrollment.
+  app.get("/api/faculty/enrollments", requireAuth, requirePermission("enrollments:read:any", "enrollments:read:own-course"), async (req, res) => {
+    try {
+      const { facultyId } = facultyEnrollmentsQuerySchema.parse(req.query);
+      const viewer = await resolveViewer(storage, req.session.user!);
+      const oneInstructor = facultyId !== undefined && hasPermission(viewer.role, "enrollments:read:any");
+
+      if (oneInstructor && !(await storage.getFaculty(facultyId))) {
+        return res.status(404).json({ message: "Faculty member not found" });
+      }
+
+      const enrollments = oneInstructor ? await taughtEnrollments(storage, facultyId) : await visibleEnrollments(storage, viewer);
+      res.json(await Promise.all(
+        enrollments.map((enrollment) => enrichEnrollment(storage, enrollment, { withRecords: true }))
+      ));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve enrollments" });
+    }
+  });
+
+  app.get("/api/faculty/:id", requireAuth, requirePermission("faculty:read:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const faculty = await storage.getFaculty(id);
+
+      if (!faculty) {
+        return res.status(404).json({ message: "Faculty member not found" });
+      }
+
+      const user = await storage.getUser(faculty.userId);
+      const viewer = await resolveViewer(storage, req.session.user!);
+      
+      // Get courses assigned to this faculty
+      const courseAssignments = await storage.getCourseAssignmentsByFaculty(id);
+      const courses = await Promise.all(
+        courseAssignments.map(async (assignment) => {
+          const course = await storage.getCourse(assignment.courseId);
+          const enrollments = await filterVisible(
+            storage, viewer, "enrollment", await storage.getEnrollmentsByCourseAssignment(assignment.id)
+          );
+          return {
+            ...assignment,
+            course,
+            term: await storage.getTerm(assignment.termId),
+            enrollments: await Promise.all(
+              enrollments.map((enrollment) => enrichEnrollment(storage, enrollment, { withRecords: true }))
+            )
+          };
+        })
+      );
+
+      res.json({
+        ...faculty,
+        user: user ? {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          profileImage: user.profileImage
+        } : null,
+        courses
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve faculty member" });
+    }
+  });
+
+  // The sections the instructor teaches, week by week
+  app.get("/api/faculty/:id/timetable", requireAuth, requirePermission("faculty:read:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const faculty = await storage.getFaculty(id);
+
+      if (!faculty) {
+        return res.status(404).json({ message: "Faculty member not found" });
+      }
+
+      const { termId } = timetableQuerySchema.parse(req.query);
+      const term = await timetableTerm(storage, termId);
+      const sections = (await storage.getCourseAssignmentsByFaculty(id)).filter((section) => section.termId === term?.id);
+
+      res.json({ term: term ?? null, entries: await timetableEntries(storage, sections.map((section) => ({ section }))) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve timetable" });
+    }
+  });
+
+  app.post("/api/faculty", requireAuth, requirePermission("faculty:write:any"), async (req, res) => {
+    try {
+      // A new account and its profile are created together so a failure cannot leave an orphan user
+      if (req.body.user) {
+        const { user: userData, ...profileData } = createFacultyWithUserSchema.parse(req.body);
+
+        if (await storage.getUserByUsername(userData.username)) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+        if (await storage.getFacultyByFacultyId(profileData.facultyId)) {
+          return res.status(400).json({ message: "Faculty ID already exists" });
+        }
+
+        const passwordProblems = checkPasswordPolicy(userData.password, { username: userData.username });
+        if (passwordProblems.length > 0) {
+          return res.status(400).json({ message: "Password does not meet the password policy", errors: passwordProblems });
+        }
+        const password = await hashPassword(userData.password);
+
+        const { user, faculty } = await storage.transaction(async (tx) => {
+          const user = await tx.createUser({ ...userData, password, role: "faculty" });
+          const faculty = await tx.createFaculty({ ...profileData, userId: user.id });
+          return { user, faculty };
+        });
+
+        return res.status(201).json({
+          ...faculty,
+          user: {
+            id: user.id,
+            username: user.username,
+            email: user.email,
+            name: user.name,
+            profileImage: user.profileImage
+          }
+        });
+      }
+
+      const facultyData = insertFacultySchema.parse(req.body);
+      
+      // Verify user exists and is faculty
+      const user = await storage.getUser(facultyData.userId);
+      if (!user) {
+        return res.status(400).json({ message: "User not found" });
+      }
+      
+      if (user.role !== "faculty") {
+        return res.status(400).json({ message: "User is not faculty" });
+      }
+      
+      // Check if faculty ID already exists
+      const existingFaculty = await storage.getFacultyByFacultyId(facultyData.facultyId);
+      if (existingFaculty) {
+        return res.status(400).json({ message: "Faculty ID already exists" });
+      }
+      
+      // Check if user already has a faculty profile
+      const existingProfile = await storage.getFacultyByUserId(facultyData.userId);
+      if (existingProfile) {
+        return res.status(400).json({ message: "User already has a faculty profile" });
+      }
+
+      const faculty = await storage.createFaculty(facultyData);
+      
+      res.status(201).json({
+        ...faculty,
+        user: {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          profileImage: user.profileImage
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create faculty member" });
+    }
+  });
+
+  app.put("/api/faculty/:id", requireAuth, requirePermission("faculty:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const faculty = await storage.getFaculty(id);
+
+      if (!faculty) {
+        return res.status(404).json({ message: "Faculty member not found" });
+      }
+
+      const facultyData = updateFacultySchema.parse(req.body);
+
+      // If changing faculty ID, check if it already exists
+      if (facultyData.facultyId && facultyData.facultyId !== faculty.facultyId) {
+        const existingFaculty = await storage.getFacultyByFacultyId(facultyData.facultyId);
+        if (existingFaculty && existingFaculty.id !== id) {
+          return res.status(400).json({ message: "Faculty ID already exists" });
+        }
+      }
+
+      const updatedFaculty = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateFaculty(id, facultyData));
+
+      if (!updatedFaculty) {
+        return res.status(500).json({ message: "Failed to update faculty member" });
+      }
+
+      // Deactivating a faculty member signs them out and ends their API tokens
+      if (updatedFaculty.status === "inactive" && faculty.status !== "inactive") {
+        await revokeAccessAfterChange(updatedFaculty.userId);
+      }
+
+      const user = await storage.getUser(updatedFaculty.userId);
+
+      res.setHeader("ETag", versionTag(updatedFaculty.version));
+      res.json({
+        ...updatedFaculty,
+        user: user ? {
+          id: user.id,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          profileImage: user.profileImage
+        } : null
+      });
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getFaculty(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update faculty member" });
+    }
+  });
+
+  app.delete("/api/faculty/:id", requireAuth, requirePermission("faculty:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trashed = await moveToTrash(storage, "faculty", id);
+
+      if (!trashed) {
+        return res.status(404).json({ message: "Faculty member not found" });
+      }
+
+      // A profile in the trash no longer signs in, so its sessions and API tokens end with it
+      const accessRevoked = await revokeAccessAfterChange((trashed as Faculty).userId);
+
+      res.json({
+        message: accessRevoked
+          ? "Faculty member moved to the trash"
+          : "Faculty member moved to the trash, but their sessions or API tokens could not be ended",
+        accessRevoked
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete faculty member" });
+    }
+  });
+
+  // Course routes
+  app.get("/api/courses", requireAuth, requirePermission("courses:read:any"), async (req, res) => {
+    try {
+      const courses = await storage.getAllCourses();
+      res.json(courses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve courses" });
+    }
+  });
+
+  app.get("/api/courses/:id", requireAuth, requirePermission("courses:read:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const course = await storage.getCourse(id);
+
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const viewer = await resolveViewer(storage, req.session.user!);
+
+      // Get faculty assigned to this course
+      const courseAssignments = await storage.getCourseAssignmentsByCourse(id);
+      const assignmentsWithFaculty = await Promise.all(
+        courseAssignments.map(async (assignment) => {
+          const faculty = await storage.getFaculty(assignment.facultyId);
+          const user = faculty ? await storage.getUser(faculty.userId) : null;
+          const enrollments = await filterVisible(
+            storage, viewer, "enrollment", await storage.getEnrollmentsByCourseAssignment(assignment.id)
+          );
+          
+          return {
+            ...assignment,
+            term: await storage.getTerm(assignment.termId),
+            seats: await sectionSeats(storage, assignment),
+            meetings: await describeMeetings(storage, assignment.id),
+            faculty,
+            facultyName: user?.name,
+            enrollments: await Promise.all(enrollments.map((enrollment) => enrichEnrollment(storage, enrollment)))
+          };
+        })
+      );
+
+      res.json({
+        ...course,
+        gradeScale: course.gradeScaleId ? (await storage.getGradeScale(course.gradeScaleId)) ?? null : null,
+        requisites: await describeRequisites(storage, id),
+        assignments: assignmentsWithFaculty
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve course" });
+    }
+  });
+
+  app.post("/api/courses", requireAuth, requirePermission("courses:write:any"), async (req, res) => {
+    try {
+      const courseData = insertCourseSchema.parse(req.body);
+      
+      // Check if course code already exists
+      const existingCourse = await storage.getCourseByCode(courseData.code);
+      if (existingCourse) {
+        return res.status(400).json({ message: "Course code already exists" });
+      }
+
+      if (courseData.gradeScaleId && !(await storage.getGradeScale(courseData.gradeScaleId))) {
+        return res.status(400).json({ message: "Grading scale not found" });
+      }
+
+      const course = await storage.createCourse(courseData);
+      
+      res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.put("/api/courses/:id", requireAuth, requirePermission("courses:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const course = await storage.getCourse(id);
+
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const courseData = updateCourseSchema.parse(req.body);
+
+      // If changing course code, check if it already exists
+      if (courseData.code && courseData.code !== course.code) {
+        const existingCourse = await storage.getCourseByCode(courseData.code);
+        if (existingCourse && existingCourse.id !== id) {
+          return res.status(400).json({ message: "Course code already exists" });
+        }
+      }
+
+      if (courseData.gradeScaleId && !(await storage.getGradeScale(courseData.gradeScaleId))) {
+        return res.status(400).json({ message: "Grading scale not found" });
+      }
+
+      const updatedCourse = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateCourse(id, courseData));
+
+      if (!updatedCourse) {
+        return res.status(500).json({ message: "Failed to update course" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedCourse.version));
+      res.json(updatedCourse);
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getCourse(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.delete("/api/courses/:id", requireAuth, requirePermission("courses:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const trashed = await moveToTrash(storage, "course", id);
+
+      if (!trashed) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      res.json({ message: "Course moved to the trash" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete course" });
+    }
+  });
+
+  // Course requisite routes
+  app.put("/api/courses/:id/requisites", requireAuth, requirePermission("courses:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { rules } = courseRequisitesUpdateSchema.parse(req.body);
+
+      if (!(await storage.getCourse(id))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      await validateRequisites(storage, id, rules);
+
+      // The requisites belong to the course, so replacing them moves the course's version on
+      const updatedCourse = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        await replaceRequisites(tx, id, rules);
+        return tx.updateCourse(id, {});
+      });
+
+      if (!updatedCourse) {
+        return res.status(500).json({ message: "Failed to update requisites" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedCourse.version));
+      res.json(await describeRequisites(storage, id));
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getCourse(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof RequisiteError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update requisites" });
+    }
+  });
+
+  // Consent and overrides recorded for a course, for those who may grant them
+  app.get("/api/courses/:id/requisite-waivers", requireAuth, requirePermission("requisites:override:any", "requisites:consent:any", "requisites:consent:own-course"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const viewer = await resolveViewer(storage, req.session.user!);
+
+      if (!(await canGrantWaiver(storage, viewer, "consent", id))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const waivers = await storage.getRequisiteWaiversByCourse(id);
+      res.json(await Promise.all(waivers.map(async (waiver) => {
+        const student = await storage.getStudent(waiver.studentId);
+        const user = student ? await storage.getUser(student.userId) : undefined;
+        return { ...waiver, student: student ? { ...student, user: publicUser(user) } : null };
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve requisite waivers" });
+    }
+  });
+
+  app.post("/api/requisite-waivers", requireAuth, requirePermission("requisites:override:any", "requisites:consent:any", "requisites:consent:own-course"), async (req, res) => {
+    try {
+      const waiverData = createRequisiteWaiverSchema.parse(req.body);
+      const viewer = await resolveViewer(storage, req.session.user!);
+
+      if (!(await canGrantWaiver(storage, viewer, waiverData.kind, waiverData.courseId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (!(await storage.getStudent(waiverData.studentId))) {
+        return res.status(400).json({ message: "Student not found" });
+      }
+      if (!(await storage.getCourse(waiverData.courseId))) {
+        return res.status(400).json({ message: "Course not found" });
+      }
+
+      // Consent only stands in for the rules that allow it
+      if (waiverData.kind === "consent") {
+        const rules = await storage.getCourseRequisites(waiverData.courseId);
+        if (!rules.some((rule) => rule.requiredCourseId === null)) {
+          throw new RequisiteError("This course does not accept instructor consent in place of its requisites");
+        }
+      }
+
+      const waiver = await storage.createRequisiteWaiver({
+        ...waiverData,
+        grantedById: req.session.user!.id,
+        grantedByName: req.session.user!.name
+      });
+
+      res.status(201).json(waiver);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof RequisiteError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record requisite waiver" });
+    }
+  });
+
+  app.delete("/api/requisite-waivers/:id", requireAuth, requirePermission("requisites:override:any", "requisites:consent:any", "requisites:consent:own-course"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const waiver = await storage.getRequisiteWaiver(id);
+
+      if (!waiver) {
+        return res.status(404).json({ message: "Requisite waiver not found" });
+      }
+
+      const viewer = await resolveViewer(storage, req.session.user!);
+      if (!(await canGrantWaiver(storage, viewer, waiver.kind as "consent" | "override", waiver.courseId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deleteRequisiteWaiver(id);
+      res.json({ message: "Requisite waiver removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove requisite waiver" });
+    }
+  });
+
+  // Term routes
+  app.get("/api/terms", requireAuth, requirePermission("terms:read:any"), async (req, res) => {
+    try {
+      const terms = await storage.getAllTerms();
+      res.json(terms);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve terms" });
+    }
+  });
+
+  app.get("/api/terms/current", requireAuth, requirePermission("terms:read:any"), async (req, res) => {
+    try {
+      const term = await storage.getCurrentTerm();
+
+      if (!term) {
+        return res.status(404).json({ message: "No current term is set" });
+      }
+
+      res.json(term);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve current term" });
+    }
+  });
+
+  app.post("/api/terms", requireAuth, requirePermission("terms:write:any"), async (req, res) => {
+    try {
+      const termData = insertTermSchema.parse(req.body);
+      validateTermDates(termData);
+
+      const existing = await storage.getAllTerms();
+      if (existing.some((term) => term.name.toLowerCase() === termData.name.toLowerCase())) {
+        return res.status(400).json({ message: "A term with this name already exists" });
+      }
+
+      const term = await storage.transaction(async (tx) => {
+        const created = await tx.createTerm(termData);
+        if (created.isCurrent) {
+          await clearOtherCurrentTerms(tx, created.id);
+        }
+        return created;
+      });
+
+      res.status(201).json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create term" });
+    }
+  });
+
+  app.put("/api/terms/:id", requireAuth, requirePermission("terms:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const term = await storage.getTerm(id);
+
+      if (!term) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+
+      const termData = insertTermSchema.partial().parse(req.body);
+      validateTermDates({ ...term, ...termData });
+
+      if (termData.name && termData.name.toLowerCase() !== term.name.toLowerCase()) {
+        const existing = await storage.getAllTerms();
+        if (existing.some((other) => other.id !== id && other.name.toLowerCase() === termData.name!.toLowerCase())) {
+          return res.status(400).json({ message: "A term with this name already exists" });
+        }
+      }
+
+      // Making this term current takes the flag away from the previous one
+      const updatedTerm = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        const updated = await tx.updateTerm(id, termData);
+        if (updated?.isCurrent) {
+          await clearOtherCurrentTerms(tx, id);
+        }
+        return updated;
+      });
+
+      if (!updatedTerm) {
+        return res.status(500).json({ message: "Failed to update term" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedTerm.version));
+      res.json(updatedTerm);
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getTerm(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update term" });
+    }
+  });
+
+  app.delete("/api/terms/:id", requireAuth, requirePermission("terms:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteTerm(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+
+      res.json({ message: "Term deleted successfully" });
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete term" });
+    }
+  });
 
-      if (!course) {
-        return res.status(404).json({ message: "Course not found" });
+  // Room routes
+  app.get("/api/rooms", requireAuth, requirePermission("rooms:read:any"), async (req, res) => {
+    try {
+      const rooms = await storage.getAllRooms();
+      res.json(rooms);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve rooms" });
+    }
+  });
+
+  app.post("/api/rooms", requireAuth, requirePermission("rooms:write:any"), async (req, res) => {
+    try {
+      const roomData = insertRoomSchema.parse(req.body);
+
+      const existing = await storage.getAllRooms();
+      if (existing.some((room) => room.name.toLowerCase() === roomData.name.toLowerCase())) {
+        return res.status(400).json({ message: "A room with this name already exists" });
       }
 
-      // Get faculty assigned to this course
-      const courseAssignments = await storage.getCourseAssignmentsByCourse(id);
-      const assignmentsWithFaculty = await Promise.all(
-        courseAssignments.map(async (assignment) => {
-          const faculty = await storage.getFaculty(assignment.facultyId);
-          const user = faculty ? await storage.getUser(faculty.userId) : null;
-          
-          return {
-            ...assignment,
-            faculty,
-            facultyName: user?.name
-          };
-        })
+      const room = await storage.createRoom(roomData);
+      res.status(201).json(room);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create room" });
+    }
+  });
+
+  app.put("/api/rooms/:id", requireAuth, requirePermission("rooms:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const room = await storage.getRoom(id);
+
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      const roomData = insertRoomSchema.partial().parse(req.body);
+
+      if (roomData.name && roomData.name.toLowerCase() !== room.name.toLowerCase()) {
+        const existing = await storage.getAllRooms();
+        if (existing.some((other) => other.id !== id && other.name.toLowerCase() === roomData.name!.toLowerCase())) {
+          return res.status(400).json({ message: "A room with this name already exists" });
+        }
+      }
+      if (roomData.capacity !== undefined) {
+        await checkRoomSeats(storage, id, roomData.capacity);
+      }
+
+      const updatedRoom = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateRoom(id, roomData));
+
+      if (!updatedRoom) {
+        return res.status(500).json({ message: "Failed to update room" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedRoom.version));
+      res.json(updatedRoom);
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getRoom(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ScheduleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update room" });
+    }
+  });
+
+  app.delete("/api/rooms/:id", requireAuth, requirePermission("rooms:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteRoom(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      res.json({ message: "Room deleted successfully" });
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+
+  // Weekly timetables cover one term: ?termId=, or the current term
+  app.get("/api/rooms/:id/timetable", requireAuth, requirePermission("rooms:read:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const room = await storage.getRoom(id);
+
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+
+      const { termId } = timetableQuerySchema.parse(req.query);
+      const term = await timetableTerm(storage, termId);
+      const meetings = await storage.getSectionMeetingsByRoom(id);
+      const sections = await Promise.all(
+        Array.from(new Set(meetings.map((meeting) => meeting.courseAssignmentId))).map((sectionId) => storage.getCourseAssignment(sectionId))
       );
 
-      res.json({
-        ...course,
-        assignments: assignmentsWithFaculty
+      const entries = await timetableEntries(storage, sections
+        .filter((section): section is CourseAssignment => !!section && section.termId === term?.id)
+        .map((section) => ({ section, meetings: meetings.filter((meeting) => meeting.courseAssignmentId === section.id) })));
+
+      res.json({ term: term ?? null, entries });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to retrieve room timetable" });
+    }
+  });
+
+  // Course Assignment routes
+  app.get("/api/course-assignments", requireAuth, requirePermission("course-assignments:read:any", "course-assignments:read:own-course", "course-assignments:read:self"), async (req, res) => {
+    try {
+      const viewer = await resolveViewer(storage, req.session.user!);
+      const assignments = await visibleCourseAssignments(storage, viewer);
+      res.json(await Promise.all(assignments.map((assignment) => enrichCourseAssignment(storage, assignment))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve course assignments" });
+    }
+  });
+
+  app.post("/api/course-assignments", requireAuth, requirePermission("course-assignments:write:any"), async (req, res) => {
+    try {
+      const { meetings, ...assignmentData } = createCourseAssignmentSchema.parse(req.body);
+      
+      // Verify course exists
+      const course = await storage.getCourse(assignmentData.courseId);
+      if (!course || course.deletedAt) {
+        return res.status(400).json({ message: "Course not found" });
+      }
+      
+      // Verify faculty exists
+      const faculty = await storage.getFaculty(assignmentData.facultyId);
+      if (!faculty) {
+        return res.status(400).json({ message: "Faculty member not found" });
+      }
+
+      // Verify term exists
+      const term = await storage.getTerm(assignmentData.termId);
+      if (!term) {
+        return res.status(400).json({ message: "Term not found" });
+      }
+
+      // Meetings given with the section must not double-book its instructor or rooms
+      const assignment = await storage.transaction(async (tx) => {
+        const created = await tx.createCourseAssignment(assignmentData);
+        if (meetings?.length) {
+          await validateMeetings(tx, created, meetings);
+          await checkSectionSchedule(tx, created, meetings);
+          await replaceMeetings(tx, created.id, meetings);
+        }
+        return created;
       });
+      
+      res.status(201).json({ ...assignment, meetings: await describeMeetings(storage, assignment.id) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve course" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ScheduleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ScheduleConflictError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to create course assignment" });
     }
   });
 
-  app.post("/api/courses", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Raising the seat count gives the new seats to the waitlist straight away
+  app.put("/api/course-assignments/:id/capacity", requireAuth, requirePermission("course-assignments:write:any"), async (req, res) => {
     try {
-      const courseData = insertCourseSchema.parse(req.body);
+      const id = parseInt(req.params.id);
+      const { capacity } = sectionCapacitySchema.parse(req.body);
+
+      if (!(await storage.getCourseAssignment(id))) {
+        return res.status(404).json({ message: "Course assignment not found" });
+      }
+      await checkRoomCapacity(storage, id, capacity);
+
+      let promoted: Enrollment[] = [];
+      const assignment = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        const updated = await tx.updateCourseAssignment(id, { capacity });
+        promoted = await fillSection(tx, id);
+        return updated;
+      });
+
+      if (!assignment) {
+        return res.status(500).json({ message: "Failed to update section capacity" });
+      }
+
+      await notifyPromoted(storage, mailer, promoted);
+
+      res.setHeader("ETag", versionTag(assignment.version));
+      res.json({ ...assignment, seats: await sectionSeats(storage, assignment) });
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getCourseAssignment(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ScheduleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update section capacity" });
+    }
+  });
+
+  // Replaces the section's weekly meetings; refused while they would double-book its instructor,
+  // a room or a student already in the section
+  app.put("/api/course-assignments/:id/meetings", requireAuth, requirePermission("course-assignments:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const section = await storage.getCourseAssignment(id);
+
+      if (!section) {
+        return res.status(404).json({ message: "Course assignment not found" });
+      }
+
+      const { meetings } = sectionMeetingsUpdateSchema.parse(req.body);
+
+      // The meetings belong to the section, so replacing them moves the section's version on
+      const updatedSection = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        await validateMeetings(tx, section, meetings);
+        await checkSectionSchedule(tx, section, meetings);
+        await replaceMeetings(tx, id, meetings);
+        return tx.updateCourseAssignment(id, {});
+      });
+
+      if (!updatedSection) {
+        return res.status(500).json({ message: "Failed to update section meetings" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedSection.version));
+      res.json(await describeMeetings(storage, id));
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getCourseAssignment(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof ScheduleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ScheduleConflictError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to update section meetings" });
+    }
+  });
+
+  app.delete("/api/course-assignments/:id", requireAuth, requirePermission("course-assignments:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteCourseAssignment(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Course assignment not found" });
+      }
+
+      res.json({ message: "Course assignment deleted successfully" });
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete course assignment" });
+    }
+  });
+
+  // Enrollment routes
+  app.get("/api/enrollments/course/:courseAssignmentId", requireAuth, async (req, res) => {
+    try {
+      const courseAssignmentId = parseInt(req.params.courseAssignmentId);
+      const courseAssignment = await storage.getCourseAssignment(courseAssignmentId);
+
+      if (!courseAssignment) {
+        return res.status(404).json({ message: "Course assignment not found" });
+      }
+
+      const viewer = await resolveViewer(storage, req.session.user!);
+      if (!(await can(storage, viewer, "view", "courseAssignment", courseAssignmentId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      let enrollments = await filterVisible(
+        storage, viewer, "enrollment", await storage.getEnrollmentsByCourseAssignment(courseAssignmentId)
+      );
+      if (req.query.status) {
+        enrollments = enrollments.filter((e) => e.status === req.query.status);
+      }
+
+      res.json(await Promise.all(enrollments.map((enrollment) => enrichEnrollment(storage, enrollment))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve enrollments" });
+    }
+  });
+
+  app.post("/api/enrollments", requireAuth, requirePermission("enrollments:write:any"), async (req, res) => {
+    try {
+      const { overrideReason, ...enrollmentData } = createEnrollmentSchema.parse(req.body);
       
-      // Check if course code already exists
-      const existingCourse = await storage.getCourseByCode(courseData.code);
-      if (existingCourse) {
-        return res.status(400).json({ message: "Course code already exists" });
+      // Verify student exists
+      const student = await storage.getStudent(enrollmentData.studentId);
+      if (!student) {
+        return res.status(400).json({ message: "Student not found" });
+      }
+      
+      // Verify course assignment exists
+      const courseAssignment = await storage.getCourseAssignment(enrollmentData.courseAssignmentId);
+      if (!courseAssignment) {
+        return res.status(400).json({ message: "Course assignment not found" });
       }
 
-      const course = await storage.createCourse(courseData);
+      // Sections of a course in the trash take no new students
+      const course = await storage.getCourse(courseAssignment.courseId);
+      if (!course || course.deletedAt) {
+        return res.status(400).json({ message: "Course not found" });
+      }
+
+      // Placing a student in the section closes at the add/drop deadline; recording a completed or
+      // dropped enrollment for the student's history does not
+      const takesPlace = enrollmentData.status === undefined || ["enrolled", "waitlisted"].includes(enrollmentData.status);
+      if (takesPlace) {
+        await checkAddDropWindow(storage, enrollmentData.courseAssignmentId);
+      }
+
+      if (overrideReason && !hasPermission(req.session.user!.role, "requisites:override:any")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      // An override given with the enrollment is recorded first, so the requisite check passes
+      const enrollment = await storage.transaction(async (tx) => {
+        await checkNotInSection(tx, enrollmentData.studentId, enrollmentData.courseAssignmentId);
+        if (overrideReason) {
+          await tx.createRequisiteWaiver({
+            studentId: enrollmentData.studentId,
+            courseId: courseAssignment.courseId,
+            kind: "override",
+            reason: overrideReason,
+            grantedById: req.session.user!.id,
+            grantedByName: req.session.user!.name
+          });
+        }
+        await checkRequisites(tx, enrollmentData.studentId, enrollmentData.courseAssignmentId);
+        await checkStudentSchedule(tx, enrollmentData.studentId, enrollmentData.courseAssignmentId);
+        // A full section puts the student on its waitlist instead
+        return tx.createEnrollment(await placeEnrollment(tx, enrollmentData));
+      });
       
-      res.status(201).json(course);
+      res.status(201).json(enrollment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create course" });
+      if (error instanceof RegistrationError || error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof UnmetRequisitesError) {
+        return res.status(error.status).json({ message: error.message, unmet: error.unmet });
+      }
+      if (error instanceof ScheduleConflictError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to create enrollment" });
     }
   });
 
-  app.put("/api/courses/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.put("/api/enrollments/:id", requireAuth, requirePermission("enrollments:write:any", "enrollments:write:own-course"), requireAccess("manage", "enrollment"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const course = await storage.getCourse(id);
+      const enrollment = await storage.getEnrollment(id);
 
-      if (!course) {
-        return res.status(404).json({ message: "Course not found" });
+      if (!enrollment) {
+        return res.status(404).json({ message: "Enrollment not found" });
       }
 
-      // If changing course code, check if it already exists
-      if (req.body.code && req.body.code !== course.code) {
-        const existingCourse = await storage.getCourseByCode(req.body.code);
-        if (existingCourse && existingCourse.id !== id) {
-          return res.status(400).json({ message: "Course code already exists" });
+      const enrollmentData = updateEnrollmentSchema.parse(req.body);
+
+      const newSectionId = enrollmentData.courseAssignmentId !== enrollment.courseAssignmentId
+        ? enrollmentData.courseAssignmentId
+        : undefined;
+      const switchesSection = newSectionId !== undefined;
+
+      // Instructors only move students into sections they teach as well
+      if (newSectionId !== undefined) {
+        const move = await authorizeMove(storage, await resolveViewer(storage, req.session.user!), id, newSectionId);
+        if (move === "not_found") {
+          return res.status(400).json({ message: "Course assignment not found" });
+        }
+        if (move === "denied") {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        // Sections of a course in the trash take no new students, as with new enrollments
+        const newSection = await storage.getCourseAssignment(newSectionId);
+        const newCourse = newSection ? await storage.getCourse(newSection.courseId) : undefined;
+        if (!newCourse || newCourse.deletedAt) {
+          return res.status(400).json({ message: "Course not found" });
         }
       }
 
-      const updatedCourse = await storage.updateCourse(id, req.body);
+      // Dropping, re-adding and switching sections close at the term's add/drop deadline
+      const addsOrDrops = enrollmentData.status !== undefined && enrollmentData.status !== enrollment.status &&
+        [enrollmentData.status, enrollment.status].includes("dropped");
+      if (switchesSection || addsOrDrops) {
+        await checkAddDropWindow(storage, enrollment.courseAssignmentId);
+      }
+      if (newSectionId !== undefined) {
+        await checkAddDropWindow(storage, newSectionId);
+        await checkRequisites(storage, enrollment.studentId, newSectionId);
+      }
 
-      if (!updatedCourse) {
-        return res.status(500).json({ message: "Failed to update course" });
+      // Students only join a waitlist by enrolling in a full section, and keep their place in that section
+      const status = enrollmentData.status ?? enrollment.status;
+      if (enrollmentData.status === "waitlisted" && enrollment.status !== "waitlisted") {
+        throw new WaitlistError("Students are waitlisted by enrolling them in a full section");
+      }
+      if (switchesSection && status === "waitlisted") {
+        throw new WaitlistError("Waitlisted students cannot switch sections; drop the waitlist place and enroll them in the other section");
       }
 
-      res.json(updatedCourse);
+      // Positions are kept by the server. A seat freed here (or a place left on the waitlist) goes
+      // to the next student in line.
+      const { waitlistPosition, ...changes } = enrollmentData;
+      const takesSeat = status === "enrolled" && (enrollment.status !== "enrolled" || switchesSection);
+      const movesPlace = switchesSection || status !== enrollment.status;
+      let promoted: Enrollment[] = [];
+
+      const updatedEnrollment = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        if (takesSeat) {
+          const target = changes.courseAssignmentId ?? enrollment.courseAssignmentId;
+          await checkSeatAvailable(tx, target);
+          await checkStudentSchedule(tx, enrollment.studentId, target, enrollment.courseAssignmentId);
+        }
+        const updated = await tx.updateEnrollment(id, status === "waitlisted" ? changes : { ...changes, waitlistPosition: null });
+        if (updated && movesPlace) {
+          promoted = await fillSection(tx, enrollment.courseAssignmentId);
+        }
+        return updated;
+      });
+
+      if (!updatedEnrollment) {
+        return res.status(500).json({ message: "Failed to update enrollment" });
+      }
+
+      await notifyPromoted(storage, mailer, promoted);
+
+      res.setHeader("ETag", versionTag(updatedEnrollment.version));
+      res.json(updatedEnrollment);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update course" });
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getEnrollment(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof UnmetRequisitesError) {
+        return res.status(error.status).json({ message: error.message, unmet: error.unmet });
+      }
+      if (error instanceof WaitlistError || error instanceof SectionFullError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ScheduleConflictError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to update enrollment" });
     }
   });
 
-  app.delete("/api/courses/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.delete("/api/enrollments/:id", requireAuth, requirePermission("enrollments:write:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteCourse(id);
+      const enrollment = await storage.getEnrollment(id);
 
-      if (!deleted) {
-        return res.status(404).json({ message: "Course not found" });
+      if (!enrollment) {
+        return res.status(404).json({ message: "Enrollment not found" });
       }
 
-      res.json({ message: "Course deleted successfully" });
+      // The seat or waitlist place goes to the next student in line
+      const promoted = await storage.transaction(async (tx) => {
+        await tx.deleteEnrollment(id);
+        return fillSection(tx, enrollment.courseAssignmentId);
+      });
+      await notifyPromoted(storage, mailer, promoted);
+
+      res.json({ message: "Enrollment deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete course" });
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete enrollment" });
     }
   });
 
-  // Course Assignment routes
-  app.post("/api/course-assignments", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Student self-service registration. Students add and drop their own sections while the term's
+  // add/drop window is open, under the same requisite, seat and schedule checks as the registrar,
+  // plus the per-term credit limit.
+  app.get("/api/registration", requireAuth, requirePermission("enrollments:write:self"), async (req, res) => {
     try {
-      const assignmentData = insertCourseAssignmentSchema.parse(req.body);
-      
-      // Verify course exists
-      const course = await storage.getCourse(assignmentData.courseId);
-      if (!course) {
-        return res.status(400).json({ message: "Course not found" });
-      }
-      
-      // Verify faculty exists
-      const faculty = await storage.getFaculty(assignmentData.facultyId);
-      if (!faculty) {
-        return res.status(400).json({ message: "Faculty member not found" });
-      }
+      const viewer = await resolveViewer(storage, req.session.user!);
+      if (!viewer.studentId) {
+        return res.status(400).json({ message: "Only students with a student record can register" });
+      }
+
+      const { termId } = timetableQuerySchema.parse(req.query);
+      const term = await timetableTerm(storage, termId);
+      if (termId !== undefined && !term) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+
+      const maxCredits = await getMaxCredits(storage);
+      if (!term) {
+        return res.json({ term: null, addDropOpen: false, maxCredits, registeredCredits: 0, sections: [] });
+      }
+
+      const studentId = viewer.studentId;
+      const registrations = await registrationsInTerm(storage, studentId, term.id);
+      const sections = await Promise.all((await storage.getCourseAssignmentsByTerm(term.id)).map(async (section) => {
+        const course = await storage.getCourse(section.courseId);
+        const registration = registrations.find((r) => r.section.id === section.id);
+        // Sections of courses no longer offered stay listed for the students still in them
+        if (!course || (!isOpenForRegistration(course) && !registration)) return null;
+
+        const faculty = await storage.getFaculty(section.facultyId);
+        const user = faculty ? await storage.getUser(faculty.userId) : undefined;
+        return {
+          id: section.id,
+          course: { id: course.id, code: course.code, title: course.title, credits: course.credits },
+          facultyName: user?.name ?? null,
+          seats: await sectionSeats(storage, section),
+          meetings: await describeMeetings(storage, section.id),
+          unmet: (await unmetRequisites(storage, studentId, section.id))?.unmet ?? [],
+          registration: registration
+            ? {
+                enrollmentId: registration.enrollment.id,
+                status: registration.enrollment.status,
+                waitlistPosition: registration.enrollment.waitlistPosition
+              }
+            : null
+        };
+      }));
 
-      const assignment = await storage.createCourseAssignment(assignmentData);
-      
-      res.status(201).json(assignment);
+      res.json({
+        term,
+        addDropOpen: isAddDropOpen(term),
+        maxCredits,
+        registeredCredits: registeredCredits(registrations),
+        sections: sections
+          .filter((section): section is NonNullable<typeof section> => section !== null)
+          .sort((a, b) => a.course.code.localeCompare(b.course.code) || a.id - b.id)
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create course assignment" });
+      res.status(500).json({ message: "Failed to retrieve registration" });
     }
   });
 
-  app.delete("/api/course-assignments/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // A full section puts the student on its waitlist, as it does for the registrar
+  app.post("/api/registration/enrollments", requireAuth, requirePermission("enrollments:write:self"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteCourseAssignment(id);
+      const viewer = await resolveViewer(storage, req.session.user!);
+      if (!viewer.studentId) {
+        return res.status(400).json({ message: "Only students with a student record can register" });
+      }
 
-      if (!deleted) {
-        return res.status(404).json({ message: "Course assignment not found" });
+      const studentId = viewer.studentId;
+      const { courseAssignmentId } = registrationSchema.parse(req.body);
+      if (!(await storage.getCourseAssignment(courseAssignmentId))) {
+        return res.status(404).json({ message: "Section not found" });
       }
 
-      res.json({ message: "Course assignment deleted successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete course assignment" });
-    }
-  });
+      await checkAddDropWindow(storage, courseAssignmentId);
 
-  // Enrollment routes
-  app.post("/api/enrollments", requireAuth, requireRole(["admin"]), async (req, res) => {
-    try {
-      const enrollmentData = insertEnrollmentSchema.parse(req.body);
-      
-      // Verify student exists
-      const student = await storage.getStudent(enrollmentData.studentId);
-      if (!student) {
-        return res.status(400).json({ message: "Student not found" });
-      }
-      
-      // Verify course assignment exists
-      const courseAssignment = await storage.getCourseAssignment(enrollmentData.courseAssignmentId);
-      if (!courseAssignment) {
-        return res.status(400).json({ message: "Course assignment not found" });
-      }
-      
-      // Check if student is already enrolled in this course
-      const enrollments = await storage.getEnrollmentsByStudent(enrollmentData.studentId);
-      const alreadyEnrolled = enrollments.some(
-        e => e.courseAssignmentId === enrollmentData.courseAssignmentId && e.status === "enrolled"
-      );
-      
-      if (alreadyEnrolled) {
-        return res.status(400).json({ message: "Student is already enrolled in this course" });
-      }
+      const enrollment = await storage.transaction(async (tx) => {
+        await checkRegistration(tx, studentId, courseAssignmentId);
+        await checkRequisites(tx, studentId, courseAssignmentId);
+        await checkStudentSchedule(tx, studentId, courseAssignmentId);
+        return tx.createEnrollment(await placeEnrollment(tx, { studentId, courseAssignmentId }));
+      });
 
-      const enrollment = await storage.createEnrollment(enrollmentData);
-      
       res.status(201).json(enrollment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create enrollment" });
+      if (error instanceof RegistrationError || error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof UnmetRequisitesError) {
+        return res.status(error.status).json({ message: error.message, unmet: error.unmet });
+      }
+      if (error instanceof ScheduleConflictError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to register for the section" });
     }
   });
 
-  app.put("/api/enrollments/:id", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  // Dropping keeps the enrollment as "dropped"; the seat or waitlist place goes to the next student in line
+  app.delete("/api/registration/enrollments/:id", requireAuth, requirePermission("enrollments:write:self"), async (req, res) => {
     try {
+      const viewer = await resolveViewer(storage, req.session.user!);
       const id = parseInt(req.params.id);
       const enrollment = await storage.getEnrollment(id);
 
-      if (!enrollment) {
+      if (!enrollment || enrollment.studentId !== viewer.studentId) {
         return res.status(404).json({ message: "Enrollment not found" });
       }
+      if (enrollment.status !== "enrolled" && enrollment.status !== "waitlisted") {
+        throw new RegistrationError("Only current registrations can be dropped");
+      }
 
-      const updatedEnrollment = await storage.updateEnrollment(id, req.body);
+      await checkAddDropWindow(storage, enrollment.courseAssignmentId);
 
-      if (!updatedEnrollment) {
-        return res.status(500).json({ message: "Failed to update enrollment" });
-      }
+      let dropped: Enrollment | undefined;
+      const promoted = await storage.transaction(async (tx) => {
+        dropped = await tx.updateEnrollment(id, { status: "dropped", waitlistPosition: null });
+        return fillSection(tx, enrollment.courseAssignmentId);
+      });
+      await notifyPromoted(storage, mailer, promoted);
 
-      res.json(updatedEnrollment);
+      res.json(dropped);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update enrollment" });
+      if (error instanceof RegistrationError || error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to drop the section" });
     }
   });
 
-  app.delete("/api/enrollments/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Attendance routes
+  app.get("/api/attendance", requireAuth, requirePermission("attendance:read:any", "attendance:read:own-course", "attendance:read:self"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteEnrollment(id);
-
-      if (!deleted) {
-        return res.status(404).json({ message: "Enrollment not found" });
-      }
-
-      res.json({ message: "Enrollment deleted successfully" });
+      const viewer = await resolveViewer(storage, req.session.user!);
+      const records = hasPermission(viewer.role, "attendance:read:any")
+        ? await storage.getAllAttendance()
+        : (await Promise.all(
+            (await visibleEnrollments(storage, viewer)).map((e) => storage.getAttendanceByEnrollment(e.id))
+          )).flat();
+
+      res.json(await Promise.all(records.map((record) => enrichEnrollmentRecord(storage, record))));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete enrollment" });
+      res.status(500).json({ message: "Failed to retrieve attendance records" });
     }
   });
 
-  // Attendance routes
-  app.get("/api/attendance/enrollment/:enrollmentId", requireAuth, async (req, res) => {
+  app.get("/api/attendance/enrollment/:enrollmentId", requireAuth, requireAccess("view", "enrollment", "enrollmentId"), async (req, res) => {
     try {
       const enrollmentId = parseInt(req.params.enrollmentId);
       const attendanceRecords = await storage.getAttendanceByEnrollment(enrollmentId);
@@ -793,7 +2867,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/attendance", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  app.post("/api/attendance", requireAuth, requirePermission("attendance:write:any", "attendance:write:own-course"), async (req, res) => {
     try {
       const attendanceData = insertAttendanceSchema.parse(req.body);
       
@@ -802,6 +2876,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!enrollment) {
         return res.status(400).json({ message: "Enrollment not found" });
       }
+      if (!(await canManageEnrollments(req, [enrollment.id]))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      await checkAttendanceDate(storage, enrollment.id, attendanceData.date ?? new Date());
 
       const attendance = await storage.createAttendance(attendanceData);
       
@@ -810,11 +2888,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create attendance record" });
     }
   });
 
-  app.put("/api/attendance/:id", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  // Records a whole class session at once; either every record is saved or none are
+  app.post("/api/attendance/bulk", requireAuth, requirePermission("attendance:write:any", "attendance:write:own-course"), async (req, res) => {
+    try {
+      const { records } = bulkAttendanceSchema.parse(req.body);
+
+      for (const record of records) {
+        if (!(await storage.getEnrollment(record.enrollmentId))) {
+          return res.status(400).json({ message: `Enrollment ${record.enrollmentId} not found` });
+        }
+      }
+      if (!(await canManageEnrollments(req, records.map((r) => r.enrollmentId)))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      for (const record of records) {
+        await checkAttendanceDate(storage, record.enrollmentId, record.date);
+      }
+
+      const created = await storage.transaction(async (tx) => {
+        const results = [];
+        for (const record of records) {
+          results.push(await tx.createAttendance(record));
+        }
+        return results;
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create attendance records" });
+    }
+  });
+
+  app.put("/api/attendance/:id", requireAuth, requirePermission("attendance:write:any", "attendance:write:own-course"), requireAccess("manage", "attendance"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const attendance = await storage.getAttendance(id);
@@ -823,19 +2941,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Attendance record not found" });
       }
 
-      const updatedAttendance = await storage.updateAttendance(id, req.body);
+      const attendanceData = updateAttendanceSchema.parse(req.body);
+
+      // Moving the record to another enrollment needs access to that one too
+      if (attendanceData.enrollmentId !== undefined && attendanceData.enrollmentId !== attendance.enrollmentId &&
+          !(await canManageEnrollments(req, [attendanceData.enrollmentId]))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (attendanceData.date !== undefined || attendanceData.enrollmentId !== undefined) {
+        await checkAttendanceDate(
+          storage, attendanceData.enrollmentId ?? attendance.enrollmentId, new Date(attendanceData.date ?? attendance.date)
+        );
+      }
+
+      const updatedAttendance = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateAttendance(id, attendanceData));
 
       if (!updatedAttendance) {
         return res.status(500).json({ message: "Failed to update attendance record" });
       }
 
+      res.setHeader("ETag", versionTag(updatedAttendance.version));
       res.json(updatedAttendance);
     } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getAttendance(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update attendance record" });
     }
   });
 
-  app.delete("/api/attendance/:id", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  app.delete("/api/attendance/:id", requireAuth, requirePermission("attendance:write:any", "attendance:write:own-course"), requireAccess("manage", "attendance"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deleteAttendance(id);
@@ -851,7 +2995,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Grade routes
-  app.get("/api/grades/enrollment/:enrollmentId", requireAuth, async (req, res) => {
+  app.get("/api/grades", requireAuth, requirePermission("grades:read:any", "grades:read:own-course", "grades:read:self"), async (req, res) => {
+    try {
+      const viewer = await resolveViewer(storage, req.session.user!);
+      const records = hasPermission(viewer.role, "grades:read:any")
+        ? await storage.getAllGrades()
+        : (await Promise.all(
+            (await visibleEnrollments(storage, viewer)).map((e) => storage.getGradesByEnrollment(e.id))
+          )).flat();
+
+      res.json(await Promise.all(records.map((record) => enrichEnrollmentRecord(storage, record))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve grades" });
+    }
+  });
+
+  app.get("/api/grades/enrollment/:enrollmentId", requireAuth, requireAccess("view", "enrollment", "enrollmentId"), async (req, res) => {
     try {
       const enrollmentId = parseInt(req.params.enrollmentId);
       const grades = await storage.getGradesByEnrollment(enrollmentId);
@@ -861,28 +3020,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/grades", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  app.post("/api/grades", requireAuth, requirePermission("grades:write:any", "grades:write:own-course"), async (req, res) => {
     try {
-      const gradeData = insertGradeSchema.parse(req.body);
+      const { overrideReason, ...gradeData } = createGradeSchema.parse(req.body);
       
       // Verify enrollment exists
       const enrollment = await storage.getEnrollment(gradeData.enrollmentId);
       if (!enrollment) {
         return res.status(400).json({ message: "Enrollment not found" });
       }
+      if (!(await canManageEnrollments(req, [enrollment.id]))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (overrideReason && !hasPermission(req.session.user!.role, "grades:write:any")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const late = await checkGradeEntry(storage, enrollment.id, gradeData.date ?? new Date(), { allowLate: !!overrideReason });
 
-      const grade = await storage.createGrade(gradeData);
+      // A grade entered after the due date is logged with the reason for the override
+      const grade = await storage.transaction(async (tx) => {
+        const created = await tx.createGrade(gradeData);
+        if (late) await recordOverride(tx, "grade", created.id, overrideReason!);
+        return created;
+      });
       
       res.status(201).json(grade);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create grade" });
     }
   });
 
-  app.put("/api/grades/:id", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  // Records one assignment for a whole class at once; either every grade is saved or none are
+  app.post("/api/grades/bulk", requireAuth, requirePermission("grades:write:any", "grades:write:own-course"), async (req, res) => {
+    try {
+      const { records, overrideReason } = bulkGradeSchema.parse(req.body);
+
+      for (const record of records) {
+        if (!(await storage.getEnrollment(record.enrollmentId))) {
+          return res.status(400).json({ message: `Enrollment ${record.enrollmentId} not found` });
+        }
+      }
+      if (!(await canManageEnrollments(req, records.map((r) => r.enrollmentId)))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (overrideReason && !hasPermission(req.session.user!.role, "grades:write:any")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const late: boolean[] = [];
+      for (const record of records) {
+        late.push(await checkGradeEntry(storage, record.enrollmentId, record.date, { allowLate: !!overrideReason }));
+      }
+
+      const created = await storage.transaction(async (tx) => {
+        const results = [];
+        for (let index = 0; index < records.length; index++) {
+          const grade = await tx.createGrade(records[index]);
+          if (late[index]) await recordOverride(tx, "grade", grade.id, overrideReason!);
+          results.push(grade);
+        }
+        return results;
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create grades" });
+    }
+  });
+
+  app.put("/api/grades/:id", requireAuth, requirePermission("grades:write:any", "grades:write:own-course"), requireAccess("manage", "grade"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const grade = await storage.getGrade(id);
@@ -891,19 +3108,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Grade not found" });
       }
 
-      const updatedGrade = await storage.updateGrade(id, req.body);
+      const { overrideReason, ...gradeData } = updateGradeSchema.parse(req.body);
+
+      // Moving the record to another enrollment needs access to that one too
+      if (gradeData.enrollmentId !== undefined && gradeData.enrollmentId !== grade.enrollmentId &&
+          !(await canManageEnrollments(req, [gradeData.enrollmentId]))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (overrideReason && !hasPermission(req.session.user!.role, "grades:write:any")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const late = await checkGradeEntry(storage, gradeData.enrollmentId ?? grade.enrollmentId, new Date(gradeData.date ?? grade.date), { allowLate: !!overrideReason });
+
+      // A correction after the due date is logged with the reason for the override
+      const updatedGrade = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        const updated = await tx.updateGrade(id, gradeData);
+        if (updated && late) await recordOverride(tx, "grade", id, overrideReason!);
+        return updated;
+      });
 
       if (!updatedGrade) {
         return res.status(500).json({ message: "Failed to update grade" });
       }
 
+      res.setHeader("ETag", versionTag(updatedGrade.version));
       res.json(updatedGrade);
     } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getGrade(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TermError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update grade" });
     }
   });
 
-  app.delete("/api/grades/:id", requireAuth, requireRole(["admin", "faculty"]), async (req, res) => {
+  app.delete("/api/grades/:id", requireAuth, requirePermission("grades:write:any", "grades:write:own-course"), requireAccess("manage", "grade"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deleteGrade(id);
@@ -918,8 +3165,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Grading scale routes
+  app.get("/api/grade-scales", requireAuth, requirePermission("grade-scales:read:any"), async (req, res) => {
+    try {
+      const scales = await storage.getAllGradeScales();
+      res.json(scales);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve grading scales" });
+    }
+  });
+
+  app.post("/api/grade-scales", requireAuth, requirePermission("grade-scales:write:any"), async (req, res) => {
+    try {
+      const scaleData = insertGradeScaleSchema.parse(req.body);
+      validateGradeScale(scaleData);
+
+      const existing = await storage.getAllGradeScales();
+      if (existing.some((scale) => scale.name.toLowerCase() === scaleData.name.toLowerCase())) {
+        return res.status(400).json({ message: "A grading scale with this name already exists" });
+      }
+      await checkScalePrograms(storage, scaleData.programs ?? []);
+
+      const scale = await storage.transaction(async (tx) => {
+        const created = await tx.createGradeScale({ ...scaleData, bands: sortBands(scaleData.bands) });
+        if (created.isDefault) {
+          await clearOtherDefaultScales(tx, created.id);
+        }
+        return created;
+      });
+
+      res.status(201).json(scale);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof GradeScaleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create grading scale" });
+    }
+  });
+
+  // Changing the bands regrades every course on the scale, since final grades are computed when shown
+  app.put("/api/grade-scales/:id", requireAuth, requirePermission("grade-scales:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const scale = await storage.getGradeScale(id);
+
+      if (!scale) {
+        return res.status(404).json({ message: "Grading scale not found" });
+      }
+
+      const scaleData = insertGradeScaleSchema.partial().parse(req.body);
+      if (scaleData.bands) {
+        validateGradeScale({ bands: scaleData.bands });
+        scaleData.bands = sortBands(scaleData.bands);
+      }
+      if (scale.isDefault && scaleData.isDefault === false) {
+        throw new GradeScaleError("Make another scale the default instead");
+      }
+
+      if (scaleData.name && scaleData.name.toLowerCase() !== scale.name.toLowerCase()) {
+        const existing = await storage.getAllGradeScales();
+        if (existing.some((other) => other.id !== id && other.name.toLowerCase() === scaleData.name!.toLowerCase())) {
+          return res.status(400).json({ message: "A grading scale with this name already exists" });
+        }
+      }
+      if (scaleData.programs) {
+        await checkScalePrograms(storage, scaleData.programs, id);
+      }
+
+      // Making this scale the default takes the flag away from the previous one
+      const updatedScale = await updateIfCurrent(storage, expectedVersion(req), async (tx) => {
+        const updated = await tx.updateGradeScale(id, scaleData);
+        if (updated?.isDefault) {
+          await clearOtherDefaultScales(tx, id);
+        }
+        return updated;
+      });
+
+      if (!updatedScale) {
+        return res.status(500).json({ message: "Failed to update grading scale" });
+      }
+
+      res.setHeader("ETag", versionTag(updatedScale.version));
+      res.json(updatedScale);
+    } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getGradeScale(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof GradeScaleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update grading scale" });
+    }
+  });
+
+  app.delete("/api/grade-scales/:id", requireAuth, requirePermission("grade-scales:write:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const scale = await storage.getGradeScale(id);
+
+      if (!scale) {
+        return res.status(404).json({ message: "Grading scale not found" });
+      }
+      if (scale.isDefault) {
+        throw new GradeScaleError("The default scale cannot be deleted; make another scale the default first");
+      }
+
+      await storage.deleteGradeScale(id);
+      res.json({ message: "Grading scale deleted successfully" });
+    } catch (error) {
+      if (error instanceof GradeScaleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete grading scale" });
+    }
+  });
+
   // Event routes
-  app.get("/api/events", requireAuth, async (req, res) => {
+  app.get("/api/events", requireAuth, requirePermission("events:read:any"), async (req, res) => {
     try {
       const events = await storage.getAllEvents();
       res.json(events);
@@ -928,7 +3302,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/events/upcoming", requireAuth, async (req, res) => {
+  app.get("/api/events/upcoming", requireAuth, requirePermission("events:read:any"), async (req, res) => {
     try {
       const events = await storage.getUpcomingEvents();
       res.json(events);
@@ -937,7 +3311,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/events", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.post("/api/events", requireAuth, requirePermission("events:write:any"), async (req, res) => {
     try {
       const eventData = insertEventSchema.parse(req.body);
       const event = await storage.createEvent(eventData);
@@ -951,7 +3325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/events/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.put("/api/events/:id", requireAuth, requirePermission("events:write:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const event = await storage.getEvent(id);
@@ -960,38 +3334,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
 
-      const updatedEvent = await storage.updateEvent(id, req.body);
+      const eventData = updateEventSchema.parse(req.body);
+
+      const updatedEvent = await updateIfCurrent(storage, expectedVersion(req), (tx) => tx.updateEvent(id, eventData));
 
       if (!updatedEvent) {
         return res.status(500).json({ message: "Failed to update event" });
       }
 
+      res.setHeader("ETag", versionTag(updatedEvent.version));
       res.json(updatedEvent);
     } catch (error) {
+      if (error instanceof VersionRequiredError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof VersionConflictError) {
+        return sendVersionConflict(res, error, () => storage.getEvent(parseInt(req.params.id)));
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update event" });
     }
   });
 
-  app.delete("/api/events/:id", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.delete("/api/events/:id", requireAuth, requirePermission("events:write:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteEvent(id);
+      const trashed = await moveToTrash(storage, "event", id);
 
-      if (!deleted) {
+      if (!trashed) {
         return res.status(404).json({ message: "Event not found" });
       }
 
-      res.json({ message: "Event deleted successfully" });
+      res.json({ message: "Event moved to the trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete event" });
     }
   });
 
-  // Dashboard stats
+  // Trash routes: deleted users, students, faculty, courses and events stay here until restored or purged
+  app.get("/api/trash", requireAuth, requirePermission("trash:write:any"), async (req, res) => {
+    try {
+      res.json(await listTrash(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve the trash" });
+    }
+  });
+
+  app.post("/api/trash/:type/:id/restore", requireAuth, requirePermission("trash:write:any"), async (req, res) => {
+    try {
+      const { type } = req.params;
+      if (!isTrashable(type)) {
+        return res.status(404).json({ message: "Unknown record type" });
+      }
+
+      const restored = await restoreFromTrash(storage, type, parseInt(req.params.id));
+      if (!restored) {
+        return res.status(404).json({ message: "Record is not in the trash" });
+      }
+
+      res.json(type === "user" ? publicUser(restored as User) : restored);
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore record" });
+    }
+  });
+
+  app.delete("/api/trash/:type/:id", requireAuth, requirePermission("trash:write:any"), async (req, res) => {
+    try {
+      const { type } = req.params;
+      if (!isTrashable(type)) {
+        return res.status(404).json({ message: "Unknown record type" });
+      }
+
+      const purged = await purgeFromTrash(storage, type, parseInt(req.params.id));
+      if (!purged) {
+        return res.status(404).json({ message: "Record is not in the trash" });
+      }
+
+      res.json({ message: "Record deleted permanently" });
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        return res.status(409).json({ message: error.message, dependents: error.dependents });
+      }
+      res.status(500).json({ message: "Failed to delete record" });
+    }
+  });
+
+  // Dashboard stats for the current term, or the term picked with ?termId= ("all" for every term)
   app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
-      res.json(stats);
+      const termId = req.query.termId as string | undefined;
+      const term = termId === "all" ? undefined
+        : termId ? await storage.getTerm(parseInt(termId))
+        : await storage.getCurrentTerm();
+
+      if (termId && termId !== "all" && !term) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+
+      const stats = await storage.getDashboardStats(term?.id);
+      res.json({ ...stats, term: term ?? null });
     } catch (error) {
       res.status(500).json({ message: "Failed to retrieve dashboard statistics" });
     }
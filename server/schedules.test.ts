@@ -0,0 +1,199 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { CourseAssignment, Room } from "@shared/schema";
+import {
+  ScheduleConflictError,
+  ScheduleError,
+  checkRoomCapacity,
+  checkRoomSeats,
+  checkStudentSchedule,
+  describeTimes,
+  sectionConflicts,
+  validateMeetings,
+} from "./schedules";
+import { MemStorage } from "./storage";
+
+type Meeting = { days: string[]; startTime: string; endTime: string; roomId?: number | null };
+
+let storage: MemStorage;
+let terms: Record<"fall" | "fallLate" | "spring", number>;
+let instructors: [number, number];
+let room: Room;
+let studentId: number;
+let courses = 0;
+
+const newTerm = (name: string, startDate: Date, endDate: Date) =>
+  storage.createTerm({ name, startDate, endDate, addDropDeadline: startDate, gradesDueDate: endDate, isCurrent: false });
+
+const newPerson = async (name: string, role: string) => {
+  const username = name.toLowerCase().replace(" ", ".");
+  return storage.createUser({ username, password: "x", email: `${username}@college.edu`, role, name });
+};
+
+// A section of a new course (SCH1, SCH2, ...) with the given meeting patterns
+const newSection = async (meetings: Meeting[], options: { termId?: number; facultyId?: number; capacity?: number | null } = {}) => {
+  const course = await storage.createCourse({ code: `SCH${++courses}`, title: "Scheduling", credits: 3, department: "Testing" });
+  const section = await storage.createCourseAssignment({
+    courseId: course.id,
+    facultyId: options.facultyId ?? instructors[0],
+    termId: options.termId ?? terms.fall,
+    capacity: options.capacity ?? null,
+  });
+  for (const meeting of meetings) {
+    await storage.createSectionMeeting({ roomId: null, ...meeting, courseAssignmentId: section.id });
+  }
+  return section;
+};
+
+const enroll = (section: CourseAssignment, status = "enrolled") =>
+  storage.createEnrollment({ studentId, courseAssignmentId: section.id, status });
+
+const mondayMorning: Meeting = { days: ["mon", "wed"], startTime: "09:00", endTime: "10:15" };
+
+const conflictsOf = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof ScheduleConflictError);
+    return error.conflicts.map((conflict) => conflict.description);
+  }
+};
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  courses = 0;
+  terms = {
+    fall: (await newTerm("Sched Fall", new Date(2030, 8, 1), new Date(2030, 11, 15))).id,
+    fallLate: (await newTerm("Sched Fall Late", new Date(2030, 9, 15), new Date(2031, 0, 31))).id,
+    spring: (await newTerm("Sched Spring", new Date(2031, 1, 1), new Date(2031, 4, 15))).id,
+  };
+  const faculty = (name: string, facultyId: string) =>
+    newPerson(name, "faculty").then((user) => storage.createFaculty({ userId: user.id, facultyId, department: "Testing", position: "Lecturer" }));
+  instructors = [(await faculty("Prof One", "SCH-F1")).id, (await faculty("Prof Two", "SCH-F2")).id];
+  room = await storage.createRoom({ name: "SCH 101", building: "Testing", capacity: 30 });
+  const user = await newPerson("Sched Student", "student");
+  studentId = (await storage.createStudent({ userId: user.id, studentId: "SCH-S1", program: "Testing", yearLevel: 1, status: "active" })).id;
+});
+
+describe("describeTimes", () => {
+  test("lists the days in week order", () => {
+    assert.equal(describeTimes({ days: ["wed", "mon"], startTime: "09:00", endTime: "10:15" }), "Mon/Wed 09:00–10:15");
+  });
+});
+
+describe("checkStudentSchedule", () => {
+  test("refuses a section meeting while another of the student's sections does", async () => {
+    await enroll(await newSection([mondayMorning]));
+    const clashing = await newSection([{ days: ["wed", "fri"], startTime: "10:00", endTime: "11:00" }], { facultyId: instructors[1] });
+
+    assert.deepEqual(await conflictsOf(checkStudentSchedule(storage, studentId, clashing.id)), [
+      "The student is in SCH1 (Sched Fall), which meets Mon/Wed 09:00–10:15",
+    ]);
+  });
+
+  test("allows back-to-back meetings and meetings on other days", async () => {
+    await enroll(await newSection([mondayMorning]));
+    const after = await newSection([{ days: ["mon"], startTime: "10:15", endTime: "11:00" }]);
+    const otherDays = await newSection([{ days: ["tue", "thu"], startTime: "09:00", endTime: "10:15" }]);
+
+    await checkStudentSchedule(storage, studentId, after.id);
+    await checkStudentSchedule(storage, studentId, otherDays.id);
+  });
+
+  test("compares sections only while their terms overlap", async () => {
+    await enroll(await newSection([mondayMorning]));
+
+    await checkStudentSchedule(storage, studentId, (await newSection([mondayMorning], { termId: terms.spring })).id);
+    const overlapping = await newSection([mondayMorning], { termId: terms.fallLate });
+    assert.deepEqual(await conflictsOf(checkStudentSchedule(storage, studentId, overlapping.id)), [
+      "The student is in SCH1 (Sched Fall), which meets Mon/Wed 09:00–10:15",
+    ]);
+  });
+
+  test("counts waitlist places but not dropped or completed sections", async () => {
+    await enroll(await newSection([mondayMorning]), "dropped");
+    await enroll(await newSection([mondayMorning]), "completed");
+    const target = await newSection([mondayMorning]);
+    await checkStudentSchedule(storage, studentId, target.id);
+
+    await enroll(await newSection([mondayMorning]), "waitlisted");
+    assert.equal((await conflictsOf(checkStudentSchedule(storage, studentId, target.id))).length, 1);
+  });
+
+  test("ignores the section a student is switching out of, and sections without meetings", async () => {
+    const leaving = await newSection([mondayMorning]);
+    await enroll(leaving);
+
+    await checkStudentSchedule(storage, studentId, (await newSection([mondayMorning])).id, leaving.id);
+    await checkStudentSchedule(storage, studentId, (await newSection([])).id);
+  });
+});
+
+describe("sectionConflicts", () => {
+  test("finds the instructor teaching elsewhere at the same time", async () => {
+    await newSection([mondayMorning]);
+    const section = await newSection([]);
+
+    assert.deepEqual(
+      (await sectionConflicts(storage, section, [mondayMorning])).map((conflict) => [conflict.kind, conflict.description]),
+      [["instructor", "Prof One teaches SCH1 (Sched Fall) Mon/Wed 09:00–10:15"]]
+    );
+  });
+
+  test("finds a room booked by another section, but not other sections meeting elsewhere", async () => {
+    await newSection([{ ...mondayMorning, roomId: room.id }], { facultyId: instructors[1] });
+    await newSection([mondayMorning], { facultyId: instructors[1] });
+    const section = await newSection([]);
+
+    assert.deepEqual(
+      (await sectionConflicts(storage, section, [{ ...mondayMorning, roomId: room.id }])).map((conflict) => [conflict.kind, conflict.description]),
+      [["room", "SCH 101 is booked for SCH1 (Sched Fall) Mon/Wed 09:00–10:15"]]
+    );
+    assert.deepEqual(await sectionConflicts(storage, section, [mondayMorning]), []);
+  });
+
+  test("finds students of the section who are in another section at the new time", async () => {
+    await enroll(await newSection([mondayMorning], { facultyId: instructors[1] }));
+    const section = await newSection([]);
+    await enroll(section);
+
+    assert.deepEqual(
+      (await sectionConflicts(storage, section, [mondayMorning])).map((conflict) => [conflict.kind, conflict.description]),
+      [["student", "Sched Student is in SCH1 (Sched Fall), which meets Mon/Wed 09:00–10:15"]]
+    );
+  });
+});
+
+describe("validateMeetings", () => {
+  test("refuses times running backwards and patterns overlapping within the section", async () => {
+    const section = await newSection([]);
+
+    await assert.rejects(
+      validateMeetings(storage, section, [{ days: ["mon"], startTime: "10:00", endTime: "09:00", roomId: null }]),
+      /Mon 10:00–09:00 ends before it starts/
+    );
+    await assert.rejects(
+      validateMeetings(storage, section, [{ ...mondayMorning, roomId: null }, { days: ["wed"], startTime: "10:00", endTime: "11:00", roomId: null }]),
+      (error) => error instanceof ScheduleError && /overlaps Mon\/Wed 09:00–10:15 of the same section/.test(error.message)
+    );
+  });
+
+  test("refuses rooms that do not exist or seat fewer than the section", async () => {
+    const section = await newSection([], { capacity: 40 });
+
+    await assert.rejects(validateMeetings(storage, section, [{ ...mondayMorning, roomId: 99999 }]), /Room #99999 not found/);
+    await assert.rejects(validateMeetings(storage, section, [{ ...mondayMorning, roomId: room.id }]), /SCH 101 seats 30, fewer than the section's 40 seats/);
+  });
+});
+
+describe("room capacity", () => {
+  test("keeps sections and their rooms in step", async () => {
+    const section = await newSection([{ ...mondayMorning, roomId: room.id }], { capacity: 25 });
+
+    await checkRoomCapacity(storage, section.id, 30);
+    await assert.rejects(checkRoomCapacity(storage, section.id, 31), ScheduleError);
+    await checkRoomSeats(storage, room.id, 25);
+    await assert.rejects(checkRoomSeats(storage, room.id, 24), /SCH1 \(Sched Fall\) meets here with 25 seats/);
+  });
+});
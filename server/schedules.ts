@@ -0,0 +1,293 @@
+import { WEEKDAYS, type CourseAssignment, type InsertSectionMeeting, type SectionMeeting, type Term, type Weekday } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Why a section's meeting patterns were refused
+export class ScheduleError extends Error {
+  status = 400;
+}
+
+// A clash with another section, seen from the student, instructor or room that would be double-booked
+export interface ScheduleConflict {
+  kind: "student" | "instructor" | "room";
+  courseAssignmentId: number;
+  description: string;
+}
+
+// Why an enrollment or a section's schedule was refused: it would double-book someone or a room
+export class ScheduleConflictError extends Error {
+  status = 409;
+
+  constructor(public conflicts: ScheduleConflict[]) {
+    super(`Schedule conflict: ${conflicts.map((conflict) => conflict.description).join("; ")}`);
+  }
+}
+
+// A meeting pattern as saved or as about to be saved
+type MeetingTimes = { days: string[]; startTime: string; endTime: string; roomId?: number | null };
+type NewMeeting = Omit<InsertSectionMeeting, "courseAssignmentId">;
+
+const DAY_LABELS: Record<Weekday, string> = {
+  mon: "Mon", tue: "Tue", wed: "Wed", thu: "Thu", fri: "Fri", sat: "Sat", sun: "Sun",
+};
+
+const minutes = (time: string) => {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+};
+
+// e.g. "Mon/Wed 09:00–10:15"
+export function describeTimes(meeting: MeetingTimes) {
+  const days = WEEKDAYS.filter((day) => meeting.days.includes(day)).map((day) => DAY_LABELS[day]);
+  return `${days.join("/")} ${meeting.startTime}–${meeting.endTime}`;
+}
+
+// Two patterns clash when they share a day and their times overlap; back-to-back meetings do not
+function overlaps(a: MeetingTimes, b: MeetingTimes) {
+  return a.days.some((day) => b.days.includes(day)) &&
+    minutes(a.startTime) < minutes(b.endTime) &&
+    minutes(b.startTime) < minutes(a.endTime);
+}
+
+// Sections only clash when their terms run at the same time
+function termsOverlap(a: Term | undefined, b: Term | undefined) {
+  if (!a || !b) return false;
+  return a.id === b.id || (a.startDate <= b.endDate && b.startDate <= a.endDate);
+}
+
+// e.g. "CS101 (Fall 2026)"
+async function sectionLabel(storage: IStorage, section: CourseAssignment) {
+  const course = await storage.getCourse(section.courseId);
+  const term = await storage.getTerm(section.termId);
+  return `${course?.code ?? `Section #${section.id}`}${term ? ` (${term.name})` : ""}`;
+}
+
+// The meetings of other sections, running in a term overlapping the section's, that clash with the given meetings
+async function clashingMeetings(
+  storage: IStorage,
+  section: Pick<CourseAssignment, "id" | "termId">,
+  meetings: MeetingTimes[],
+  others: CourseAssignment[],
+  clash: (mine: MeetingTimes, theirs: SectionMeeting) => boolean = overlaps
+): Promise<{ section: CourseAssignment; meeting: SectionMeeting }[]> {
+  const term = await storage.getTerm(section.termId);
+  const found: { section: CourseAssignment; meeting: SectionMeeting }[] = [];
+
+  for (const other of others) {
+    if (other.id === section.id || !termsOverlap(term, await storage.getTerm(other.termId))) continue;
+
+    for (const meeting of await storage.getSectionMeetings(other.id)) {
+      if (meetings.some((mine) => clash(mine, meeting))) {
+        found.push({ section: other, meeting });
+      }
+    }
+  }
+  return found;
+}
+
+// The sections a student holds a seat or waitlist place in
+async function sectionsOfStudent(storage: IStorage, studentId: number): Promise<CourseAssignment[]> {
+  const enrollments = (await storage.getEnrollmentsByStudent(studentId))
+    .filter((enrollment) => enrollment.status === "enrolled" || enrollment.status === "waitlisted");
+  const sections = await Promise.all(enrollments.map((enrollment) => storage.getCourseAssignment(enrollment.courseAssignmentId)));
+  return sections.filter((section): section is CourseAssignment => !!section);
+}
+
+// Clashes between a section meeting as given and the other sections the student is in, but the
+// one they are leaving
+async function studentClashes(
+  storage: IStorage,
+  studentId: number,
+  section: Pick<CourseAssignment, "id" | "termId">,
+  meetings: MeetingTimes[],
+  who: string,
+  leavingSectionId?: number
+): Promise<ScheduleConflict[]> {
+  const sections = (await sectionsOfStudent(storage, studentId)).filter((other) => other.id !== leavingSectionId);
+  const clashes = await clashingMeetings(storage, section, meetings, sections);
+  return Promise.all(clashes.map(async ({ section: other, meeting }) => ({
+    kind: "student" as const,
+    courseAssignmentId: other.id,
+    description: `${who} ${await sectionLabel(storage, other)}, which meets ${describeTimes(meeting)}`
+  })));
+}
+
+// Times must run forwards, rooms must exist and seat the whole section, and a section's own
+// patterns must not overlap each other
+export async function validateMeetings(storage: IStorage, section: CourseAssignment, meetings: NewMeeting[]) {
+  for (const [index, meeting] of Array.from(meetings.entries())) {
+    if (minutes(meeting.endTime) <= minutes(meeting.startTime)) {
+      throw new ScheduleError(`${describeTimes(meeting)} ends before it starts`);
+    }
+    if (meeting.roomId !== null && meeting.roomId !== undefined) {
+      const room = await storage.getRoom(meeting.roomId);
+      if (!room) {
+        throw new ScheduleError(`Room #${meeting.roomId} not found`);
+      }
+      if (section.capacity !== null && section.capacity > room.capacity) {
+        throw new ScheduleError(`${room.name} seats ${room.capacity}, fewer than the section's ${section.capacity} seats`);
+      }
+    }
+    const overlapping = meetings.slice(0, index).find((other) => overlaps(meeting, other));
+    if (overlapping) {
+      throw new ScheduleError(`${describeTimes(meeting)} overlaps ${describeTimes(overlapping)} of the same section`);
+    }
+  }
+}
+
+// A section's rooms must seat a new capacity too
+export async function checkRoomCapacity(storage: IStorage, courseAssignmentId: number, capacity: number | null) {
+  if (capacity === null) return;
+
+  for (const meeting of await storage.getSectionMeetings(courseAssignmentId)) {
+    const room = meeting.roomId !== null ? await storage.getRoom(meeting.roomId) : undefined;
+    if (room && capacity > room.capacity) {
+      throw new ScheduleError(`${room.name} seats ${room.capacity}, fewer than ${capacity} seats`);
+    }
+  }
+}
+
+// A room cannot shrink below the seat count of a section meeting in it
+export async function checkRoomSeats(storage: IStorage, roomId: number, capacity: number) {
+  for (const meeting of await storage.getSectionMeetingsByRoom(roomId)) {
+    const section = await storage.getCourseAssignment(meeting.courseAssignmentId);
+    if (section && section.capacity !== null && section.capacity > capacity) {
+      throw new ScheduleError(`${await sectionLabel(storage, section)} meets here with ${section.capacity} seats`);
+    }
+  }
+}
+
+// Everyone and everything a section's meetings would double-book: its instructor, its rooms and
+// the students already in it
+export async function sectionConflicts(
+  storage: IStorage,
+  section: Pick<CourseAssignment, "id" | "termId" | "facultyId">,
+  meetings: MeetingTimes[]
+): Promise<ScheduleConflict[]> {
+  const conflicts: ScheduleConflict[] = [];
+
+  const faculty = await storage.getFaculty(section.facultyId);
+  const instructor = faculty ? (await storage.getUser(faculty.userId))?.name : undefined;
+  const taught = await clashingMeetings(storage, section, meetings, await storage.getCourseAssignmentsByFaculty(section.facultyId));
+  for (const { section: other, meeting } of taught) {
+    conflicts.push({
+      kind: "instructor",
+      courseAssignmentId: other.id,
+      description: `${instructor ?? "The instructor"} teaches ${await sectionLabel(storage, other)} ${describeTimes(meeting)}`
+    });
+  }
+
+  const roomIds = Array.from(new Set(meetings.map((meeting) => meeting.roomId).filter((id): id is number => typeof id === "number")));
+  for (const roomId of roomIds) {
+    const room = await storage.getRoom(roomId);
+    const bookedIds = new Set((await storage.getSectionMeetingsByRoom(roomId)).map((meeting) => meeting.courseAssignmentId));
+    const others = (await Promise.all(Array.from(bookedIds).map((id) => storage.getCourseAssignment(id))))
+      .filter((other): other is CourseAssignment => !!other);
+    const clashes = await clashingMeetings(
+      storage, section, meetings.filter((meeting) => meeting.roomId === roomId), others,
+      (mine, theirs) => theirs.roomId === roomId && overlaps(mine, theirs)
+    );
+    for (const { section: other, meeting } of clashes) {
+      conflicts.push({
+        kind: "room",
+        courseAssignmentId: other.id,
+        description: `${room?.name ?? `Room #${roomId}`} is booked for ${await sectionLabel(storage, other)} ${describeTimes(meeting)}`
+      });
+    }
+  }
+
+  const enrollments = (await storage.getEnrollmentsByCourseAssignment(section.id))
+    .filter((enrollment) => enrollment.status === "enrolled" || enrollment.status === "waitlisted");
+  for (const enrollment of enrollments) {
+    const student = await storage.getStudent(enrollment.studentId);
+    const name = student ? (await storage.getUser(student.userId))?.name : undefined;
+    conflicts.push(...(await studentClashes(
+      storage, enrollment.studentId, section, meetings, `${name ?? `Student #${enrollment.studentId}`} is in`
+    )));
+  }
+
+  return conflicts;
+}
+
+// Refuses meeting patterns that would double-book the section's instructor, rooms or students
+export async function checkSectionSchedule(
+  storage: IStorage,
+  section: Pick<CourseAssignment, "id" | "termId" | "facultyId">,
+  meetings: MeetingTimes[]
+) {
+  const conflicts = await sectionConflicts(storage, section, meetings);
+  if (conflicts.length > 0) {
+    throw new ScheduleConflictError(conflicts);
+  }
+}
+
+// Refuses a student a place in a section that meets while another of their sections does; a
+// student switching sections is no longer in the one they leave
+export async function checkStudentSchedule(
+  storage: IStorage,
+  studentId: number,
+  courseAssignmentId: number,
+  leavingSectionId?: number
+) {
+  const section = await storage.getCourseAssignment(courseAssignmentId);
+  if (!section) return;
+
+  const meetings = await storage.getSectionMeetings(courseAssignmentId);
+  if (meetings.length === 0) return;
+
+  const conflicts = await studentClashes(storage, studentId, section, meetings, "The student is in", leavingSectionId);
+  if (conflicts.length > 0) {
+    throw new ScheduleConflictError(conflicts);
+  }
+}
+
+// Replaces every meeting pattern of a section with the given ones
+export async function replaceMeetings(storage: IStorage, courseAssignmentId: number, meetings: NewMeeting[]) {
+  for (const meeting of await storage.getSectionMeetings(courseAssignmentId)) {
+    await storage.deleteSectionMeeting(meeting.id);
+  }
+  for (const meeting of meetings) {
+    await storage.createSectionMeeting({ ...meeting, courseAssignmentId });
+  }
+}
+
+// A section's meeting patterns joined with their rooms, for display
+export async function describeMeetings(storage: IStorage, courseAssignmentId: number) {
+  return Promise.all((await storage.getSectionMeetings(courseAssignmentId)).map(async (meeting) => ({
+    ...meeting,
+    room: meeting.roomId !== null ? (await storage.getRoom(meeting.roomId)) ?? null : null
+  })));
+}
+
+// The term a timetable covers: the one asked for, otherwise the current term
+export async function timetableTerm(storage: IStorage, termId?: number): Promise<Term | undefined> {
+  return termId !== undefined ? storage.getTerm(termId) : storage.getCurrentTerm();
+}
+
+// One block per meeting pattern of each section, with what the weekly timetable shows on it;
+// status is the student's enrollment status, for student timetables
+export async function timetableEntries(
+  storage: IStorage,
+  sections: { section: CourseAssignment; status?: string; meetings?: SectionMeeting[] }[]
+) {
+  const entries = await Promise.all(sections.map(async ({ section, status, meetings }) => {
+    const course = await storage.getCourse(section.courseId);
+    const faculty = await storage.getFaculty(section.facultyId);
+    const instructor = faculty ? await storage.getUser(faculty.userId) : undefined;
+
+    return Promise.all((meetings ?? await storage.getSectionMeetings(section.id)).map(async (meeting) => {
+      const room = meeting.roomId !== null ? await storage.getRoom(meeting.roomId) : undefined;
+      return {
+        meetingId: meeting.id,
+        courseAssignmentId: section.id,
+        course: course ? { id: course.id, code: course.code, title: course.title } : null,
+        facultyName: instructor?.name ?? null,
+        room: room ? { id: room.id, name: room.name, building: room.building } : null,
+        days: meeting.days,
+        startTime: meeting.startTime,
+        endTime: meeting.endTime,
+        ...(status ? { status } : {})
+      };
+    }));
+  }));
+  return entries.flat().sort((a, b) => minutes(a.startTime) - minutes(b.startTime));
+}
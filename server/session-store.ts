@@ -0,0 +1,204 @@
+import fs from "fs";
+import path from "path";
+import session, { type SessionData } from "express-session";
+import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import type { Pool } from "pg";
+import { createPool } from "./db";
+
+// Session storage and lifetime, configurable through the environment
+export const sessionConfig = {
+  // "memory", "file" or "postgres"; defaults to the same kind of backend as the data storage
+  driver: process.env.SESSION_STORE || defaultDriver(),
+  // Signed-in sessions end after this long without a request; every request extends it
+  idleTimeoutMs: parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || String(24 * 60 * 60 * 1000)),
+  // Sessions end this long after sign-in, however active they are
+  absoluteTimeoutMs: parseInt(process.env.SESSION_ABSOLUTE_TIMEOUT_MS || String(7 * 24 * 60 * 60 * 1000)),
+  // How often expired sessions are removed from the store
+  pruneIntervalMs: parseInt(process.env.SESSION_PRUNE_INTERVAL_MS || String(15 * 60 * 1000)),
+  directory: process.env.SESSION_DIR || path.join(process.env.STORAGE_DIR || "data", "sessions"),
+};
+
+function defaultDriver(): string {
+  const storageDriver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+  return storageDriver === "postgres" || storageDriver === "file" ? storageDriver : "memory";
+}
+
+export function createSessionStore(config = sessionConfig): session.Store {
+  switch (config.driver) {
+    case "memory": {
+      const MemoryStoreInstance = MemoryStore(session);
+      return new MemoryStoreInstance({ checkPeriod: config.pruneIntervalMs });
+    }
+    case "file":
+      return new FileSessionStore(config.directory, config.pruneIntervalMs);
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when SESSION_STORE is \"postgres\"");
+      }
+      return new PgSessionStore(createPool(process.env.DATABASE_URL), config.pruneIntervalMs);
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${config.driver}"`);
+  }
+}
+
+// Keeps sessions in the "session" table declared in the shared schema. connect-pg-simple cannot list
+// sessions, so the sessions of one user are looked up in the table directly.
+export class PgSessionStore extends connectPgSimple(session) {
+  constructor(private pool: Pool, pruneIntervalMs: number) {
+    super({
+      pool,
+      tableName: "session",
+      createTableIfMissing: true,
+      pruneSessionInterval: Math.round(pruneIntervalMs / 1000),
+    });
+  }
+
+  // An impersonation session belongs to the admin behind it, not to the user being viewed as
+  async userSessions(userId: number): Promise<[string, SessionData][]> {
+    const { rows } = await this.pool.query<{ sid: string; sess: SessionData }>(
+      `SELECT sid, sess FROM "session"
+       WHERE expire >= now() AND coalesce(sess->'impersonator'->'user'->>'id', sess->'user'->>'id') = $1`,
+      [String(userId)]
+    );
+    return rows.map((row) => [row.sid, row.sess]);
+  }
+}
+
+// How long disk writes are held back so a burst of requests is written once
+const SAVE_DELAY_MS = 1000;
+
+// File stores whose pending writes are flushed when the process shuts down
+const fileStores = new Set<FileSessionStore>();
+let shutdownFlushInstalled = false;
+
+// Flushes every file store on exit and on SIGTERM/SIGINT. Node skips "exit" when a signal ends the
+// process, and listening for a signal replaces its default of exiting, so after flushing the signal
+// is raised again with the listener gone. The handlers are installed once, for all stores.
+function flushOnShutdown(store: FileSessionStore): void {
+  fileStores.add(store);
+  if (shutdownFlushInstalled) return;
+  shutdownFlushInstalled = true;
+
+  const flushAll = () => fileStores.forEach((fileStore) => fileStore.flush());
+  process.on("exit", flushAll);
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => {
+      flushAll();
+      process.kill(process.pid, signal);
+    });
+  }
+}
+
+function isExpired(data: SessionData, now = Date.now()): boolean {
+  const expires = data.cookie?.expires;
+  return !!expires && new Date(expires).getTime() <= now;
+}
+
+// Keeps sessions in memory and mirrors them to a JSON file in the given directory,
+// so signed-in users stay signed in across restarts without a database
+export class FileSessionStore extends session.Store {
+  private sessions = new Map<string, SessionData>();
+  private filePath: string;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(directory: string, pruneIntervalMs: number) {
+    super();
+    fs.mkdirSync(directory, { recursive: true });
+    this.filePath = path.join(directory, "sessions.json");
+    this.readFile();
+
+    setInterval(() => this.prune(), pruneIntervalMs).unref();
+    flushOnShutdown(this);
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    const data = this.sessions.get(sid);
+    if (data && isExpired(data)) {
+      this.sessions.delete(sid);
+      this.scheduleSave();
+      return callback(null, null);
+    }
+    // express-session mutates what it loads, so hand out a copy
+    callback(null, data ? JSON.parse(JSON.stringify(data)) : null);
+  }
+
+  set(sid: string, data: SessionData, callback?: (err?: any) => void): void {
+    // Round-trip through JSON so later changes to the live object do not leak into the store
+    this.sessions.set(sid, JSON.parse(JSON.stringify(data)));
+    this.scheduleSave();
+    callback?.();
+  }
+
+  touch(sid: string, data: SessionData, callback?: () => void): void {
+    const existing = this.sessions.get(sid);
+    if (existing) {
+      existing.cookie = JSON.parse(JSON.stringify(data.cookie));
+      this.scheduleSave();
+    }
+    callback?.();
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.sessions.delete(sid);
+    this.scheduleSave();
+    callback?.();
+  }
+
+  all(callback: (err: any, sessions?: { [sid: string]: SessionData } | null) => void): void {
+    this.prune();
+    callback(null, Object.fromEntries(Array.from(this.sessions.entries())));
+  }
+
+  length(callback: (err: any, length?: number) => void): void {
+    this.prune();
+    callback(null, this.sessions.size);
+  }
+
+  clear(callback?: (err?: any) => void): void {
+    this.sessions.clear();
+    this.scheduleSave();
+    callback?.();
+  }
+
+  // Writes pending changes now
+  flush(): void {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(Array.from(this.sessions.entries()))));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private readFile(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const stored: Record<string, SessionData> = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    for (const [sid, data] of Object.entries(stored)) {
+      if (!isExpired(data)) {
+        this.sessions.set(sid, data);
+      }
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    let removed = false;
+    for (const [sid, data] of Array.from(this.sessions.entries())) {
+      if (isExpired(data, now)) {
+        this.sessions.delete(sid);
+        removed = true;
+      }
+    }
+    if (removed) this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
@@ -0,0 +1,111 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import type { SessionData, Store } from "express-session";
+import type { Pool } from "pg";
+import type { PGlite } from "@electric-sql/pglite";
+import { FileSessionStore, PgSessionStore, createSessionStore, sessionConfig } from "./session-store";
+import { SessionRegistry, publicSessionId } from "./sessions";
+import { createTestDatabase } from "./test-database";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const signedIn = (id: number, impersonating?: number): SessionData => {
+  const admin = { id, username: `user${id}`, role: "admin", name: `User ${id}` };
+  return {
+    cookie: { originalMaxAge: HOUR_MS, expires: new Date(Date.now() + HOUR_MS) },
+    meta: { createdAt: Date.now(), lastSeenAt: Date.now(), ip: "127.0.0.1", userAgent: null },
+    ...(impersonating === undefined
+      ? { user: admin }
+      : {
+          user: { id: impersonating, username: `user${impersonating}`, role: "student", name: `User ${impersonating}` },
+          impersonator: { user: admin, startedAt: Date.now(), expiresAt: Date.now() + HOUR_MS },
+        }),
+  } as SessionData;
+};
+
+const put = (store: Store, sid: string, data: SessionData) =>
+  new Promise<void>((resolve, reject) => store.set(sid, data, (err) => (err ? reject(err) : resolve())));
+
+// pglite answers queries the way a node-postgres pool does, which is all the Postgres store needs
+let client: PGlite | undefined;
+const stores: Record<string, () => Promise<Store>> = {
+  memory: async () => createSessionStore({ ...sessionConfig, driver: "memory" }),
+  file: async () =>
+    createSessionStore({ ...sessionConfig, driver: "file", directory: fs.mkdtempSync(path.join(os.tmpdir(), "sessions-")) }),
+  postgres: async () => {
+    client = (await createTestDatabase()).client;
+    const pool = { query: (text: string, params?: unknown[]) => client!.query(text, params) };
+    return new PgSessionStore(pool as unknown as Pool, sessionConfig.pruneIntervalMs);
+  },
+};
+
+after(() => client?.close());
+
+for (const [driver, createStore] of Object.entries(stores)) {
+  describe(`SessionRegistry with the ${driver} store`, () => {
+    let registry: SessionRegistry;
+
+    test("lists the sessions of one user, counting impersonation as the admin's", async () => {
+      const store = await createStore();
+      registry = new SessionRegistry(store);
+      await put(store, "sid-a1", signedIn(1));
+      await put(store, "sid-a2", signedIn(1));
+      await put(store, "sid-a3", signedIn(1, 3));
+      await put(store, "sid-b1", signedIn(2));
+      await put(store, "sid-c1", signedIn(3));
+
+      const listed = await registry.list(1, "sid-a2");
+      assert.deepEqual(listed.map((s) => s.id).sort(), ["sid-a1", "sid-a2", "sid-a3"].map(publicSessionId).sort());
+      assert.deepEqual(listed.filter((s) => s.current).map((s) => s.id), [publicSessionId("sid-a2")]);
+      assert.deepEqual((await registry.list(3)).map((s) => s.id), [publicSessionId("sid-c1")]);
+    });
+
+    test("revokes one session by its public id", async () => {
+      assert.equal(await registry.revoke(1, publicSessionId("sid-a1")), true);
+      assert.equal(await registry.revoke(1, publicSessionId("sid-b1")), false);
+      assert.equal((await registry.list(1)).length, 2);
+    });
+
+    test("revokes every session but the one kept", async () => {
+      assert.equal(await registry.revokeAll(1, "sid-a2"), 1);
+      assert.deepEqual((await registry.list(1)).map((s) => s.id), [publicSessionId("sid-a2")]);
+      assert.equal((await registry.list(2)).length, 1);
+    });
+  });
+}
+
+describe("FileSessionStore", () => {
+  test("listens for shutdown once however many stores there are", () => {
+    const directory = () => fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+    new FileSessionStore(directory(), 60000);
+    const listeners = ["exit", "SIGTERM", "SIGINT"].map((event) => process.listenerCount(event));
+    new FileSessionStore(directory(), 60000);
+    assert.deepEqual(["exit", "SIGTERM", "SIGINT"].map((event) => process.listenerCount(event)), listeners);
+  });
+
+  // A process that stores a session and is stopped by the signal before the delayed write is due
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    test(`writes pending sessions when the process is stopped with ${signal}`, () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+      const script = `
+        const { FileSessionStore } = await import(${JSON.stringify(path.join(import.meta.dirname, "session-store.ts"))});
+        const store = new FileSessionStore(${JSON.stringify(directory)}, 60000);
+        store.set("sid-1", ${JSON.stringify(signedIn(1))});
+        process.kill(process.pid, "${signal}");
+        setTimeout(() => {}, 5000);
+      `;
+      const child = spawnSync(process.execPath, ["--import", "tsx", "--input-type=module", "-e", script], { timeout: 20000 });
+
+      assert.equal(child.signal, signal);
+      const restored = new FileSessionStore(directory, 60000);
+      restored.get("sid-1", (err, data) => {
+        assert.ifError(err);
+        assert.equal(data?.user?.id, 1);
+      });
+    });
+  }
+});
@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import type { SessionData, Store } from "express-session";
+
+// How often the last-seen time is written back; saving on every request would rewrite the session each time
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface SessionInfo {
+  // Derived from the session id; the real id is the cookie value and never leaves the server
+  id: string;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+}
+
+export function publicSessionId(sessionId: string): string {
+  return crypto.createHash("sha256").update(sessionId).digest("hex").slice(0, 24);
+}
+
+// Records where and when a session was signed in; called when the user is put on the session
+export function startSessionMeta(req: Request): void {
+  const now = Date.now();
+  req.session.meta = {
+    createdAt: now,
+    lastSeenAt: now,
+    ip: req.ip || req.socket.remoteAddress || "unknown",
+    userAgent: req.get("user-agent") || null,
+  };
+}
+
+export interface SessionTimeouts {
+  idleTimeoutMs: number;
+  absoluteTimeoutMs: number;
+}
+
+// True once a signed-in session has outlived its absolute timeout
+export function sessionExpired(req: Request, timeouts: SessionTimeouts, now = Date.now()): boolean {
+  const meta = req.session.meta;
+  return !!meta && now - meta.createdAt >= timeouts.absoluteTimeoutMs;
+}
+
+// When the session ends if no further requests arrive
+export function sessionExpiresAt(req: Request, timeouts: SessionTimeouts): Date | null {
+  const meta = req.session.meta;
+  if (!meta) return null;
+
+  return new Date(Math.min(
+    Date.now() + timeouts.idleTimeoutMs,
+    meta.createdAt + timeouts.absoluteTimeoutMs
+  ));
+}
+
+// Slides the idle expiry forward (never past the absolute timeout) and refreshes the
+// last-seen time and address, which changes on mobile networks, for signed-in requests
+export function touchSession(req: Request, timeouts: SessionTimeouts): void {
+  const meta = req.session.meta;
+  if (!req.session.user || !meta) return;
+
+  const now = Date.now();
+  req.session.cookie.maxAge = Math.min(timeouts.idleTimeoutMs, meta.createdAt + timeouts.absoluteTimeoutMs - now);
+
+  if (now - meta.lastSeenAt < TOUCH_INTERVAL_MS) return;
+
+  meta.lastSeenAt = now;
+  meta.ip = req.ip || req.socket.remoteAddress || meta.ip;
+}
+
+// A store that can look up the sessions of one user itself rather than listing every session
+export interface UserSessionLookup {
+  userSessions(userId: number): Promise<[string, SessionData][]>;
+}
+
+// Lists and revokes the stored sessions of signed-in users
+export class SessionRegistry {
+  constructor(private store: Store & Partial<UserSessionLookup>) {}
+
+  async list(userId: number, currentSessionId?: string): Promise<SessionInfo[]> {
+    const sessions = await this.userSessions(userId);
+
+    return sessions
+      .map(([sid, data]) => ({
+        id: publicSessionId(sid),
+        createdAt: data.meta ? new Date(data.meta.createdAt) : null,
+        lastSeenAt: data.meta ? new Date(data.meta.lastSeenAt) : null,
+        ip: data.meta?.ip ?? null,
+        userAgent: data.meta?.userAgent ?? null,
+        current: sid === currentSessionId,
+      }))
+      .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+  }
+
+  // Ends one of the user's sessions by its public id; returns false if there is no such session
+  async revoke(userId: number, publicId: string): Promise<boolean> {
+    const match = (await this.userSessions(userId)).find(([sid]) => publicSessionId(sid) === publicId);
+    if (!match) return false;
+
+    await this.destroy([match[0]]);
+    return true;
+  }
+
+  // Ends every session of the user, optionally keeping one (e.g. the caller's); returns how many ended
+  async revokeAll(userId: number, keepSessionId?: string): Promise<number> {
+    const sessionIds = (await this.userSessions(userId))
+      .map(([sid]) => sid)
+      .filter((sid) => sid !== keepSessionId);
+
+    await this.destroy(sessionIds);
+    return sessionIds.length;
+  }
+
+  private userSessions(userId: number): Promise<[string, SessionData][]> {
+    if (this.store.userSessions) return this.store.userSessions(userId);
+
+    return new Promise((resolve, reject) => {
+      if (!this.store.all) return reject(new Error("Session store cannot list sessions"));
+
+      this.store.all((err: any, sessions: any) => {
+        if (err) return reject(err);
+
+        // An impersonation session belongs to the admin behind it, not to the user being viewed as
+        const entries = Object.entries(sessions || {}) as [string, SessionData][];
+        resolve(entries.filter(([, data]) => (data?.impersonator?.user.id ?? data?.user?.id) === userId));
+      });
+    });
+  }
+
+  private async destroy(sessionIds: string[]): Promise<void> {
+    for (const sid of sessionIds) {
+      await new Promise<void>((resolve, reject) =>
+        this.store.destroy(sid, (err: any) => (err ? reject(err) : resolve()))
+      );
+    }
+  }
+}
@@ -3,14 +3,33 @@ import {
   Student, InsertStudent, students,
   Faculty, InsertFaculty, faculty,
   Course, InsertCourse, courses,
+  GradeScale, InsertGradeScale,
+  CourseRequisite, InsertCourseRequisite,
+  RequisiteWaiver, InsertRequisiteWaiver,
+  Term, InsertTerm,
   CourseAssignment, InsertCourseAssignment, courseAssignments,
+  Room, InsertRoom,
+  SectionMeeting, InsertSectionMeeting,
   Enrollment, InsertEnrollment, enrollments,
   Attendance, InsertAttendance, attendance,
   Grade, InsertGrade, grades,
   Event, InsertEvent, events,
-  LoginCredentials
+  Setting,
+  PasswordResetToken, InsertPasswordResetToken,
+  ApiToken, InsertApiToken,
+  AuditEntry, InsertAuditEntry, AuditQuery,
+  LoginCredentials,
+  REQUISITE_TYPES, type RequisiteType
 } from "@shared/schema";
 import { format } from "date-fns";
+import { AsyncLocalStorage } from "async_hooks";
+import { createDatabase } from "./db";
+import { hashPassword, hashPasswordSync, verifyPassword } from "./passwords";
+import { DatabaseStorage } from "./db-storage";
+import { Journal, JournalError, type JournalEntry } from "./journal";
+import { ARCHIVED_STATUS, planDelete, type DeletePlan, type EntityType } from "./integrity";
+import { withAuditLog } from "./audit";
+import type { TrashableType, TrashedRecord } from "./trash";
 
 // Define the storage interface
 export interface IStorage {
@@ -25,6 +44,9 @@ export interface IStorage {
 
   // Student operations
   getStudent(id: number): Promise<Student | undefined>;
+  // Reads a student and keeps them locked until the surrounding transaction ends, so checks of
+  // their registrations cannot be overtaken by another request for the same student
+  lockStudent(id: number): Promise<Student | undefined>;
   getStudentByStudentId(studentId: string): Promise<Student | undefined>;
   getStudentByUserId(userId: number): Promise<Student | undefined>;
   createStudent(student: InsertStudent): Promise<Student>;
@@ -50,14 +72,64 @@ export interface IStorage {
   deleteCourse(id: number): Promise<boolean>;
   getAllCourses(): Promise<Course[]>;
 
+  // Grading scale operations
+  getGradeScale(id: number): Promise<GradeScale | undefined>;
+  getDefaultGradeScale(): Promise<GradeScale | undefined>;
+  createGradeScale(scale: InsertGradeScale): Promise<GradeScale>;
+  updateGradeScale(id: number, scale: Partial<GradeScale>): Promise<GradeScale | undefined>;
+  deleteGradeScale(id: number): Promise<boolean>;
+  getAllGradeScales(): Promise<GradeScale[]>;
+  // Courses that name the scale, including those in the trash
+  getCoursesByGradeScale(gradeScaleId: number): Promise<Course[]>;
+
+  // Course requisite operations (rules come back ordered by type, group and id)
+  getCourseRequisite(id: number): Promise<CourseRequisite | undefined>;
+  getCourseRequisites(courseId: number): Promise<CourseRequisite[]>;
+  getCourseRequisitesRequiring(requiredCourseId: number): Promise<CourseRequisite[]>;
+  createCourseRequisite(requisite: InsertCourseRequisite): Promise<CourseRequisite>;
+  deleteCourseRequisite(id: number): Promise<boolean>;
+
+  // Requisite waiver operations
+  getRequisiteWaiver(id: number): Promise<RequisiteWaiver | undefined>;
+  getRequisiteWaiversByStudent(studentId: number): Promise<RequisiteWaiver[]>;
+  getRequisiteWaiversByCourse(courseId: number): Promise<RequisiteWaiver[]>;
+  createRequisiteWaiver(waiver: InsertRequisiteWaiver): Promise<RequisiteWaiver>;
+  deleteRequisiteWaiver(id: number): Promise<boolean>;
+
+  // Term operations
+  getTerm(id: number): Promise<Term | undefined>;
+  getCurrentTerm(): Promise<Term | undefined>;
+  createTerm(term: InsertTerm): Promise<Term>;
+  updateTerm(id: number, term: Partial<Term>): Promise<Term | undefined>;
+  deleteTerm(id: number): Promise<boolean>;
+  getAllTerms(): Promise<Term[]>;
+
   // Course Assignment operations
   getCourseAssignment(id: number): Promise<CourseAssignment | undefined>;
+  // Reads a section and keeps it locked until the surrounding transaction ends, so seat counts
+  // taken after it cannot change before the enrollment based on them is written
+  lockCourseAssignment(id: number): Promise<CourseAssignment | undefined>;
   createCourseAssignment(assignment: InsertCourseAssignment): Promise<CourseAssignment>;
   updateCourseAssignment(id: number, assignment: Partial<CourseAssignment>): Promise<CourseAssignment | undefined>;
   deleteCourseAssignment(id: number): Promise<boolean>;
   getAllCourseAssignments(): Promise<CourseAssignment[]>;
   getCourseAssignmentsByCourse(courseId: number): Promise<CourseAssignment[]>;
   getCourseAssignmentsByFaculty(facultyId: number): Promise<CourseAssignment[]>;
+  getCourseAssignmentsByTerm(termId: number): Promise<CourseAssignment[]>;
+
+  // Room operations
+  getRoom(id: number): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: number, room: Partial<Room>): Promise<Room | undefined>;
+  deleteRoom(id: number): Promise<boolean>;
+  getAllRooms(): Promise<Room[]>;
+
+  // Section meeting operations (patterns come back in id order)
+  getSectionMeeting(id: number): Promise<SectionMeeting | undefined>;
+  getSectionMeetings(courseAssignmentId: number): Promise<SectionMeeting[]>;
+  getSectionMeetingsByRoom(roomId: number): Promise<SectionMeeting[]>;
+  createSectionMeeting(meeting: InsertSectionMeeting): Promise<SectionMeeting>;
+  deleteSectionMeeting(id: number): Promise<boolean>;
 
   // Enrollment operations
   getEnrollment(id: number): Promise<Enrollment | undefined>;
@@ -92,55 +164,227 @@ export interface IStorage {
   getAllEvents(): Promise<Event[]>;
   getUpcomingEvents(): Promise<Event[]>;
 
-  // Dashboard data
-  getDashboardStats(): Promise<any>;
+  // Settings operations (values are JSON-encoded strings)
+  getSetting(key: string): Promise<string | undefined>;
+  setSetting(key: string, value: string): Promise<void>;
+
+  // Password reset token operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getPasswordResetTokensByUser(userId: number): Promise<PasswordResetToken[]>;
+  updatePasswordResetToken(id: number, token: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined>;
+
+  // API token operations
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  updateApiToken(id: number, token: Partial<ApiToken>): Promise<ApiToken | undefined>;
+  deleteApiToken(id: number): Promise<boolean>;
+
+  // Audit log operations (append-only; entries come back newest first)
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditEntries(query: AuditQuery): Promise<AuditEntry[]>;
+
+  // Trash operations: rows of these entities are soft-deleted by setting deletedAt, which hides them
+  // from the getAll* lists while lookups by id or key still find them
+  getDeletedRecords(type: TrashableType): Promise<TrashedRecord[]>;
+
+  // Dashboard data; attendance and enrollment figures cover the given term only, when there is one
+  getDashboardStats(termId?: number): Promise<any>;
+
+  // Runs fn as a unit of work: if it throws, every change it made through tx is rolled back.
+  // Calls nested inside an open transaction join it.
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+}
+
+// Undo steps for the MemStorage transaction running in the current async context
+type UndoLog = (() => void)[];
+const transactionUndoLog = new AsyncLocalStorage<UndoLog>();
+
+// Map that records how to reverse each write made inside MemStorage.transaction. Undo is
+// tracked per write rather than by snapshotting whole tables, so rolling back one request
+// does not discard changes other requests made in the meantime.
+class TrackedMap<V> extends Map<number, V> {
+  set(key: number, value: V): this {
+    this.recordUndo(key);
+    return super.set(key, value);
+  }
+
+  delete(key: number): boolean {
+    this.recordUndo(key);
+    return super.delete(key);
+  }
+
+  private recordUndo(key: number) {
+    const undo = transactionUndoLog.getStore();
+    if (!undo) return;
+
+    if (super.has(key)) {
+      const previous = super.get(key) as V;
+      undo.push(() => super.set(key, previous));
+    } else {
+      undo.push(() => super.delete(key));
+    }
+  }
+}
+
+// The row type stored for each entity type
+interface EntityRows {
+  user: User;
+  student: Student;
+  faculty: Faculty;
+  course: Course;
+  gradeScale: GradeScale;
+  courseRequisite: CourseRequisite;
+  requisiteWaiver: RequisiteWaiver;
+  term: Term;
+  courseAssignment: CourseAssignment;
+  room: Room;
+  sectionMeeting: SectionMeeting;
+  enrollment: Enrollment;
+  attendance: Attendance;
+  grade: Grade;
+  event: Event;
+  passwordResetToken: PasswordResetToken;
+  apiToken: ApiToken;
+}
+
+// Plain-data copy of every MemStorage table, as written to snapshot files
+export interface MemSnapshot {
+  users: User[];
+  students: Student[];
+  faculty: Faculty[];
+  courses: Course[];
+  // Missing from snapshots written before grading scales existed
+  gradeScales?: GradeScale[];
+  // Missing from snapshots written before requisites existed
+  courseRequisites?: CourseRequisite[];
+  requisiteWaivers?: RequisiteWaiver[];
+  // Missing from snapshots written before terms existed, whose course assignments carry semester and year
+  terms?: Term[];
+  courseAssignments: CourseAssignment[];
+  // Missing from snapshots written before schedules existed
+  rooms?: Room[];
+  sectionMeetings?: SectionMeeting[];
+  enrollments: Enrollment[];
+  attendance: Attendance[];
+  grades: Grade[];
+  events: Event[];
+  // Missing from snapshots written before settings existed
+  settings?: Setting[];
+  passwordResetTokens?: PasswordResetToken[];
+  apiTokens?: ApiToken[];
+  auditLog?: AuditEntry[];
+  currentIds: MemStorage["currentIds"];
 }
 
+// First and last month (0-based) of the terms older snapshots refer to by name
+const LEGACY_TERM_MONTHS: Record<string, [number, number]> = {
+  winter: [0, 2],
+  spring: [0, 4],
+  summer: [5, 7],
+  fall: [8, 11],
+  autumn: [8, 11],
+};
+
+// Requisite rules in the order they are read out: prerequisites first, then by group
+const sortRequisites = (rules: CourseRequisite[]) =>
+  rules.sort((a, b) =>
+    REQUISITE_TYPES.indexOf(a.type as RequisiteType) - REQUISITE_TYPES.indexOf(b.type as RequisiteType) ||
+    a.group - b.group ||
+    a.id - b.id
+  );
+
+// The four-month terms of the sample academic calendar
+const SAMPLE_SEASONS = ["Spring", "Summer", "Fall"];
+
 // Memory storage implementation
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private students: Map<number, Student>;
   private faculty: Map<number, Faculty>;
   private courses: Map<number, Course>;
+  private gradeScales: Map<number, GradeScale>;
+  private courseRequisites: Map<number, CourseRequisite>;
+  private requisiteWaivers: Map<number, RequisiteWaiver>;
+  private terms: Map<number, Term>;
   private courseAssignments: Map<number, CourseAssignment>;
+  private rooms: Map<number, Room>;
+  private sectionMeetings: Map<number, SectionMeeting>;
   private enrollments: Map<number, Enrollment>;
   private attendance: Map<number, Attendance>;
   private grades: Map<number, Grade>;
   private events: Map<number, Event>;
+  private settings: Map<number, Setting>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private apiTokens: Map<number, ApiToken>;
+  private auditLog: Map<number, AuditEntry>;
+
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
-  private currentIds: {
+  protected currentIds: {
     user: number;
     student: number;
     faculty: number;
     course: number;
+    gradeScale: number;
+    courseRequisite: number;
+    requisiteWaiver: number;
+    term: number;
     courseAssignment: number;
+    room: number;
+    sectionMeeting: number;
     enrollment: number;
     attendance: number;
     grade: number;
     event: number;
+    setting: number;
+    passwordResetToken: number;
+    apiToken: number;
+    auditEntry: number;
   };
 
   constructor() {
-    this.users = new Map();
-    this.students = new Map();
-    this.faculty = new Map();
-    this.courses = new Map();
-    this.courseAssignments = new Map();
-    this.enrollments = new Map();
-    this.attendance = new Map();
-    this.grades = new Map();
-    this.events = new Map();
+    this.users = new TrackedMap();
+    this.students = new TrackedMap();
+    this.faculty = new TrackedMap();
+    this.courses = new TrackedMap();
+    this.gradeScales = new TrackedMap();
+    this.courseRequisites = new TrackedMap();
+    this.requisiteWaivers = new TrackedMap();
+    this.terms = new TrackedMap();
+    this.courseAssignments = new TrackedMap();
+    this.rooms = new TrackedMap();
+    this.sectionMeetings = new TrackedMap();
+    this.enrollments = new TrackedMap();
+    this.attendance = new TrackedMap();
+    this.grades = new TrackedMap();
+    this.events = new TrackedMap();
+    this.settings = new TrackedMap();
+    this.passwordResetTokens = new TrackedMap();
+    this.apiTokens = new TrackedMap();
+    this.auditLog = new TrackedMap();
 
     this.currentIds = {
       user: 1,
       student: 1,
       faculty: 1,
       course: 1,
+      gradeScale: 1,
+      courseRequisite: 1,
+      requisiteWaiver: 1,
+      term: 1,
       courseAssignment: 1,
+      room: 1,
+      sectionMeeting: 1,
       enrollment: 1,
       attendance: 1,
       grade: 1,
       event: 1,
+      setting: 1,
+      passwordResetToken: 1,
+      apiToken: 1,
+      auditEntry: 1,
     };
 
     // Initialize with some sample data
@@ -159,16 +403,31 @@ export class MemStorage implements IStorage {
   }
 
   async getUserByCredentials(credentials: LoginCredentials): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => 
-        user.username.toLowerCase() === credentials.username.toLowerCase() && 
-        user.password === credentials.password
-    );
+    const user = await this.getUserByUsername(credentials.username);
+    if (!user) return undefined;
+
+    const { valid, needsRehash } = await verifyPassword(credentials.password, user.password);
+    if (!valid) return undefined;
+
+    // Upgrade legacy plaintext rows and outdated hashes now that we know the password
+    if (needsRehash) {
+      return (await this.updateUser(user.id, { password: await hashPassword(credentials.password) })) ?? user;
+    }
+    return user;
   }
 
   async createUser(user: InsertUser): Promise<User> {
     const id = this.currentIds.user++;
-    const newUser: User = { ...user, id };
+    const newUser: User = {
+      ...user,
+      twoFactorSecret: null,
+      twoFactorEnabled: false,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+      deletedAt: null,
+      version: 1,
+      id
+    };
     this.users.set(id, newUser);
     return newUser;
   }
@@ -177,17 +436,18 @@ export class MemStorage implements IStorage {
     const user = this.users.get(id);
     if (!user) return undefined;
     
-    const updatedUser = { ...user, ...userData };
+    const updatedUser = { ...user, ...userData, version: user.version + 1 };
     this.users.set(id, updatedUser);
     return updatedUser;
   }
 
   async deleteUser(id: number): Promise<boolean> {
-    return this.users.delete(id);
+    if (!this.users.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "user", id));
   }
 
   async getAllUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
+    return Array.from(this.users.values()).filter((user) => !user.deletedAt);
   }
 
   // Student operations
@@ -195,6 +455,11 @@ export class MemStorage implements IStorage {
     return this.students.get(id);
   }
 
+  // Transactions already run one at a time, so there is nothing to lock
+  async lockStudent(id: number): Promise<Student | undefined> {
+    return this.getStudent(id);
+  }
+
   async getStudentByStudentId(studentId: string): Promise<Student | undefined> {
     return Array.from(this.students.values()).find(
       (student) => student.studentId === studentId
@@ -209,7 +474,7 @@ export class MemStorage implements IStorage {
 
   async createStudent(student: InsertStudent): Promise<Student> {
     const id = this.currentIds.student++;
-    const newStudent: Student = { ...student, id };
+    const newStudent: Student = { ...student, deletedAt: null, version: 1, id };
     this.students.set(id, newStudent);
     return newStudent;
   }
@@ -218,17 +483,18 @@ export class MemStorage implements IStorage {
     const student = this.students.get(id);
     if (!student) return undefined;
     
-    const updatedStudent = { ...student, ...studentData };
+    const updatedStudent = { ...student, ...studentData, version: student.version + 1 };
     this.students.set(id, updatedStudent);
     return updatedStudent;
   }
 
   async deleteStudent(id: number): Promise<boolean> {
-    return this.students.delete(id);
+    if (!this.students.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "student", id));
   }
 
   async getAllStudents(): Promise<Student[]> {
-    return Array.from(this.students.values());
+    return Array.from(this.students.values()).filter((student) => !student.deletedAt);
   }
 
   async getStudentDetails(id: number): Promise<any> {
@@ -263,8 +529,7 @@ export class MemStorage implements IStorage {
           facultyName: facultyUser?.name,
           attendance: attendanceRecords,
           grades: gradeRecords,
-          semester: courseAssignment.semester,
-          year: courseAssignment.year
+          term: await this.getTerm(courseAssignment.termId)
         };
       })
     );
@@ -295,7 +560,7 @@ export class MemStorage implements IStorage {
 
   async createFaculty(faculty: InsertFaculty): Promise<Faculty> {
     const id = this.currentIds.faculty++;
-    const newFaculty: Faculty = { ...faculty, id };
+    const newFaculty: Faculty = { ...faculty, deletedAt: null, version: 1, id };
     this.faculty.set(id, newFaculty);
     return newFaculty;
   }
@@ -304,17 +569,18 @@ export class MemStorage implements IStorage {
     const faculty = this.faculty.get(id);
     if (!faculty) return undefined;
     
-    const updatedFaculty = { ...faculty, ...facultyData };
+    const updatedFaculty = { ...faculty, ...facultyData, version: faculty.version + 1 };
     this.faculty.set(id, updatedFaculty);
     return updatedFaculty;
   }
 
   async deleteFaculty(id: number): Promise<boolean> {
-    return this.faculty.delete(id);
+    if (!this.faculty.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "faculty", id));
   }
 
   async getAllFaculty(): Promise<Faculty[]> {
-    return Array.from(this.faculty.values());
+    return Array.from(this.faculty.values()).filter((faculty) => !faculty.deletedAt);
   }
 
   // Course operations
@@ -330,7 +596,7 @@ export class MemStorage implements IStorage {
 
   async createCourse(course: InsertCourse): Promise<Course> {
     const id = this.currentIds.course++;
-    const newCourse: Course = { ...course, id };
+    const newCourse: Course = { gradeScaleId: null, ...course, deletedAt: null, version: 1, id };
     this.courses.set(id, newCourse);
     return newCourse;
   }
@@ -339,17 +605,142 @@ export class MemStorage implements IStorage {
     const course = this.courses.get(id);
     if (!course) return undefined;
     
-    const updatedCourse = { ...course, ...courseData };
+    const updatedCourse = { ...course, ...courseData, version: course.version + 1 };
     this.courses.set(id, updatedCourse);
     return updatedCourse;
   }
 
   async deleteCourse(id: number): Promise<boolean> {
-    return this.courses.delete(id);
+    if (!this.courses.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "course", id));
   }
 
   async getAllCourses(): Promise<Course[]> {
-    return Array.from(this.courses.values());
+    return Array.from(this.courses.values()).filter((course) => !course.deletedAt);
+  }
+
+  // Grading scale operations
+  async getGradeScale(id: number): Promise<GradeScale | undefined> {
+    return this.gradeScales.get(id);
+  }
+
+  async getDefaultGradeScale(): Promise<GradeScale | undefined> {
+    return Array.from(this.gradeScales.values()).find((scale) => scale.isDefault);
+  }
+
+  async createGradeScale(scale: InsertGradeScale): Promise<GradeScale> {
+    const id = this.currentIds.gradeScale++;
+    const newScale: GradeScale = { programs: [], isDefault: false, ...scale, version: 1, id };
+    this.gradeScales.set(id, newScale);
+    return newScale;
+  }
+
+  async updateGradeScale(id: number, scaleData: Partial<GradeScale>): Promise<GradeScale | undefined> {
+    const scale = this.gradeScales.get(id);
+    if (!scale) return undefined;
+
+    const updatedScale = { ...scale, ...scaleData, version: scale.version + 1 };
+    this.gradeScales.set(id, updatedScale);
+    return updatedScale;
+  }
+
+  async deleteGradeScale(id: number): Promise<boolean> {
+    if (!this.gradeScales.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "gradeScale", id));
+  }
+
+  async getAllGradeScales(): Promise<GradeScale[]> {
+    return Array.from(this.gradeScales.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCoursesByGradeScale(gradeScaleId: number): Promise<Course[]> {
+    return Array.from(this.courses.values()).filter((course) => course.gradeScaleId === gradeScaleId);
+  }
+
+  // Course requisite operations
+  async getCourseRequisite(id: number): Promise<CourseRequisite | undefined> {
+    return this.courseRequisites.get(id);
+  }
+
+  async getCourseRequisites(courseId: number): Promise<CourseRequisite[]> {
+    return sortRequisites(Array.from(this.courseRequisites.values()).filter((rule) => rule.courseId === courseId));
+  }
+
+  async getCourseRequisitesRequiring(requiredCourseId: number): Promise<CourseRequisite[]> {
+    return sortRequisites(
+      Array.from(this.courseRequisites.values()).filter((rule) => rule.requiredCourseId === requiredCourseId)
+    );
+  }
+
+  async createCourseRequisite(requisite: InsertCourseRequisite): Promise<CourseRequisite> {
+    const id = this.currentIds.courseRequisite++;
+    const newRequisite: CourseRequisite = { requiredCourseId: null, minGrade: null, ...requisite, id };
+    this.courseRequisites.set(id, newRequisite);
+    return newRequisite;
+  }
+
+  async deleteCourseRequisite(id: number): Promise<boolean> {
+    return this.courseRequisites.delete(id);
+  }
+
+  // Requisite waiver operations
+  async getRequisiteWaiver(id: number): Promise<RequisiteWaiver | undefined> {
+    return this.requisiteWaivers.get(id);
+  }
+
+  async getRequisiteWaiversByStudent(studentId: number): Promise<RequisiteWaiver[]> {
+    return Array.from(this.requisiteWaivers.values()).filter((waiver) => waiver.studentId === studentId);
+  }
+
+  async getRequisiteWaiversByCourse(courseId: number): Promise<RequisiteWaiver[]> {
+    return Array.from(this.requisiteWaivers.values()).filter((waiver) => waiver.courseId === courseId);
+  }
+
+  async createRequisiteWaiver(waiver: InsertRequisiteWaiver): Promise<RequisiteWaiver> {
+    const id = this.currentIds.requisiteWaiver++;
+    const newWaiver: RequisiteWaiver = { grantedById: null, createdAt: new Date(), ...waiver, id };
+    this.requisiteWaivers.set(id, newWaiver);
+    return newWaiver;
+  }
+
+  async deleteRequisiteWaiver(id: number): Promise<boolean> {
+    return this.requisiteWaivers.delete(id);
+  }
+
+  // Term operations
+  async getTerm(id: number): Promise<Term | undefined> {
+    return this.terms.get(id);
+  }
+
+  async getCurrentTerm(): Promise<Term | undefined> {
+    return Array.from(this.terms.values()).find((term) => term.isCurrent);
+  }
+
+  async createTerm(term: InsertTerm): Promise<Term> {
+    const id = this.currentIds.term++;
+    const newTerm: Term = { isCurrent: false, ...term, version: 1, id };
+    this.terms.set(id, newTerm);
+    return newTerm;
+  }
+
+  async updateTerm(id: number, termData: Partial<Term>): Promise<Term | undefined> {
+    const term = this.terms.get(id);
+    if (!term) return undefined;
+
+    const updatedTerm = { ...term, ...termData, version: term.version + 1 };
+    this.terms.set(id, updatedTerm);
+    return updatedTerm;
+  }
+
+  async deleteTerm(id: number): Promise<boolean> {
+    if (!this.terms.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "term", id));
+  }
+
+  async getAllTerms(): Promise<Term[]> {
+    return Array.from(this.terms.values()).sort(
+      (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+    );
   }
 
   // Course Assignment operations
@@ -357,9 +748,14 @@ export class MemStorage implements IStorage {
     return this.courseAssignments.get(id);
   }
 
+  // Transactions already run one at a time, so there is nothing to lock
+  async lockCourseAssignment(id: number): Promise<CourseAssignment | undefined> {
+    return this.getCourseAssignment(id);
+  }
+
   async createCourseAssignment(assignment: InsertCourseAssignment): Promise<CourseAssignment> {
     const id = this.currentIds.courseAssignment++;
-    const newAssignment: CourseAssignment = { ...assignment, id };
+    const newAssignment: CourseAssignment = { capacity: null, ...assignment, version: 1, id };
     this.courseAssignments.set(id, newAssignment);
     return newAssignment;
   }
@@ -368,13 +764,14 @@ export class MemStorage implements IStorage {
     const assignment = this.courseAssignments.get(id);
     if (!assignment) return undefined;
     
-    const updatedAssignment = { ...assignment, ...assignmentData };
+    const updatedAssignment = { ...assignment, ...assignmentData, version: assignment.version + 1 };
     this.courseAssignments.set(id, updatedAssignment);
     return updatedAssignment;
   }
 
   async deleteCourseAssignment(id: number): Promise<boolean> {
-    return this.courseAssignments.delete(id);
+    if (!this.courseAssignments.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "courseAssignment", id));
   }
 
   async getAllCourseAssignments(): Promise<CourseAssignment[]> {
@@ -393,6 +790,68 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getCourseAssignmentsByTerm(termId: number): Promise<CourseAssignment[]> {
+    return Array.from(this.courseAssignments.values()).filter(
+      (assignment) => assignment.termId === termId
+    );
+  }
+
+  // Room operations
+  async getRoom(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    const id = this.currentIds.room++;
+    const newRoom: Room = { ...room, version: 1, id };
+    this.rooms.set(id, newRoom);
+    return newRoom;
+  }
+
+  async updateRoom(id: number, roomData: Partial<Room>): Promise<Room | undefined> {
+    const room = this.rooms.get(id);
+    if (!room) return undefined;
+
+    const updatedRoom = { ...room, ...roomData, version: room.version + 1 };
+    this.rooms.set(id, updatedRoom);
+    return updatedRoom;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    if (!this.rooms.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "room", id));
+  }
+
+  async getAllRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Section meeting operations
+  async getSectionMeeting(id: number): Promise<SectionMeeting | undefined> {
+    return this.sectionMeetings.get(id);
+  }
+
+  async getSectionMeetings(courseAssignmentId: number): Promise<SectionMeeting[]> {
+    return Array.from(this.sectionMeetings.values()).filter(
+      (meeting) => meeting.courseAssignmentId === courseAssignmentId
+    );
+  }
+
+  async getSectionMeetingsByRoom(roomId: number): Promise<SectionMeeting[]> {
+    return Array.from(this.sectionMeetings.values()).filter((meeting) => meeting.roomId === roomId);
+  }
+
+  async createSectionMeeting(meeting: InsertSectionMeeting): Promise<SectionMeeting> {
+    const id = this.currentIds.sectionMeeting++;
+    const newMeeting: SectionMeeting = { roomId: null, ...meeting, id };
+    this.sectionMeetings.set(id, newMeeting);
+    return newMeeting;
+  }
+
+  async deleteSectionMeeting(id: number): Promise<boolean> {
+    return this.sectionMeetings.delete(id);
+  }
+
   // Enrollment operations
   async getEnrollment(id: number): Promise<Enrollment | undefined> {
     return this.enrollments.get(id);
@@ -400,7 +859,7 @@ export class MemStorage implements IStorage {
 
   async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
     const id = this.currentIds.enrollment++;
-    const newEnrollment: Enrollment = { ...enrollment, id };
+    const newEnrollment: Enrollment = { waitlistPosition: null, ...enrollment, version: 1, id };
     this.enrollments.set(id, newEnrollment);
     return newEnrollment;
   }
@@ -409,13 +868,14 @@ export class MemStorage implements IStorage {
     const enrollment = this.enrollments.get(id);
     if (!enrollment) return undefined;
     
-    const updatedEnrollment = { ...enrollment, ...enrollmentData };
+    const updatedEnrollment = { ...enrollment, ...enrollmentData, version: enrollment.version + 1 };
     this.enrollments.set(id, updatedEnrollment);
     return updatedEnrollment;
   }
 
   async deleteEnrollment(id: number): Promise<boolean> {
-    return this.enrollments.delete(id);
+    if (!this.enrollments.has(id)) return false;
+    return this.applyDelete(await planDelete(this, "enrollment", id));
   }
 
   async getAllEnrollments(): Promise<Enrollment[]> {
@@ -441,7 +901,7 @@ export class MemStorage implements IStorage {
 
   async createAttendance(attendance: InsertAttendance): Promise<Attendance> {
     const id = this.currentIds.attendance++;
-    const newAttendance: Attendance = { ...attendance, id };
+    const newAttendance: Attendance = { ...attendance, version: 1, id };
     this.attendance.set(id, newAttendance);
     return newAttendance;
   }
@@ -450,7 +910,7 @@ export class MemStorage implements IStorage {
     const attendance = this.attendance.get(id);
     if (!attendance) return undefined;
     
-    const updatedAttendance = { ...attendance, ...attendanceData };
+    const updatedAttendance = { ...attendance, ...attendanceData, version: attendance.version + 1 };
     this.attendance.set(id, updatedAttendance);
     return updatedAttendance;
   }
@@ -476,7 +936,7 @@ export class MemStorage implements IStorage {
 
   async createGrade(grade: InsertGrade): Promise<Grade> {
     const id = this.currentIds.grade++;
-    const newGrade: Grade = { ...grade, id };
+    const newGrade: Grade = { ...grade, version: 1, id };
     this.grades.set(id, newGrade);
     return newGrade;
   }
@@ -485,7 +945,7 @@ export class MemStorage implements IStorage {
     const grade = this.grades.get(id);
     if (!grade) return undefined;
     
-    const updatedGrade = { ...grade, ...gradeData };
+    const updatedGrade = { ...grade, ...gradeData, version: grade.version + 1 };
     this.grades.set(id, updatedGrade);
     return updatedGrade;
   }
@@ -511,7 +971,7 @@ export class MemStorage implements IStorage {
 
   async createEvent(event: InsertEvent): Promise<Event> {
     const id = this.currentIds.event++;
-    const newEvent: Event = { ...event, id };
+    const newEvent: Event = { ...event, deletedAt: null, version: 1, id };
     this.events.set(id, newEvent);
     return newEvent;
   }
@@ -520,7 +980,7 @@ export class MemStorage implements IStorage {
     const event = this.events.get(id);
     if (!event) return undefined;
     
-    const updatedEvent = { ...event, ...eventData };
+    const updatedEvent = { ...event, ...eventData, version: event.version + 1 };
     this.events.set(id, updatedEvent);
     return updatedEvent;
   }
@@ -530,22 +990,133 @@ export class MemStorage implements IStorage {
   }
 
   async getAllEvents(): Promise<Event[]> {
-    return Array.from(this.events.values());
+    return Array.from(this.events.values()).filter((event) => !event.deletedAt);
   }
 
   async getUpcomingEvents(): Promise<Event[]> {
     const now = new Date();
     return Array.from(this.events.values()).filter(
-      (event) => new Date(event.startDate) > now
+      (event) => !event.deletedAt && new Date(event.startDate) > now
     ).sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
   }
 
+  // Settings operations
+  async getSetting(key: string): Promise<string | undefined> {
+    return Array.from(this.settings.values()).find((setting) => setting.key === key)?.value;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    const existing = Array.from(this.settings.values()).find((setting) => setting.key === key);
+    const id = existing?.id ?? this.currentIds.setting++;
+    this.settings.set(id, { id, key, value });
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.currentIds.passwordResetToken++;
+    const newToken: PasswordResetToken = { usedAt: null, createdAt: new Date(), ...token, id };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async getPasswordResetTokensByUser(userId: number): Promise<PasswordResetToken[]> {
+    return Array.from(this.passwordResetTokens.values()).filter((token) => token.userId === userId);
+  }
+
+  async updatePasswordResetToken(id: number, tokenData: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken = { ...token, ...tokenData, id };
+    this.passwordResetTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // API token operations
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentIds.apiToken++;
+    const newToken: ApiToken = { expiresAt: null, lastUsedAt: null, createdAt: new Date(), ...token, id };
+    this.apiTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter((token) => token.userId === userId);
+  }
+
+  async updateApiToken(id: number, tokenData: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken = { ...token, ...tokenData, id };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+
+  // Audit log operations
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const id = this.currentIds.auditEntry++;
+    const newEntry: AuditEntry = {
+      actorId: null,
+      impersonatorId: null,
+      impersonatorName: null,
+      ip: null,
+      createdAt: new Date(),
+      ...entry,
+      changes: entry.changes as AuditEntry["changes"],
+      id,
+    };
+    this.auditLog.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getAuditEntries(query: AuditQuery): Promise<AuditEntry[]> {
+    return Array.from(this.auditLog.values())
+      .filter((entry) =>
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (query.actorId === undefined || entry.actorId === query.actorId) &&
+        (!query.from || new Date(entry.createdAt) >= query.from) &&
+        (!query.to || new Date(entry.createdAt) <= query.to)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(query.offset, query.offset + query.limit);
+  }
+
+  // Trash operations
+  async getDeletedRecords(type: TrashableType): Promise<TrashedRecord[]> {
+    return Array.from(this.tableFor(type).values()).filter((row) => row.deletedAt);
+  }
+
   // Dashboard statistics
-  async getDashboardStats(): Promise<any> {
+  async getDashboardStats(termId?: number): Promise<any> {
     const students = await this.getAllStudents();
     const facultyMembers = await this.getAllFaculty();
     const courses = await this.getAllCourses();
-    const allAttendance = await this.getAllAttendance();
+
+    // Sections and enrollments counted towards the figures below
+    const inTerm = (assignment: CourseAssignment) => termId === undefined || assignment.termId === termId;
+    const termEnrollmentIds = new Set(
+      Array.from(this.enrollments.values())
+        .filter((enrollment) => {
+          const assignment = this.courseAssignments.get(enrollment.courseAssignmentId);
+          return assignment && inTerm(assignment);
+        })
+        .map((enrollment) => enrollment.id)
+    );
+    const allAttendance = (await this.getAllAttendance()).filter((record) => termEnrollmentIds.has(record.enrollmentId));
 
     // Calculate attendance rate
     const totalAttendanceRecords = allAttendance.length;
@@ -568,12 +1139,9 @@ export class MemStorage implements IStorage {
     const archivedCoursesPercentage = totalCourses > 0 ? (archivedCourses / totalCourses) * 100 : 0;
     
     // Popular courses with student count
-    const enrollments = await this.getAllEnrollments();
-    const courseAssignments = await this.getAllCourseAssignments();
-    
     const coursesWithEnrollments = await Promise.all(
       courses.map(async (course) => {
-        const assignments = await this.getCourseAssignmentsByCourse(course.id);
+        const assignments = (await this.getCourseAssignmentsByCourse(course.id)).filter(inTerm);
         let studentCount = 0;
         
         for (const assignment of assignments) {
@@ -618,12 +1186,169 @@ export class MemStorage implements IStorage {
     };
   }
 
+  // Transactions are serialized with each other; ids handed out inside a rolled back
+  // transaction are not reused, just like a database sequence
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    if (transactionUndoLog.getStore()) {
+      return fn(this);
+    }
+
+    const run = async () => {
+      const undo: UndoLog = [];
+      try {
+        return await transactionUndoLog.run(undo, () => fn(this));
+      } catch (error) {
+        for (const step of undo.reverse()) {
+          step();
+        }
+        throw error;
+      }
+    };
+
+    const result = this.transactionQueue.then(run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Referential integrity helpers
+  private tableFor<K extends EntityType>(type: K): Map<number, EntityRows[K]> {
+    const tables: { [T in EntityType]: Map<number, EntityRows[T]> } = {
+      user: this.users,
+      student: this.students,
+      faculty: this.faculty,
+      course: this.courses,
+      gradeScale: this.gradeScales,
+      courseRequisite: this.courseRequisites,
+      requisiteWaiver: this.requisiteWaivers,
+      term: this.terms,
+      courseAssignment: this.courseAssignments,
+      room: this.rooms,
+      sectionMeeting: this.sectionMeetings,
+      enrollment: this.enrollments,
+      attendance: this.attendance,
+      grade: this.grades,
+      event: this.events,
+      passwordResetToken: this.passwordResetTokens,
+      apiToken: this.apiTokens,
+    };
+    return tables[type];
+  }
+
+  // Flips the row to the archived status of its type
+  private archive<K extends EntityType>(type: K, id: number): void {
+    const table = this.tableFor(type);
+    const row = table.get(id);
+    if (row) {
+      table.set(id, { ...row, status: ARCHIVED_STATUS[type] });
+    }
+  }
+
+  private applyDelete(plan: DeletePlan): boolean {
+    if (plan.archive) {
+      this.archive(plan.root.type, plan.root.id);
+      return true;
+    }
+
+    for (const row of plan.deletions) {
+      this.tableFor(row.type).delete(row.id);
+    }
+    return true;
+  }
+
+  // Snapshot operations
+  exportSnapshot(): MemSnapshot {
+    return {
+      users: Array.from(this.users.values()),
+      students: Array.from(this.students.values()),
+      faculty: Array.from(this.faculty.values()),
+      courses: Array.from(this.courses.values()),
+      gradeScales: Array.from(this.gradeScales.values()),
+      courseRequisites: Array.from(this.courseRequisites.values()),
+      requisiteWaivers: Array.from(this.requisiteWaivers.values()),
+      terms: Array.from(this.terms.values()),
+      courseAssignments: Array.from(this.courseAssignments.values()),
+      rooms: Array.from(this.rooms.values()),
+      sectionMeetings: Array.from(this.sectionMeetings.values()),
+      enrollments: Array.from(this.enrollments.values()),
+      attendance: Array.from(this.attendance.values()),
+      grades: Array.from(this.grades.values()),
+      events: Array.from(this.events.values()),
+      settings: Array.from(this.settings.values()),
+      passwordResetTokens: Array.from(this.passwordResetTokens.values()),
+      apiTokens: Array.from(this.apiTokens.values()),
+      auditLog: Array.from(this.auditLog.values()),
+      currentIds: { ...this.currentIds },
+    };
+  }
+
+  importSnapshot(snapshot: MemSnapshot) {
+    // Rows from snapshots written before versioning start at version 1
+    const versioned = <T extends { id: number; version: number }>(rows: T[]) =>
+      new TrackedMap<T>(rows.map((row) => [row.id, { ...row, version: row.version ?? 1 }]));
+
+    this.users = versioned(snapshot.users);
+    this.students = versioned(snapshot.students);
+    this.faculty = versioned(snapshot.faculty);
+    this.courses = versioned(snapshot.courses);
+    this.gradeScales = new TrackedMap((snapshot.gradeScales ?? []).map((row) => [row.id, row]));
+    this.courseRequisites = new TrackedMap((snapshot.courseRequisites ?? []).map((row) => [row.id, row]));
+    this.requisiteWaivers = new TrackedMap((snapshot.requisiteWaivers ?? []).map((row) => [row.id, row]));
+    this.terms = new TrackedMap((snapshot.terms ?? []).map((row) => [row.id, row]));
+    this.courseAssignments = versioned(snapshot.courseAssignments);
+    this.rooms = new TrackedMap((snapshot.rooms ?? []).map((row) => [row.id, row]));
+    this.sectionMeetings = new TrackedMap((snapshot.sectionMeetings ?? []).map((row) => [row.id, row]));
+    this.enrollments = versioned(snapshot.enrollments);
+    this.attendance = versioned(snapshot.attendance);
+    this.grades = versioned(snapshot.grades);
+    this.events = versioned(snapshot.events);
+    this.settings = new TrackedMap((snapshot.settings ?? []).map((row) => [row.id, row]));
+    this.passwordResetTokens = new TrackedMap((snapshot.passwordResetTokens ?? []).map((row) => [row.id, row]));
+    this.apiTokens = new TrackedMap((snapshot.apiTokens ?? []).map((row) => [row.id, row]));
+    this.auditLog = new TrackedMap((snapshot.auditLog ?? []).map((row) => [row.id, row]));
+    this.currentIds = { ...this.currentIds, ...snapshot.currentIds };
+    if (!snapshot.terms) {
+      this.termsFromLegacyAssignments();
+    }
+    if (!snapshot.gradeScales) {
+      this.currentIds.gradeScale = 1;
+      this.createStandardGradeScales();
+    }
+  }
+
+  // Older snapshots name the term of each course assignment with free-text semester and year.
+  // Each distinct pair becomes a term, with dates guessed from the usual academic calendar.
+  private termsFromLegacyAssignments() {
+    this.currentIds.term = 1;
+    const termIds = new Map<string, number>();
+
+    for (const assignment of Array.from(this.courseAssignments.values())) {
+      const { semester, year, ...rest } = assignment as CourseAssignment & { semester: string; year: number };
+      const name = `${semester} ${year}`;
+
+      if (!termIds.has(name)) {
+        const [start, end] = LEGACY_TERM_MONTHS[semester.toLowerCase()] ?? [0, 11];
+        const startDate = new Date(year, start, 1);
+        const endDate = new Date(year, end + 1, 0);
+        termIds.set(name, this.createTermSync({
+          name,
+          startDate,
+          endDate,
+          addDropDeadline: new Date(year, start, 14),
+          gradesDueDate: new Date(year, end + 1, 14),
+          isCurrent: false
+        }).id);
+      }
+
+      this.courseAssignments.set(assignment.id, { ...rest, termId: termIds.get(name)! });
+    }
+  }
+
   // Initialize sample data
   private initializeData() {
     // Create users
     const adminUser = this.createUserSync({
       username: "admin",
-      password: "admin123",
+      password: hashPasswordSync("admin123"),
       email: "admin@college.edu",
       role: "admin",
       name: "John Admin",
@@ -633,7 +1358,7 @@ export class MemStorage implements IStorage {
     // Create faculty users
     const faculty1 = this.createUserSync({
       username: "professor.smith",
-      password: "faculty123",
+      password: hashPasswordSync("faculty123"),
       email: "smith@college.edu",
       role: "faculty",
       name: "Professor Smith",
@@ -642,7 +1367,7 @@ export class MemStorage implements IStorage {
 
     const faculty2 = this.createUserSync({
       username: "professor.johnson",
-      password: "faculty123",
+      password: hashPasswordSync("faculty123"),
       email: "johnson@college.edu",
       role: "faculty",
       name: "Professor Johnson",
@@ -652,7 +1377,7 @@ export class MemStorage implements IStorage {
     // Create student users
     const student1 = this.createUserSync({
       username: "emma.wilson",
-      password: "student123",
+      password: hashPasswordSync("student123"),
       email: "emma.wilson@example.com",
       role: "student",
       name: "Emma Wilson",
@@ -661,7 +1386,7 @@ export class MemStorage implements IStorage {
 
     const student2 = this.createUserSync({
       username: "james.rodriguez",
-      password: "student123",
+      password: hashPasswordSync("student123"),
       email: "james.r@example.com",
       role: "student",
       name: "James Rodriguez",
@@ -670,7 +1395,7 @@ export class MemStorage implements IStorage {
 
     const student3 = this.createUserSync({
       username: "sophia.chen",
-      password: "student123",
+      password: hashPasswordSync("student123"),
       email: "sophia.c@example.com",
       role: "student",
       name: "Sophia Chen",
@@ -679,7 +1404,7 @@ export class MemStorage implements IStorage {
 
     const student4 = this.createUserSync({
       username: "michael.johnson",
-      password: "student123",
+      password: hashPasswordSync("student123"),
       email: "michael.j@example.com",
       role: "student",
       name: "Michael Johnson",
@@ -742,6 +1467,8 @@ export class MemStorage implements IStorage {
       enrollmentDate: new Date("2022-09-01")
     });
 
+    this.createStandardGradeScales();
+
     // Create courses
     const course1 = this.createCourseSync({
       code: "CS101",
@@ -788,81 +1515,123 @@ export class MemStorage implements IStorage {
       status: "active"
     });
 
+    // Circuit Analysis builds on the programming course, unless the instructor agrees otherwise
+    this.createCourseRequisiteSync({ courseId: course4.id, type: "prerequisite", group: 1, requiredCourseId: course1.id, minGrade: 70 });
+    this.createCourseRequisiteSync({ courseId: course4.id, type: "prerequisite", group: 1, requiredCourseId: null });
+
+    // Create terms: the one in progress today and the one after it
+    const today = new Date();
+    const sampleTerm = (year: number, season: number, isCurrent: boolean) => this.createTermSync({
+      name: `${SAMPLE_SEASONS[season]} ${year}`,
+      startDate: new Date(year, season * 4, 1),
+      endDate: new Date(year, season * 4 + 4, 0),
+      addDropDeadline: new Date(year, season * 4, 14),
+      gradesDueDate: new Date(year, season * 4 + 4, 14),
+      isCurrent
+    });
+
+    const currentSeason = Math.floor(today.getMonth() / 4);
+    const currentTerm = sampleTerm(today.getFullYear(), currentSeason, true);
+    sampleTerm(today.getFullYear() + (currentSeason === 2 ? 1 : 0), (currentSeason + 1) % 3, false);
+
+    // Sample dates relative to the start of the current term, never later than today
+    const termDay = (days: number) =>
+      new Date(Math.min(currentTerm.startDate.getTime() + days * 24 * 60 * 60 * 1000, Date.now()));
+
     // Create course assignments
     const assignment1 = this.createCourseAssignmentSync({
       courseId: course1.id,
       facultyId: facultyProfile1.id,
-      semester: "Fall",
-      year: 2023
+      termId: currentTerm.id,
+      capacity: 30
     });
 
     const assignment2 = this.createCourseAssignmentSync({
       courseId: course2.id,
       facultyId: facultyProfile2.id,
-      semester: "Fall",
-      year: 2023
+      termId: currentTerm.id,
+      capacity: 2
     });
 
     const assignment3 = this.createCourseAssignmentSync({
       courseId: course3.id,
       facultyId: facultyProfile1.id,
-      semester: "Fall",
-      year: 2023
+      termId: currentTerm.id,
+      capacity: 25
     });
 
     const assignment4 = this.createCourseAssignmentSync({
       courseId: course5.id,
       facultyId: facultyProfile2.id,
-      semester: "Fall",
-      year: 2023
+      termId: currentTerm.id,
+      capacity: 24
     });
 
+    // Create rooms and the weekly meetings of each section
+    const room1 = this.createRoomSync({ name: "SCI 101", building: "Science Building", capacity: 40 });
+    const room2 = this.createRoomSync({ name: "BUS 210", building: "Business Hall", capacity: 30 });
+    const room3 = this.createRoomSync({ name: "HUM 105", building: "Humanities Building", capacity: 30 });
+    const room4 = this.createRoomSync({ name: "SCI 014", building: "Science Building", capacity: 24 });
+
+    this.createSectionMeetingSync({ courseAssignmentId: assignment1.id, days: ["mon", "wed"], startTime: "09:00", endTime: "10:15", roomId: room1.id });
+    this.createSectionMeetingSync({ courseAssignmentId: assignment2.id, days: ["tue", "thu"], startTime: "10:30", endTime: "11:45", roomId: room2.id });
+    this.createSectionMeetingSync({ courseAssignmentId: assignment3.id, days: ["mon", "wed"], startTime: "13:00", endTime: "14:15", roomId: room3.id });
+    this.createSectionMeetingSync({ courseAssignmentId: assignment4.id, days: ["tue"], startTime: "14:00", endTime: "15:50", roomId: room4.id });
+    this.createSectionMeetingSync({ courseAssignmentId: assignment4.id, days: ["fri"], startTime: "10:00", endTime: "10:50", roomId: room1.id });
+
     // Create enrollments
     const enrollment1 = this.createEnrollmentSync({
       studentId: studentProfile1.id,
       courseAssignmentId: assignment1.id,
-      enrollmentDate: new Date("2023-08-15"),
+      enrollmentDate: termDay(-10),
       status: "enrolled"
     });
 
     const enrollment2 = this.createEnrollmentSync({
       studentId: studentProfile1.id,
       courseAssignmentId: assignment2.id,
-      enrollmentDate: new Date("2023-08-15"),
+      enrollmentDate: termDay(-10),
       status: "enrolled"
     });
 
     const enrollment3 = this.createEnrollmentSync({
       studentId: studentProfile2.id,
       courseAssignmentId: assignment2.id,
-      enrollmentDate: new Date("2023-08-10"),
+      enrollmentDate: termDay(-12),
       status: "enrolled"
     });
 
     const enrollment4 = this.createEnrollmentSync({
       studentId: studentProfile3.id,
       courseAssignmentId: assignment1.id,
-      enrollmentDate: new Date("2023-08-12"),
+      enrollmentDate: termDay(-11),
       status: "enrolled"
     });
 
     const enrollment5 = this.createEnrollmentSync({
       studentId: studentProfile3.id,
       courseAssignmentId: assignment3.id,
-      enrollmentDate: new Date("2023-08-12"),
+      enrollmentDate: termDay(-11),
       status: "enrolled"
     });
 
     const enrollment6 = this.createEnrollmentSync({
       studentId: studentProfile4.id,
       courseAssignmentId: assignment4.id,
-      enrollmentDate: new Date("2023-08-05"),
+      enrollmentDate: termDay(-14),
       status: "enrolled"
     });
 
-    // Create attendance records
-    const today = new Date();
+    // Business Ethics is full; one more student waits for a seat
+    this.createEnrollmentSync({
+      studentId: studentProfile4.id,
+      courseAssignmentId: assignment2.id,
+      enrollmentDate: termDay(-9),
+      status: "waitlisted",
+      waitlistPosition: 1
+    });
 
+    // Create attendance records
     this.createAttendanceSync({
       enrollmentId: enrollment1.id,
       date: new Date(today.setDate(today.getDate() - 1)),
@@ -905,7 +1674,7 @@ export class MemStorage implements IStorage {
       score: 85,
       maxScore: 100,
       weight: 30,
-      date: new Date("2023-10-15")
+      date: termDay(30)
     });
 
     this.createGradeSync({
@@ -914,7 +1683,7 @@ export class MemStorage implements IStorage {
       score: 92,
       maxScore: 100,
       weight: 15,
-      date: new Date("2023-09-20")
+      date: termDay(10)
     });
 
     this.createGradeSync({
@@ -923,7 +1692,7 @@ export class MemStorage implements IStorage {
       score: 78,
       maxScore: 100,
       weight: 30,
-      date: new Date("2023-10-17")
+      date: termDay(31)
     });
 
     this.createGradeSync({
@@ -932,7 +1701,7 @@ export class MemStorage implements IStorage {
       score: 88,
       maxScore: 100,
       weight: 30,
-      date: new Date("2023-10-17")
+      date: termDay(31)
     });
 
     // Create events
@@ -969,66 +1738,409 @@ export class MemStorage implements IStorage {
   // Synchronous versions for initialization
   private createUserSync(user: InsertUser): User {
     const id = this.currentIds.user++;
-    const newUser: User = { ...user, id };
+    const newUser: User = {
+      ...user,
+      twoFactorSecret: null,
+      twoFactorEnabled: false,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+      deletedAt: null,
+      version: 1,
+      id
+    };
     this.users.set(id, newUser);
     return newUser;
   }
 
   private createStudentSync(student: InsertStudent): Student {
     const id = this.currentIds.student++;
-    const newStudent: Student = { ...student, id };
+    const newStudent: Student = { ...student, deletedAt: null, version: 1, id };
     this.students.set(id, newStudent);
     return newStudent;
   }
 
   private createFacultySync(faculty: InsertFaculty): Faculty {
     const id = this.currentIds.faculty++;
-    const newFaculty: Faculty = { ...faculty, id };
+    const newFaculty: Faculty = { ...faculty, deletedAt: null, version: 1, id };
     this.faculty.set(id, newFaculty);
     return newFaculty;
   }
 
   private createCourseSync(course: InsertCourse): Course {
     const id = this.currentIds.course++;
-    const newCourse: Course = { ...course, id };
+    const newCourse: Course = { gradeScaleId: null, ...course, deletedAt: null, version: 1, id };
     this.courses.set(id, newCourse);
     return newCourse;
   }
 
+  // Letter grades with plus and minus as the default scale, and pass/fail for courses that opt in
+  private createStandardGradeScales() {
+    this.createGradeScaleSync({
+      name: "Letter grades (A–F)",
+      isDefault: true,
+      bands: [
+        { grade: "A", minPercentage: 93, gradePoints: 4.0, passing: true },
+        { grade: "A-", minPercentage: 90, gradePoints: 3.7, passing: true },
+        { grade: "B+", minPercentage: 87, gradePoints: 3.3, passing: true },
+        { grade: "B", minPercentage: 83, gradePoints: 3.0, passing: true },
+        { grade: "B-", minPercentage: 80, gradePoints: 2.7, passing: true },
+        { grade: "C+", minPercentage: 77, gradePoints: 2.3, passing: true },
+        { grade: "C", minPercentage: 73, gradePoints: 2.0, passing: true },
+        { grade: "C-", minPercentage: 70, gradePoints: 1.7, passing: true },
+        { grade: "D+", minPercentage: 67, gradePoints: 1.3, passing: true },
+        { grade: "D", minPercentage: 63, gradePoints: 1.0, passing: true },
+        { grade: "D-", minPercentage: 60, gradePoints: 0.7, passing: true },
+        { grade: "F", minPercentage: 0, gradePoints: 0.0, passing: false },
+      ],
+    });
+    this.createGradeScaleSync({
+      name: "Pass/Fail",
+      bands: [
+        { grade: "P", minPercentage: 60, gradePoints: null, passing: true },
+        { grade: "F", minPercentage: 0, gradePoints: null, passing: false },
+      ],
+    });
+  }
+
+  private createGradeScaleSync(scale: InsertGradeScale): GradeScale {
+    const id = this.currentIds.gradeScale++;
+    const newScale: GradeScale = { programs: [], isDefault: false, ...scale, version: 1, id };
+    this.gradeScales.set(id, newScale);
+    return newScale;
+  }
+
+  private createCourseRequisiteSync(requisite: InsertCourseRequisite): CourseRequisite {
+    const id = this.currentIds.courseRequisite++;
+    const newRequisite: CourseRequisite = { requiredCourseId: null, minGrade: null, ...requisite, id };
+    this.courseRequisites.set(id, newRequisite);
+    return newRequisite;
+  }
+
+  private createTermSync(term: InsertTerm): Term {
+    const id = this.currentIds.term++;
+    const newTerm: Term = { isCurrent: false, ...term, version: 1, id };
+    this.terms.set(id, newTerm);
+    return newTerm;
+  }
+
   private createCourseAssignmentSync(assignment: InsertCourseAssignment): CourseAssignment {
     const id = this.currentIds.courseAssignment++;
-    const newAssignment: CourseAssignment = { ...assignment, id };
+    const newAssignment: CourseAssignment = { capacity: null, ...assignment, version: 1, id };
     this.courseAssignments.set(id, newAssignment);
     return newAssignment;
   }
 
+  private createRoomSync(room: InsertRoom): Room {
+    const id = this.currentIds.room++;
+    const newRoom: Room = { ...room, version: 1, id };
+    this.rooms.set(id, newRoom);
+    return newRoom;
+  }
+
+  private createSectionMeetingSync(meeting: InsertSectionMeeting): SectionMeeting {
+    const id = this.currentIds.sectionMeeting++;
+    const newMeeting: SectionMeeting = { roomId: null, ...meeting, id };
+    this.sectionMeetings.set(id, newMeeting);
+    return newMeeting;
+  }
+
   private createEnrollmentSync(enrollment: InsertEnrollment): Enrollment {
     const id = this.currentIds.enrollment++;
-    const newEnrollment: Enrollment = { ...enrollment, id };
+    const newEnrollment: Enrollment = { waitlistPosition: null, ...enrollment, version: 1, id };
     this.enrollments.set(id, newEnrollment);
     return newEnrollment;
   }
 
   private createAttendanceSync(attendance: InsertAttendance): Attendance {
     const id = this.currentIds.attendance++;
-    const newAttendance: Attendance = { ...attendance, id };
+    const newAttendance: Attendance = { ...attendance, version: 1, id };
     this.attendance.set(id, newAttendance);
     return newAttendance;
   }
 
   private createGradeSync(grade: InsertGrade): Grade {
     const id = this.currentIds.grade++;
-    const newGrade: Grade = { ...grade, id };
+    const newGrade: Grade = { ...grade, version: 1, id };
     this.grades.set(id, newGrade);
     return newGrade;
   }
 
   private createEventSync(event: InsertEvent): Event {
     const id = this.currentIds.event++;
-    const newEvent: Event = { ...event, id };
+    const newEvent: Event = { ...event, deletedAt: null, version: 1, id };
     this.events.set(id, newEvent);
     return newEvent;
   }
 }
 
-export const storage = new MemStorage();
+// Every IStorage method that changes data; FileStorage journals exactly these calls
+const MUTATIONS = [
+  "createUser", "updateUser", "deleteUser",
+  "createStudent", "updateStudent", "deleteStudent",
+  "createFaculty", "updateFaculty", "deleteFaculty",
+  "createCourse", "updateCourse", "deleteCourse",
+  "createGradeScale", "updateGradeScale", "deleteGradeScale",
+  "createCourseRequisite", "deleteCourseRequisite",
+  "createRequisiteWaiver", "deleteRequisiteWaiver",
+  "createTerm", "updateTerm", "deleteTerm",
+  "createCourseAssignment", "updateCourseAssignment", "deleteCourseAssignment",
+  "createRoom", "updateRoom", "deleteRoom",
+  "createSectionMeeting", "deleteSectionMeeting",
+  "createEnrollment", "updateEnrollment", "deleteEnrollment",
+  "createAttendance", "updateAttendance", "deleteAttendance",
+  "createGrade", "updateGrade", "deleteGrade",
+  "createEvent", "updateEvent", "deleteEvent",
+  "setSetting",
+  "createPasswordResetToken", "updatePasswordResetToken",
+  "createApiToken", "updateApiToken", "deleteApiToken",
+  "createAuditEntry",
+] as const satisfies readonly (keyof IStorage)[];
+
+type Mutation = (typeof MUTATIONS)[number];
+
+// Mutations that stamp the new row with the time it was created. FileStorage fills the time in
+// before journaling the call, so a replay restores it instead of stamping the restart time.
+const TIMESTAMPED_CREATES: ReadonlySet<Mutation> = new Set<Mutation>([
+  "createRequisiteWaiver", "createPasswordResetToken", "createApiToken", "createAuditEntry",
+]);
+
+function withCreatedAt(name: Mutation, args: unknown[]): unknown[] {
+  if (!TIMESTAMPED_CREATES.has(name)) return args;
+  const [row, ...rest] = args;
+  return [{ createdAt: new Date(), ...(row as object) }, ...rest];
+}
+type TransactionStep = Pick<JournalEntry, "op" | "args">;
+
+// Any mutation method. Journaled arguments are replayed as recorded, so they are passed on as never[].
+type MutationMethod = (...args: never[]) => Promise<unknown>;
+type MutationMethods = Record<Mutation, MutationMethod>;
+
+const isMutation = (op: string): op is Mutation => (MUTATIONS as readonly string[]).includes(op);
+
+// Updates and deletes that found no row changed nothing, so they are not journaled. A replayed one
+// that finds no row means the journal and the data have drifted apart.
+const changedNothing = (name: Mutation, result: unknown) =>
+  (name.startsWith("update") && result === undefined) || (name.startsWith("delete") && result === false);
+
+// Journal operation recording the id counters after a rolled-back change: its ids stay used up,
+// as in memory, so rows created after it get the same ids on replay
+const RESERVE_IDS = "reserveIds";
+type IdCounters = MemSnapshot["currentIds"];
+
+// Memory storage persisted to a local journal file plus periodic snapshots, for
+// single-node installs without Postgres. Mutations are applied one at a time so
+// the journal order always matches the order they were applied in memory.
+export class FileStorage extends MemStorage {
+  private journal: Journal<MemSnapshot>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private activeMutation = new AsyncLocalStorage<Mutation>();
+  private activeTransaction = new AsyncLocalStorage<TransactionStep[]>();
+  private replaying = false;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+
+  constructor(directory: string, private snapshotIntervalMs = 5 * 60 * 1000) {
+    super();
+    this.journal = new Journal<MemSnapshot>(directory);
+
+    const prototype: MutationMethods = MemStorage.prototype;
+    for (const name of MUTATIONS) {
+      const apply = prototype[name].bind(this);
+      this.mutations[name] = (...args: unknown[]) => {
+        const stamped = withCreatedAt(name, args);
+        return this.mutate(name, stamped, () => apply(...(stamped as never[])));
+      };
+    }
+  }
+
+  // Restore the last snapshot and replay the journal written after it. An entry that fails to replay
+  // stops the load with a JournalError, rather than starting from state that differs from the journal.
+  async load(): Promise<void> {
+    const snapshot = this.journal.readSnapshot();
+    if (snapshot) {
+      this.importSnapshot(snapshot.data);
+    }
+
+    const entries = this.journal.readEntries(snapshot?.seq ?? 0);
+    this.replaying = true;
+    try {
+      for (const entry of entries) {
+        try {
+          if (entry.op === RESERVE_IDS) {
+            this.reserveIds(entry.args[0] as IdCounters);
+          } else if (entry.op === "transaction") {
+            // A committed transaction is journaled as one line holding all of its mutations
+            const steps = entry.args as TransactionStep[];
+            await super.transaction(async () => {
+              for (const step of steps) {
+                await this.replay(step);
+              }
+            });
+          } else {
+            await this.replay(entry);
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new JournalError(`Journal entry ${entry.seq} (${entry.op}) failed to replay: ${reason}`, { cause: error });
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    // Fold the replayed entries (or the freshly seeded sample data) into a new snapshot
+    if (!snapshot || entries.length > 0) {
+      this.journal.writeSnapshot(this.exportSnapshot());
+    }
+
+    if (this.snapshotIntervalMs > 0) {
+      this.snapshotTimer = setInterval(() => {
+        this.snapshot().catch((error) => console.error("Failed to write storage snapshot:", error));
+      }, this.snapshotIntervalMs);
+      this.snapshotTimer.unref();
+    }
+  }
+
+  async snapshot(): Promise<void> {
+    await this.enqueue(async () => {
+      if (this.journal.hasEntriesSinceSnapshot) {
+        this.journal.writeSnapshot(this.exportSnapshot());
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    await this.snapshot();
+    this.journal.close();
+  }
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    if (this.replaying || this.activeTransaction.getStore() || this.activeMutation.getStore()) {
+      return super.transaction(fn);
+    }
+
+    return this.enqueue(() => {
+      const steps: TransactionStep[] = [];
+      return this.activeTransaction.run(steps, async () => {
+        const result = await this.keepingUsedIds(() => super.transaction(fn));
+        if (steps.length > 0) {
+          this.journal.append("transaction", steps);
+        }
+        return result;
+      });
+    });
+  }
+
+  // Runs a change and, when it fails after handing out ids, journals the counters so a replay
+  // does not hand those ids out again to the rows created next
+  private async keepingUsedIds<T>(change: () => Promise<T>): Promise<T> {
+    const before: IdCounters = { ...this.currentIds };
+    try {
+      return await change();
+    } catch (error) {
+      const keys = Object.keys(before) as (keyof IdCounters)[];
+      if (keys.some((key) => this.currentIds[key] !== before[key])) {
+        this.journal.append(RESERVE_IDS, [{ ...this.currentIds }]);
+      }
+      throw error;
+    }
+  }
+
+  private reserveIds(counters: IdCounters) {
+    for (const key of Object.keys(counters) as (keyof IdCounters)[]) {
+      this.currentIds[key] = Math.max(this.currentIds[key] ?? 1, counters[key]);
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // This instance's mutation methods by name; the constructor puts the journaling wrappers here
+  private get mutations(): MutationMethods {
+    return this;
+  }
+
+  private async replay(step: TransactionStep): Promise<unknown> {
+    if (!isMutation(step.op)) {
+      throw new Error(`Unknown journal operation "${step.op}"`);
+    }
+    const result = await this.mutations[step.op](...(step.args as never[]));
+    if (changedNothing(step.op, result)) {
+      throw new Error(`${step.op} found no row with id ${JSON.stringify(step.args[0])}`);
+    }
+    return result;
+  }
+
+  private mutate(name: Mutation, args: unknown[], apply: () => Promise<unknown>): Promise<unknown> {
+    // Replays and mutations nested inside another one (e.g. cascades) are covered by the outer entry
+    if (this.replaying || this.activeMutation.getStore()) {
+      return apply();
+    }
+
+    // Inside a transaction the mutation is journaled with the rest of it once it commits
+    const transactionSteps = this.activeTransaction.getStore();
+    if (transactionSteps) {
+      return this.activeMutation.run(name, async () => {
+        const result = await apply();
+        if (!changedNothing(name, result)) {
+          transactionSteps.push({ op: name, args });
+        }
+        return result;
+      });
+    }
+
+    return this.enqueue(() =>
+      this.activeMutation.run(name, async () => {
+        const result = await this.keepingUsedIds(apply);
+        if (!changedNothing(name, result)) {
+          this.journal.append(name, args);
+        }
+        return result;
+      })
+    );
+  }
+}
+
+// Pick the storage backend from STORAGE_DRIVER ("memory", "file" or "postgres"),
+// defaulting to Postgres whenever DATABASE_URL is configured
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "file":
+      return new FileStorage(
+        process.env.STORAGE_DIR || "data",
+        process.env.SNAPSHOT_INTERVAL_MS ? parseInt(process.env.SNAPSHOT_INTERVAL_MS) : undefined
+      );
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is \"postgres\"");
+      }
+      return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+// Every change goes through the audit log, whichever backend is in use
+export const storage = withAuditLog(createStorage());
+
+// Restore file-backed data from disk, or load the sample data into an empty database so a
+// fresh deploy has accounts to log in with.
+// Set SEED_DEMO_DATA=false to start from a completely empty database instead.
+export async function initializeStorage(): Promise<void> {
+  if (storage instanceof FileStorage) {
+    await storage.load();
+  }
+  if (storage instanceof DatabaseStorage && process.env.SEED_DEMO_DATA !== "false") {
+    await storage.seedFrom(new MemStorage());
+  }
+}
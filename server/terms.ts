@@ -0,0 +1,92 @@
+import type { InsertTerm, Term } from "@shared/schema";
+import { endOfDay, format, startOfDay } from "date-fns";
+import type { IStorage } from "./storage";
+
+// Why a change was refused by a term's dates or deadlines
+export class TermError extends Error {
+  status = 400;
+}
+
+type TermDates = Pick<InsertTerm, "startDate" | "endDate" | "addDropDeadline" | "gradesDueDate">;
+
+const day = (date: Date) => format(date, "MMM d, yyyy");
+
+// The add/drop deadline falls within the term, and grades are due once it has ended
+export function validateTermDates(term: TermDates) {
+  if (term.endDate < term.startDate) {
+    throw new TermError("The term must end after it starts");
+  }
+  if (term.addDropDeadline < term.startDate || term.addDropDeadline > term.endDate) {
+    throw new TermError("The add/drop deadline must fall within the term");
+  }
+  if (term.gradesDueDate < term.endDate) {
+    throw new TermError("Grades cannot be due before the term ends");
+  }
+}
+
+// Clears the current flag on every term but the given one, so only one term is current at a time
+export async function clearOtherCurrentTerms(storage: IStorage, id: number) {
+  for (const term of await storage.getAllTerms()) {
+    if (term.isCurrent && term.id !== id) {
+      await storage.updateTerm(term.id, { isCurrent: false });
+    }
+  }
+}
+
+// The term a course section is taught in
+export async function termOfSection(storage: IStorage, courseAssignmentId: number): Promise<Term | undefined> {
+  const assignment = await storage.getCourseAssignment(courseAssignmentId);
+  return assignment ? storage.getTerm(assignment.termId) : undefined;
+}
+
+async function termOfEnrollment(storage: IStorage, enrollmentId: number): Promise<Term | undefined> {
+  const enrollment = await storage.getEnrollment(enrollmentId);
+  return enrollment ? termOfSection(storage, enrollment.courseAssignmentId) : undefined;
+}
+
+// Whether sections of the term can still be added or dropped
+export function isAddDropOpen(term: Term, now = new Date()) {
+  return now <= endOfDay(term.addDropDeadline);
+}
+
+// Students can be enrolled in or dropped from a section until its term's add/drop deadline
+export async function checkAddDropWindow(storage: IStorage, courseAssignmentId: number, now = new Date()) {
+  const term = await termOfSection(storage, courseAssignmentId);
+  if (term && !isAddDropOpen(term, now)) {
+    throw new TermError(`The add/drop deadline for ${term.name} passed on ${day(term.addDropDeadline)}`);
+  }
+}
+
+// Attendance is taken on days within the term
+export async function checkAttendanceDate(storage: IStorage, enrollmentId: number, date: Date) {
+  const term = await termOfEnrollment(storage, enrollmentId);
+  if (term && (date < startOfDay(term.startDate) || date > endOfDay(term.endDate))) {
+    throw new TermError(
+      `Attendance dates must fall within ${term.name} (${day(term.startDate)} to ${day(term.endDate)})`
+    );
+  }
+}
+
+// Grades are entered until the term's grades due date, and dated between its start and that date.
+// With allowLate (an override) they may still be entered after the due date. Returns whether the
+// entry is late, so the override can be recorded.
+export async function checkGradeEntry(
+  storage: IStorage,
+  enrollmentId: number,
+  date: Date,
+  options: { allowLate?: boolean; now?: Date } = {}
+): Promise<boolean> {
+  const term = await termOfEnrollment(storage, enrollmentId);
+  if (!term) return false;
+
+  const late = (options.now ?? new Date()) > endOfDay(term.gradesDueDate);
+  if (late && !options.allowLate) {
+    throw new TermError(`Grade entry for ${term.name} closed on ${day(term.gradesDueDate)}`);
+  }
+  if (date < startOfDay(term.startDate) || date > endOfDay(term.gradesDueDate)) {
+    throw new TermError(
+      `Grade dates must fall between ${day(term.startDate)} and ${day(term.gradesDueDate)} for ${term.name}`
+    );
+  }
+  return late;
+}
@@ -0,0 +1,20 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+// drizzle-kit's ESM build cannot load under tsx, so its CommonJS build is required instead
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// A throwaway in-process Postgres (pglite) with the shared schema created, for tests that need the
+// real SQL behaviour of DatabaseStorage rather than the in-memory stand-in
+export async function createTestDatabase(): Promise<{ db: Database; client: PGlite }> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { db: drizzle(client, { schema }) as unknown as Database, client };
+}
@@ -0,0 +1,79 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { base32Decode, base32Encode, generateRecoveryCodes, hashRecoveryCode, hotp, timeStep, totpUri, verifyTotp } from "./totp";
+
+// The RFC 4226 / RFC 6238 test secret, "12345678901234567890"
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  test("round-trips bytes and ignores case, padding and spaces", () => {
+    assert.equal(SECRET, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    assert.equal(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq==").toString(), "12345678901234567890");
+    assert.throws(() => base32Decode("GEZD1"));
+  });
+});
+
+describe("hotp", () => {
+  test("matches the RFC 4226 test values", () => {
+    assert.deepEqual(
+      [0, 1, 2, 3, 9].map((counter) => hotp(SECRET, counter)),
+      ["755224", "287082", "359152", "969429", "520489"]
+    );
+  });
+});
+
+describe("verifyTotp", () => {
+  // RFC 6238 test times, with the last six digits of their codes
+  const at = (seconds: number) => seconds * 1000;
+
+  test("accepts the code of the current step and returns the step", () => {
+    assert.equal(verifyTotp(SECRET, "081804", { now: at(1111111109) }), timeStep(at(1111111109)));
+    assert.equal(verifyTotp(SECRET, "005924", { now: at(1234567890) }), timeStep(at(1234567890)));
+    assert.equal(verifyTotp(SECRET, "005 924", { now: at(1234567890) }), timeStep(at(1234567890)));
+  });
+
+  test("allows one step of clock drift either way, and no more", () => {
+    const step = timeStep(at(1234567890));
+    assert.equal(verifyTotp(SECRET, hotp(SECRET, step - 1), { now: at(1234567890) }), step - 1);
+    assert.equal(verifyTotp(SECRET, hotp(SECRET, step + 1), { now: at(1234567890) }), step + 1);
+    assert.equal(verifyTotp(SECRET, hotp(SECRET, step - 2), { now: at(1234567890) }), null);
+    assert.equal(verifyTotp(SECRET, hotp(SECRET, step + 2), { now: at(1234567890) }), null);
+  });
+
+  test("refuses codes from the last used step or earlier", () => {
+    const step = timeStep(at(1234567890));
+    assert.equal(verifyTotp(SECRET, "005924", { now: at(1234567890), lastUsedStep: step }), null);
+    assert.equal(verifyTotp(SECRET, hotp(SECRET, step + 1), { now: at(1234567890), lastUsedStep: step }), step + 1);
+  });
+
+  test("refuses codes that are not six digits", () => {
+    assert.equal(verifyTotp(SECRET, "89005924", { now: at(1234567890) }), null);
+    assert.equal(verifyTotp(SECRET, "00592a", { now: at(1234567890) }), null);
+    assert.equal(verifyTotp(SECRET, "", { now: at(1234567890) }), null);
+  });
+});
+
+describe("totpUri", () => {
+  test("names the issuer and account for authenticator apps", () => {
+    const uri = new URL(totpUri(SECRET, "emma.wilson", "College"));
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/College:emma.wilson");
+    assert.equal(uri.searchParams.get("secret"), SECRET);
+    assert.equal(uri.searchParams.get("issuer"), "College");
+  });
+});
+
+describe("recovery codes", () => {
+  test("are distinct and formatted as two groups of five", () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    assert.ok(codes.every((code) => /^[a-z2-7]{5}-[a-z2-7]{5}$/.test(code)));
+  });
+
+  test("hash the same whatever the letter case and separators", () => {
+    assert.equal(hashRecoveryCode("ABCDE-FGHIJ"), hashRecoveryCode("abcdefghij"));
+    assert.notEqual(hashRecoveryCode("abcde-fghij"), hashRecoveryCode("abcde-fghik"));
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Student, User } from "@shared/schema";
+import { IntegrityError } from "./integrity";
+import { MemStorage } from "./storage";
+import { TrashError, listTrash, moveToTrash, purgeFromTrash, restoreFromTrash } from "./trash";
+
+let storage: MemStorage;
+let user: User;
+let student: Student;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  user = await storage.createUser({ username: "trash.user", password: "x", email: "trash.user@college.edu", role: "student", name: "Trash User" });
+  student = await storage.createStudent({ userId: user.id, studentId: "TRASH-1", program: "Testing", yearLevel: 1, status: "active" });
+});
+
+describe("moveToTrash", () => {
+  test("takes an account's profiles with it and hides them from lists", async () => {
+    const trashed = await moveToTrash(storage, "user", user.id);
+
+    assert.ok(trashed?.deletedAt);
+    assert.deepEqual((await storage.getStudent(student.id))?.deletedAt, trashed.deletedAt);
+    assert.equal((await storage.getAllUsers()).some((row) => row.id === user.id), false);
+    assert.deepEqual(
+      (await listTrash(storage)).map((item) => [item.type, item.label]),
+      [["user", "Trash User (trash.user)"], ["student", "Trash User (TRASH-1)"]]
+    );
+  });
+
+  test("keeps the original deletion time of a row already in the trash", async () => {
+    const first = await moveToTrash(storage, "user", user.id);
+    await tick();
+    assert.deepEqual((await moveToTrash(storage, "user", user.id))?.deletedAt, first?.deletedAt);
+  });
+
+  test("returns undefined for a row that does not exist", async () => {
+    assert.equal(await moveToTrash(storage, "course", 99999), undefined);
+  });
+});
+
+describe("restoreFromTrash", () => {
+  test("brings back the profiles trashed along with the account", async () => {
+    await moveToTrash(storage, "user", user.id);
+    const restored = await restoreFromTrash(storage, "user", user.id);
+
+    assert.equal(restored?.deletedAt, null);
+    assert.equal((await storage.getStudent(student.id))?.deletedAt, null);
+    assert.deepEqual(await listTrash(storage), []);
+  });
+
+  test("leaves a profile that was trashed on its own in the trash", async () => {
+    await moveToTrash(storage, "student", student.id);
+    await tick();
+    await moveToTrash(storage, "user", user.id);
+    await restoreFromTrash(storage, "user", user.id);
+
+    assert.equal((await storage.getUser(user.id))?.deletedAt, null);
+    assert.ok((await storage.getStudent(student.id))?.deletedAt);
+  });
+
+  test("refuses a profile whose account is still in the trash", async () => {
+    await moveToTrash(storage, "user", user.id);
+
+    await assert.rejects(restoreFromTrash(storage, "student", student.id), TrashError);
+    assert.ok((await storage.getStudent(student.id))?.deletedAt);
+  });
+
+  test("returns undefined for a row that is not in the trash", async () => {
+    assert.equal(await restoreFromTrash(storage, "user", user.id), undefined);
+  });
+});
+
+describe("purgeFromTrash", () => {
+  test("only deletes rows that are in the trash", async () => {
+    assert.equal(await purgeFromTrash(storage, "user", user.id), false);
+    assert.ok(await storage.getUser(user.id));
+  });
+
+  test("deletes the account for good along with its profiles and their records", async () => {
+    const [section] = await storage.getAllCourseAssignments();
+    const enrollment = await storage.createEnrollment({ studentId: student.id, courseAssignmentId: section.id, status: "enrolled" });
+    await moveToTrash(storage, "user", user.id);
+
+    assert.equal(await purgeFromTrash(storage, "user", user.id), true);
+    assert.equal(await storage.getUser(user.id), undefined);
+    assert.equal(await storage.getStudent(student.id), undefined);
+    assert.equal(await storage.getEnrollment(enrollment.id), undefined);
+    assert.deepEqual(await listTrash(storage), []);
+  });
+
+  test("refuses a course that still has sections, as it can no longer be archived", async () => {
+    const [section] = await storage.getAllCourseAssignments();
+    await moveToTrash(storage, "course", section.courseId);
+
+    await assert.rejects(purgeFromTrash(storage, "course", section.courseId), IntegrityError);
+    assert.ok((await storage.getCourse(section.courseId))?.deletedAt);
+    assert.ok(await storage.getCourseAssignment(section.id));
+  });
+});
@@ -0,0 +1,167 @@
+import type { Course, Event, Faculty, Student, User } from "@shared/schema";
+import { RELATIONS, planDelete } from "./integrity";
+import type { IStorage } from "./storage";
+
+// Entities that are moved to the trash (deletedAt set) when deleted, and only removed for good when purged from it
+export const TRASHABLE_TYPES = ["user", "student", "faculty", "course", "event"] as const;
+export type TrashableType = (typeof TRASHABLE_TYPES)[number];
+export type TrashedRecord = User | Student | Faculty | Course | Event;
+
+export function isTrashable(type: string): type is TrashableType {
+  return (TRASHABLE_TYPES as readonly string[]).includes(type);
+}
+
+// Why a trash operation was refused
+export class TrashError extends Error {
+  status = 409;
+}
+
+interface TrashAccess {
+  get(storage: IStorage, id: number): Promise<TrashedRecord | undefined>;
+  setDeletedAt(storage: IStorage, id: number, deletedAt: Date | null): Promise<TrashedRecord | undefined>;
+  purge(storage: IStorage, id: number): Promise<boolean>;
+  // Account the row belongs to, which has to be restored before the row can be
+  owner?: (row: TrashedRecord) => { type: TrashableType; id: number };
+}
+
+const ACCESS: Record<TrashableType, TrashAccess> = {
+  user: {
+    get: (storage, id) => storage.getUser(id),
+    setDeletedAt: (storage, id, deletedAt) => storage.updateUser(id, { deletedAt }),
+    purge: (storage, id) => storage.deleteUser(id),
+  },
+  student: {
+    get: (storage, id) => storage.getStudent(id),
+    setDeletedAt: (storage, id, deletedAt) => storage.updateStudent(id, { deletedAt }),
+    purge: (storage, id) => storage.deleteStudent(id),
+    owner: (row) => ({ type: "user", id: (row as Student).userId }),
+  },
+  faculty: {
+    get: (storage, id) => storage.getFaculty(id),
+    setDeletedAt: (storage, id, deletedAt) => storage.updateFaculty(id, { deletedAt }),
+    purge: (storage, id) => storage.deleteFaculty(id),
+    owner: (row) => ({ type: "user", id: (row as Faculty).userId }),
+  },
+  course: {
+    get: (storage, id) => storage.getCourse(id),
+    setDeletedAt: (storage, id, deletedAt) => storage.updateCourse(id, { deletedAt }),
+    purge: (storage, id) => storage.deleteCourse(id),
+  },
+  event: {
+    get: (storage, id) => storage.getEvent(id),
+    setDeletedAt: (storage, id, deletedAt) => storage.updateEvent(id, { deletedAt }),
+    purge: (storage, id) => storage.deleteEvent(id),
+  },
+};
+
+// Trashable rows that a cascade rule ties to a trashable parent (a user's student and faculty
+// profiles) go to the trash with it and come back with it
+async function trashedTogether(storage: IStorage, type: TrashableType, id: number) {
+  const children: { type: TrashableType; id: number }[] = [];
+  for (const relation of RELATIONS.filter((r) => r.parent === type && r.policy === "cascade")) {
+    const child = relation.child;
+    if (!isTrashable(child)) continue;
+    for (const row of await relation.findChildren(storage, id)) {
+      children.push({ type: child, id: row.id });
+    }
+  }
+  return children;
+}
+
+// Moves the row (and the profiles that belong to it) to the trash; undefined when it does not exist
+export function moveToTrash(storage: IStorage, type: TrashableType, id: number): Promise<TrashedRecord | undefined> {
+  return storage.transaction(async (tx) => {
+    const row = await ACCESS[type].get(tx, id);
+    if (!row || row.deletedAt) return row;
+
+    const deletedAt = new Date();
+    const trash = async (type: TrashableType, id: number): Promise<TrashedRecord | undefined> => {
+      for (const child of await trashedTogether(tx, type, id)) {
+        if (!(await ACCESS[child.type].get(tx, child.id))?.deletedAt) {
+          await trash(child.type, child.id);
+        }
+      }
+      return ACCESS[type].setDeletedAt(tx, id, deletedAt);
+    };
+    return trash(type, id);
+  });
+}
+
+// Takes the row out of the trash, along with the profiles trashed in the same operation.
+// Undefined when the row is not in the trash.
+export function restoreFromTrash(storage: IStorage, type: TrashableType, id: number): Promise<TrashedRecord | undefined> {
+  return storage.transaction(async (tx) => {
+    const row = await ACCESS[type].get(tx, id);
+    if (!row?.deletedAt) return undefined;
+
+    const owner = ACCESS[type].owner?.(row);
+    if (owner && (await ACCESS[owner.type].get(tx, owner.id))?.deletedAt) {
+      throw new TrashError(`Restore the ${owner.type} account this ${type} profile belongs to first`);
+    }
+
+    const deletedAt = new Date(row.deletedAt).getTime();
+    const restore = async (type: TrashableType, id: number): Promise<TrashedRecord | undefined> => {
+      for (const child of await trashedTogether(tx, type, id)) {
+        const childRow = await ACCESS[child.type].get(tx, child.id);
+        if (childRow?.deletedAt && new Date(childRow.deletedAt).getTime() === deletedAt) {
+          await restore(child.type, child.id);
+        }
+      }
+      return ACCESS[type].setDeletedAt(tx, id, null);
+    };
+    return restore(type, id);
+  });
+}
+
+// Deletes a trashed row for good, cascading to its dependent records. Restrict rules block it with an
+// IntegrityError, and so do archive rules: a purged row cannot fall back to being archived.
+// False when the row is not in the trash.
+export function purgeFromTrash(storage: IStorage, type: TrashableType, id: number): Promise<boolean> {
+  return storage.transaction(async (tx) => {
+    const row = await ACCESS[type].get(tx, id);
+    if (!row?.deletedAt) return false;
+
+    await planDelete(tx, type, id, { archive: false });
+    return ACCESS[type].purge(tx, id);
+  });
+}
+
+// Everything in the trash with a display label, most recently deleted first
+export async function listTrash(storage: IStorage) {
+  const userName = async (userId: number) => (await storage.getUser(userId))?.name ?? `User #${userId}`;
+  const items: { type: TrashableType; id: number; label: string; deletedAt: Date }[] = [];
+
+  for (const type of TRASHABLE_TYPES) {
+    for (const row of await storage.getDeletedRecords(type)) {
+      let label: string;
+      switch (type) {
+        case "user": {
+          const user = row as User;
+          label = `${user.name} (${user.username})`;
+          break;
+        }
+        case "student": {
+          const student = row as Student;
+          label = `${await userName(student.userId)} (${student.studentId})`;
+          break;
+        }
+        case "faculty": {
+          const member = row as Faculty;
+          label = `${await userName(member.userId)} (${member.facultyId})`;
+          break;
+        }
+        case "course": {
+          const course = row as Course;
+          label = `${course.code} ${course.title}`;
+          break;
+        }
+        case "event":
+          label = (row as Event).title;
+          break;
+      }
+      items.push({ type, id: row.id, label, deletedAt: row.deletedAt! });
+    }
+  }
+
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
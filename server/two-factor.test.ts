@@ -0,0 +1,68 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { generateTotpSecret, hotp, timeStep } from "./totp";
+import { getTwoFactorRequiredRoles, issueRecoveryCodes, setTwoFactorRequiredRoles, verifySecondFactor } from "./two-factor";
+
+const storage = new MemStorage();
+let user: User;
+let recoveryCodes: string[];
+const secret = generateTotpSecret();
+
+before(async () => {
+  const created = await storage.createUser({
+    username: "two.factor",
+    password: "x",
+    email: "two.factor@college.edu",
+    role: "faculty",
+    name: "Two Factor",
+  });
+  await storage.updateUser(created.id, { twoFactorSecret: secret, twoFactorEnabled: true });
+  recoveryCodes = await issueRecoveryCodes(storage, created.id);
+  user = (await storage.getUser(created.id))!;
+});
+
+const current = async () => (await storage.getUser(user.id))!;
+
+describe("verifySecondFactor", () => {
+  test("accepts the current authenticator code once", async () => {
+    const code = hotp(secret, timeStep());
+    assert.equal(await verifySecondFactor(storage, await current(), { code }), true);
+    assert.equal(await verifySecondFactor(storage, await current(), { code }), false);
+  });
+
+  test("refuses a code from outside the drift window", async () => {
+    assert.equal(await verifySecondFactor(storage, await current(), { code: hotp(secret, timeStep() + 5) }), false);
+  });
+
+  test("consumes each recovery code once, and only stores their hashes", async () => {
+    assert.equal((await current()).twoFactorRecoveryCodes?.length, 10);
+    assert.ok(!(await current()).twoFactorRecoveryCodes?.includes(recoveryCodes[0]));
+
+    assert.equal(await verifySecondFactor(storage, await current(), { recoveryCode: recoveryCodes[0].toUpperCase() }), true);
+    assert.equal(await verifySecondFactor(storage, await current(), { recoveryCode: recoveryCodes[0] }), false);
+    assert.equal((await current()).twoFactorRecoveryCodes?.length, 9);
+  });
+
+  test("replaces unused recovery codes when new ones are issued", async () => {
+    const fresh = await issueRecoveryCodes(storage, user.id);
+    assert.equal(await verifySecondFactor(storage, await current(), { recoveryCode: recoveryCodes[1] }), false);
+    assert.equal(await verifySecondFactor(storage, await current(), { recoveryCode: fresh[1] }), true);
+  });
+
+  test("refuses every proof while two-factor is off", async () => {
+    await storage.updateUser(user.id, { twoFactorEnabled: false });
+    const fresh = await issueRecoveryCodes(storage, user.id);
+    assert.equal(await verifySecondFactor(storage, await current(), { code: hotp(secret, timeStep() + 1) }), false);
+    assert.equal(await verifySecondFactor(storage, await current(), { recoveryCode: fresh[0] }), false);
+  });
+});
+
+describe("required roles", () => {
+  test("start empty and are stored without duplicates", async () => {
+    assert.deepEqual(await getTwoFactorRequiredRoles(storage), []);
+    await setTwoFactorRequiredRoles(storage, ["admin", "faculty", "admin"]);
+    assert.deepEqual(await getTwoFactorRequiredRoles(storage), ["admin", "faculty"]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "./totp";
+
+// Name shown next to the account in authenticator apps
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "College Management";
+
+const REQUIRED_ROLES_SETTING = "twoFactor.requiredRoles";
+
+// Roles whose members must enroll in two-factor authentication before using the app
+export async function getTwoFactorRequiredRoles(storage: IStorage): Promise<string[]> {
+  const value = await storage.getSetting(REQUIRED_ROLES_SETTING);
+  return value ? JSON.parse(value) : [];
+}
+
+export async function setTwoFactorRequiredRoles(storage: IStorage, roles: string[]): Promise<void> {
+  await storage.setSetting(REQUIRED_ROLES_SETTING, JSON.stringify(Array.from(new Set(roles))));
+}
+
+// Creates a fresh set of recovery codes, replacing any unused ones; returns the plaintext codes
+export async function issueRecoveryCodes(storage: IStorage, userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.updateUser(userId, { twoFactorRecoveryCodes: codes.map(hashRecoveryCode) });
+  return codes;
+}
+
+// Checks an authenticator code (refusing replays) or consumes a recovery code
+export async function verifySecondFactor(
+  storage: IStorage,
+  user: User,
+  proof: { code: string } | { recoveryCode: string }
+): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  if ("code" in proof) {
+    const step = verifyTotp(user.twoFactorSecret, proof.code, { lastUsedStep: user.twoFactorLastStep });
+    if (step === null) return false;
+
+    await storage.updateUser(user.id, { twoFactorLastStep: step });
+    return true;
+  }
+
+  const hash = hashRecoveryCode(proof.recoveryCode);
+  const remaining = user.twoFactorRecoveryCodes ?? [];
+  if (!remaining.includes(hash)) return false;
+
+  await storage.updateUser(user.id, { twoFactorRecoveryCodes: remaining.filter((h) => h !== hash) });
+  return true;
+}
@@ -0,0 +1,151 @@
+import { beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Enrollment } from "@shared/schema";
+import { Mailer, type MailTransport, type SentMail } from "./mail";
+import { MemStorage } from "./storage";
+import { SectionFullError, checkSeatAvailable, fillSection, notifyPromoted, placeEnrollment, sectionSeats } from "./waitlists";
+
+let storage: MemStorage;
+let section: number;
+let students = 0;
+
+const newStudent = async () => {
+  const n = ++students;
+  const user = await storage.createUser({ username: `wait.${n}`, password: "x", email: `wait.${n}@college.edu`, role: "student", name: `Waiting ${n}` });
+  return (await storage.createStudent({ userId: user.id, studentId: `WAIT-${n}`, program: "Testing", yearLevel: 1, status: "active" })).id;
+};
+
+// Enrolls a new student where placeEnrollment puts them, as the enrollment routes do
+const enrollNew = async () =>
+  storage.createEnrollment(await placeEnrollment(storage, { studentId: await newStudent(), courseAssignmentId: section }));
+
+const waitlisted = async () =>
+  (await storage.getEnrollmentsByCourseAssignment(section))
+    .filter((enrollment) => enrollment.status === "waitlisted")
+    .sort((a, b) => a.waitlistPosition! - b.waitlistPosition!)
+    .map((enrollment) => [enrollment.id, enrollment.waitlistPosition]);
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  students = 0;
+  const course = await storage.createCourse({ code: "WAIT101", title: "Waiting", credits: 3, department: "Testing" });
+  const [term] = await storage.getAllTerms();
+  const [faculty] = await storage.getAllFaculty();
+  section = (await storage.createCourseAssignment({ courseId: course.id, facultyId: faculty.id, termId: term.id, capacity: 2 })).id;
+});
+
+describe("placeEnrollment", () => {
+  test("gives seats while there are any, then places students at the end of the waitlist", async () => {
+    const placed = [];
+    for (let i = 0; i < 4; i++) placed.push(await enrollNew());
+
+    assert.deepEqual(placed.map((enrollment) => [enrollment.status, enrollment.waitlistPosition]), [
+      ["enrolled", null],
+      ["enrolled", null],
+      ["waitlisted", 1],
+      ["waitlisted", 2],
+    ]);
+    assert.deepEqual(await sectionSeats(storage, (await storage.getCourseAssignment(section))!), {
+      capacity: 2,
+      enrolled: 2,
+      waitlisted: 2,
+      available: 0,
+    });
+  });
+
+  test("always gives a seat in a section without a limit", async () => {
+    await storage.updateCourseAssignment(section, { capacity: null });
+    for (let i = 0; i < 3; i++) assert.equal((await enrollNew()).status, "enrolled");
+  });
+
+  test("leaves enrollments recorded with another status alone", async () => {
+    for (let i = 0; i < 2; i++) await enrollNew();
+    const data = await placeEnrollment(storage, { studentId: await newStudent(), courseAssignmentId: section, status: "completed", waitlistPosition: 4 });
+
+    assert.equal(data.status, "completed");
+    assert.equal(data.waitlistPosition, null);
+  });
+});
+
+describe("checkSeatAvailable", () => {
+  test("refuses a seat in a full section", async () => {
+    await enrollNew();
+    await checkSeatAvailable(storage, section);
+    await enrollNew();
+
+    await assert.rejects(checkSeatAvailable(storage, section), (error) =>
+      error instanceof SectionFullError && error.message === "WAIT101 is full (2 of 2 seats taken)"
+    );
+  });
+});
+
+describe("fillSection", () => {
+  test("promotes the next in line into a freed seat and renumbers the rest from 1", async () => {
+    const [seated] = [await enrollNew(), await enrollNew()];
+    const [first, second, third] = [await enrollNew(), await enrollNew(), await enrollNew()];
+    await storage.updateEnrollment(seated.id, { status: "dropped" });
+
+    const promoted = await fillSection(storage, section);
+
+    assert.deepEqual(promoted.map((enrollment) => [enrollment.id, enrollment.status, enrollment.waitlistPosition]), [[first.id, "enrolled", null]]);
+    assert.deepEqual(await waitlisted(), [[second.id, 1], [third.id, 2]]);
+  });
+
+  test("follows waitlist positions rather than creation order", async () => {
+    for (let i = 0; i < 2; i++) await enrollNew();
+    const [early, late] = [await enrollNew(), await enrollNew()];
+    await storage.updateEnrollment(early.id, { waitlistPosition: 2 });
+    await storage.updateEnrollment(late.id, { waitlistPosition: 1 });
+    await storage.updateCourseAssignment(section, { capacity: 3 });
+
+    assert.deepEqual((await fillSection(storage, section)).map((enrollment) => enrollment.id), [late.id]);
+    assert.deepEqual(await waitlisted(), [[early.id, 1]]);
+  });
+
+  test("fills every new seat when the capacity is raised, and everyone once the limit is lifted", async () => {
+    for (let i = 0; i < 2; i++) await enrollNew();
+    const waiting: Enrollment[] = [];
+    for (let i = 0; i < 4; i++) waiting.push(await enrollNew());
+
+    await storage.updateCourseAssignment(section, { capacity: 4 });
+    assert.deepEqual((await fillSection(storage, section)).map((enrollment) => enrollment.id), [waiting[0].id, waiting[1].id]);
+
+    await storage.updateCourseAssignment(section, { capacity: null });
+    assert.deepEqual((await fillSection(storage, section)).map((enrollment) => enrollment.id), [waiting[2].id, waiting[3].id]);
+    assert.deepEqual(await waitlisted(), []);
+  });
+
+  test("promotes nobody while the section is full", async () => {
+    for (let i = 0; i < 3; i++) await enrollNew();
+    assert.deepEqual(await fillSection(storage, section), []);
+  });
+});
+
+describe("notifyPromoted", () => {
+  class CapturingTransport implements MailTransport {
+    sent: SentMail[] = [];
+    constructor(private failFor?: string) {}
+
+    async send(mail: SentMail): Promise<void> {
+      if (mail.to === this.failFor) throw new Error("Mail server down");
+      this.sent.push(mail);
+    }
+  }
+
+  test("tells each promoted student, carrying on past a failed message", async () => {
+    for (let i = 0; i < 4; i++) await enrollNew();
+    await storage.updateCourseAssignment(section, { capacity: 4 });
+    const promoted = await fillSection(storage, section);
+
+    const transport = new CapturingTransport("wait.3@college.edu");
+    const logged = mock.method(console, "error", () => {});
+    try {
+      await notifyPromoted(storage, new Mailer(transport, "test@college.local"), promoted);
+    } finally {
+      logged.mock.restore();
+    }
+
+    assert.deepEqual(transport.sent.map((mail) => [mail.to, mail.subject]), [["wait.4@college.edu", "You are now enrolled in WAIT101"]]);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,123 @@
+import type { CourseAssignment, Enrollment, InsertEnrollment } from "@shared/schema";
+import type { Mailer } from "./mail";
+import type { IStorage } from "./storage";
+
+// Why an enrollment change was refused by a section's seats or waitlist
+export class WaitlistError extends Error {
+  status = 400;
+}
+
+// A seat was asked for in a section that has none left
+export class SectionFullError extends Error {
+  status = 409;
+}
+
+// Seats taken and free in a section, and how many students wait for one; available is null without a limit
+export async function sectionSeats(storage: IStorage, section: CourseAssignment) {
+  const enrollments = await storage.getEnrollmentsByCourseAssignment(section.id);
+  const enrolled = enrollments.filter((enrollment) => enrollment.status === "enrolled").length;
+  const capacity = section.capacity ?? null;
+
+  return {
+    capacity,
+    enrolled,
+    waitlisted: enrollments.filter((enrollment) => enrollment.status === "waitlisted").length,
+    available: capacity === null ? null : Math.max(0, capacity - enrolled)
+  };
+}
+
+// The section's waitlist, next in line first
+async function waitlistOf(storage: IStorage, courseAssignmentId: number): Promise<Enrollment[]> {
+  const enrollments = await storage.getEnrollmentsByCourseAssignment(courseAssignmentId);
+  return enrollments
+    .filter((enrollment) => enrollment.status === "waitlisted")
+    .sort((a, b) => (a.waitlistPosition ?? Infinity) - (b.waitlistPosition ?? Infinity) || a.id - b.id);
+}
+
+// Where a new enrollment goes: a seat while any are free, otherwise the end of the waitlist.
+// Enrollments created with another status (e.g. recording a completed course) are left alone.
+// Seat checks here and below lock the section, so they belong inside a transaction.
+export async function placeEnrollment(storage: IStorage, data: InsertEnrollment): Promise<InsertEnrollment> {
+  if (data.status !== undefined && data.status !== "enrolled" && data.status !== "waitlisted") {
+    return { ...data, waitlistPosition: null };
+  }
+
+  const section = await storage.lockCourseAssignment(data.courseAssignmentId);
+  const seats = section ? await sectionSeats(storage, section) : undefined;
+  if (!seats || seats.available === null || seats.available > 0) {
+    return { ...data, status: "enrolled", waitlistPosition: null };
+  }
+
+  const waitlist = await waitlistOf(storage, data.courseAssignmentId);
+  return { ...data, status: "waitlisted", waitlistPosition: waitlist.length + 1 };
+}
+
+// Refuses a seat in a full section to an enrollment that does not hold one there yet
+export async function checkSeatAvailable(storage: IStorage, courseAssignmentId: number) {
+  const section = await storage.lockCourseAssignment(courseAssignmentId);
+  if (!section) return;
+
+  const seats = await sectionSeats(storage, section);
+  if (seats.available === 0) {
+    const course = await storage.getCourse(section.courseId);
+    throw new SectionFullError(
+      `${course?.code ?? "This section"} is full (${seats.enrolled} of ${seats.capacity} seats taken)`
+    );
+  }
+}
+
+// Moves students off the waitlist, in order, into any free seats, then numbers the remaining
+// positions from 1 again. Returns the enrollments that got a seat.
+export async function fillSection(storage: IStorage, courseAssignmentId: number): Promise<Enrollment[]> {
+  const section = await storage.lockCourseAssignment(courseAssignmentId);
+  if (!section) return [];
+
+  const { available } = await sectionSeats(storage, section);
+  const waitlist = await waitlistOf(storage, courseAssignmentId);
+  const promotable = available === null ? waitlist.length : Math.min(available, waitlist.length);
+
+  const promoted: Enrollment[] = [];
+  for (const enrollment of waitlist.slice(0, promotable)) {
+    const updated = await storage.updateEnrollment(enrollment.id, {
+      status: "enrolled",
+      waitlistPosition: null,
+      enrollmentDate: new Date()
+    });
+    if (updated) promoted.push(updated);
+  }
+
+  const remaining = waitlist.slice(promotable);
+  for (const [index, enrollment] of Array.from(remaining.entries())) {
+    if (enrollment.waitlistPosition !== index + 1) {
+      await storage.updateEnrollment(enrollment.id, { waitlistPosition: index + 1 });
+    }
+  }
+  return promoted;
+}
+
+// Tells each promoted student they have a seat now. Mail failures are logged, not raised: the
+// promotion has already been saved by the time this runs.
+export async function notifyPromoted(storage: IStorage, mailer: Mailer, promoted: Enrollment[]) {
+  for (const enrollment of promoted) {
+    try {
+      const student = await storage.getStudent(enrollment.studentId);
+      const user = student ? await storage.getUser(student.userId) : undefined;
+      const section = await storage.getCourseAssignment(enrollment.courseAssignmentId);
+      const course = section ? await storage.getCourse(section.courseId) : undefined;
+      const term = section ? await storage.getTerm(section.termId) : undefined;
+      if (!user || !course) continue;
+
+      await mailer.send({
+        to: user.email,
+        subject: `You are now enrolled in ${course.code}`,
+        text:
+          `Hello ${user.name},\n\n` +
+          `A seat opened up in ${course.code} ${course.title}${term ? ` (${term.name})` : ""}, ` +
+          `so you have been moved off the waitlist and enrolled.\n\n` +
+          `If you no longer want the seat, drop it on the registration page before the add/drop deadline.\n`,
+      });
+    } catch (error) {
+      console.error(`Failed to notify the student of enrollment ${enrollment.id}:`, error);
+    }
+  }
+}
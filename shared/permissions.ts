@@ -0,0 +1,136 @@
+// Permission catalog shared by the API and the client.
+// Names follow resource:action:scope, where the scope says which rows the permission covers:
+// - any:        every row
+// - own-course: rows belonging to the sections the user teaches
+// - self:       the user's own rows (their account, student profile, enrollments and records)
+// Row-level scopes are resolved on the server by the policy layer.
+
+export const ROLES = ["admin", "faculty", "student"] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = {
+  "users:read:any": "View any user account",
+  "users:read:self": "View your own account",
+  "users:write:any": "Create, edit and delete any user account, and reset passwords",
+  "users:write:self": "Edit your own account and change your password",
+  "roles:read:any": "View the role permission matrix",
+  "users:impersonate:any": "View the app as another (non-admin) user, for support",
+  "two-factor:write:self": "Enroll in and manage two-factor authentication for your account",
+  "settings:write:any": "Change system-wide security settings, such as which roles must use two-factor authentication",
+  "audit:read:any": "View the audit log of every data change",
+  "trash:write:any": "View deleted records, restore them or purge them for good",
+
+  "students:read:any": "View every student profile",
+  "students:read:own-course": "View students enrolled in sections you teach",
+  "students:read:self": "View your own student profile",
+  "students:write:any": "Create, edit and delete student profiles",
+
+  "faculty:read:any": "View the faculty directory",
+  "faculty:write:any": "Create, edit and delete faculty profiles",
+
+  "courses:read:any": "View the course catalog",
+  "courses:write:any": "Create, edit and archive courses, and set their prerequisites",
+
+  "requisites:override:any": "Let any student enroll without meeting a course's prerequisites, with a reason",
+  "requisites:consent:any": "Record instructor consent for any course",
+  "requisites:consent:own-course": "Give consent to take courses you teach",
+
+  "terms:read:any": "View academic terms and their deadlines",
+  "terms:write:any": "Create and edit academic terms, and set the current term",
+
+  "course-assignments:read:any": "View every course section",
+  "course-assignments:read:own-course": "View the sections you teach",
+  "course-assignments:read:self": "View the sections you are enrolled in",
+  "course-assignments:write:any": "Assign instructors to courses and set when and where sections meet",
+
+  "rooms:read:any": "View rooms and their weekly timetables",
+  "rooms:write:any": "Create, edit and delete rooms",
+
+  "enrollments:read:any": "View every enrollment",
+  "enrollments:read:own-course": "View enrollments in sections you teach",
+  "enrollments:read:self": "View your own enrollments",
+  "enrollments:write:any": "Enroll, update and drop any student",
+  "enrollments:write:own-course": "Update enrollments in sections you teach",
+  "enrollments:write:self": "Register for and drop sections during the add/drop window",
+
+  "attendance:read:any": "View all attendance records",
+  "attendance:read:own-course": "View attendance in sections you teach",
+  "attendance:read:self": "View your own attendance",
+  "attendance:write:any": "Record and edit any attendance",
+  "attendance:write:own-course": "Record and edit attendance in sections you teach",
+
+  "grades:read:any": "View all grades",
+  "grades:read:own-course": "View grades in sections you teach",
+  "grades:read:self": "View your own grades",
+  "grades:write:any": "Record and edit any grade",
+  "grades:write:own-course": "Record and edit grades in sections you teach",
+
+  "grade-scales:read:any": "View grading scales",
+  "grade-scales:write:any": "Create, edit and delete grading scales and assign them to programs",
+
+  "events:read:any": "View events",
+  "events:write:any": "Create, edit and delete events",
+
+  "reports:read:any": "View institution-wide reports",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    "users:read:any", "users:read:self", "users:write:any", "users:write:self", "roles:read:any",
+    "users:impersonate:any",
+    "two-factor:write:self", "settings:write:any", "audit:read:any", "trash:write:any",
+    "students:read:any", "students:write:any",
+    "faculty:read:any", "faculty:write:any",
+    "courses:read:any", "courses:write:any",
+    "requisites:override:any", "requisites:consent:any",
+    "terms:read:any", "terms:write:any",
+    "course-assignments:read:any", "course-assignments:write:any",
+    "rooms:read:any", "rooms:write:any",
+    "enrollments:read:any", "enrollments:write:any",
+    "attendance:read:any", "attendance:write:any",
+    "grades:read:any", "grades:write:any",
+    "grade-scales:read:any", "grade-scales:write:any",
+    "events:read:any", "events:write:any",
+    "reports:read:any",
+  ],
+  faculty: [
+    "users:read:self", "users:write:self", "two-factor:write:self",
+    "students:read:own-course",
+    "faculty:read:any",
+    "courses:read:any",
+    "requisites:consent:own-course",
+    "terms:read:any",
+    "course-assignments:read:own-course",
+    "rooms:read:any",
+    "enrollments:read:own-course", "enrollments:write:own-course",
+    "attendance:read:own-course", "attendance:write:own-course",
+    "grades:read:own-course", "grades:write:own-course",
+    "grade-scales:read:any",
+    "events:read:any",
+  ],
+  student: [
+    "users:read:self", "users:write:self",
+    "students:read:self",
+    "faculty:read:any",
+    "courses:read:any",
+    "terms:read:any",
+    "course-assignments:read:self",
+    "rooms:read:any",
+    "enrollments:read:self", "enrollments:write:self",
+    "attendance:read:self",
+    "grades:read:self",
+    "grade-scales:read:any",
+    "events:read:any",
+  ],
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as Role]?.includes(permission) ?? false);
+}
+
+// True when the role holds at least one of the permissions
+export function hasAnyPermission(role: string | undefined, permissions: Permission[]): boolean {
+  return permissions.some((permission) => hasPermission(role, permission));
+}
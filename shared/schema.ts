@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, json, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,9 +12,25 @@ export const users = pgTable("users", {
   role: text("role").notNull(), // "admin", "faculty", "student"
   name: text("name").notNull(),
   profileImage: text("profile_image"),
+  // TOTP two-factor authentication; the secret is set during enrollment and only used once enabled
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorRecoveryCodes: text("two_factor_recovery_codes").array(), // sha256 hashes of unused codes
+  twoFactorLastStep: integer("two_factor_last_step"), // last accepted time step, to refuse replayed codes
+  deletedAt: timestamp("deleted_at"), // set while the account is in the trash
+  version: integer("version").notNull().default(1), // bumped by every update, for optimistic concurrency
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+// Two-factor columns are managed by the /api/auth/2fa endpoints only, deletedAt by the trash endpoints
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  twoFactorSecret: true,
+  twoFactorEnabled: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+  deletedAt: true,
+  version: true,
+});
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
@@ -26,10 +43,15 @@ export const students = pgTable("students", {
   yearLevel: integer("year_level").notNull(),
   status: text("status").notNull().default("active"), // "active", "inactive", "on leave"
   enrollmentDate: timestamp("enrollment_date").notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the profile is in the trash
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertStudentSchema = createInsertSchema(students).omit({ id: true });
+export const insertStudentSchema = createInsertSchema(students).omit({ id: true, deletedAt: true, version: true });
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
+
+// Updates take any subset of the fields, never the id, version or trash state; dates arrive as ISO strings
+export const updateStudentSchema = insertStudentSchema.partial().extend({ enrollmentDate: z.coerce.date().optional() });
 export type Student = typeof students.$inferSelect;
 
 // Faculty schema
@@ -41,12 +63,51 @@ export const faculty = pgTable("faculty", {
   position: text("position").notNull(),
   joinDate: timestamp("join_date").notNull().defaultNow(),
   status: text("status").notNull().default("active"), // "active", "inactive", "on leave"
+  deletedAt: timestamp("deleted_at"), // set while the profile is in the trash
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertFacultySchema = createInsertSchema(faculty).omit({ id: true });
+export const insertFacultySchema = createInsertSchema(faculty).omit({ id: true, deletedAt: true, version: true });
 export type InsertFaculty = z.infer<typeof insertFacultySchema>;
+
+export const updateFacultySchema = insertFacultySchema.partial().extend({ joinDate: z.coerce.date().optional() });
 export type Faculty = typeof faculty.$inferSelect;
 
+// Grading scales turn a course's final percentage into a letter or pass/fail grade. A course names
+// its scale, or takes the one of the student's program, or the default scale.
+export const gradeScales = pgTable("grade_scales", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  bands: json("bands").$type<GradeBand[]>().notNull(),
+  programs: text("programs").array().notNull().default([]), // student programs graded on this scale
+  isDefault: boolean("is_default").notNull().default(false), // at most one scale is the default
+  version: integer("version").notNull().default(1), // bumped by every update
+});
+
+// One grade of a scale, earned from minPercentage up to the next band. Grades without grade points
+// (e.g. pass/fail) do not count towards the GPA.
+export type GradeBand = {
+  grade: string;
+  minPercentage: number;
+  gradePoints: number | null;
+  passing: boolean;
+};
+
+export const gradeBandSchema = z.object({
+  grade: z.string().trim().min(1, "Grade is required").max(4),
+  minPercentage: z.number().min(0).max(100),
+  gradePoints: z.number().min(0).max(5).nullable(),
+  passing: z.boolean(),
+});
+
+export const insertGradeScaleSchema = createInsertSchema(gradeScales).omit({ id: true, version: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  bands: z.array(gradeBandSchema).min(1, "A scale needs at least one grade"),
+  programs: z.array(z.string().trim().min(1)).optional(),
+});
+export type InsertGradeScale = z.infer<typeof insertGradeScaleSchema>;
+export type GradeScale = typeof gradeScales.$inferSelect;
+
 // Course schema
 export const courses = pgTable("courses", {
   id: serial("id").primaryKey(),
@@ -56,22 +117,105 @@ export const courses = pgTable("courses", {
   credits: integer("credits").notNull(),
   department: text("department").notNull(),
   status: text("status").notNull().default("active"), // "active", "pending", "archived"
+  gradeScaleId: integer("grade_scale_id").references(() => gradeScales.id), // overrides the program and default scales
+  deletedAt: timestamp("deleted_at"), // set while the course is in the trash
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertCourseSchema = createInsertSchema(courses).omit({ id: true });
+export const insertCourseSchema = createInsertSchema(courses).omit({ id: true, deletedAt: true, version: true });
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
+
+export const updateCourseSchema = insertCourseSchema.partial();
 export type Course = typeof courses.$inferSelect;
 
-// Course Assignment (linking courses to faculty)
+// What a student needs before enrolling in a course. Rules of the same type and group are
+// alternatives, any one of which meets the group, and every group has to be met. A rule without a
+// required course stands for "or instructor consent".
+export const courseRequisites = pgTable("course_requisites", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull().references(() => courses.id),
+  type: text("type").notNull(), // "prerequisite" (completed before), "corequisite" (completed or taken the same term)
+  group: integer("group_number").notNull(),
+  requiredCourseId: integer("required_course_id").references(() => courses.id), // null: instructor consent
+  minGrade: integer("min_grade"), // lowest final percentage that counts; null: completing the course is enough
+});
+
+export const REQUISITE_TYPES = ["prerequisite", "corequisite"] as const;
+export type RequisiteType = (typeof REQUISITE_TYPES)[number];
+
+export const insertCourseRequisiteSchema = createInsertSchema(courseRequisites).omit({ id: true }).extend({
+  type: z.enum(REQUISITE_TYPES),
+  group: z.number().int().min(1),
+  minGrade: z.number().int().min(0).max(100).nullish(),
+});
+export type InsertCourseRequisite = z.infer<typeof insertCourseRequisiteSchema>;
+export type CourseRequisite = typeof courseRequisites.$inferSelect;
+
+// Replacing all the rules of a course at once
+export const courseRequisitesUpdateSchema = z.object({
+  rules: z.array(insertCourseRequisiteSchema.omit({ courseId: true })),
+});
+
+// Exceptions to a course's requisites for one student: instructor consent meets the consent rules,
+// an override waives the requisites altogether. Granter columns copy the name, like the audit log.
+export const requisiteWaivers = pgTable("requisite_waivers", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull().references(() => students.id),
+  courseId: integer("course_id").notNull().references(() => courses.id),
+  kind: text("kind").notNull(), // "consent", "override"
+  reason: text("reason").notNull(),
+  grantedById: integer("granted_by_id"),
+  grantedByName: text("granted_by_name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const REQUISITE_WAIVER_KINDS = ["consent", "override"] as const;
+
+export const insertRequisiteWaiverSchema = createInsertSchema(requisiteWaivers).omit({ id: true, createdAt: true }).extend({
+  kind: z.enum(REQUISITE_WAIVER_KINDS),
+  reason: z.string().trim().min(1, "A reason is required").max(500, "Reason is too long"),
+});
+export type InsertRequisiteWaiver = z.infer<typeof insertRequisiteWaiverSchema>;
+export type RequisiteWaiver = typeof requisiteWaivers.$inferSelect;
+
+// Recording a waiver; who grants it comes from the session
+export const createRequisiteWaiverSchema = insertRequisiteWaiverSchema.omit({ grantedById: true, grantedByName: true });
+
+// Academic terms. Deadlines are inclusive calendar days; exactly one term is flagged as current.
+export const terms = pgTable("terms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // e.g. "Fall 2026"
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  addDropDeadline: timestamp("add_drop_deadline").notNull(), // last day to enroll in or drop a section
+  gradesDueDate: timestamp("grades_due_date").notNull(), // last day grades can be entered
+  isCurrent: boolean("is_current").notNull().default(false),
+  version: integer("version").notNull().default(1), // bumped by every update
+});
+
+// Dates arrive as ISO strings from the term form
+export const insertTermSchema = createInsertSchema(terms).omit({ id: true, version: true }).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  addDropDeadline: z.coerce.date(),
+  gradesDueDate: z.coerce.date(),
+});
+export type InsertTerm = z.infer<typeof insertTermSchema>;
+export type Term = typeof terms.$inferSelect;
+
+// Course Assignment (linking courses to faculty for a term)
 export const courseAssignments = pgTable("course_assignments", {
   id: serial("id").primaryKey(),
   courseId: integer("course_id").notNull().references(() => courses.id),
   facultyId: integer("faculty_id").notNull().references(() => faculty.id),
-  semester: text("semester").notNull(),
-  year: integer("year").notNull(),
+  termId: integer("term_id").notNull().references(() => terms.id),
+  capacity: integer("capacity"), // seats; null: no limit
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertCourseAssignmentSchema = createInsertSchema(courseAssignments).omit({ id: true });
+export const insertCourseAssignmentSchema = createInsertSchema(courseAssignments).omit({ id: true, version: true }).extend({
+  capacity: z.number().int().min(1).nullish(),
+});
 export type InsertCourseAssignment = z.infer<typeof insertCourseAssignmentSchema>;
 export type CourseAssignment = typeof courseAssignments.$inferSelect;
 
@@ -81,13 +225,106 @@ export const enrollments = pgTable("enrollments", {
   studentId: integer("student_id").notNull().references(() => students.id),
   courseAssignmentId: integer("course_assignment_id").notNull().references(() => courseAssignments.id),
   enrollmentDate: timestamp("enrollment_date").notNull().defaultNow(),
-  status: text("status").notNull().default("enrolled"), // "enrolled", "dropped", "completed"
-});
+  status: text("status").notNull().default("enrolled"), // "enrolled", "waitlisted", "dropped", "completed"
+  waitlistPosition: integer("waitlist_position"), // 1 is next in line; set while waitlisted only
+  version: integer("version").notNull().default(1), // bumped by every update
+}, (table) => ({
+  // A student holds at most one seat or waitlist place in a section; dropped and completed ones may repeat
+  activeIdx: uniqueIndex("enrollments_active_student_section_idx")
+    .on(table.studentId, table.courseAssignmentId)
+    .where(sql`${table.status} in ('enrolled', 'waitlisted')`),
+}));
 
-export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({ id: true });
+export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({ id: true, version: true });
 export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
+
+// An enrollment stays with its student; enrolling someone else takes a new enrollment
+export const updateEnrollmentSchema = insertEnrollmentSchema
+  .omit({ studentId: true })
+  .partial()
+  .extend({ enrollmentDate: z.coerce.date().optional() });
+
+// Changing a section's seat count
+export const sectionCapacitySchema = insertCourseAssignmentSchema.pick({ capacity: true }).required();
+
+// Rooms sections meet in
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // e.g. "SCI 101"
+  building: text("building").notNull(),
+  capacity: integer("capacity").notNull(), // seats
+  version: integer("version").notNull().default(1), // bumped by every update
+});
+
+export const insertRoomSchema = createInsertSchema(rooms).omit({ id: true, version: true }).extend({
+  name: z.string().trim().min(1, "Room name is required"),
+  building: z.string().trim().min(1, "Building is required"),
+  capacity: z.number().int().min(1),
+});
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type Room = typeof rooms.$inferSelect;
+
+// A weekly meeting pattern of a course section: the days it meets, from start to end time, and
+// where. Times are 24-hour "HH:MM" strings; a section can have several patterns (e.g. lecture and lab).
+export const sectionMeetings = pgTable("section_meetings", {
+  id: serial("id").primaryKey(),
+  courseAssignmentId: integer("course_assignment_id").notNull().references(() => courseAssignments.id),
+  days: text("days").array().notNull(), // "mon" ... "sun"
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  roomId: integer("room_id").references(() => rooms.id), // null: no room booked yet
+});
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour HH:MM time");
+
+export const insertSectionMeetingSchema = createInsertSchema(sectionMeetings).omit({ id: true }).extend({
+  days: z.array(z.enum(WEEKDAYS)).min(1, "Pick at least one day"),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  roomId: z.number().int().nullish(),
+});
+export type InsertSectionMeeting = z.infer<typeof insertSectionMeetingSchema>;
+export type SectionMeeting = typeof sectionMeetings.$inferSelect;
+
+// Replacing all the meeting patterns of a section at once
+export const sectionMeetingsUpdateSchema = z.object({
+  meetings: z.array(insertSectionMeetingSchema.omit({ courseAssignmentId: true })),
+});
+
+// Creating a section, optionally with its meeting patterns
+export const createCourseAssignmentSchema = insertCourseAssignmentSchema.extend({
+  meetings: sectionMeetingsUpdateSchema.shape.meetings.optional(),
+});
+
+// Which term a timetable covers; without one, the current term
+export const timetableQuerySchema = z.object({
+  termId: z.coerce.number().int().optional(),
+});
+
+// Whose teaching the faculty enrollments list covers, for callers who can read any enrollment
+export const facultyEnrollmentsQuerySchema = z.object({
+  facultyId: z.coerce.number().int().positive().optional(),
+});
+
+// Enrolling a student; with an override reason, unmet requisites are waived and the override recorded
+export const createEnrollmentSchema = insertEnrollmentSchema.extend({
+  overrideReason: z.string().trim().min(1).max(500).optional(),
+});
 export type Enrollment = typeof enrollments.$inferSelect;
 
+// A student registering themselves for a section
+export const registrationSchema = z.object({
+  courseAssignmentId: z.number().int(),
+});
+
+// The most credits a student may register for in one term
+export const registrationSettingsSchema = z.object({
+  maxCredits: z.number().int().min(1, "Allow at least one credit").max(60),
+});
+
 // Attendance schema
 export const attendance = pgTable("attendance", {
   id: serial("id").primaryKey(),
@@ -95,10 +332,13 @@ export const attendance = pgTable("attendance", {
   date: timestamp("date").notNull().defaultNow(),
   status: text("status").notNull(), // "present", "absent", "late", "excused"
   notes: text("notes"),
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertAttendanceSchema = createInsertSchema(attendance).omit({ id: true });
+export const insertAttendanceSchema = createInsertSchema(attendance).omit({ id: true, version: true });
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
+
+export const updateAttendanceSchema = insertAttendanceSchema.partial().extend({ date: z.coerce.date().optional() });
 export type Attendance = typeof attendance.$inferSelect;
 
 // Grades schema
@@ -110,10 +350,24 @@ export const grades = pgTable("grades", {
   maxScore: integer("max_score").notNull(),
   weight: integer("weight").notNull(), // percentage weight of the assignment
   date: timestamp("date").notNull().defaultNow(),
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertGradeSchema = createInsertSchema(grades).omit({ id: true });
+export const insertGradeSchema = createInsertSchema(grades).omit({ id: true, version: true }).extend({
+  maxScore: z.number().int().positive("Maximum score must be greater than 0"),
+});
 export type InsertGrade = z.infer<typeof insertGradeSchema>;
+
+// Holders of grades:write:any may enter or correct grades after the term's grades due date by giving a reason
+const gradeOverrideReason = z.string().trim().min(1).max(500).optional();
+export const createGradeSchema = insertGradeSchema.extend({
+  date: z.coerce.date().optional(),
+  overrideReason: gradeOverrideReason,
+});
+export const updateGradeSchema = insertGradeSchema.partial().extend({
+  date: z.coerce.date().optional(),
+  overrideReason: gradeOverrideReason,
+});
 export type Grade = typeof grades.$inferSelect;
 
 // Events schema
@@ -125,12 +379,100 @@ export const events = pgTable("events", {
   endDate: timestamp("end_date").notNull(),
   location: text("location"),
   type: text("type").notNull(), // "academic", "administrative", "extracurricular"
+  deletedAt: timestamp("deleted_at"), // set while the event is in the trash
+  version: integer("version").notNull().default(1), // bumped by every update
 });
 
-export const insertEventSchema = createInsertSchema(events).omit({ id: true });
+export const insertEventSchema = createInsertSchema(events).omit({ id: true, deletedAt: true, version: true });
 export type InsertEvent = z.infer<typeof insertEventSchema>;
+
+export const updateEventSchema = insertEventSchema.partial().extend({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
 export type Event = typeof events.$inferSelect;
 
+// System-wide settings changed at runtime, stored as JSON-encoded values
+export const settings = pgTable("settings", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  value: text("value").notNull(),
+});
+
+export type Setting = typeof settings.$inferSelect;
+
+// Single-use password reset tokens; only a hash of the emailed token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true, createdAt: true });
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// Personal API tokens for scripts and integrations; only a hash of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // start of the token, so users can tell their tokens apart
+  scopes: text("scopes").array().notNull(),
+  expiresAt: timestamp("expires_at"), // null: never expires
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({ id: true, createdAt: true });
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// "read" allows GET requests, "write" allows everything else
+export const API_TOKEN_SCOPES = ["read", "write"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// Append-only record of every change made through storage. entityId is text so that settings,
+// which are keyed by name, fit alongside numeric ids. Actor columns copy the names, so entries
+// stay readable after the account is deleted.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(),
+  entityId: text("entity_id").notNull(),
+  action: text("action").notNull(), // "create", "update", "delete", "override" (why a check was waived); impersonation entries: "started", "ended", "expired", "action"
+  actorId: integer("actor_id"), // null for system changes and signed-out requests
+  actorName: text("actor_name").notNull(),
+  impersonatorId: integer("impersonator_id"), // the admin, when the change was made while viewing as the actor
+  impersonatorName: text("impersonator_name"),
+  ip: text("ip"),
+  changes: json("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+}));
+
+// Field name to old and new value; secrets are stored as "[redacted]"
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({ id: true, createdAt: true });
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+// Sign-in sessions, written by connect-pg-simple when sessions are kept in Postgres.
+// Declared here so schema pushes leave the table alone; the app never queries it through drizzle.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
 // Login schema (not a database table, just for validation)
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -138,3 +480,80 @@ export const loginSchema = z.object({
 });
 
 export type LoginCredentials = z.infer<typeof loginSchema>;
+
+// Second sign-in step: either a code from the authenticator app or a recovery code
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: z.string().min(1, "Code is required") }),
+  z.object({ recoveryCode: z.string().min(1, "Recovery code is required") }),
+]);
+
+export type TwoFactorLogin = z.infer<typeof twoFactorLoginSchema>;
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, "Code is required"),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.string()),
+});
+
+// "Forgot password" request and the follow-up with the emailed token
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+// Change-password request; the current password is required when changing your own
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+// Profiles created together with their user account in one request (not database tables)
+export const createStudentWithUserSchema = insertStudentSchema.omit({ userId: true }).extend({
+  user: insertUserSchema.omit({ role: true }),
+});
+
+export const createFacultyWithUserSchema = insertFacultySchema.omit({ userId: true }).extend({
+  user: insertUserSchema.omit({ role: true }),
+});
+
+// Bulk entry of a whole class session or assignment (dates arrive as ISO strings)
+export const bulkAttendanceSchema = z.object({
+  records: z.array(insertAttendanceSchema.extend({ date: z.coerce.date() })).min(1, "At least one record is required"),
+});
+
+export const bulkGradeSchema = z.object({
+  records: z.array(insertGradeSchema.extend({ date: z.coerce.date() })).min(1, "At least one record is required"),
+  overrideReason: gradeOverrideReason,
+});
+
+// Creating a personal API token; expiresInDays null means the token never expires
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
+// Filters for the audit log; dates are inclusive bounds on createdAt
+export const auditQuerySchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;